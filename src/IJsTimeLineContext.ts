@@ -6,9 +6,64 @@ import { LayerManager } from './core/LayerManager';
 import { SelectionManager } from './core/SelectionManager';
 import { KeyframeManager } from './core/KeyframeManager';
 import { TweenManager } from './core/TweenManager';
+import { HistoryManager } from './core/HistoryManager';
+import { InterpolationEngine } from './core/InterpolationEngine';
+import { EasingRegistry } from './core/EasingRegistry';
+import { LabelManager } from './core/LabelManager';
+import { ActionManager } from './core/ActionManager';
+import { OnionSkinManager } from './core/OnionSkinManager';
+import { RenderScheduler } from './core/RenderScheduler';
+import { ZoomManager } from './core/ZoomManager';
+import { KeymapManager } from './core/KeymapManager';
+import { CommandRegistry } from './core/CommandRegistry';
+import { PluginManager } from './core/PluginManager';
 import { IPlugin } from './plugins/IPlugin';
 
-export interface IJsTimeLineContext {
+/**
+ * Context shared by the data and the core managers
+ * It holds no DOM references, so the core also runs headless (Node, Web Workers)
+ */
+export interface ITimelineCoreContext {
+  // Core Services
+  Core: {
+    eventManager: EventManager;
+    stateManager: StateManager;
+    playbackEngine?: PlaybackEngine;
+    layerManager?: LayerManager;
+    selectionManager?: SelectionManager;
+    keyframeManager?: KeyframeManager;
+    tweenManager?: TweenManager;
+    historyManager?: HistoryManager;
+    interpolationEngine?: InterpolationEngine;
+    easingRegistry?: EasingRegistry;
+    labelManager?: LabelManager;
+    actionManager?: ActionManager;
+    onionSkinManager?: OnionSkinManager;
+    renderScheduler?: RenderScheduler;
+    zoomManager?: ZoomManager;
+    keymapManager?: KeymapManager;
+    commandRegistry?: CommandRegistry;
+    pluginManager?: PluginManager;
+  };
+
+  // Run several mutations and render their changes once at the end
+  batch<T>(fn: () => T): T;
+
+  // Read-only mode: the UI and editing commands do not change the data (optional, default false)
+  readOnly?: boolean;
+
+  // Data Management
+  Data: TimeLineData;
+
+  // Installed plugins by name (managed by the PluginManager)
+  Plugins: { [key: string]: IPlugin };
+}
+
+/**
+ * Context of the DOM control: the core context and the UI components,
+ * which render the changes the core reports through events
+ */
+export interface IJsTimeLineContext extends ITimelineCoreContext {
   // UI References
   UI: {
     root: HTMLElement;
@@ -26,22 +81,6 @@ export interface IJsTimeLineContext {
     timelineGrid?: any; // Will be TimelineGrid instance
     contextMenu?: any; // Will be ContextMenu instance
     tweenPropertiesDialog?: any; // Will be TweenPropertiesDialog instance
+    commandPalette?: any; // Will be CommandPalette instance
   };
-
-  // Core Services
-  Core: {
-    eventManager: EventManager;
-    stateManager: StateManager;
-    playbackEngine?: PlaybackEngine;
-    layerManager?: LayerManager;
-    selectionManager?: SelectionManager;
-    keyframeManager?: KeyframeManager;
-    tweenManager?: TweenManager;
-  };
-
-  // Data Management
-  Data: TimeLineData;
-
-  // Plugins
-  Plugins: { [key: string]: IPlugin };
 }
@@ -0,0 +1,26 @@
+import { ITimeLineData, ITimeLineSettings } from './data/ITimeLineData';
+import { IPlugin } from './plugins/IPlugin';
+
+/**
+ * Parts of the timeline UI that can be turned off
+ * Every feature is enabled by default
+ */
+export interface IJsTimeLineFeatures {
+  keyboardShortcuts?: boolean;  // Keymap shortcuts while the focus is in the timeline
+  contextMenus?: boolean;       // Right-click menus of the layer panel, ruler and grid
+  commandPalette?: boolean;     // Command palette (Ctrl+Shift+P)
+  toolbar?: boolean;            // Playback, zoom and plugin buttons in the corner
+}
+
+/**
+ * Options of a JsTimeLine instance
+ */
+export interface IJsTimeLineOptions {
+  container: HTMLElement | string;          // Element hosting the timeline, or its id
+  data?: ITimeLineData;                     // Initial data (optional, default an empty timeline); copied, not shared
+  settings?: Partial<ITimeLineSettings>;    // Overrides of the initial data settings (optional)
+  features?: IJsTimeLineFeatures;           // UI features to turn off (optional, default all enabled)
+  plugins?: IPlugin[];                      // Plugins installed once the initial data is loaded (optional)
+  readOnly?: boolean;                       // Disable editing from the UI (optional, default false)
+  demoData?: boolean;                       // Load sample layers when no data is given (optional, default false)
+}
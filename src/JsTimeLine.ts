@@ -1,57 +1,122 @@
 // Import the styles directly
 import './styles/JsTimeLine.less';
 import { IJsTimeLineContext } from './IJsTimeLineContext';
-import { TimeLineData } from './data/TimelineData';
-import { EventManager } from './core/EventManager';
-import { StateManager } from './core/StateManager';
-import { PlaybackEngine } from './core/PlaybackEngine';
-import { LayerManager } from './core/LayerManager';
-import { SelectionManager } from './core/SelectionManager';
-import { KeyframeManager } from './core/KeyframeManager';
-import { TweenManager } from './core/TweenManager';
+import { IJsTimeLineOptions, IJsTimeLineFeatures } from './IJsTimeLineOptions';
+import { createTimelineCore } from './core/TimelineCore';
+import { MoveConflictPolicy } from './core/KeyframeManager';
+import { FrameActionHandler } from './core/ActionManager';
+import { requestRender } from './core/RenderScheduler';
+import { ZoomManager, ZoomAnchor, ZOOM_STEP } from './core/ZoomManager';
+import { KeymapManager } from './core/KeymapManager';
+import { CommandRegistry, ICommand, ICommandContext } from './core/CommandRegistry';
+import { registerTimelineCommands } from './core/TimelineCommands';
+import { PluginManager } from './core/PluginManager';
+import { IPlugin, IToolbarButton } from './plugins/IPlugin';
+import { ILayerState } from './core/InterpolationEngine';
 import { LayerPanel } from './ui/LayerPanel';
 import { TimeRuler } from './ui/TimeRuler';
 import { TimelineGrid } from './ui/TimelineGrid';
+import { TimelineView } from './ui/TimelineView';
+import { IGridRenderer } from './ui/GridRenderer';
+import { DomGridRenderer } from './ui/DomGridRenderer';
+import { CanvasGridRenderer } from './ui/CanvasGridRenderer';
 import { ContextMenu } from './ui/ContextMenu';
 import { TweenPropertiesDialog } from './ui/TweenPropertiesDialog';
+import { CommandPalette } from './ui/CommandPalette';
 import { ITimeLineData } from './data/ITimeLineData';
-import { debounce } from './utils/Performance';
+import { ITweenIssue } from './data/TweenIntegrity';
+import { IMigrationReport } from './data/Migrations';
+import { IValidationOptions } from './data/Validation';
+import { debounce, throttle } from './utils/Performance';
+
+// Elements hosting a timeline; an element hosts at most one
+const mountedContainers = new WeakSet<HTMLElement>();
 
 export class JsTimeLine {
   private container: HTMLElement;
-  private _context!: IJsTimeLineContext;
+  private features: Required<IJsTimeLineFeatures>;
+  private _context: IJsTimeLineContext;
+  private view!: TimelineView;
   private playPauseBtn!: HTMLButtonElement;
   private stopBtn!: HTMLButtonElement;
+  private onionSkinBtn!: HTMLButtonElement;
+  private zoomOutBtn!: HTMLButtonElement;
+  private zoomInBtn!: HTMLButtonElement;
+  private zoomToFitBtn!: HTMLButtonElement;
+  private zoomToSelectionBtn!: HTMLButtonElement;
+  private pluginControls!: HTMLDivElement;
   private frameDisplay!: HTMLDivElement;
   private resizeObserver: ResizeObserver | null = null;
+  private containerListeners: AbortController = new AbortController();
+  private addedTabIndex: boolean = false;
+  private destroyed: boolean = false;
 
-  constructor(elementId: string) {
-    const element = document.getElementById(elementId);
+  /**
+   * Create a timeline in an element
+   * @param options Options, or the element (or its id) for an empty timeline with the default options
+   * @throws Error if the element is not found, already hosts a timeline or the data is invalid
+   */
+  constructor(options: IJsTimeLineOptions | HTMLElement | string) {
+    const timelineOptions: IJsTimeLineOptions = typeof options === 'string' || options instanceof HTMLElement
+      ? { container: options }
+      : options;
+
+    const element = typeof timelineOptions.container === 'string'
+      ? document.getElementById(timelineOptions.container)
+      : timelineOptions.container;
     if (!element) {
-      throw new Error(`Element with id '${elementId}' not found.`);
+      throw new Error(`Element with id '${timelineOptions.container}' not found.`);
+    }
+    if (mountedContainers.has(element)) {
+      throw new Error('Element already hosts a timeline; destroy it first.');
     }
     this.container = element;
-    this.container.classList.add('JsTimeLine');
-    
+
+    this.features = {
+      keyboardShortcuts: true,
+      contextMenus: true,
+      commandPalette: true,
+      toolbar: true,
+      ...timelineOptions.features
+    };
+
+    // Build the core with the initial data (validated before touching the DOM)
+    const core = createTimelineCore({
+      data: timelineOptions.data ?? (timelineOptions.demoData ? this.getDemoData() : undefined),
+      settings: timelineOptions.settings
+    });
+    core.readOnly = !!timelineOptions.readOnly;
+
     // Build the three-part DOM structure
-    this.buildLayout();
+    this._context = Object.assign(core, { UI: this.buildLayout() });
 
-    // Initialize the context
+    // Initialize the UI and the managers of the control
     this.initializeContext();
 
+    // Render the initial data
+    requestRender(this._context, { panel: true, ruler: true, grid: true });
+    this._context.UI.timeRuler?.setPlayheadPosition(1);
+
     // Setup responsive resizing
     this.setupResizeObserver();
 
     // Apply initial panel sizes
     this.applyPanelSizes();
 
-    // Load test data and render
-    this.loadTestData();
+    // Install plugins once the data is loaded
+    if (timelineOptions.plugins && timelineOptions.plugins.length > 0) {
+      this.use(timelineOptions.plugins);
+      this._context.Core.pluginManager?.dataLoaded();
+    }
+
+    mountedContainers.add(this.container);
+    this.container.classList.add('JsTimeLine');
+    this.container.classList.toggle('is-read-only', this._context.readOnly);
 
     console.log('JsTimeLine control instantiated.');
   }
 
-  private buildLayout(): void {
+  private buildLayout(): IJsTimeLineContext['UI'] {
     // Clear existing content
     this.container.innerHTML = '';
 
@@ -81,6 +146,14 @@ export class JsTimeLine {
     stopBtn.setAttribute('aria-label', 'Stop animation');
     this.stopBtn = stopBtn;
     
+    const onionSkinBtn = document.createElement('button');
+    onionSkinBtn.className = 'timeline-control-btn timeline-btn-onion';
+    onionSkinBtn.innerHTML = '◎';
+    onionSkinBtn.title = 'Onion Skin';
+    onionSkinBtn.setAttribute('aria-label', 'Toggle onion skin');
+    onionSkinBtn.setAttribute('aria-pressed', 'false');
+    this.onionSkinBtn = onionSkinBtn;
+    
     const frameDisplay = document.createElement('div');
     frameDisplay.className = 'timeline-frame-display';
     frameDisplay.textContent = '1';
@@ -89,10 +162,43 @@ export class JsTimeLine {
     frameDisplay.setAttribute('aria-label', 'Current frame');
     this.frameDisplay = frameDisplay;
     
+    // Zoom controls for the time axis
+    const zoomControls = document.createElement('div');
+    zoomControls.className = 'timeline-zoom-controls';
+    zoomControls.setAttribute('role', 'group');
+    zoomControls.setAttribute('aria-label', 'Zoom');
+
+    const createZoomButton = (className: string, text: string, title: string, ariaLabel: string): HTMLButtonElement => {
+      const button = document.createElement('button');
+      button.className = `timeline-control-btn timeline-btn-zoom ${className}`;
+      button.innerHTML = text;
+      button.title = title;
+      button.setAttribute('aria-label', ariaLabel);
+      zoomControls.appendChild(button);
+      return button;
+    };
+
+    this.zoomOutBtn = createZoomButton('timeline-btn-zoom-out', '−', 'Zoom Out', 'Zoom out');
+    this.zoomInBtn = createZoomButton('timeline-btn-zoom-in', '+', 'Zoom In', 'Zoom in');
+    this.zoomToFitBtn = createZoomButton('timeline-btn-zoom-fit', '↔', 'Zoom to Fit', 'Zoom to fit the whole timeline');
+    this.zoomToSelectionBtn = createZoomButton('timeline-btn-zoom-selection', '⊡', 'Zoom to Selection', 'Zoom to the selected frames');
+
+    // Buttons added by plugins
+    const pluginControls = document.createElement('div');
+    pluginControls.className = 'timeline-plugin-controls';
+    pluginControls.setAttribute('role', 'group');
+    pluginControls.setAttribute('aria-label', 'Plugin tools');
+    this.pluginControls = pluginControls;
+
     controls.appendChild(playPauseBtn);
     controls.appendChild(stopBtn);
+    controls.appendChild(onionSkinBtn);
     controls.appendChild(frameDisplay);
-    corner.appendChild(controls);
+    controls.appendChild(zoomControls);
+    controls.appendChild(pluginControls);
+    if (this.features.toolbar) {
+      corner.appendChild(controls);
+    }
 
     // Top: Time Ruler (fixed height, scrolls horizontally)
     const rulerContainer = document.createElement('div');
@@ -136,40 +242,21 @@ export class JsTimeLine {
 
     this.container.appendChild(layoutGrid);
 
-    // Initialize temporary context for UI references
-    this._context = {
-      UI: {
-        root: this.container,
-        layoutGrid,
-        corner,
-        rulerContainer,
-        rulerContent,
-        playhead,
-        layerPanelContainer,
-        layerPanelContent,
-        gridContainer,
-        gridContent
-      },
-      Core: {
-        eventManager: null as any,
-        stateManager: null as any
-      },
-      Data: null as any,
-      Plugins: {}
+    return {
+      root: this.container,
+      layoutGrid,
+      corner,
+      rulerContainer,
+      rulerContent,
+      playhead,
+      layerPanelContainer,
+      layerPanelContent,
+      gridContainer,
+      gridContent
     };
   }
 
   private initializeContext(): void {
-    // Instantiate core services
-    const eventManager = new EventManager();
-    const stateManager = new StateManager();
-    const timeLineData = new TimeLineData();
-
-    // Update context with core services
-    this._context.Core.eventManager = eventManager;
-    this._context.Core.stateManager = stateManager;
-    this._context.Data = timeLineData;
-
     // Instantiate UI components
     const layerPanel = new LayerPanel(this._context);
     this._context.UI.layerPanel = layerPanel;
@@ -180,31 +267,38 @@ export class JsTimeLine {
     const timelineGrid = new TimelineGrid(this._context);
     this._context.UI.timelineGrid = timelineGrid;
 
-    const contextMenu = new ContextMenu();
-    this._context.UI.contextMenu = contextMenu;
+    if (this.features.contextMenus) {
+      const contextMenu = new ContextMenu();
+      this._context.UI.contextMenu = contextMenu;
+    }
 
     const tweenPropertiesDialog = new TweenPropertiesDialog(this._context);
     this._context.UI.tweenPropertiesDialog = tweenPropertiesDialog;
 
-    // Instantiate PlaybackEngine
-    const playbackEngine = new PlaybackEngine(this._context);
-    this._context.Core.playbackEngine = playbackEngine;
+    if (this.features.commandPalette) {
+      const commandPalette = new CommandPalette(this._context);
+      this._context.UI.commandPalette = commandPalette;
+    }
+
+    // Instantiate TimelineView (renders the changes reported by the core)
+    this.view = new TimelineView(this._context);
 
-    // Instantiate LayerManager
-    const layerManager = new LayerManager(this._context);
-    this._context.Core.layerManager = layerManager;
+    // Instantiate ZoomManager (horizontal zoom of the time axis)
+    const zoomManager = new ZoomManager(this._context);
+    this._context.Core.zoomManager = zoomManager;
 
-    // Instantiate SelectionManager
-    const selectionManager = new SelectionManager(this._context);
-    this._context.Core.selectionManager = selectionManager;
+    // Instantiate KeymapManager (keyboard shortcuts bound to commands)
+    const keymapManager = new KeymapManager(this._context);
+    this._context.Core.keymapManager = keymapManager;
 
-    // Instantiate KeyframeManager
-    const keyframeManager = new KeyframeManager(this._context);
-    this._context.Core.keyframeManager = keyframeManager;
+    // Instantiate CommandRegistry (operations run by shortcuts, menus, toolbar and palette)
+    const commandRegistry = new CommandRegistry(this._context);
+    this._context.Core.commandRegistry = commandRegistry;
+    registerTimelineCommands(this._context);
 
-    // Instantiate TweenManager
-    const tweenManager = new TweenManager(this._context);
-    this._context.Core.tweenManager = tweenManager;
+    // Instantiate PluginManager (plugin lifecycle and extension points)
+    const pluginManager = new PluginManager(this._context);
+    this._context.Core.pluginManager = pluginManager;
 
     // Setup scroll synchronization
     this.setupScrollSync();
@@ -212,8 +306,16 @@ export class JsTimeLine {
     // Setup playback controls
     this.setupPlaybackControls();
 
+    // Setup zoom buttons, Ctrl+wheel and pinch zooming
+    this.setupZoomControls();
+
     // Setup keyboard shortcuts
-    this.setupKeyboardShortcuts();
+    if (this.features.keyboardShortcuts) {
+      this.setupKeyboardShortcuts();
+    }
+
+    // Setup toolbar buttons added by plugins
+    this.setupPluginControls();
 
     console.log('Context initialized');
   }
@@ -245,20 +347,21 @@ export class JsTimeLine {
         lastScrollLeft = scrollLeft;
         lastScrollTop = scrollTop;
 
-        // Debounced event emission (less frequent for event handlers)
-        debouncedEmitScroll(scrollLeft, scrollTop);
+        // Throttled event emission; virtualized components render the rows
+        // and frames scrolled into view while scrolling continues
+        throttledEmitScroll(scrollLeft, scrollTop);
       }
 
       rafId = null;
     };
 
-    // Debounce scroll event emission to reduce event spam
-    const debouncedEmitScroll = debounce((scrollLeft: number, scrollTop: number) => {
+    // Throttle scroll event emission to reduce event spam
+    const throttledEmitScroll = throttle((scrollLeft: number, scrollTop: number) => {
       this._context.Core.eventManager.emit('timeline:scroll', {
         scrollLeft,
         scrollTop
       });
-    }, 100);
+    }, 50);
 
     gridContainer.addEventListener('scroll', () => {
       // Request animation frame only if not already requested
@@ -298,38 +401,64 @@ export class JsTimeLine {
    * Handle container resize events
    */
   private handleContainerResize(width: number, height: number): void {
+    if (this.destroyed) return;
+
     console.log(`Timeline container resized: ${width}x${height}`);
 
-    // Update any components that need to know about size changes
-    const layerPanel = this._context.UI.layerPanel;
-    const timeRuler = this._context.UI.timeRuler;
-    const timelineGrid = this._context.UI.timelineGrid;
-
-    // Re-render components if they have render methods
-    if (layerPanel && typeof layerPanel.render === 'function') {
-      layerPanel.render();
-    }
-    
-    if (timeRuler && typeof timeRuler.render === 'function') {
-      timeRuler.render();
-    }
-    
-    if (timelineGrid && typeof timelineGrid.render === 'function') {
-      timelineGrid.render();
-    }
+    // Re-render components that need to know about size changes
+    requestRender(this._context, { panel: true, ruler: true, grid: true });
 
     // Emit resize event for other components that may need to react
     this._context.Core.eventManager.emit('timeline:resized', { width, height });
   }
 
   /**
-   * Disconnect ResizeObserver when destroying the timeline
+   * Destroy the timeline: remove the plugins, stop playback, remove every
+   * listener and empty the container, which can then host a new timeline
    */
   public destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    this._context.Core.pluginManager?.destroy();
+
+    const playbackEngine = this._context.Core.playbackEngine;
+    if (playbackEngine?.getIsPlaying()) {
+      playbackEngine.pause();
+    }
+
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
       this.resizeObserver = null;
     }
+
+    // UI components listening to the document or showing elements outside the container
+    const ui = this._context.UI;
+    ui.contextMenu?.destroy();
+    ui.tweenPropertiesDialog?.destroy();
+    ui.commandPalette?.close();
+    ui.timeRuler?.destroy();
+    ui.timelineGrid?.destroy();
+    this.view.destroy();
+
+    this.containerListeners.abort();
+    this._context.Core.eventManager.clear();
+
+    this.container.innerHTML = '';
+    this.container.classList.remove('JsTimeLine', 'is-read-only');
+    if (this.addedTabIndex) {
+      this.container.removeAttribute('tabindex');
+    }
+    mountedContainers.delete(this.container);
+
+    console.log('JsTimeLine control destroyed.');
+  }
+
+  /**
+   * Check if the timeline was destroyed
+   */
+  public isDestroyed(): boolean {
+    return this.destroyed;
   }
 
   /**
@@ -393,6 +522,34 @@ export class JsTimeLine {
     });
   }
 
+  /**
+   * Enable or disable read-only mode
+   * In read-only mode the UI cannot edit the timeline: editing commands,
+   * shortcuts and menu items are disabled and layers and keyframes cannot be
+   * dragged; playback, selection, zoom and the API keep working
+   * @param readOnly Whether the timeline is read-only
+   */
+  public setReadOnly(readOnly: boolean): void {
+    if (this._context.readOnly === readOnly) return;
+
+    this._context.readOnly = readOnly;
+    this.container.classList.toggle('is-read-only', readOnly);
+    this._context.UI.contextMenu?.hide();
+    requestRender(this._context, { panel: true });
+
+    this._context.Core.eventManager.emit('timeline:settingChanged', {
+      setting: 'readOnly',
+      value: readOnly
+    });
+  }
+
+  /**
+   * Check if the timeline is read-only
+   */
+  public isReadOnly(): boolean {
+    return !!this._context.readOnly;
+  }
+
   /**
    * Enable or disable moving playhead when clicking on frames
    * @param enabled - Whether to move playhead on frame click (default: true)
@@ -413,18 +570,34 @@ export class JsTimeLine {
    */
   private setupPlaybackControls(): void {
     const playbackEngine = this._context.Core.playbackEngine;
-    if (!playbackEngine) return;
+    const commandRegistry = this._context.Core.commandRegistry;
+    if (!playbackEngine || !commandRegistry) return;
 
     // Play/Pause button
     this.playPauseBtn.addEventListener('click', () => {
-      playbackEngine.togglePlayPause();
+      commandRegistry.execute('togglePlayback', { source: 'toolbar' });
     });
 
     // Stop button
     this.stopBtn.addEventListener('click', () => {
-      playbackEngine.stop();
+      commandRegistry.execute('stop', { source: 'toolbar' });
     });
 
+    // Onion skin toggle button
+    const onionSkinManager = this._context.Core.onionSkinManager;
+    if (onionSkinManager) {
+      const updateOnionSkinBtn = () => {
+        const enabled = onionSkinManager.isEnabled();
+        this.onionSkinBtn.classList.toggle('is-active', enabled);
+        this.onionSkinBtn.setAttribute('aria-pressed', String(enabled));
+      };
+      this.onionSkinBtn.addEventListener('click', () => {
+        commandRegistry.execute('toggleOnionSkin', { source: 'toolbar' });
+      });
+      this._context.Core.eventManager.on('onionSkin:changed', updateOnionSkinBtn);
+      updateOnionSkinBtn();
+    }
+
     // Listen to playback events to update UI
     this._context.Core.eventManager.on('playback:started', () => {
       this.playPauseBtn.innerHTML = '⏸';
@@ -465,136 +638,149 @@ export class JsTimeLine {
   }
 
   /**
-   * Setup keyboard shortcuts for keyframe operations
+   * Setup zoom buttons, Ctrl+wheel zooming anchored on the cursor and
+   * two-finger pinch zooming anchored between the fingers
    */
-  private setupKeyboardShortcuts(): void {
-    document.addEventListener('keydown', (e: KeyboardEvent) => {
-      const keyframeManager = this._context.Core.keyframeManager;
-      const playbackEngine = this._context.Core.playbackEngine;
-      const selectionManager = this._context.Core.selectionManager;
-
-      if (!keyframeManager || !playbackEngine) return;
-
-      // Get currently selected layer (we'll use the first layer for now)
-      // TODO: Track currently active layer selection
-      const data = this._context.Data.getData();
-      const firstLayer = data.layers[0];
-      if (!firstLayer) return;
-
-      const currentFrame = playbackEngine.getCurrentFrame();
-
-      // CTRL+C: Copy selected keyframes
-      if ((e.ctrlKey || e.metaKey) && e.key === 'c') {
-        if (selectionManager) {
-          const selectedFrames = selectionManager.getSelectedFrames();
-          if (selectedFrames.length > 0) {
-            e.preventDefault();
-            keyframeManager.copyKeyframes(selectedFrames);
-          }
-        }
-      }
+  private setupZoomControls(): void {
+    const zoomManager = this._context.Core.zoomManager;
+    const commandRegistry = this._context.Core.commandRegistry;
+    if (!zoomManager || !commandRegistry) return;
 
-      // CTRL+V: Paste keyframes
-      else if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
-        e.preventDefault();
-        keyframeManager.pasteKeyframes(firstLayer.id, currentFrame);
-      }
+    const gridContainer = this._context.UI.gridContainer;
 
-      // Enter: Toggle Play/Pause
-      else if (e.key === 'Enter') {
-        e.preventDefault();
-        if (playbackEngine.getIsPlaying()) {
-          playbackEngine.pause();
-          console.log('Playback paused (Enter)');
-        } else {
-          playbackEngine.play();
-          console.log('Playback started (Enter)');
-        }
-      }
+    const zoomButtons: [HTMLButtonElement, string][] = [
+      [this.zoomOutBtn, 'zoomOut'],
+      [this.zoomInBtn, 'zoomIn'],
+      [this.zoomToFitBtn, 'zoomToFit'],
+      [this.zoomToSelectionBtn, 'zoomToSelection']
+    ];
+    zoomButtons.forEach(([button, commandId]) => {
+      button.addEventListener('click', () => {
+        commandRegistry.execute(commandId, { source: 'toolbar' });
+      });
+    });
 
-      // Comma (,): Previous Frame
-      else if (e.key === ',') {
-        e.preventDefault();
-        const prevFrame = Math.max(1, currentFrame - 1);
-        playbackEngine.goToFrame(prevFrame);
-        console.log(`Moved to previous frame: ${prevFrame}`);
-      }
+    // Zoom to selection is only available with selected frames
+    const updateZoomToSelectionBtn = () => {
+      this.zoomToSelectionBtn.disabled = !commandRegistry.isEnabled('zoomToSelection', { source: 'toolbar' });
+    };
+    this._context.Core.eventManager.on('selection:changed', updateZoomToSelectionBtn);
+    updateZoomToSelectionBtn();
 
-      // Period (.): Next Frame
-      else if (e.key === '.') {
-        e.preventDefault();
-        const nextFrame = Math.min(data.settings.totalFrames, currentFrame + 1);
-        playbackEngine.goToFrame(nextFrame);
-        console.log(`Moved to next frame: ${nextFrame}`);
-      }
+    // Get the x position of a pointer in the visible grid
+    const getAnchorX = (clientX: number): number => {
+      return clientX - gridContainer.getBoundingClientRect().left;
+    };
 
-      // Delete: Delete selected frames/keyframes
-      else if (e.key === 'Delete') {
-        if (selectionManager) {
-          const selectedFrames = selectionManager.getSelectedFrames();
-          if (selectedFrames.length > 0) {
-            e.preventDefault();
-            // Group selected frames by layer and delete them
-            const framesByLayer = new Map<string, number[]>();
-            selectedFrames.forEach(frameId => {
-              const [layerId, frameStr] = frameId.split(':');
-              const frame = parseInt(frameStr, 10);
-              if (!framesByLayer.has(layerId)) {
-                framesByLayer.set(layerId, []);
-              }
-              framesByLayer.get(layerId)!.push(frame);
-            });
-
-            // Delete frames for each layer
-            framesByLayer.forEach((frames, layerId) => {
-              const minFrame = Math.min(...frames);
-              const maxFrame = Math.max(...frames);
-              keyframeManager.deleteFrames(layerId, minFrame, maxFrame);
-            });
-
-            selectionManager.clearSelection();
-            console.log(`Deleted ${selectedFrames.length} selected frames`);
-          }
-        }
+    // Ctrl+wheel (and trackpad pinch, which browsers report as Ctrl+wheel)
+    // zooms around the cursor; one wheel notch (100px) is one zoom step
+    gridContainer.addEventListener('wheel', (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const deltaY = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 33 : e.deltaY;
+      zoomManager.setZoom(zoomManager.getZoom() * Math.pow(ZOOM_STEP, -deltaY / 100), getAnchorX(e.clientX));
+    }, { passive: false });
+
+    // Two-finger pinch on touch screens
+    let pinchStart: { distance: number; zoom: number } | null = null;
+
+    const getPinchDistance = (e: TouchEvent): number => {
+      return Math.hypot(e.touches[0].clientX - e.touches[1].clientX, e.touches[0].clientY - e.touches[1].clientY);
+    };
+
+    gridContainer.addEventListener('touchstart', (e: TouchEvent) => {
+      if (e.touches.length === 2) {
+        pinchStart = { distance: getPinchDistance(e), zoom: zoomManager.getZoom() };
       }
+    }, { passive: true });
+
+    gridContainer.addEventListener('touchmove', (e: TouchEvent) => {
+      if (!pinchStart || e.touches.length !== 2 || pinchStart.distance === 0) return;
+      e.preventDefault();
+      const center = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+      zoomManager.setZoom(pinchStart.zoom * getPinchDistance(e) / pinchStart.distance, getAnchorX(center));
+    }, { passive: false });
+
+    gridContainer.addEventListener('touchend', (e: TouchEvent) => {
+      if (e.touches.length < 2) {
+        pinchStart = null;
+      }
+    }, { passive: true });
+  }
 
-      // F6: Insert content keyframe
-      else if (e.key === 'F6') {
-        e.preventDefault();
-        keyframeManager.insertKeyframe(firstLayer.id, currentFrame);
-        console.log(`Inserted content keyframe at frame ${currentFrame}`);
+  /**
+   * Setup keyboard shortcuts; the keymap runs the commands of the CommandRegistry
+   */
+  private setupKeyboardShortcuts(): void {
+    const keymapManager = this._context.Core.keymapManager!;
+
+    // Shortcuts only apply while the focus is in the timeline, so that typing
+    // elsewhere on the page is left alone; the root takes focus on clicks
+    if (!this.container.hasAttribute('tabindex')) {
+      this.container.tabIndex = -1;
+      this.addedTabIndex = true;
+    }
+    this.container.addEventListener('keydown', (e: KeyboardEvent) => {
+      keymapManager.handleKeyDown(e);
+    }, { signal: this.containerListeners.signal });
+  }
+
+  /**
+   * Render the toolbar buttons added by plugins when they change
+   * Buttons running a command are disabled while the command is
+   */
+  private setupPluginControls(): void {
+    const eventManager = this._context.Core.eventManager;
+    const commandRegistry = this._context.Core.commandRegistry;
+    const buttons: [HTMLButtonElement, IToolbarButton][] = [];
+
+    const updateButtons = () => {
+      for (const [element, button] of buttons) {
+        element.disabled = !!button.commandId && !commandRegistry?.isEnabled(button.commandId, { source: 'toolbar' });
       }
+    };
 
-      // F7: Insert blank keyframe
-      else if (e.key === 'F7') {
-        e.preventDefault();
-        keyframeManager.insertBlankKeyframe(firstLayer.id, currentFrame);
-        console.log(`Inserted blank keyframe at frame ${currentFrame}`);
+    const renderButtons = () => {
+      this.pluginControls.innerHTML = '';
+      buttons.length = 0;
+
+      for (const button of this._context.Core.pluginManager?.getToolbarButtons() ?? []) {
+        const element = document.createElement('button');
+        element.className = 'timeline-control-btn timeline-btn-plugin';
+        element.setAttribute('data-button-id', button.id);
+        element.textContent = button.text;
+        element.title = button.title;
+        element.setAttribute('aria-label', button.title);
+        element.addEventListener('click', () => {
+          if (button.commandId) {
+            commandRegistry?.execute(button.commandId, { source: 'toolbar' });
+          } else {
+            button.onClick?.();
+          }
+        });
+        this.pluginControls.appendChild(element);
+        buttons.push([element, button]);
       }
+      updateButtons();
+    };
 
-      // F5: Insert frame (extend sequence)
-      else if (e.key === 'F5') {
-        e.preventDefault();
-        if (e.shiftKey) {
-          // Shift+F5: Delete frames
-          // For now, delete just the current frame
-          keyframeManager.deleteFrames(firstLayer.id, currentFrame, currentFrame);
-          console.log(`Deleted frame ${currentFrame}`);
-        } else {
-          // F5: Insert frame
-          keyframeManager.insertFrame(firstLayer.id, currentFrame);
-          console.log(`Inserted frame at ${currentFrame}`);
-        }
+    eventManager.on('plugin:extensionsChanged', ({ extension }) => {
+      if (extension === 'toolbar' || extension === 'command') {
+        renderButtons();
       }
     });
+    eventManager.on('selection:changed', updateButtons);
+    eventManager.on('history:changed', updateButtons);
+    eventManager.on('timeline:settingChanged', updateButtons);
+    renderButtons();
   }
 
   /**
-   * Load test data and render the UI
+   * Get the sample layers loaded with the demoData option
    */
-  private loadTestData(): void {
-    // Create test data based on spec example
-    const testData: ITimeLineData = {
+  private getDemoData(): ITimeLineData {
+    // Sample data based on spec example
+    return {
       version: '1.0.0',
       settings: {
         totalFrames: 100,
@@ -666,28 +852,306 @@ export class JsTimeLine {
         }
       ]
     };
+  }
+
+  /**
+   * Undo the last timeline operation (CTRL+Z)
+   * @returns true if an operation was undone
+   */
+  public undo(): boolean {
+    const historyManager = this._context.Core.historyManager;
+    return historyManager ? historyManager.undo() : false;
+  }
 
-    // Load the test data
-    this._context.Data.load(testData);
+  /**
+   * Redo the last undone timeline operation (CTRL+SHIFT+Z)
+   * @returns true if an operation was redone
+   */
+  public redo(): boolean {
+    const historyManager = this._context.Core.historyManager;
+    return historyManager ? historyManager.redo() : false;
+  }
 
-    // Render the layer panel
-    if (this._context.UI.layerPanel) {
-      this._context.UI.layerPanel.render();
+  /**
+   * Check if there is an operation to undo
+   */
+  public canUndo(): boolean {
+    return this._context.Core.historyManager?.canUndo() ?? false;
+  }
+
+  /**
+   * Check if there is an operation to redo
+   */
+  public canRedo(): boolean {
+    return this._context.Core.historyManager?.canRedo() ?? false;
+  }
+
+  /**
+   * Set the maximum number of undo steps kept in history
+   * @param depth Number of undo steps (default: 100)
+   */
+  public setHistoryDepth(depth: number): void {
+    this._context.Core.historyManager?.setMaxDepth(depth);
+  }
+
+  /**
+   * Evaluate the interpolated state of a layer at a frame
+   * @param layerId ID of the layer
+   * @param frame Frame number (defaults to the current playhead frame)
+   * @returns The layer state, or null if the layer does not exist or is a folder
+   */
+  public evaluateLayer(layerId: string, frame?: number): ILayerState | null {
+    const interpolationEngine = this._context.Core.interpolationEngine;
+    if (!interpolationEngine) {
+      return null;
     }
+    const targetFrame = frame ?? this._context.Core.playbackEngine?.getCurrentFrame() ?? 1;
+    return interpolationEngine.evaluateLayer(layerId, targetFrame);
+  }
 
-    // Render the time ruler
-    if (this._context.UI.timeRuler) {
-      this._context.UI.timeRuler.render();
-      // Set initial playhead position at frame 1
-      this._context.UI.timeRuler.setPlayheadPosition(1);
+  /**
+   * Evaluate the interpolated state of all layers at a frame
+   * @param frame Frame number (defaults to the current playhead frame)
+   * @param visibleOnly Skip hidden layers (default: false)
+   */
+  public evaluateFrame(frame?: number, visibleOnly: boolean = false): ILayerState[] {
+    const interpolationEngine = this._context.Core.interpolationEngine;
+    if (!interpolationEngine) {
+      return [];
     }
+    const targetFrame = frame ?? this._context.Core.playbackEngine?.getCurrentFrame() ?? 1;
+    return interpolationEngine.evaluateAll(targetFrame, { visibleOnly });
+  }
+
+  /**
+   * Register a custom easing usable as a tween type
+   * @param name Easing name stored in tweens
+   * @param easing Function mapping linear progress (0-1) to eased progress
+   * @returns true if registered, false if the name is invalid or built-in
+   */
+  public registerEasing(name: string, easing: (t: number) => number): boolean {
+    const easingRegistry = this._context.Core.easingRegistry;
+    return easingRegistry ? easingRegistry.register(name, easing) : false;
+  }
+
+  /**
+   * Register a named host action that keyframes can run with { type: 'call', name }
+   * @param name Action name
+   * @param handler Function called with the frame, layer and payload of the action
+   * @returns true if registered, false if the name is invalid or already registered
+   */
+  public registerAction(name: string, handler: FrameActionHandler): boolean {
+    const actionManager = this._context.Core.actionManager;
+    return actionManager ? actionManager.registerAction(name, handler) : false;
+  }
 
-    // Render the timeline grid
-    if (this._context.UI.timelineGrid) {
-      this._context.UI.timelineGrid.render();
+  /**
+   * Run several edits and render their changes once at the end
+   * @param fn Function performing the edits
+   * @returns The return value of fn
+   */
+  public batch<T>(fn: () => T): T {
+    return this._context.batch(fn);
+  }
+
+  /**
+   * Choose how the timeline grid is drawn
+   * 'dom' (default) creates one element per frame, 'canvas' draws the frames on
+   * a 2D canvas, which scales better to very long timelines
+   * @param renderer 'dom', 'canvas' or a custom grid renderer
+   */
+  public setGridRenderer(renderer: 'dom' | 'canvas' | IGridRenderer): void {
+    const timelineGrid = this._context.UI.timelineGrid;
+    if (!timelineGrid) return;
+
+    if (renderer === 'dom') {
+      timelineGrid.setRenderer(new DomGridRenderer());
+    } else if (renderer === 'canvas') {
+      timelineGrid.setRenderer(new CanvasGridRenderer());
+    } else {
+      timelineGrid.setRenderer(renderer);
     }
   }
 
+  /**
+   * Get the horizontal zoom of the time axis (1 shows frames at the frameWidth setting)
+   */
+  public getZoom(): number {
+    return this._context.Core.zoomManager?.getZoom() ?? 1;
+  }
+
+  /**
+   * Zoom the time axis
+   * The zoom is stored in the timeline settings and exported with the data
+   * @param zoom Zoom factor (clamped to 0.01-10)
+   * @param anchor Point kept in place: 'playhead' (default) or an x position in the visible grid
+   * @returns true if set, false if the zoom is invalid
+   */
+  public setZoom(zoom: number, anchor?: ZoomAnchor): boolean {
+    const zoomManager = this._context.Core.zoomManager;
+    return zoomManager ? zoomManager.setZoom(zoom, anchor) : false;
+  }
+
+  /**
+   * Zoom so that the whole timeline fits in the visible grid
+   * @returns true if zoomed
+   */
+  public zoomToFit(): boolean {
+    return this._context.Core.zoomManager?.zoomToFit() ?? false;
+  }
+
+  /**
+   * Zoom so that the selected frames fill the visible grid
+   * @returns true if zoomed, false if nothing is selected
+   */
+  public zoomToSelection(): boolean {
+    return this._context.Core.zoomManager?.zoomToSelection() ?? false;
+  }
+
+  /**
+   * Set how keyframes dragged onto existing keyframes are handled
+   * @param policy 'reject' (default), 'overwrite', 'skip' or 'shift'
+   */
+  public setMoveConflictPolicy(policy: MoveConflictPolicy): void {
+    this._context.UI.timelineGrid?.setMoveConflictPolicy(policy);
+  }
+
+  /**
+   * Find the tweens that are not attached to their bounding keyframes
+   * @returns The issues found, with the repair repairTweens() would make
+   */
+  public checkTweens(): ITweenIssue[] {
+    return this._context.Core.tweenManager?.checkTweens() ?? [];
+  }
+
+  /**
+   * Remove or split the tweens that are not attached to their bounding keyframes
+   * @returns The issues repaired
+   */
+  public repairTweens(): ITweenIssue[] {
+    return this._context.Core.tweenManager?.repairTweens() ?? [];
+  }
+
+  /**
+   * Get the active layer, the target of frame editing shortcuts (F5, F6, F7, Ctrl+V)
+   * @returns The ID of the active layer or folder, or null if none is active
+   */
+  public getActiveLayer(): string | null {
+    return this._context.Core.selectionManager?.getActiveLayerId() ?? null;
+  }
+
+  /**
+   * Set the active layer, the target of frame editing shortcuts
+   * @param layerId ID of the layer, or null for no active layer
+   * @returns true if set, false if the layer does not exist
+   */
+  public setActiveLayer(layerId: string | null): boolean {
+    return this._context.Core.selectionManager?.setActiveLayer(layerId) ?? false;
+  }
+
+  /**
+   * Bind a keyboard shortcut to a command, e.g. bindKey('Ctrl+D', 'insertKeyframe')
+   * @param shortcut Shortcut such as "Ctrl+Shift+Z" (Ctrl also matches Cmd)
+   * @param commandId Built-in command or a command added with registerCommand()
+   * @returns true if bound, false if the shortcut is not valid
+   */
+  public bindKey(shortcut: string, commandId: string): boolean {
+    return this._context.Core.keymapManager?.bind(shortcut, commandId) ?? false;
+  }
+
+  /**
+   * Remove the binding of a keyboard shortcut
+   * @param shortcut Shortcut to unbind
+   * @returns true if unbound, false if the shortcut was not bound
+   */
+  public unbindKey(shortcut: string): boolean {
+    return this._context.Core.keymapManager?.unbind(shortcut) ?? false;
+  }
+
+  /**
+   * Get all keyboard shortcuts with the commands they run
+   */
+  public getKeymap(): Record<string, string> {
+    return this._context.Core.keymapManager?.getKeymap() ?? {};
+  }
+
+  /**
+   * Add a command to the command palette and the commands keyboard shortcuts can be bound to
+   * @param command Command; its shortcut becomes a default shortcut and its menu adds it to a context menu
+   * @returns true if registered, false if the command is invalid or the id is taken
+   */
+  public registerCommand(command: ICommand): boolean {
+    return this._context.Core.commandRegistry?.register(command) ?? false;
+  }
+
+  /**
+   * Remove a command and its shortcuts
+   * @param commandId Command id
+   * @returns true if the command was registered
+   */
+  public unregisterCommand(commandId: string): boolean {
+    return this._context.Core.commandRegistry?.unregister(commandId) ?? false;
+  }
+
+  /**
+   * Run a command, e.g. executeCommand('insertKeyframe', { layerId: 'layer-1', frame: 10 })
+   * @param commandId Command id
+   * @param context Layer and frame the command applies to (default: the active layer at the playhead)
+   * @returns true if the command ran, false if it is unknown, disabled or did not apply
+   */
+  public executeCommand(commandId: string, context: ICommandContext = {}): boolean {
+    return this._context.Core.commandRegistry?.execute(commandId, { source: 'api', ...context }) ?? false;
+  }
+
+  /**
+   * Get all registered commands
+   */
+  public getCommands(): ICommand[] {
+    return this._context.Core.commandRegistry?.getCommands() ?? [];
+  }
+
+  /**
+   * Open the command palette (Ctrl+Shift+P)
+   */
+  public openCommandPalette(): void {
+    this._context.UI.commandPalette?.open();
+  }
+
+  /**
+   * Install plugins
+   * Plugins are initialized after the plugins they depend on, which must be
+   * installed (earlier or in the same call) with a matching version
+   * @param plugins Plugin or plugins to install
+   * @returns true if every plugin was installed
+   */
+  public use(plugins: IPlugin | IPlugin[]): boolean {
+    return this._context.Core.pluginManager?.install(Array.isArray(plugins) ? plugins : [plugins]) ?? false;
+  }
+
+  /**
+   * Remove a plugin and the extensions it added
+   * @param name Plugin name
+   * @returns false if the plugin is not installed or other plugins depend on it
+   */
+  public removePlugin(name: string): boolean {
+    return this._context.Core.pluginManager?.remove(name) ?? false;
+  }
+
+  /**
+   * Get an installed plugin
+   * @param name Plugin name
+   */
+  public getPlugin<T extends IPlugin = IPlugin>(name: string): T | undefined {
+    return this._context.Core.pluginManager?.get<T>(name);
+  }
+
+  /**
+   * Get the installed plugins in installation order
+   */
+  public getPlugins(): IPlugin[] {
+    return this._context.Core.pluginManager?.getPlugins() ?? [];
+  }
+
   /**
    * Get the context (for plugin access)
    */
@@ -697,47 +1161,63 @@ export class JsTimeLine {
 
   /**
    * Export timeline data as JSON string
+   * Plugin states are saved under "plugins"
    * @returns JSON string representation of timeline data
    */
   public exportData(): string {
+    this._context.Core.pluginManager?.serialize();
     return this._context.Data.toJSON();
   }
 
+  /**
+   * Report how importData() would upgrade data saved by an older version, without importing it
+   * @param json JSON string to check
+   * @returns The migration steps and changes
+   * @throws Error if JSON is invalid or incompatible
+   */
+  public previewImport(json: string): IMigrationReport {
+    return this._context.Data.previewMigration(json);
+  }
+
   /**
    * Import timeline data from JSON string
+   * Data saved by an older version is upgraded to the current data format
    * @param json JSON string to import
+   * @param options Validation options (set fix to repair the recoverable problems)
+   * @returns The migration steps and changes
    * @throws Error if JSON is invalid or incompatible
    */
-  public importData(json: string): void {
+  public importData(json: string, options: IValidationOptions = {}): IMigrationReport {
     try {
-      // Load and validate data
-      this._context.Data.fromJSON(json);
+      // Upgrade, validate and load data
+      const report = this._context.Data.fromJSON(json, options);
       
+      // Plugins restore their saved state before the UI is rendered
+      this._context.Core.pluginManager?.deserialize();
+
       // Re-render all UI components
-      if (this._context.UI.layerPanel) {
-        this._context.UI.layerPanel.render();
-      }
-      
-      if (this._context.UI.timeRuler) {
-        this._context.UI.timeRuler.render();
-        this._context.UI.timeRuler.setPlayheadPosition(1);
-      }
-      
-      if (this._context.UI.timelineGrid) {
-        this._context.UI.timelineGrid.render();
-      }
+      requestRender(this._context, { panel: true, ruler: true, grid: true });
+      this._context.UI.timeRuler?.setPlayheadPosition(1);
       
       // Reset playback to frame 1
       if (this._context.Core.playbackEngine) {
         this._context.Core.playbackEngine.stop();
       }
+
+      // Imported data starts a new history
+      if (this._context.Core.historyManager) {
+        this._context.Core.historyManager.clear();
+      }
       
+      this._context.Core.pluginManager?.dataLoaded();
+
       // Emit event
       this._context.Core.eventManager.emit('timeline:dataImported', {
         timestamp: new Date().toISOString()
       });
       
       console.log('Timeline data imported successfully');
+      return report;
       
     } catch (error) {
       console.error('Failed to import timeline data:', error);
@@ -749,3 +1229,33 @@ export class JsTimeLine {
 // Export utility functions
 export { EventLogger, attachEventLogger } from './utils/EventLogger';
 export { debounce, throttle, rafLoop, calculateVisibleRange, memoize, PerformanceMonitor } from './utils/Performance';
+export { getEasingFunction, cubicBezier, steps, parseEasing, normalizeEasing } from './utils/Easing';
+export { parseVersion, compareVersions, satisfiesVersion } from './utils/Version';
+export { CURRENT_DATA_VERSION, DATA_MIGRATIONS, migrateData } from './data/Migrations';
+export type { IDataMigration, IMigrationStep, IMigrationReport } from './data/Migrations';
+export { validateTimelineData } from './data/Validation';
+export type { ValidationSeverity, IValidationDiagnostic, IValidationOptions, IValidationResult } from './data/Validation';
+export type { EasingFunction } from './utils/Easing';
+export type { IJsTimeLineOptions, IJsTimeLineFeatures } from './IJsTimeLineOptions';
+export { createTimelineCore } from './core/TimelineCore';
+export type { ITimelineCoreOptions } from './core/TimelineCore';
+export type { ITimelineCoreContext } from './IJsTimeLineContext';
+export type { ILayerState } from './core/InterpolationEngine';
+export type { IFrameActionEvent, FrameActionHandler } from './core/ActionManager';
+export type { IOnionSkinInfo, IOnionSkinFrame } from './core/OnionSkinManager';
+export type { IRenderChange, IRowChange, IRenderEvent } from './core/RenderScheduler';
+export type { ZoomAnchor, IZoomChangeEvent } from './core/ZoomManager';
+export type { SelectionMode } from './core/SelectionManager';
+export { DEFAULT_KEYMAP, normalizeShortcut } from './core/KeymapManager';
+export type { IKeymapChangeEvent } from './core/KeymapManager';
+export type { ICancellableEvent, EventName, EventPattern, EventPayload, EventListener, CancellableEventName, IListenerOptions } from './core/EventManager';
+export type { TimelineEventMap, IFrameEnterEvent, IPlaybackRangeEndEvent, IHistoryChangeEvent, ITweenRangeEvent } from './core/TimelineEventMap';
+export type { ICommand, ICommandContext, ICommandExecuteEvent } from './core/CommandRegistry';
+export type { IPlugin, IPluginHost, IToolbarButton, ILayerColumn, IGridOverlay, ContextMenuProvider } from './plugins/IPlugin';
+export type { IPluginEvent, PluginExtensionPoint } from './core/PluginManager';
+export type { IMenuItem } from './ui/ContextMenu';
+export type { ITweenIssue, TweenIssueType } from './data/TweenIntegrity';
+export type { MoveConflictPolicy, MoveConflictReason, MoveConflictResolution, IKeyframeMove, IKeyframeMoveConflict, IKeyframeMoveReport, ITweenRef } from './core/KeyframeManager';
+export { DomGridRenderer } from './ui/DomGridRenderer';
+export { CanvasGridRenderer } from './ui/CanvasGridRenderer';
+export type { IGridRenderer, IGridScene, IGridWindow, IGridRow, IGridCell, IGridTweenSpan, GridCellType } from './ui/GridRenderer';
@@ -0,0 +1,258 @@
+import { ActionManager, IFrameActionEvent } from '../../core/ActionManager';
+import { EventManager } from '../../core/EventManager';
+import { PlaybackEngine } from '../../core/PlaybackEngine';
+import { HistoryManager } from '../../core/HistoryManager';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('ActionManager', () => {
+  let actionManager: ActionManager;
+  let playbackEngine: PlaybackEngine;
+  let mockContext: IJsTimeLineContext;
+
+  // Events emitted by frame actions are named by the timeline data
+  const actionEvents = () => mockContext.Core.eventManager as unknown as EventManager<Record<string, IFrameActionEvent>>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    actionManager = new ActionManager(mockContext);
+    playbackEngine = new PlaybackEngine(mockContext);
+    mockContext.Core.actionManager = actionManager;
+    mockContext.Core.playbackEngine = playbackEngine;
+  });
+
+  afterEach(() => {
+    playbackEngine.pause();
+    jest.useRealTimers();
+  });
+
+  describe('registerAction', () => {
+    it('should register a named action', () => {
+      expect(actionManager.registerAction('spawn', jest.fn())).toBe(true);
+      expect(actionManager.hasAction('spawn')).toBe(true);
+      expect(actionManager.getActionNames()).toEqual(['spawn']);
+    });
+
+    it('should reject invalid and duplicate names', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      actionManager.registerAction('spawn', jest.fn());
+      expect(actionManager.registerAction('spawn', jest.fn())).toBe(false);
+      expect(actionManager.registerAction('not valid', jest.fn())).toBe(false);
+      errorSpy.mockRestore();
+      warnSpy.mockRestore();
+    });
+
+    it('should unregister an action', () => {
+      actionManager.registerAction('spawn', jest.fn());
+
+      expect(actionManager.unregisterAction('spawn')).toBe(true);
+      expect(actionManager.hasAction('spawn')).toBe(false);
+    });
+  });
+
+  describe('setActions', () => {
+    it('should store actions on a keyframe', () => {
+      const result = actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+
+      expect(result).toBe(true);
+      expect(actionManager.getActions('layer-1', 10)).toEqual([{ type: 'stop' }]);
+      expect(mockContext.UI.timelineGrid.render).toHaveBeenCalled();
+    });
+
+    it('should emit onFrameActionsChange', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onFrameActionsChange', callback);
+
+      actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+
+      expect(callback).toHaveBeenCalledWith({ layerId: 'layer-1', frame: 10, actions: [{ type: 'stop' }] });
+    });
+
+    it('should remove the actions when given an empty list', () => {
+      actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+      actionManager.clearActions('layer-1', 10);
+
+      const keyframe = mockContext.Data.getData().layers[0].keyframes!.find(kf => kf.frame === 10);
+      expect(keyframe!.actions).toBeUndefined();
+      expect(actionManager.getActions('layer-1', 10)).toEqual([]);
+    });
+
+    it('should fail without a keyframe or with an invalid action', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(actionManager.setActions('layer-1', 5, [{ type: 'stop' }])).toBe(false);
+      expect(actionManager.setActions('layer-1', 10, [{ type: 'emit' }])).toBe(false);
+      expect(actionManager.getActions('layer-1', 5)).toBeNull();
+      errorSpy.mockRestore();
+    });
+
+    it('should not let emit actions fire timeline events', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(actionManager.setActions('layer-1', 10, [{ type: 'emit', name: 'render:requested' }])).toBe(false);
+      expect(actionManager.setActions('layer-1', 10, [{ type: 'emit', name: 'onKeyframeDelete' }])).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith('Invalid frame action: emit cannot fire the timeline event "onKeyframeDelete"');
+      expect(actionManager.setActions('layer-1', 10, [{ type: 'emit', name: 'onion' }])).toBe(true);
+      errorSpy.mockRestore();
+    });
+
+    it('should be undoable', () => {
+      const historyManager = new HistoryManager(mockContext);
+      mockContext.Core.historyManager = historyManager;
+
+      actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+      historyManager.undo();
+
+      expect(actionManager.getActions('layer-1', 10)).toEqual([]);
+    });
+  });
+
+  describe('executeFrame', () => {
+    it('should stop playback', () => {
+      actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+      playbackEngine.play();
+
+      actionManager.executeFrame(10);
+
+      expect(playbackEngine.getIsPlaying()).toBe(false);
+    });
+
+    it('should go to a label and play', () => {
+      mockContext.Data.load({ ...mockContext.Data.getData(), labels: [{ frame: 30, name: 'loop', type: 'label' }] });
+      actionManager.setActions('layer-1', 10, [{ type: 'gotoAndPlay', target: 'loop' }]);
+
+      actionManager.executeFrame(10);
+
+      expect(playbackEngine.getCurrentFrame()).toBe(30);
+      expect(playbackEngine.getIsPlaying()).toBe(true);
+    });
+
+    it('should go to a frame and stop', () => {
+      actionManager.setActions('layer-1', 10, [{ type: 'gotoAndStop', target: 40 }]);
+      playbackEngine.play();
+
+      actionManager.executeFrame(10);
+
+      expect(playbackEngine.getCurrentFrame()).toBe(40);
+      expect(playbackEngine.getIsPlaying()).toBe(false);
+    });
+
+    it('should run the actions of the goto target and skip the rest of the script', () => {
+      const callback = jest.fn();
+      actionEvents().on('reached', callback);
+      actionManager.setActions('layer-1', 10, [{ type: 'gotoAndStop', target: 20 }, { type: 'emit', name: 'skipped' }]);
+      actionManager.setActions('layer-1', 20, [{ type: 'emit', name: 'reached', payload: 'x' }]);
+      const skipped = jest.fn();
+      actionEvents().on('skipped', skipped);
+
+      actionManager.executeFrame(10);
+
+      expect(callback).toHaveBeenCalledWith({ frame: 20, layerId: 'layer-1', payload: 'x' });
+      expect(skipped).not.toHaveBeenCalled();
+    });
+
+    it('should call registered host actions with the payload', () => {
+      const handler = jest.fn();
+      actionManager.registerAction('spawn', handler);
+      actionManager.setActions('layer-2', 5, [{ type: 'call', name: 'spawn', payload: { count: 3 } }]);
+
+      actionManager.executeFrame(5);
+
+      expect(handler).toHaveBeenCalledWith({ frame: 5, layerId: 'layer-2', payload: { count: 3 } });
+    });
+
+    it('should keep running when a host action is missing or throws', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const emitted = jest.fn();
+      actionEvents().on('done', emitted);
+      actionManager.registerAction('broken', () => { throw new Error('boom'); });
+      actionManager.setActions('layer-1', 10, [
+        { type: 'call', name: 'missing' },
+        { type: 'call', name: 'broken' },
+        { type: 'emit', name: 'done' }
+      ]);
+
+      actionManager.executeFrame(10);
+
+      expect(emitted).toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith('Action "missing" is not registered');
+      warnSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should skip emit actions naming timeline events in unvalidated data', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('render:requested', callback);
+      const keyframe = mockContext.Data.getData().layers[0].keyframes!.find(kf => kf.frame === 10)!;
+      keyframe.actions = [{ type: 'emit', name: 'render:requested' }, { type: 'stop' }];
+      playbackEngine.play();
+
+      expect(() => actionManager.executeFrame(10)).not.toThrow();
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(playbackEngine.getIsPlaying()).toBe(false);
+      warnSpy.mockRestore();
+    });
+
+    it('should abort gotos that loop on themselves', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      actionManager.setActions('layer-1', 10, [{ type: 'gotoAndPlay', target: 10 }]);
+
+      actionManager.executeFrame(10);
+
+      expect(errorSpy).toHaveBeenCalledWith('Frame actions aborted at frame 10: too many nested gotos');
+      errorSpy.mockRestore();
+    });
+
+    it('should emit onFrameAction for each action run', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onFrameAction', callback);
+      actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+
+      actionManager.executeFrame(10);
+
+      expect(callback).toHaveBeenCalledWith({ frame: 10, layerId: 'layer-1', action: { type: 'stop' } });
+    });
+  });
+
+  describe('during playback', () => {
+    it('should stop on a frame with a stop action', () => {
+      actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+
+      playbackEngine.play();
+      jest.advanceTimersByTime(1000);
+
+      expect(playbackEngine.getIsPlaying()).toBe(false);
+      expect(playbackEngine.getCurrentFrame()).toBe(10);
+    });
+
+    it('should run the actions of dropped frames', () => {
+      actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+      mockContext.Data.getData().settings.frameRate = 1000;
+
+      // Each animation frame covers ~16 frames at 1000 fps, so frame 10 is dropped
+      playbackEngine.play();
+      jest.advanceTimersByTime(32);
+
+      expect(playbackEngine.getIsPlaying()).toBe(false);
+      expect(playbackEngine.getCurrentFrame()).toBe(10);
+    });
+
+    it('should not run the actions of the frame playback starts on', () => {
+      actionManager.setActions('layer-1', 10, [{ type: 'stop' }]);
+      playbackEngine.goToFrame(10);
+
+      playbackEngine.play();
+      jest.advanceTimersByTime(100);
+
+      expect(playbackEngine.getIsPlaying()).toBe(true);
+      expect(playbackEngine.getCurrentFrame()).toBeGreaterThan(10);
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { CommandRegistry } from '../../core/CommandRegistry';
+import { registerTimelineCommands } from '../../core/TimelineCommands';
+import { KeymapManager } from '../../core/KeymapManager';
+import { KeyframeManager } from '../../core/KeyframeManager';
+import { SelectionManager } from '../../core/SelectionManager';
+import { TweenManager } from '../../core/TweenManager';
+import { HistoryManager } from '../../core/HistoryManager';
+import { PlaybackEngine } from '../../core/PlaybackEngine';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('CommandRegistry', () => {
+  let commandRegistry: CommandRegistry;
+  let mockContext: IJsTimeLineContext;
+
+  const findLayer = (layerId: string) => {
+    const layers = mockContext.Data.getData().layers;
+    return layers.find(layer => layer.id === layerId) ?? layers[1].children!.find(layer => layer.id === layerId)!;
+  };
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    mockContext.Core.keymapManager = new KeymapManager(mockContext);
+    commandRegistry = new CommandRegistry(mockContext);
+    mockContext.Core.commandRegistry = commandRegistry;
+  });
+
+  describe('register', () => {
+    it('should register a command and bind its default shortcut', () => {
+      const command = { id: 'duplicate', label: 'Duplicate Frames', shortcut: 'Ctrl+Shift+D', run: jest.fn() };
+
+      expect(commandRegistry.register(command)).toBe(true);
+
+      expect(commandRegistry.get('duplicate')).toBe(command);
+      expect(commandRegistry.getShortcut('duplicate')).toBe('Ctrl+Shift+D');
+    });
+
+    it('should reject duplicate ids and invalid commands', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      commandRegistry.register({ id: 'duplicate', label: 'Duplicate', run: jest.fn() });
+
+      expect(commandRegistry.register({ id: 'duplicate', label: 'Other', run: jest.fn() })).toBe(false);
+      expect(commandRegistry.register({ id: '', label: 'Nothing', run: jest.fn() })).toBe(false);
+      expect(commandRegistry.get('duplicate')!.label).toBe('Duplicate');
+
+      errorSpy.mockRestore();
+    });
+
+    it('should unregister a command', () => {
+      commandRegistry.register({ id: 'duplicate', label: 'Duplicate', run: jest.fn() });
+
+      expect(commandRegistry.unregister('duplicate')).toBe(true);
+      expect(commandRegistry.has('duplicate')).toBe(false);
+      expect(commandRegistry.unregister('duplicate')).toBe(false);
+    });
+
+    it('should remove the shortcuts of an unregistered command', () => {
+      const keymapManager = mockContext.Core.keymapManager!;
+      commandRegistry.register({ id: 'duplicate', label: 'Duplicate', shortcut: 'Ctrl+Shift+D', run: jest.fn() });
+      keymapManager.bind('Ctrl+Alt+D', 'duplicate');
+
+      commandRegistry.unregister('duplicate');
+      expect(keymapManager.getShortcuts('duplicate')).toEqual([]);
+
+      keymapManager.resetKeymap();
+      expect(keymapManager.getCommand('Ctrl+Shift+D')).toBeNull();
+
+      // The shortcut is free for a command registered later
+      commandRegistry.register({ id: 'clone', label: 'Clone', shortcut: 'Ctrl+Shift+D', run: jest.fn() });
+      expect(keymapManager.getCommand('Ctrl+Shift+D')).toBe('clone');
+    });
+  });
+
+  describe('execute', () => {
+    it('should run the command with the context and emit onCommandExecute event', () => {
+      const run = jest.fn();
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onCommandExecute', callback);
+      commandRegistry.register({ id: 'duplicate', label: 'Duplicate', run });
+
+      expect(commandRegistry.execute('duplicate', { layerId: 'layer-1', frame: 5 })).toBe(true);
+
+      expect(run).toHaveBeenCalledWith({ layerId: 'layer-1', frame: 5 });
+      expect(callback).toHaveBeenCalledWith({ commandId: 'duplicate', context: { layerId: 'layer-1', frame: 5 } });
+    });
+
+    it('should not run disabled commands', () => {
+      const run = jest.fn();
+      commandRegistry.register({ id: 'duplicate', label: 'Duplicate', isEnabled: ctx => ctx.frame === 1, run });
+
+      expect(commandRegistry.isEnabled('duplicate', { frame: 2 })).toBe(false);
+      expect(commandRegistry.execute('duplicate', { frame: 2 })).toBe(false);
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should not run editing commands in read-only mode', () => {
+      const run = jest.fn();
+      commandRegistry.register({ id: 'duplicate', label: 'Duplicate', edits: true, run });
+      commandRegistry.register({ id: 'preview', label: 'Preview', run: jest.fn() });
+      mockContext.readOnly = true;
+
+      expect(commandRegistry.execute('duplicate')).toBe(false);
+      expect(run).not.toHaveBeenCalled();
+      expect(commandRegistry.isEnabled('preview')).toBe(true);
+
+      mockContext.readOnly = false;
+      expect(commandRegistry.execute('duplicate')).toBe(true);
+    });
+
+    it('should report commands that did not apply', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onCommandExecute', callback);
+      commandRegistry.register({ id: 'duplicate', label: 'Duplicate', run: () => false });
+
+      expect(commandRegistry.execute('duplicate')).toBe(false);
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should fail for unknown commands', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(commandRegistry.execute('nothing')).toBe(false);
+      expect(errorSpy).toHaveBeenCalled();
+
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('search', () => {
+    beforeEach(() => {
+      commandRegistry.register({ id: 'insertKeyframe', label: 'Insert Keyframe', category: 'Frames', run: jest.fn() });
+      commandRegistry.register({ id: 'insertBlankKeyframe', label: 'Insert Blank Keyframe', category: 'Frames', run: jest.fn() });
+      commandRegistry.register({ id: 'clearKeyframe', label: 'Clear Keyframe', category: 'Frames', run: jest.fn() });
+      commandRegistry.register({ id: 'zoomIn', label: 'Zoom In', category: 'View', run: jest.fn() });
+    });
+
+    it('should match every word in the label, category or id', () => {
+      expect(commandRegistry.search('blank key').map(command => command.id)).toEqual(['insertBlankKeyframe']);
+      expect(commandRegistry.search('view').map(command => command.id)).toEqual(['zoomIn']);
+    });
+
+    it('should list labels starting with the query first', () => {
+      expect(commandRegistry.search('clear').map(command => command.id)).toEqual(['clearKeyframe']);
+      expect(commandRegistry.search('keyframe').map(command => command.id)).toEqual(['insertKeyframe', 'insertBlankKeyframe', 'clearKeyframe']);
+      expect(commandRegistry.search('Insert K').map(command => command.id)).toEqual(['insertKeyframe', 'insertBlankKeyframe']);
+    });
+
+    it('should list all commands for an empty query', () => {
+      expect(commandRegistry.search('  ')).toHaveLength(4);
+    });
+  });
+
+  describe('timeline commands', () => {
+    let selectionManager: SelectionManager;
+    let playbackEngine: PlaybackEngine;
+
+    beforeEach(() => {
+      mockContext.Core.historyManager = new HistoryManager(mockContext);
+      mockContext.Core.keyframeManager = new KeyframeManager(mockContext);
+      mockContext.Core.tweenManager = new TweenManager(mockContext);
+      selectionManager = new SelectionManager(mockContext);
+      mockContext.Core.selectionManager = selectionManager;
+      playbackEngine = new PlaybackEngine(mockContext);
+      mockContext.Core.playbackEngine = playbackEngine;
+      registerTimelineCommands(mockContext);
+    });
+
+    it('should register a command for each default shortcut', () => {
+      const keymap = mockContext.Core.keymapManager!.getKeymap();
+
+      Object.values(keymap).forEach(commandId => {
+        expect(commandRegistry.has(commandId)).toBe(true);
+      });
+    });
+
+    it('should edit the active layer at the playhead by default', () => {
+      selectionManager.setActiveLayer('layer-2');
+      playbackEngine.goToFrame(30);
+
+      expect(commandRegistry.execute('insertKeyframe')).toBe(true);
+
+      expect(findLayer('layer-2').keyframes!.some(kf => kf.frame === 30)).toBe(true);
+    });
+
+    it('should edit the layer and frame of the command context', () => {
+      expect(commandRegistry.execute('insertBlankKeyframe', { layerId: 'layer-1', frame: 40 })).toBe(true);
+
+      expect(findLayer('layer-1').keyframes!.some(kf => kf.frame === 40)).toBe(true);
+    });
+
+    it('should enable keyframe and tween commands by what is at the frame', () => {
+      expect(commandRegistry.isEnabled('clearKeyframe', { layerId: 'layer-1', frame: 10 })).toBe(true);
+      expect(commandRegistry.isEnabled('clearKeyframe', { layerId: 'layer-1', frame: 11 })).toBe(false);
+      expect(commandRegistry.isEnabled('removeMotionTween', { layerId: 'layer-1', frame: 5 })).toBe(true);
+      expect(commandRegistry.isEnabled('removeMotionTween', { layerId: 'layer-1', frame: 15 })).toBe(false);
+    });
+
+    it('should create a motion tween between two selected keyframes', () => {
+      expect(commandRegistry.isEnabled('createMotionTween')).toBe(false);
+
+      selectionManager.selectCells(['layer-1:10', 'layer-1:20']);
+
+      expect(commandRegistry.execute('createMotionTween')).toBe(true);
+      expect(findLayer('layer-1').tweens!.some(tween => tween.startFrame === 10 && tween.endFrame === 20)).toBe(true);
+    });
+
+    it('should delete the selected frames as a single undo step', () => {
+      selectionManager.selectCells(['layer-1:10', 'layer-1:11', 'layer-2:5']);
+
+      expect(commandRegistry.execute('deleteSelection')).toBe(true);
+
+      expect(selectionManager.getSelectionCount()).toBe(0);
+      expect(mockContext.Core.historyManager!.getState().undoLabel).toBe('Delete Frames');
+    });
+
+    it('should disable editing commands but not playback in read-only mode', () => {
+      mockContext.readOnly = true;
+
+      expect(commandRegistry.execute('insertKeyframe', { layerId: 'layer-1', frame: 30 })).toBe(false);
+      expect(findLayer('layer-1').keyframes!.some(kf => kf.frame === 30)).toBe(false);
+      expect(commandRegistry.execute('nextFrame')).toBe(true);
+      expect(playbackEngine.getCurrentFrame()).toBe(2);
+    });
+
+    it('should disable undo when there is nothing to undo', () => {
+      expect(commandRegistry.isEnabled('undo')).toBe(false);
+
+      commandRegistry.execute('insertKeyframe', { layerId: 'layer-1', frame: 30 });
+
+      expect(commandRegistry.isEnabled('undo')).toBe(true);
+      expect(commandRegistry.execute('undo')).toBe(true);
+      expect(findLayer('layer-1').keyframes!.some(kf => kf.frame === 30)).toBe(false);
+    });
+  });
+});
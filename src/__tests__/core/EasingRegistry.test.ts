@@ -0,0 +1,103 @@
+import { EasingRegistry } from '../../core/EasingRegistry';
+import { createMockContext } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('EasingRegistry', () => {
+  let easingRegistry: EasingRegistry;
+  let mockContext: IJsTimeLineContext;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    easingRegistry = new EasingRegistry(mockContext);
+  });
+
+  describe('built-in easings', () => {
+    it('should resolve CSS keywords and Penner families', () => {
+      expect(easingRegistry.has('ease-in-out')).toBe(true);
+      expect(easingRegistry.has('ease-out-bounce')).toBe(true);
+      expect(easingRegistry.getNames()).toContain('ease-in-out-elastic');
+    });
+
+    it('should resolve cubic-bezier and steps specs', () => {
+      expect(easingRegistry.get('cubic-bezier(0, 0, 1, 1)')?.(0.3)).toBeCloseTo(0.3);
+      expect(easingRegistry.get('steps(4)')?.(0.3)).toBe(0.25);
+    });
+
+    it('should fall back to linear for unknown easings', () => {
+      expect(easingRegistry.get('unknown')).toBeNull();
+      expect(easingRegistry.resolve('unknown')(0.3)).toBe(0.3);
+      expect(easingRegistry.resolve(undefined)(0.7)).toBe(0.7);
+    });
+  });
+
+  describe('register', () => {
+    it('should register a custom easing', () => {
+      const easing = (t: number) => t * t;
+
+      expect(easingRegistry.register('square', easing)).toBe(true);
+      expect(easingRegistry.resolve('square')).toBe(easing);
+      expect(easingRegistry.getCustomNames()).toEqual(['square']);
+      expect(easingRegistry.getNames()).toContain('square');
+    });
+
+    it('should emit onEasingRegister and easing:registered events', () => {
+      const callback = jest.fn();
+      const legacyCallback = jest.fn();
+      mockContext.Core.eventManager.on('onEasingRegister', callback);
+      mockContext.Core.eventManager.on('easing:registered', legacyCallback);
+
+      easingRegistry.register('square', t => t * t);
+
+      expect(callback).toHaveBeenCalledWith({ name: 'square' });
+      expect(legacyCallback).toHaveBeenCalledWith({ name: 'square' });
+    });
+
+    it('should not override built-in easings', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(easingRegistry.register('ease-in', t => t)).toBe(false);
+      expect(warnSpy).toHaveBeenCalledWith('Cannot override built-in easing "ease-in"');
+      warnSpy.mockRestore();
+    });
+
+    it('should reject invalid names', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(easingRegistry.register('my easing(1)', t => t)).toBe(false);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('unregister', () => {
+    it('should remove a custom easing', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onEasingUnregister', callback);
+      easingRegistry.register('square', t => t * t);
+
+      expect(easingRegistry.unregister('square')).toBe(true);
+      expect(easingRegistry.has('square')).toBe(false);
+      expect(callback).toHaveBeenCalledWith({ name: 'square' });
+    });
+
+    it('should return false for unknown easings', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(easingRegistry.unregister('missing')).toBe(false);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('normalize', () => {
+    it('should return the canonical spec of known easings', () => {
+      easingRegistry.register('square', t => t * t);
+
+      expect(easingRegistry.normalize(' steps( 3 , jump-none ) ')).toBe('steps(3, jump-none)');
+      expect(easingRegistry.normalize('square')).toBe('square');
+    });
+
+    it('should return null for unknown or malformed easings', () => {
+      expect(easingRegistry.normalize('square')).toBeNull();
+      expect(easingRegistry.normalize('cubic-bezier(2, 0, 0, 1)')).toBeNull();
+    });
+  });
+});
@@ -1,10 +1,11 @@
 import { EventManager, ICancellableEvent } from '../../core/EventManager';
 
 describe('EventManager', () => {
-  let eventManager: EventManager;
+  // Loosely typed event map so the tests can use arbitrary event names
+  let eventManager: EventManager<Record<string, any>>;
 
   beforeEach(() => {
-    eventManager = new EventManager();
+    eventManager = new EventManager<Record<string, any>>();
   });
 
   describe('on/emit', () => {
@@ -84,6 +85,112 @@ describe('EventManager', () => {
       // Should not throw
       expect(() => eventManager.off('nonExistentEvent', callback)).not.toThrow();
     });
+
+    it('should return a function removing the listener', () => {
+      const callback = jest.fn();
+      const unsubscribe = eventManager.on('testEvent', callback);
+
+      unsubscribe();
+      eventManager.emit('testEvent', { data: 'test' });
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should let a listener remove a later listener of the same event', () => {
+      const callback2 = jest.fn();
+      eventManager.on('testEvent', () => eventManager.off('testEvent', callback2));
+      eventManager.on('testEvent', callback2);
+
+      eventManager.emit('testEvent', {});
+
+      expect(callback2).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('once', () => {
+    it('should call the listener only for the next event', () => {
+      const callback = jest.fn();
+      eventManager.once('testEvent', callback);
+
+      eventManager.emit('testEvent', { data: 'first' });
+      eventManager.emit('testEvent', { data: 'second' });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ data: 'first' });
+      expect(eventManager.hasListeners('testEvent')).toBe(false);
+    });
+
+    it('should call a listener that emits the same event once', () => {
+      const callback = jest.fn(() => eventManager.emit('testEvent', {}));
+      eventManager.once('testEvent', callback);
+
+      eventManager.emit('testEvent', {});
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('wildcards', () => {
+    it('should call namespace listeners with the payload and event name', () => {
+      const callback = jest.fn();
+      eventManager.on('keyframe:*', callback);
+
+      eventManager.emit('keyframe:added', { frame: 5 });
+      eventManager.emit('keyframe:deleted', { frame: 6 });
+      eventManager.emit('keyframes:copied', { count: 1 });
+      eventManager.emit('onKeyframeAdd', { frame: 5 });
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenNthCalledWith(1, { frame: 5 }, 'keyframe:added');
+      expect(callback).toHaveBeenNthCalledWith(2, { frame: 6 }, 'keyframe:deleted');
+    });
+
+    it('should call "*" listeners for every event', () => {
+      const names: string[] = [];
+      eventManager.on('*', (_data: unknown, eventName: string) => names.push(eventName));
+
+      eventManager.emit('onKeyframeAdd', {});
+      eventManager.emit('keyframe:added', {});
+      eventManager.emitCancellable('onBeforeKeyframeDelete', {});
+
+      expect(names).toEqual(['onKeyframeAdd', 'keyframe:added', 'onBeforeKeyframeDelete']);
+    });
+
+    it('should count wildcard listeners in hasListeners', () => {
+      expect(eventManager.hasListeners('keyframe:added')).toBe(false);
+
+      eventManager.on('keyframe:*', jest.fn());
+
+      expect(eventManager.hasListeners('keyframe:added')).toBe(true);
+      expect(eventManager.hasListeners('layer:added')).toBe(false);
+    });
+  });
+
+  describe('priority', () => {
+    it('should call listeners by priority, then in the order they were added', () => {
+      const calls: string[] = [];
+      eventManager.on('keyframe:added', () => calls.push('default'));
+      eventManager.on('keyframe:*', () => calls.push('namespace'), { priority: 10 });
+      eventManager.on('keyframe:added', () => calls.push('low'), { priority: -1 });
+      eventManager.on('*', () => calls.push('all'));
+      eventManager.on('keyframe:added', () => calls.push('high'), { priority: 10 });
+
+      eventManager.emit('keyframe:added', {});
+
+      expect(calls).toEqual(['namespace', 'high', 'default', 'all', 'low']);
+    });
+
+    it('should let a high priority listener cancel before the others run', () => {
+      let preventedBeforeDefault: boolean | undefined;
+      eventManager.on('onBeforeKeyframeDelete', (event: ICancellableEvent) => {
+        preventedBeforeDefault = event.defaultPrevented;
+      });
+      eventManager.on('onBeforeKeyframeDelete', (event: ICancellableEvent) => event.preventDefault(), { priority: 1 });
+
+      eventManager.emitCancellable('onBeforeKeyframeDelete', { ids: [] });
+
+      expect(preventedBeforeDefault).toBe(true);
+    });
   });
 
   describe('emitCancellable', () => {
@@ -0,0 +1,228 @@
+import { HistoryManager } from '../../core/HistoryManager';
+import { KeyframeManager } from '../../core/KeyframeManager';
+import { LayerManager } from '../../core/LayerManager';
+import { TweenManager } from '../../core/TweenManager';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('HistoryManager', () => {
+  let historyManager: HistoryManager;
+  let keyframeManager: KeyframeManager;
+  let layerManager: LayerManager;
+  let tweenManager: TweenManager;
+  let mockContext: IJsTimeLineContext;
+
+  const getLayer1Frames = () => {
+    const layer = mockContext.Data.getData().layers.find(l => l.id === 'layer-1');
+    return layer?.keyframes?.map(kf => kf.frame);
+  };
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    historyManager = new HistoryManager(mockContext);
+    mockContext.Core.historyManager = historyManager;
+    keyframeManager = new KeyframeManager(mockContext);
+    layerManager = new LayerManager(mockContext);
+    tweenManager = new TweenManager(mockContext);
+  });
+
+  describe('recording', () => {
+    it('should start with empty history', () => {
+      expect(historyManager.canUndo()).toBe(false);
+      expect(historyManager.canRedo()).toBe(false);
+    });
+
+    it('should record keyframe insertion', () => {
+      keyframeManager.insertKeyframe('layer-1', 5);
+
+      expect(historyManager.canUndo()).toBe(true);
+      expect(historyManager.getState().undoLabel).toBe('Insert Keyframe');
+    });
+
+    it('should not record failed operations', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      keyframeManager.insertKeyframe('layer-1', 1); // Already exists
+
+      expect(historyManager.canUndo()).toBe(false);
+      warnSpy.mockRestore();
+    });
+
+    it('should not record cancelled operations', () => {
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+      mockContext.Core.eventManager.on('onBeforeKeyframeDelete', (event: any) => {
+        event.preventDefault();
+      });
+
+      keyframeManager.deleteFrames('layer-1', 1, 1);
+
+      expect(historyManager.canUndo()).toBe(false);
+      logSpy.mockRestore();
+    });
+
+    it('should merge nested transactions into one step', () => {
+      historyManager.transact('Batch', () => {
+        keyframeManager.insertKeyframe('layer-1', 5);
+        keyframeManager.insertKeyframe('layer-1', 6);
+      });
+
+      expect(historyManager.getState().undoCount).toBe(1);
+      expect(historyManager.getState().undoLabel).toBe('Batch');
+
+      historyManager.undo();
+      expect(getLayer1Frames()).toEqual([1, 10, 20]);
+    });
+  });
+
+  describe('undo/redo', () => {
+    it('should undo a keyframe insertion', () => {
+      keyframeManager.insertKeyframe('layer-1', 5);
+
+      expect(historyManager.undo()).toBe(true);
+      expect(getLayer1Frames()).toEqual([1, 10, 20]);
+    });
+
+    it('should redo an undone operation', () => {
+      keyframeManager.insertKeyframe('layer-1', 5);
+      historyManager.undo();
+
+      expect(historyManager.redo()).toBe(true);
+      expect(getLayer1Frames()).toEqual([1, 5, 10, 20]);
+    });
+
+    it('should undo frame deletion including tweens', () => {
+      keyframeManager.deleteFrames('layer-1', 1, 10);
+      historyManager.undo();
+
+      const layer = mockContext.Data.getData().layers.find(l => l.id === 'layer-1');
+      expect(getLayer1Frames()).toEqual([1, 10, 20]);
+      expect(layer?.tweens).toEqual([{ startFrame: 1, endFrame: 10, type: 'linear' }]);
+    });
+
+    it('should undo layer operations', () => {
+      const newLayer = layerManager.addLayer('Temp');
+      layerManager.renameObject(newLayer.id, 'Renamed');
+
+      historyManager.undo();
+      let layer = mockContext.Data.getData().layers.find(l => l.id === newLayer.id);
+      expect(layer?.name).toBe('Temp');
+
+      historyManager.undo();
+      layer = mockContext.Data.getData().layers.find(l => l.id === newLayer.id);
+      expect(layer).toBeUndefined();
+    });
+
+    it('should leave the untouched layers in place on undo and redo', () => {
+      const layers = mockContext.Data.getData().layers;
+      const untouched = layers.find(l => l.id === 'layer-2');
+      keyframeManager.insertKeyframe('layer-1', 5);
+
+      historyManager.undo();
+      historyManager.redo();
+
+      expect(getLayer1Frames()).toContain(5);
+      expect(mockContext.Data.getData().layers.find(l => l.id === 'layer-2')).toBe(untouched);
+    });
+
+    it('should undo tween creation', () => {
+      tweenManager.createMotionTween('layer-1', 10, 20);
+      historyManager.undo();
+
+      expect(tweenManager.getTweenAtFrame('layer-1', 15)).toBeNull();
+    });
+
+    it('should clear redo stack when a new operation is recorded', () => {
+      keyframeManager.insertKeyframe('layer-1', 5);
+      historyManager.undo();
+      keyframeManager.insertKeyframe('layer-1', 6);
+
+      expect(historyManager.canRedo()).toBe(false);
+    });
+
+    it('should return false when nothing to undo or redo', () => {
+      expect(historyManager.undo()).toBe(false);
+      expect(historyManager.redo()).toBe(false);
+    });
+
+    it('should not revert settings changes', () => {
+      keyframeManager.insertKeyframe('layer-1', 5);
+      const data = mockContext.Data.getData();
+      data.settings.layerPanelWidth = 400;
+
+      historyManager.undo();
+
+      expect(mockContext.Data.getData().settings.layerPanelWidth).toBe(400);
+    });
+
+    it('should refresh UI after undo', () => {
+      keyframeManager.insertKeyframe('layer-1', 5);
+      (mockContext.UI.timelineGrid.render as jest.Mock).mockClear();
+
+      historyManager.undo();
+
+      expect(mockContext.UI.timelineGrid.render).toHaveBeenCalled();
+      expect(mockContext.UI.layerPanel.render).toHaveBeenCalled();
+    });
+  });
+
+  describe('max depth', () => {
+    it('should discard oldest steps beyond the max depth', () => {
+      historyManager.setMaxDepth(2);
+
+      keyframeManager.insertKeyframe('layer-1', 2);
+      keyframeManager.insertKeyframe('layer-1', 3);
+      keyframeManager.insertKeyframe('layer-1', 4);
+
+      expect(historyManager.getState().undoCount).toBe(2);
+      historyManager.undo();
+      historyManager.undo();
+      expect(historyManager.undo()).toBe(false);
+      expect(getLayer1Frames()).toEqual([1, 2, 10, 20]);
+    });
+
+    it('should enforce a minimum depth of 1', () => {
+      historyManager.setMaxDepth(0);
+      expect(historyManager.getMaxDepth()).toBe(1);
+    });
+  });
+
+  describe('events', () => {
+    it('should emit onHistoryChange when recording', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onHistoryChange', callback);
+
+      keyframeManager.insertKeyframe('layer-1', 5);
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'record',
+        canUndo: true,
+        canRedo: false,
+        undoLabel: 'Insert Keyframe'
+      }));
+    });
+
+    it('should emit history:changed on undo and redo', () => {
+      const callback = jest.fn();
+      keyframeManager.insertKeyframe('layer-1', 5);
+      mockContext.Core.eventManager.on('history:changed', callback);
+
+      historyManager.undo();
+      historyManager.redo();
+
+      expect(callback).toHaveBeenNthCalledWith(1, expect.objectContaining({ action: 'undo', label: 'Insert Keyframe' }));
+      expect(callback).toHaveBeenNthCalledWith(2, expect.objectContaining({ action: 'redo', label: 'Insert Keyframe' }));
+    });
+
+    it('should emit onHistoryChange when cleared', () => {
+      const callback = jest.fn();
+      keyframeManager.insertKeyframe('layer-1', 5);
+      mockContext.Core.eventManager.on('onHistoryChange', callback);
+
+      historyManager.clear();
+
+      expect(historyManager.canUndo()).toBe(false);
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ action: 'clear', canUndo: false }));
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { InterpolationEngine } from '../../core/InterpolationEngine';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+import { ILayer } from '../../data/ITimeLineData';
+
+describe('InterpolationEngine', () => {
+  let interpolationEngine: InterpolationEngine;
+  let mockContext: IJsTimeLineContext;
+
+  const getLayer = (layerId: string): ILayer => {
+    const data = mockContext.Data.getData();
+    const find = (layers: readonly ILayer[]): ILayer | undefined => {
+      for (const layer of layers) {
+        if (layer.id === layerId) return layer;
+        const child = layer.children ? find(layer.children) : undefined;
+        if (child) return child;
+      }
+      return undefined;
+    };
+    return find(data.layers)!;
+  };
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    interpolationEngine = new InterpolationEngine(mockContext);
+
+    // layer-1: tween 1 -> 10 on x/color/visible, 20 is blank
+    const layer1 = getLayer('layer-1');
+    layer1.keyframes![0].values = { x: 0, color: { r: 0, g: 0, b: 0 }, label: 'start', scale: 1 };
+    layer1.keyframes![1].values = { x: 90, color: { r: 90, g: 0, b: 0 }, label: 'end' };
+  });
+
+  describe('evaluateLayer', () => {
+    it('should return null for unknown layers and folders', () => {
+      expect(interpolationEngine.evaluateLayer('missing', 1)).toBeNull();
+      expect(interpolationEngine.evaluateLayer('folder-1', 1)).toBeNull();
+    });
+
+    it('should return start values on the start keyframe', () => {
+      const state = interpolationEngine.evaluateLayer('layer-1', 1);
+
+      expect(state?.hasContent).toBe(true);
+      expect(state?.keyframe).toBe(1);
+      expect(state?.values.x).toBe(0);
+    });
+
+    it('should interpolate values inside a linear tween', () => {
+      const state = interpolationEngine.evaluateLayer('layer-1', 4);
+
+      expect(state?.tween).toEqual({ startFrame: 1, endFrame: 10, type: 'linear' });
+      expect(state?.progress).toBeCloseTo(1 / 3);
+      expect(state?.values.x).toBeCloseTo(30);
+      expect(state?.values.color).toEqual({ r: 30, g: 0, b: 0 });
+    });
+
+    it('should hold discrete values and properties missing from the end keyframe', () => {
+      const state = interpolationEngine.evaluateLayer('layer-1', 5);
+
+      expect(state?.values.label).toBe('start');
+      expect(state?.values.scale).toBe(1);
+    });
+
+    it('should apply the tween easing', () => {
+      getLayer('layer-1').tweens![0].type = 'ease-in';
+
+      const state = interpolationEngine.evaluateLayer('layer-1', 4);
+
+      expect(state?.progress).toBeLessThan(1 / 3);
+      expect(state?.values.x).toBeLessThan(30);
+    });
+
+    it('should hold end keyframe values after the tween', () => {
+      const state = interpolationEngine.evaluateLayer('layer-1', 15);
+
+      expect(state?.tween).toBeNull();
+      expect(state?.keyframe).toBe(10);
+      expect(state?.values.x).toBe(90);
+    });
+
+    it('should report no content on blank keyframes and before the first keyframe', () => {
+      expect(interpolationEngine.evaluateLayer('layer-1', 25)?.hasContent).toBe(false);
+      expect(interpolationEngine.evaluateLayer('layer-2', 2)?.hasContent).toBe(false);
+      expect(interpolationEngine.evaluateLayer('layer-2', 2)?.keyframe).toBeNull();
+    });
+
+    it('should hold start values when the tween ends on a blank keyframe', () => {
+      const layer1 = getLayer('layer-1');
+      layer1.tweens!.push({ startFrame: 10, endFrame: 20, type: 'linear' });
+
+      const state = interpolationEngine.evaluateLayer('layer-1', 15);
+
+      expect(state?.tween).toBeNull();
+      expect(state?.values.x).toBe(90);
+    });
+
+    it('should not share value objects with the keyframes', () => {
+      const state = interpolationEngine.evaluateLayer('layer-1', 1);
+      (state!.values.color as any).r = 200;
+
+      expect(getLayer('layer-1').keyframes![0].values!.color).toEqual({ r: 0, g: 0, b: 0 });
+    });
+  });
+
+  describe('evaluateAll', () => {
+    it('should evaluate every layer except folders', () => {
+      const states = interpolationEngine.evaluateAll(5);
+
+      expect(states.map(s => s.layerId)).toEqual(['layer-1', 'layer-2', 'layer-3']);
+    });
+
+    it('should skip hidden layers when visibleOnly is set', () => {
+      const states = interpolationEngine.evaluateAll(5, { visibleOnly: true });
+
+      expect(states.map(s => s.layerId)).toEqual(['layer-1', 'layer-2']);
+    });
+
+    it('should skip children of hidden folders when visibleOnly is set', () => {
+      getLayer('folder-1').visible = false;
+
+      const states = interpolationEngine.evaluateAll(5, { visibleOnly: true });
+
+      expect(states.map(s => s.layerId)).toEqual(['layer-1']);
+    });
+  });
+});
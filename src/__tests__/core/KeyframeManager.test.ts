@@ -1,4 +1,5 @@
 import { KeyframeManager } from '../../core/KeyframeManager';
+import { HistoryManager } from '../../core/HistoryManager';
 import { createMockContext, createTestData } from '../helpers/mockContext';
 import { IJsTimeLineContext } from '../../IJsTimeLineContext';
 
@@ -267,6 +268,191 @@ describe('KeyframeManager', () => {
     });
   });
 
+  describe('moveKeyframes across layers', () => {
+    const findLayer = (layerId: string) => {
+      const layers = mockContext.Data.getData().layers;
+      return layers.find(l => l.id === layerId) || layers.find(l => l.id === 'folder-1')!.children!.find(l => l.id === layerId)!;
+    };
+    const framesOf = (layerId: string) => (findLayer(layerId).keyframes || []).map(kf => kf.frame);
+    const tweensOf = (layerId: string) => (findLayer(layerId).tweens || []).map(tw => [tw.startFrame, tw.endFrame]);
+    const unlockLayer3 = () => {
+      mockContext.Data.getData().layers[2].locked = false;
+    };
+
+    let warnSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    });
+
+    afterEach(() => {
+      warnSpy.mockRestore();
+    });
+
+    it('should keep the frame offset of each keyframe on its own layer', () => {
+      expect(keyframeManager.moveKeyframes(['layer-1:10', 'layer-2:5'], 'layer-1', 30)).toBe(true);
+
+      expect(framesOf('layer-1')).toEqual([1, 20, 30]);
+      expect(framesOf('layer-2')).toEqual([25]);
+    });
+
+    it('should keep the layer offset of each keyframe, skipping folders', () => {
+      unlockLayer3();
+
+      expect(keyframeManager.moveKeyframes(['layer-1:10', 'layer-2:5'], 'layer-2', 12)).toBe(true);
+
+      expect(framesOf('layer-1')).toEqual([1, 20]);
+      expect(framesOf('layer-2')).toEqual([12]);
+      expect(framesOf('layer-3')).toEqual([7]);
+    });
+
+    it('should move tweens with both their keyframes', () => {
+      expect(keyframeManager.moveKeyframes(['layer-1:1', 'layer-1:10'], 'layer-2', 31)).toBe(true);
+
+      expect(tweensOf('layer-1')).toEqual([]);
+      expect(tweensOf('layer-2')).toEqual([[31, 40]]);
+      expect(findLayer('layer-2').tweens![0].type).toBe('linear');
+    });
+
+    it('should keep tweens attached to a keyframe moved on its layer', () => {
+      const report = keyframeManager.planMoveKeyframes(['layer-1:10'], 'layer-1', 15);
+
+      expect(report.movedTweens).toEqual([{
+        from: { layerId: 'layer-1', startFrame: 1, endFrame: 10 },
+        to: { layerId: 'layer-1', startFrame: 1, endFrame: 15 }
+      }]);
+
+      keyframeManager.moveKeyframes(['layer-1:10'], 'layer-1', 15);
+
+      expect(tweensOf('layer-1')).toEqual([[1, 15]]);
+    });
+
+    it('should remove tweens that lose a keyframe', () => {
+      const removeCallback = jest.fn();
+      mockContext.Core.eventManager.on('onTweenRemove', removeCallback);
+
+      const report = keyframeManager.planMoveKeyframes(['layer-1:10'], 'layer-2', 12);
+
+      expect(report.removedTweens).toEqual([{ layerId: 'layer-1', startFrame: 1, endFrame: 10 }]);
+
+      keyframeManager.moveKeyframes(['layer-1:10'], 'layer-2', 12);
+
+      expect(tweensOf('layer-1')).toEqual([]);
+      expect(removeCallback).toHaveBeenCalledWith({ layerId: 'layer-1', startFrame: 1, endFrame: 10 });
+    });
+
+    it('should split tweens at keyframes moved inside them', () => {
+      keyframeManager.moveKeyframes(['layer-2:5'], 'layer-1', 5);
+
+      expect(framesOf('layer-1')).toEqual([1, 5, 10, 20]);
+      expect(tweensOf('layer-1')).toEqual([[1, 5], [5, 10]]);
+    });
+
+    it('should not move keyframes onto or off locked layers', () => {
+      expect(keyframeManager.moveKeyframes(['layer-2:5'], 'layer-3', 5)).toBe(false);
+
+      const report = keyframeManager.planMoveKeyframes(['layer-2:5'], 'layer-3', 5);
+      expect(report.conflicts).toEqual({
+        'layer-3': [{ frameId: 'layer-2:5', targetFrame: 5, reason: 'locked', resolution: 'rejected' }]
+      });
+      expect(framesOf('layer-2')).toEqual([5]);
+    });
+
+    it('should report keyframes moved past the first layer', () => {
+      const report = keyframeManager.planMoveKeyframes(['layer-2:5', 'layer-1:1'], 'layer-1', 5);
+
+      expect(report.success).toBe(false);
+      expect(report.layerOffset).toBe(-1);
+      expect(report.conflicts['layer-1']).toEqual([{ frameId: 'layer-1:1', targetFrame: 1, reason: 'noLayer', resolution: 'rejected' }]);
+    });
+
+    it('should reject conflicting moves by default', () => {
+      const report = keyframeManager.planMoveKeyframes(['layer-1:10'], 'layer-1', 20);
+
+      expect(report.conflicts).toEqual({
+        'layer-1': [{ frameId: 'layer-1:10', targetFrame: 20, reason: 'occupied', resolution: 'rejected' }]
+      });
+      expect(keyframeManager.moveKeyframes(['layer-1:10'], 'layer-1', 20)).toBe(false);
+      expect(framesOf('layer-1')).toEqual([1, 10, 20]);
+    });
+
+    it('should overwrite conflicting keyframes', () => {
+      const deleteCallback = jest.fn();
+      mockContext.Core.eventManager.on('onKeyframeDelete', deleteCallback);
+
+      expect(keyframeManager.moveKeyframes(['layer-1:10'], 'layer-1', 20, 'overwrite')).toBe(true);
+
+      expect(framesOf('layer-1')).toEqual([1, 20]);
+      expect(findLayer('layer-1').keyframes![1].isEmpty).toBe(false);
+      expect(deleteCallback).toHaveBeenCalledWith({ ids: ['kf-layer-1-20'] });
+    });
+
+    it('should not overwrite keyframes when the deletion is cancelled', () => {
+      mockContext.Core.eventManager.on('onBeforeKeyframeDelete', (event: any) => event.preventDefault());
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      expect(keyframeManager.moveKeyframes(['layer-1:10'], 'layer-1', 20, 'overwrite')).toBe(false);
+      expect(framesOf('layer-1')).toEqual([1, 10, 20]);
+
+      logSpy.mockRestore();
+    });
+
+    it('should leave conflicting keyframes in place with the skip policy', () => {
+      expect(keyframeManager.moveKeyframes(['layer-1:1', 'layer-1:10'], 'layer-1', 11, 'skip')).toBe(true);
+
+      expect(framesOf('layer-1')).toEqual([10, 11, 20]);
+    });
+
+    it('should skip keyframes blocked by skipped keyframes', () => {
+      keyframeManager.insertKeyframe('layer-1', 19);
+
+      const report = keyframeManager.planMoveKeyframes(['layer-1:1', 'layer-1:10'], 'layer-1', 10, 'skip');
+
+      expect(report.success).toBe(false);
+      expect(report.conflicts['layer-1'].map(conflict => conflict.frameId)).toEqual(['layer-1:10', 'layer-1:1']);
+      expect(keyframeManager.moveKeyframes(['layer-1:1', 'layer-1:10'], 'layer-1', 10, 'skip')).toBe(false);
+    });
+
+    it('should move conflicting keyframes to the next free frame with the shift policy', () => {
+      keyframeManager.insertKeyframe('layer-1', 21);
+
+      const report = keyframeManager.planMoveKeyframes(['layer-1:10'], 'layer-1', 20, 'shift');
+
+      expect(report.moves).toEqual([{ id: 'kf-layer-1-10', fromLayerId: 'layer-1', toLayerId: 'layer-1', oldFrame: 10, newFrame: 22 }]);
+      expect(report.conflicts['layer-1']).toEqual([{ frameId: 'layer-1:10', targetFrame: 20, reason: 'occupied', resolution: 'shifted' }]);
+
+      keyframeManager.moveKeyframes(['layer-1:10'], 'layer-1', 20, 'shift');
+
+      expect(framesOf('layer-1')).toEqual([1, 20, 21, 22]);
+    });
+
+    it('should not change the data when planning a move', () => {
+      const before = mockContext.Data.toJSON();
+
+      keyframeManager.planMoveKeyframes(['layer-1:1', 'layer-1:10'], 'layer-2', 31, 'overwrite');
+
+      expect(mockContext.Data.toJSON()).toBe(before);
+    });
+
+    it('should send the report with onKeyframeMove event', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onKeyframeMove', callback);
+
+      keyframeManager.moveKeyframes(['layer-1:10', 'layer-2:5'], 'layer-1', 30);
+
+      const { moves, report } = callback.mock.calls[0][0];
+      expect(moves).toEqual([
+        { id: 'kf-layer-1-10', fromLayerId: 'layer-1', toLayerId: 'layer-1', oldFrame: 10, newFrame: 30 },
+        { id: 'kf-layer-2-5', fromLayerId: 'layer-2', toLayerId: 'layer-2', oldFrame: 5, newFrame: 25 }
+      ]);
+      expect(report.frameOffset).toBe(20);
+      expect(report.movedTweens).toEqual([{
+        from: { layerId: 'layer-1', startFrame: 1, endFrame: 10 },
+        to: { layerId: 'layer-1', startFrame: 1, endFrame: 30 }
+      }]);
+    });
+  });
+
   describe('copyKeyframes', () => {
     it('should copy keyframes to state manager clipboard', () => {
       keyframeManager.copyKeyframes(['layer-1:1', 'layer-1:10']);
@@ -324,6 +510,19 @@ describe('KeyframeManager', () => {
       });
     });
 
+    it('should paste a clipboard too large to spread into arguments', () => {
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+      const clipboard = Array.from({ length: 150000 }, (_, index) => ({ layerId: 'layer-1', frame: index + 2, keyframe: { frame: index + 2 } }));
+      mockContext.Core.stateManager.set('clipboard_keyframes', clipboard);
+
+      keyframeManager.pasteKeyframes('layer-3', 1);
+
+      const layer = mockContext.Data.getData().layers.find(l => l.id === 'layer-3');
+      expect(layer?.keyframes).toHaveLength(150000);
+      expect(layer?.keyframes?.[0].frame).toBe(1);
+      logSpy.mockRestore();
+    });
+
     it('should warn when clipboard is empty', () => {
       const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
       
@@ -343,4 +542,181 @@ describe('KeyframeManager', () => {
       warnSpy.mockRestore();
     });
   });
+
+  describe('tween attachment', () => {
+    const tweensOf = (layerId: string) => (mockContext.Data.getData().layers.find(l => l.id === layerId)!.tweens || [])
+      .map(tw => [tw.startFrame, tw.endFrame]);
+
+    it('should split a tween when a keyframe is inserted inside it', () => {
+      const addCallback = jest.fn();
+      const updateCallback = jest.fn();
+      mockContext.Core.eventManager.on('onTweenAdd', addCallback);
+      mockContext.Core.eventManager.on('onTweenUpdate', updateCallback);
+
+      keyframeManager.insertBlankKeyframe('layer-1', 4);
+
+      expect(tweensOf('layer-1')).toEqual([[1, 4], [4, 10]]);
+      expect(mockContext.Data.getData().layers[0].tweens![1].type).toBe('linear');
+      expect(updateCallback).toHaveBeenCalledWith({
+        layerId: 'layer-1',
+        oldTween: { startFrame: 1, endFrame: 10, type: 'linear' },
+        newTween: { startFrame: 1, endFrame: 4, type: 'linear' }
+      });
+      expect(addCallback).toHaveBeenCalledWith({ layerId: 'layer-1', startFrame: 4, endFrame: 10, type: 'motion' });
+    });
+
+    it('should remove a tween when one of its keyframes is deleted', () => {
+      const removeCallback = jest.fn();
+      mockContext.Core.eventManager.on('onTweenRemove', removeCallback);
+
+      keyframeManager.deleteKeyframe('layer-1', 10);
+
+      expect(tweensOf('layer-1')).toEqual([]);
+      expect(removeCallback).toHaveBeenCalledWith({ layerId: 'layer-1', startFrame: 1, endFrame: 10 });
+    });
+
+    it('should remove a tween whose keyframe is in deleted frames', () => {
+      keyframeManager.deleteFrames('layer-1', 8, 12);
+
+      expect(tweensOf('layer-1')).toEqual([]);
+    });
+
+    it('should keep a tween around deleted frames attached to its keyframes', () => {
+      keyframeManager.deleteFrames('layer-1', 3, 5);
+
+      expect(tweensOf('layer-1')).toEqual([[1, 7]]);
+    });
+
+    it('should split a tween when keyframes are pasted inside it', () => {
+      keyframeManager.copyKeyframes(['layer-2:5']);
+      keyframeManager.pasteKeyframes('layer-1', 6);
+
+      expect(tweensOf('layer-1')).toEqual([[1, 6], [6, 10]]);
+    });
+
+    it('should leave tweens that were not attached to keyframes alone', () => {
+      mockContext.Data.getData().layers[0].tweens!.push({ startFrame: 30, endFrame: 40 });
+
+      keyframeManager.insertFrame('layer-1', 5);
+
+      expect(tweensOf('layer-1')).toEqual([[1, 11], [31, 41]]);
+    });
+
+    it('should restore split tweens on undo', () => {
+      const historyManager = new HistoryManager(mockContext);
+      mockContext.Core.historyManager = historyManager;
+
+      keyframeManager.insertKeyframe('layer-1', 4);
+      historyManager.undo();
+
+      expect(tweensOf('layer-1')).toEqual([[1, 10]]);
+    });
+  });
+
+  describe('keyframe values', () => {
+    const getKeyframe = (layerId: string, frame: number) => {
+      const data = mockContext.Data.getData();
+      const find = (layers: readonly any[]): any => {
+        for (const layer of layers) {
+          if (layer.id === layerId) return layer;
+          if (layer.children) {
+            const found = find(layer.children);
+            if (found) return found;
+          }
+        }
+        return null;
+      };
+      return find(data.layers)?.keyframes?.find((kf: any) => kf.frame === frame);
+    };
+
+    it('should insert a keyframe with provided values', () => {
+      keyframeManager.insertKeyframe('layer-1', 5, { x: 10, position: { x: 1, y: 2 } });
+
+      expect(getKeyframe('layer-1', 5).values).toEqual({ x: 10, position: { x: 1, y: 2 } });
+    });
+
+    it('should inherit values from the keyframe in effect', () => {
+      keyframeManager.setKeyframeValues('layer-1', 1, { opacity: 0.5 });
+      keyframeManager.insertKeyframe('layer-1', 5);
+
+      expect(getKeyframe('layer-1', 5).values).toEqual({ opacity: 0.5 });
+    });
+
+    it('should not inherit values from a blank keyframe', () => {
+      keyframeManager.setKeyframeValues('layer-1', 10, { x: 1 });
+      keyframeManager.insertKeyframe('layer-1', 25); // Frame 20 is a blank keyframe
+
+      expect(getKeyframe('layer-1', 25).values).toBeUndefined();
+    });
+
+    it('should reject invalid values', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = keyframeManager.setKeyframeValues('layer-1', 1, { bad: [1, 2] as any });
+
+      expect(result).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith('Invalid value for keyframe property "bad"');
+      errorSpy.mockRestore();
+    });
+
+    it('should merge values by default and replace when requested', () => {
+      keyframeManager.setKeyframeValues('layer-1', 1, { x: 1, y: 2 });
+      keyframeManager.setKeyframeValues('layer-1', 1, { y: 3 });
+      expect(keyframeManager.getKeyframeValues('layer-1', 1)).toEqual({ x: 1, y: 3 });
+
+      keyframeManager.setKeyframeValues('layer-1', 1, { visible: true }, true);
+      expect(keyframeManager.getKeyframeValues('layer-1', 1)).toEqual({ visible: true });
+    });
+
+    it('should turn a blank keyframe into a content keyframe when values are set', () => {
+      keyframeManager.setKeyframeValues('layer-1', 20, { label: 'hello' });
+
+      expect(getKeyframe('layer-1', 20).isEmpty).toBe(false);
+    });
+
+    it('should emit onKeyframeValuesChange event', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onKeyframeValuesChange', callback);
+
+      keyframeManager.setKeyframeValues('layer-1', 1, { fill: { r: 255, g: 0, b: 0 } });
+
+      expect(callback).toHaveBeenCalledWith({
+        id: 'kf-layer-1-1',
+        layerId: 'layer-1',
+        frame: 1,
+        values: { fill: { r: 255, g: 0, b: 0 } }
+      });
+    });
+
+    it('should remove a single value', () => {
+      keyframeManager.setKeyframeValues('layer-1', 1, { x: 1, y: 2 });
+
+      expect(keyframeManager.removeKeyframeValue('layer-1', 1, 'x')).toBe(true);
+      expect(keyframeManager.getKeyframeValues('layer-1', 1)).toEqual({ y: 2 });
+      expect(keyframeManager.removeKeyframeValue('layer-1', 1, 'x')).toBe(false);
+    });
+
+    it('should return null values for a missing keyframe', () => {
+      expect(keyframeManager.getKeyframeValues('layer-1', 2)).toBeNull();
+    });
+
+    it('should preserve values when moving keyframes', () => {
+      keyframeManager.setKeyframeValues('layer-1', 10, { x: 42 });
+      keyframeManager.moveKeyframes(['layer-1:10'], 'layer-1', 30);
+
+      expect(getKeyframe('layer-1', 30).values).toEqual({ x: 42 });
+    });
+
+    it('should paste independent copies of values', () => {
+      keyframeManager.setKeyframeValues('layer-1', 1, { position: { x: 1, y: 1 } });
+      keyframeManager.copyKeyframes(['layer-1:1']);
+      keyframeManager.pasteKeyframes('layer-3', 5);
+
+      const pasted = getKeyframe('layer-3', 5);
+      pasted.values.position.x = 99;
+
+      expect(pasted.values).toBeDefined();
+      expect(getKeyframe('layer-1', 1).values.position.x).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,166 @@
+import { KeymapManager, getEventShortcut, normalizeShortcut } from '../../core/KeymapManager';
+import { CommandRegistry, ICommandContext } from '../../core/CommandRegistry';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('KeymapManager', () => {
+  let keymapManager: KeymapManager;
+  let commandRegistry: CommandRegistry;
+  let mockContext: IJsTimeLineContext;
+
+  const registerCommand = (id: string, run: (context: ICommandContext) => boolean | void = () => {}) => {
+    commandRegistry.register({ id, label: id, run });
+  };
+
+  const keyDown = (key: string, init: KeyboardEventInit = {}, target: HTMLElement = document.body): KeyboardEvent => {
+    const event = new KeyboardEvent('keydown', { key, cancelable: true, bubbles: true, ...init });
+    Object.defineProperty(event, 'target', { value: target });
+    return event;
+  };
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    keymapManager = new KeymapManager(mockContext);
+    mockContext.Core.keymapManager = keymapManager;
+    commandRegistry = new CommandRegistry(mockContext);
+    mockContext.Core.commandRegistry = commandRegistry;
+  });
+
+  describe('normalizeShortcut', () => {
+    it('should order modifiers and normalize key names', () => {
+      expect(normalizeShortcut('shift+ctrl+z')).toBe('Ctrl+Shift+Z');
+      expect(normalizeShortcut('Cmd+Alt+d')).toBe('Ctrl+Alt+D');
+      expect(normalizeShortcut('f6')).toBe('F6');
+      expect(normalizeShortcut('del')).toBe('Delete');
+      expect(normalizeShortcut('Ctrl++')).toBe('Ctrl++');
+    });
+
+    it('should reject unknown modifiers and keys', () => {
+      expect(normalizeShortcut('Hyper+Z')).toBeNull();
+      expect(normalizeShortcut('Ctrl+Banana')).toBeNull();
+      expect(normalizeShortcut('')).toBeNull();
+    });
+  });
+
+  describe('getEventShortcut', () => {
+    it('should treat Cmd as Ctrl', () => {
+      expect(getEventShortcut(keyDown('z', { metaKey: true, shiftKey: true }))).toBe('Ctrl+Shift+Z');
+      expect(getEventShortcut(keyDown(' '))).toBe('Space');
+    });
+  });
+
+  describe('handleKeyDown', () => {
+    it('should run the command bound to the key and prevent its default action', () => {
+      const handler = jest.fn();
+      registerCommand('undo', handler);
+
+      const event = keyDown('z', { ctrlKey: true });
+      expect(keymapManager.handleKeyDown(event)).toBe(true);
+
+      expect(handler).toHaveBeenCalledWith({ source: 'keyboard', event });
+      expect(event.defaultPrevented).toBe(true);
+    });
+
+    it('should leave the key to the browser when the command does not apply', () => {
+      registerCommand('copy', () => false);
+
+      const event = keyDown('c', { ctrlKey: true });
+      expect(keymapManager.handleKeyDown(event)).toBe(false);
+      expect(event.defaultPrevented).toBe(false);
+    });
+
+    it('should leave the key to the browser when the command is disabled', () => {
+      const handler = jest.fn();
+      commandRegistry.register({ id: 'paste', label: 'Paste', isEnabled: () => false, run: handler });
+
+      const event = keyDown('v', { ctrlKey: true });
+      expect(keymapManager.handleKeyDown(event)).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(false);
+    });
+
+    it('should ignore keys typed in text inputs', () => {
+      const handler = jest.fn();
+      registerCommand('insertKeyframe', handler);
+
+      expect(keymapManager.handleKeyDown(keyDown('F6', {}, document.createElement('input')))).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should ignore keys already handled by a component', () => {
+      const handler = jest.fn();
+      registerCommand('deleteSelection', handler);
+      const event = keyDown('Delete');
+      event.preventDefault();
+
+      expect(keymapManager.handleKeyDown(event)).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bind / unbind', () => {
+    it('should rebind a shortcut and emit onKeymapChange event', () => {
+      const callback = jest.fn();
+      const handler = jest.fn();
+      mockContext.Core.eventManager.on('onKeymapChange', callback);
+      registerCommand('insertKeyframe', handler);
+
+      expect(keymapManager.bind('ctrl+d', 'insertKeyframe')).toBe(true);
+      keymapManager.handleKeyDown(keyDown('d', { ctrlKey: true }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ shortcut: 'Ctrl+D', commandId: 'insertKeyframe' });
+      expect(keymapManager.getShortcuts('insertKeyframe')).toEqual(['F6', 'Ctrl+D']);
+    });
+
+    it('should reject invalid shortcuts', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(keymapManager.bind('Ctrl+Nothing', 'undo')).toBe(false);
+
+      errorSpy.mockRestore();
+    });
+
+    it('should unbind shortcuts and restore the defaults', () => {
+      expect(keymapManager.unbind('F6')).toBe(true);
+      expect(keymapManager.getCommand('F6')).toBeNull();
+      expect(keymapManager.unbind('F6')).toBe(false);
+
+      keymapManager.resetKeymap();
+
+      expect(keymapManager.getCommand('F6')).toBe('insertKeyframe');
+    });
+  });
+
+  describe('addDefaultBinding', () => {
+    it('should bind a free shortcut and restore it with the defaults', () => {
+      expect(keymapManager.addDefaultBinding('ctrl+shift+d', 'duplicate')).toBe(true);
+      expect(keymapManager.getCommand('Ctrl+Shift+D')).toBe('duplicate');
+
+      keymapManager.unbind('Ctrl+Shift+D');
+      keymapManager.resetKeymap();
+
+      expect(keymapManager.getCommand('Ctrl+Shift+D')).toBe('duplicate');
+    });
+
+    it('should not take over a default shortcut of another command', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(keymapManager.addDefaultBinding('F6', 'duplicate')).toBe(false);
+      expect(keymapManager.getCommand('F6')).toBe('insertKeyframe');
+
+      warnSpy.mockRestore();
+    });
+
+    it('should keep a shortcut the user bound', () => {
+      keymapManager.bind('Ctrl+Shift+D', 'insertKeyframe');
+
+      expect(keymapManager.addDefaultBinding('Ctrl+Shift+D', 'duplicate')).toBe(true);
+      expect(keymapManager.getCommand('Ctrl+Shift+D')).toBe('insertKeyframe');
+
+      keymapManager.resetKeymap();
+      expect(keymapManager.getCommand('Ctrl+Shift+D')).toBe('duplicate');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { LabelManager } from '../../core/LabelManager';
+import { HistoryManager } from '../../core/HistoryManager';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('LabelManager', () => {
+  let labelManager: LabelManager;
+  let mockContext: IJsTimeLineContext;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    labelManager = new LabelManager(mockContext);
+  });
+
+  describe('addLabel', () => {
+    it('should add a label to a frame', () => {
+      const result = labelManager.addLabel(10, 'intro');
+
+      expect(result).toBe(true);
+      expect(mockContext.Data.getData().labels).toEqual([{ frame: 10, name: 'intro', type: 'label' }]);
+    });
+
+    it('should add a comment to a frame', () => {
+      labelManager.addLabel(5, 'fade starts here', 'comment');
+
+      expect(labelManager.getLabelAtFrame(5)).toEqual({ frame: 5, name: 'fade starts here', type: 'comment' });
+    });
+
+    it('should keep labels sorted by frame', () => {
+      labelManager.addLabel(30, 'outro');
+      labelManager.addLabel(1, 'intro');
+
+      expect(labelManager.getLabels().map(l => l.frame)).toEqual([1, 30]);
+    });
+
+    it('should trim label names', () => {
+      labelManager.addLabel(10, '  intro  ');
+
+      expect(labelManager.getLabel('intro')?.frame).toBe(10);
+    });
+
+    it('should reject duplicate label names', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      labelManager.addLabel(10, 'intro');
+
+      expect(labelManager.addLabel(20, 'intro')).toBe(false);
+      expect(warnSpy).toHaveBeenCalledWith('Label "intro" already exists');
+      warnSpy.mockRestore();
+    });
+
+    it('should allow comments with the same text', () => {
+      labelManager.addLabel(10, 'todo', 'comment');
+
+      expect(labelManager.addLabel(20, 'todo', 'comment')).toBe(true);
+    });
+
+    it('should reject a second label on the same frame', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      labelManager.addLabel(10, 'intro');
+
+      expect(labelManager.addLabel(10, 'other')).toBe(false);
+      warnSpy.mockRestore();
+    });
+
+    it('should reject empty names and frames outside the timeline', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(labelManager.addLabel(10, '   ')).toBe(false);
+      expect(labelManager.addLabel(0, 'intro')).toBe(false);
+      expect(labelManager.addLabel(101, 'intro')).toBe(false);
+      errorSpy.mockRestore();
+    });
+
+    it('should emit onLabelAdd and label:added events', () => {
+      const callback = jest.fn();
+      const legacyCallback = jest.fn();
+      mockContext.Core.eventManager.on('onLabelAdd', callback);
+      mockContext.Core.eventManager.on('label:added', legacyCallback);
+
+      labelManager.addLabel(10, 'intro');
+
+      expect(callback).toHaveBeenCalledWith({ frame: 10, name: 'intro', type: 'label' });
+      expect(legacyCallback).toHaveBeenCalledWith({ frame: 10, name: 'intro', type: 'label' });
+    });
+
+    it('should re-render the ruler and grid', () => {
+      labelManager.addLabel(10, 'intro');
+
+      expect(mockContext.UI.timeRuler.render).toHaveBeenCalled();
+      expect(mockContext.UI.timelineGrid.render).toHaveBeenCalled();
+    });
+  });
+
+  describe('removeLabel', () => {
+    it('should remove the label on a frame', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onLabelRemove', callback);
+      labelManager.addLabel(10, 'intro');
+
+      expect(labelManager.removeLabel(10)).toBe(true);
+      expect(labelManager.getLabels()).toEqual([]);
+      expect(callback).toHaveBeenCalledWith({ frame: 10, name: 'intro', type: 'label' });
+    });
+
+    it('should return false when the frame has no label', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(labelManager.removeLabel(10)).toBe(false);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('updating labels', () => {
+    beforeEach(() => {
+      labelManager.addLabel(10, 'intro');
+    });
+
+    it('should rename a label', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onLabelUpdate', callback);
+
+      expect(labelManager.renameLabel(10, 'start')).toBe(true);
+      expect(labelManager.getLabel('start')?.frame).toBe(10);
+      expect(callback).toHaveBeenCalledWith({
+        oldLabel: { frame: 10, name: 'intro', type: 'label' },
+        newLabel: { frame: 10, name: 'start', type: 'label' }
+      });
+    });
+
+    it('should not rename a label to an existing name', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      labelManager.addLabel(20, 'loop');
+
+      expect(labelManager.renameLabel(10, 'loop')).toBe(false);
+      warnSpy.mockRestore();
+    });
+
+    it('should move a label to another frame', () => {
+      expect(labelManager.moveLabel(10, 15)).toBe(true);
+      expect(labelManager.getLabel('intro')?.frame).toBe(15);
+      expect(labelManager.getLabelAtFrame(10)).toBeNull();
+    });
+
+    it('should not move a label onto another label', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      labelManager.addLabel(20, 'loop');
+
+      expect(labelManager.moveLabel(10, 20)).toBe(false);
+      warnSpy.mockRestore();
+    });
+
+    it('should convert a label to a comment', () => {
+      labelManager.setLabelType(10, 'comment');
+
+      expect(labelManager.getLabel('intro')).toBeNull();
+      expect(labelManager.getLabels('comment')).toEqual([{ frame: 10, name: 'intro', type: 'comment' }]);
+    });
+  });
+
+  describe('history', () => {
+    it('should undo label operations', () => {
+      const historyManager = new HistoryManager(mockContext);
+      mockContext.Core.historyManager = historyManager;
+
+      labelManager.addLabel(10, 'intro');
+      labelManager.renameLabel(10, 'start');
+
+      expect(historyManager.getState().undoLabel).toBe('Rename Frame Label');
+      historyManager.undo();
+      expect(labelManager.getLabel('intro')).not.toBeNull();
+      historyManager.undo();
+      expect(labelManager.getLabels()).toEqual([]);
+    });
+  });
+});
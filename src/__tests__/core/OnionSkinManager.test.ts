@@ -0,0 +1,129 @@
+import { OnionSkinManager } from '../../core/OnionSkinManager';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('OnionSkinManager', () => {
+  let onionSkinManager: OnionSkinManager;
+  let mockContext: IJsTimeLineContext;
+
+  const movePlayhead = (frame: number) => {
+    mockContext.Core.eventManager.emit('playback:positionChanged', { frame });
+  };
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    onionSkinManager = new OnionSkinManager(mockContext);
+  });
+
+  describe('settings', () => {
+    it('should be disabled by default', () => {
+      expect(onionSkinManager.getSettings()).toEqual({
+        enabled: false,
+        before: 2,
+        after: 2,
+        mode: 'filled',
+        anchor: 'relative'
+      });
+      expect(onionSkinManager.getOnionSkin().frames).toEqual([]);
+    });
+
+    it('should store the state in the timeline settings', () => {
+      onionSkinManager.setEnabled(true);
+      onionSkinManager.setRange(3, 1);
+      onionSkinManager.setMode('outline');
+
+      expect(mockContext.Data.getData().settings.onionSkin).toEqual({
+        enabled: true,
+        before: 3,
+        after: 1,
+        mode: 'outline',
+        anchor: 'relative'
+      });
+      expect(mockContext.UI.timeRuler.render).toHaveBeenCalled();
+    });
+
+    it('should reject invalid ranges', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(onionSkinManager.setRange(-1, 2)).toBe(false);
+      expect(onionSkinManager.setRange(1.5, 2)).toBe(false);
+      expect(onionSkinManager.setFixedRange(10, 5)).toBe(false);
+      expect(onionSkinManager.setFixedRange(90, 101)).toBe(false);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('ghost frames', () => {
+    beforeEach(() => {
+      onionSkinManager.setEnabled(true);
+    });
+
+    it('should ghost frames around the playhead with fading opacity', () => {
+      movePlayhead(10);
+
+      expect(onionSkinManager.getGhostFrames()).toEqual([
+        { frame: 8, offset: -2, opacity: 0.25 },
+        { frame: 9, offset: -1, opacity: 0.5 },
+        { frame: 11, offset: 1, opacity: 0.5 },
+        { frame: 12, offset: 2, opacity: 0.25 }
+      ]);
+    });
+
+    it('should clamp the range to the timeline', () => {
+      onionSkinManager.setRange(3, 3);
+
+      expect(onionSkinManager.getRange(1)).toEqual({ start: 1, end: 4 });
+      expect(onionSkinManager.getRange(99)).toEqual({ start: 96, end: 100 });
+      expect(onionSkinManager.getGhostFrames(1).map(f => f.frame)).toEqual([2, 3, 4]);
+    });
+
+    it('should keep a fixed range when anchored', () => {
+      movePlayhead(10);
+      onionSkinManager.setAnchor('fixed');
+      movePlayhead(11);
+
+      expect(onionSkinManager.getSettings()).toMatchObject({ anchor: 'fixed', start: 8, end: 12 });
+      expect(onionSkinManager.getGhostFrames().map(f => f.offset)).toEqual([-3, -2, -1, 1]);
+    });
+
+    it('should follow the playhead again when released', () => {
+      onionSkinManager.setFixedRange(20, 30);
+      onionSkinManager.setAnchor('relative');
+      movePlayhead(50);
+
+      expect(onionSkinManager.getSettings().start).toBeUndefined();
+      expect(onionSkinManager.getRange()).toEqual({ start: 48, end: 52 });
+    });
+
+    it('should only ghost visible and unlocked layers', () => {
+      const data = mockContext.Data.getData();
+      data.layers[0].locked = true;
+
+      expect(onionSkinManager.getOnionSkin(10).layerIds).toEqual(['layer-2']);
+    });
+  });
+
+  describe('onOnionSkinChange', () => {
+    it('should be emitted when the settings change', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onOnionSkinChange', callback);
+
+      onionSkinManager.setEnabled(true);
+
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ enabled: true, currentFrame: 1, mode: 'filled' }));
+    });
+
+    it('should be emitted when the playhead moves while enabled', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onOnionSkinChange', callback);
+
+      movePlayhead(5);
+      expect(callback).not.toHaveBeenCalled();
+
+      onionSkinManager.setEnabled(true);
+      movePlayhead(6);
+      expect(callback).toHaveBeenLastCalledWith(expect.objectContaining({ currentFrame: 6, start: 4, end: 8 }));
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import { PlaybackEngine } from '../../core/PlaybackEngine';
+import { PlaybackEngine, IPlaybackClock } from '../../core/PlaybackEngine';
+import { InterpolationEngine } from '../../core/InterpolationEngine';
 import { createMockContext, createTestData } from '../helpers/mockContext';
 import { IJsTimeLineContext } from '../../IJsTimeLineContext';
 
@@ -222,4 +223,336 @@ describe('PlaybackEngine', () => {
       playbackEngine.stop();
     });
   });
+
+  describe('onFrameEnter', () => {
+    it('should include evaluated states of visible layers', () => {
+      mockContext.Core.interpolationEngine = new InterpolationEngine(mockContext);
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onFrameEnter', callback);
+
+      playbackEngine.play();
+      jest.advanceTimersByTime(100);
+
+      expect(callback).toHaveBeenCalled();
+      const payload = callback.mock.calls[0][0];
+      expect(payload.currentFrame).toBe(2);
+      expect(payload.layerStates.map((s: any) => s.layerId)).toEqual(['layer-1', 'layer-2']);
+    });
+  });
+
+  describe('labels', () => {
+    beforeEach(() => {
+      const data = mockContext.Data.getData();
+      mockContext.Data.load({
+        ...data,
+        labels: [
+          { frame: 2, name: 'intro', type: 'label' },
+          { frame: 3, name: 'note', type: 'comment' }
+        ]
+      });
+    });
+
+    it('should jump to a label', () => {
+      expect(playbackEngine.goToLabel('intro')).toBe(true);
+      expect(playbackEngine.getCurrentFrame()).toBe(2);
+    });
+
+    it('should return false for unknown labels and comments', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      expect(playbackEngine.goToLabel('missing')).toBe(false);
+      expect(playbackEngine.goToLabel('note')).toBe(false);
+      expect(playbackEngine.getCurrentFrame()).toBe(1);
+      warnSpy.mockRestore();
+    });
+
+    it('should emit onLabelEnter when playback enters a labelled frame', () => {
+      const callback = jest.fn();
+      const legacyCallback = jest.fn();
+      mockContext.Core.eventManager.on('onLabelEnter', callback);
+      mockContext.Core.eventManager.on('playback:labelEnter', legacyCallback);
+
+      playbackEngine.play();
+      jest.advanceTimersByTime(200);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ name: 'intro', frame: 2 });
+      expect(legacyCallback).toHaveBeenCalledWith({ name: 'intro', frame: 2 });
+    });
+  });
+
+  describe('playback range and loop modes', () => {
+    // At 1000 fps with frame dropping disabled every animation frame
+    // (16ms with fake timers) advances exactly one frame
+    const playFrames = (count: number) => {
+      mockContext.Data.getData().settings.frameRate = 1000;
+      playbackEngine.setDropFrames(false);
+      playbackEngine.play();
+      jest.advanceTimersByTime(16 * count);
+    };
+
+    const recordFrames = () => {
+      const frames: number[] = [];
+      mockContext.Core.eventManager.on('onFrameEnter', (data: any) => frames.push(data.currentFrame));
+      return frames;
+    };
+
+    it('should default to the whole timeline', () => {
+      expect(playbackEngine.getPlaybackRange()).toEqual({ start: 1, end: 100 });
+      expect(playbackEngine.hasPlaybackRange()).toBe(false);
+    });
+
+    it('should set and clear the playback range', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onPlaybackRangeChange', callback);
+
+      expect(playbackEngine.setPlaybackRange(10, 20)).toBe(true);
+      expect(mockContext.Data.getData().settings.playbackRange).toEqual({ start: 10, end: 20 });
+      expect(callback).toHaveBeenCalledWith({ start: 10, end: 20, isCustom: true });
+
+      playbackEngine.clearPlaybackRange();
+      expect(playbackEngine.getPlaybackRange()).toEqual({ start: 1, end: 100 });
+      expect(callback).toHaveBeenLastCalledWith({ start: 1, end: 100, isCustom: false });
+    });
+
+    it('should reject invalid ranges', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(playbackEngine.setPlaybackRange(20, 10)).toBe(false);
+      expect(playbackEngine.setPlaybackRange(0, 10)).toBe(false);
+      expect(playbackEngine.setPlaybackRange(1, 101)).toBe(false);
+      errorSpy.mockRestore();
+    });
+
+    it('should loop within the range', () => {
+      const frames = recordFrames();
+      playbackEngine.setPlaybackRange(3, 5);
+      playbackEngine.goToFrame(3);
+
+      playFrames(5);
+
+      expect(frames).toEqual([4, 5, 3, 4, 5]);
+    });
+
+    it('should enter the range when starting outside of it', () => {
+      const frames = recordFrames();
+      playbackEngine.setPlaybackRange(10, 12);
+
+      playFrames(2);
+
+      expect(frames).toEqual([10, 11]);
+    });
+
+    it('should emit onPlaybackRangeEnd when reaching the out point', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onPlaybackRangeEnd', callback);
+      playbackEngine.setPlaybackRange(3, 5);
+      playbackEngine.goToFrame(4);
+
+      playFrames(2);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ frame: 5, start: 3, end: 5, loopMode: 'loop', reversed: false });
+    });
+
+    it('should stop at the out point in play-once mode', () => {
+      const frames = recordFrames();
+      playbackEngine.setPlaybackRange(3, 5);
+      playbackEngine.setLoopMode('once');
+      playbackEngine.goToFrame(3);
+
+      playFrames(5);
+
+      expect(frames).toEqual([4, 5]);
+      expect(playbackEngine.getIsPlaying()).toBe(false);
+      expect(playbackEngine.getCurrentFrame()).toBe(5);
+    });
+
+    it('should restart from the in point when playing again after play-once finished', () => {
+      playbackEngine.setPlaybackRange(3, 5);
+      playbackEngine.setLoopMode('once');
+      playbackEngine.goToFrame(5);
+
+      playbackEngine.play();
+
+      expect(playbackEngine.getCurrentFrame()).toBe(3);
+    });
+
+    it('should bounce between the in and out points in ping-pong mode', () => {
+      const frames = recordFrames();
+      playbackEngine.setPlaybackRange(3, 5);
+      playbackEngine.setLoopMode('ping-pong');
+      playbackEngine.goToFrame(3);
+
+      playFrames(6);
+
+      expect(frames).toEqual([4, 5, 4, 3, 4, 5]);
+    });
+
+    it('should play backwards when reversed', () => {
+      const frames = recordFrames();
+      playbackEngine.setPlaybackRange(3, 5);
+      playbackEngine.setReversed(true);
+      playbackEngine.goToFrame(5);
+
+      playFrames(4);
+
+      expect(playbackEngine.isReversed()).toBe(true);
+      expect(frames).toEqual([4, 3, 5, 4]);
+    });
+
+    it('should rewind to the range start on stop', () => {
+      playbackEngine.setPlaybackRange(10, 20);
+      playbackEngine.goToFrame(15);
+
+      playbackEngine.stop();
+
+      expect(playbackEngine.getCurrentFrame()).toBe(10);
+    });
+
+    it('should persist the loop mode in settings', () => {
+      playbackEngine.setLoopMode('ping-pong');
+
+      expect(mockContext.Data.getData().settings.loopMode).toBe('ping-pong');
+      expect(playbackEngine.getLoopMode()).toBe('ping-pong');
+    });
+  });
+
+  describe('playback rate and frame dropping', () => {
+    // Deterministic clock: ticks run only when tick() is called
+    const createFakeClock = () => {
+      let time = 0;
+      let pending: (() => void) | null = null;
+      const clock: IPlaybackClock = {
+        now: () => time,
+        requestFrame: (callback) => {
+          pending = callback;
+          return 1;
+        },
+        cancelFrame: () => {
+          pending = null;
+        }
+      };
+      const tick = (ms: number) => {
+        time += ms;
+        const callback = pending;
+        pending = null;
+        if (callback) callback();
+      };
+      return { clock, tick };
+    };
+
+    let fakeClock: ReturnType<typeof createFakeClock>;
+    let frames: any[];
+
+    beforeEach(() => {
+      fakeClock = createFakeClock();
+      playbackEngine = new PlaybackEngine(mockContext, fakeClock.clock);
+      mockContext.Data.getData().settings.frameRate = 10;
+      frames = [];
+      mockContext.Core.eventManager.on('onFrameEnter', (data: any) => frames.push(data));
+    });
+
+    it('should advance one frame per frame interval', () => {
+      playbackEngine.play();
+      fakeClock.tick(100);
+      fakeClock.tick(50);
+      fakeClock.tick(50);
+
+      expect(frames.map(f => f.currentFrame)).toEqual([2, 3]);
+    });
+
+    it('should drop frames to stay in real-time', () => {
+      playbackEngine.play();
+      fakeClock.tick(350);
+
+      expect(frames).toHaveLength(1);
+      expect(frames[0].currentFrame).toBe(4);
+      expect(frames[0].droppedFrames).toBe(2);
+      expect(playbackEngine.getCurrentFrame()).toBe(4);
+    });
+
+    it('should play every frame when frame dropping is disabled', () => {
+      playbackEngine.setDropFrames(false);
+      playbackEngine.play();
+      fakeClock.tick(350);
+      fakeClock.tick(100);
+
+      expect(playbackEngine.getDropFrames()).toBe(false);
+      expect(frames.map(f => f.currentFrame)).toEqual([2, 3]);
+      expect(frames[0].droppedFrames).toBe(0);
+    });
+
+    it('should still emit label events for dropped frames', () => {
+      mockContext.Data.load({
+        ...mockContext.Data.getData(),
+        labels: [{ frame: 3, name: 'hit', type: 'label' }]
+      });
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onLabelEnter', callback);
+
+      playbackEngine.play();
+      fakeClock.tick(300);
+
+      expect(frames.map(f => f.currentFrame)).toEqual([4]);
+      expect(callback).toHaveBeenCalledWith({ name: 'hit', frame: 3 });
+    });
+
+    it('should scale playback speed by the playback rate', () => {
+      expect(playbackEngine.setPlaybackRate(2)).toBe(true);
+      playbackEngine.play();
+      fakeClock.tick(100);
+
+      expect(playbackEngine.getPlaybackRate()).toBe(2);
+      expect(playbackEngine.getCurrentFrame()).toBe(3);
+      expect(frames[0].playbackRate).toBe(2);
+
+      playbackEngine.setPlaybackRate(0.25);
+      fakeClock.tick(200);
+      expect(playbackEngine.getCurrentFrame()).toBe(3);
+      fakeClock.tick(200);
+      expect(playbackEngine.getCurrentFrame()).toBe(4);
+    });
+
+    it('should reject playback rates out of range', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(playbackEngine.setPlaybackRate(0.1)).toBe(false);
+      expect(playbackEngine.setPlaybackRate(5)).toBe(false);
+      expect(playbackEngine.setPlaybackRate(NaN)).toBe(false);
+      expect(playbackEngine.getPlaybackRate()).toBe(1);
+      errorSpy.mockRestore();
+    });
+
+    it('should emit onPlaybackRateChange', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onPlaybackRateChange', callback);
+
+      playbackEngine.setPlaybackRate(0.5);
+
+      expect(callback).toHaveBeenCalledWith({ playbackRate: 0.5 });
+    });
+
+    it('should report elapsed time and actual fps', () => {
+      playbackEngine.play();
+      for (let i = 0; i < 5; i++) {
+        fakeClock.tick(200);
+      }
+
+      const last = frames[frames.length - 1];
+      expect(last.elapsedTime).toBe(1000);
+      expect(last.fps).toBe(5);
+      expect(playbackEngine.getElapsedTime()).toBe(1000);
+      expect(playbackEngine.getActualFps()).toBe(5);
+    });
+
+    it('should cancel the scheduled tick when paused', () => {
+      const cancelSpy = jest.spyOn(fakeClock.clock, 'cancelFrame');
+
+      playbackEngine.play();
+      playbackEngine.pause();
+
+      expect(cancelSpy).toHaveBeenCalledWith(1);
+    });
+  });
 });
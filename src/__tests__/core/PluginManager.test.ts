@@ -0,0 +1,239 @@
+import { PluginManager } from '../../core/PluginManager';
+import { CommandRegistry } from '../../core/CommandRegistry';
+import { KeymapManager } from '../../core/KeymapManager';
+import { RenderScheduler } from '../../core/RenderScheduler';
+import { IPlugin, IPluginHost } from '../../plugins/IPlugin';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('PluginManager', () => {
+  let pluginManager: PluginManager;
+  let mockContext: IJsTimeLineContext;
+  let errorSpy: jest.SpyInstance;
+
+  const createPlugin = (name: string, overrides: Partial<IPlugin> = {}): IPlugin => ({
+    name,
+    version: '1.0.0',
+    initialize: jest.fn(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    mockContext.Core.commandRegistry = new CommandRegistry(mockContext);
+    pluginManager = new PluginManager(mockContext);
+    mockContext.Core.pluginManager = pluginManager;
+    errorSpy = jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  describe('install', () => {
+    it('should initialize the plugin with the context and a host and emit onPluginAdd event', () => {
+      const plugin = createPlugin('audio');
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onPluginAdd', callback);
+
+      expect(pluginManager.install([plugin])).toBe(true);
+
+      expect(plugin.initialize).toHaveBeenCalledWith(mockContext, expect.objectContaining({ addToolbarButton: expect.any(Function) }));
+      expect(pluginManager.get('audio')).toBe(plugin);
+      expect(mockContext.Plugins.audio).toBe(plugin);
+      expect(callback).toHaveBeenCalledWith({ name: 'audio', version: '1.0.0' });
+    });
+
+    it('should reject duplicate names and invalid versions', () => {
+      pluginManager.install([createPlugin('audio')]);
+
+      expect(pluginManager.install([createPlugin('audio')])).toBe(false);
+      expect(pluginManager.install([createPlugin('video', { version: '1.0' })])).toBe(false);
+      expect(pluginManager.has('video')).toBe(false);
+    });
+
+    it('should install dependencies of the list first', () => {
+      const order: string[] = [];
+      const waveform = createPlugin('waveform', { dependencies: { audio: '^1.0.0' }, initialize: () => order.push('waveform') });
+      const audio = createPlugin('audio', { version: '1.2.0', initialize: () => order.push('audio') });
+
+      expect(pluginManager.install([waveform, audio])).toBe(true);
+
+      expect(order).toEqual(['audio', 'waveform']);
+      expect(pluginManager.getPlugins().map(plugin => plugin.name)).toEqual(['audio', 'waveform']);
+    });
+
+    it('should reject plugins whose dependencies are missing or have another version', () => {
+      expect(pluginManager.install([createPlugin('waveform', { dependencies: { audio: '^1.0.0' } })])).toBe(false);
+      expect(errorSpy).toHaveBeenLastCalledWith('Cannot install plugin "waveform": requires plugin "audio" ^1.0.0, which is not installed');
+
+      pluginManager.install([createPlugin('audio', { version: '2.0.0' })]);
+
+      expect(pluginManager.install([createPlugin('waveform', { dependencies: { audio: '^1.0.0' } })])).toBe(false);
+      expect(errorSpy).toHaveBeenLastCalledWith('Cannot install plugin "waveform": requires plugin "audio" ^1.0.0, but version 2.0.0 is installed');
+    });
+
+    it('should not install a plugin whose initialize throws', () => {
+      const plugin = createPlugin('broken', {
+        initialize: (_context, host) => {
+          host.addLayerColumn({ id: 'broken', title: 'Broken', render: jest.fn() });
+          throw new Error('boom');
+        }
+      });
+
+      expect(pluginManager.install([plugin])).toBe(false);
+
+      expect(pluginManager.has('broken')).toBe(false);
+      expect(mockContext.Plugins.broken).toBeUndefined();
+      expect(pluginManager.getLayerColumns()).toEqual([]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should destroy the plugin, remove its extensions and emit onPluginRemove event', () => {
+      const plugin = createPlugin('audio', {
+        initialize: (_context, host) => {
+          host.addToolbarButton({ id: 'mute', text: 'M', title: 'Mute', onClick: jest.fn() });
+          host.addGridOverlay({ id: 'waveform', render: jest.fn() });
+          host.addCommand({ id: 'mute', label: 'Mute', run: jest.fn() });
+        },
+        destroy: jest.fn()
+      });
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onPluginRemove', callback);
+      pluginManager.install([plugin]);
+
+      expect(pluginManager.remove('audio')).toBe(true);
+
+      expect(plugin.destroy).toHaveBeenCalled();
+      expect(pluginManager.getToolbarButtons()).toEqual([]);
+      expect(pluginManager.getGridOverlays()).toEqual([]);
+      expect(mockContext.Core.commandRegistry!.has('mute')).toBe(false);
+      expect(mockContext.Plugins.audio).toBeUndefined();
+      expect(callback).toHaveBeenCalledWith({ name: 'audio', version: '1.0.0' });
+    });
+
+    it('should unbind the shortcuts of its commands', () => {
+      mockContext.Core.keymapManager = new KeymapManager(mockContext);
+      pluginManager.install([createPlugin('audio', {
+        initialize: (_context, host) => {
+          host.addCommand({ id: 'mute', label: 'Mute', shortcut: 'Ctrl+M', run: jest.fn() });
+        }
+      })]);
+      expect(mockContext.Core.keymapManager.getCommand('Ctrl+M')).toBe('mute');
+
+      pluginManager.remove('audio');
+
+      expect(mockContext.Core.keymapManager.getCommand('Ctrl+M')).toBeNull();
+    });
+
+    it('should not remove a plugin other plugins depend on', () => {
+      pluginManager.install([createPlugin('audio'), createPlugin('waveform', { dependencies: { audio: '*' } })]);
+
+      expect(pluginManager.remove('audio')).toBe(false);
+      expect(pluginManager.remove('waveform')).toBe(true);
+      expect(pluginManager.remove('audio')).toBe(true);
+      expect(pluginManager.remove('audio')).toBe(false);
+    });
+
+    it('should destroy all plugins, dependents first', () => {
+      const order: string[] = [];
+      pluginManager.install([
+        createPlugin('audio', { destroy: () => order.push('audio') }),
+        createPlugin('waveform', { dependencies: { audio: '*' }, destroy: () => order.push('waveform') })
+      ]);
+
+      pluginManager.destroy();
+
+      expect(order).toEqual(['waveform', 'audio']);
+      expect(pluginManager.getPlugins()).toEqual([]);
+    });
+  });
+
+  describe('extensions', () => {
+    let host: IPluginHost;
+
+    beforeEach(() => {
+      pluginManager.install([createPlugin('audio', { initialize: (_context, pluginHost) => { host = pluginHost; } })]);
+    });
+
+    it('should reject extensions with a taken id', () => {
+      expect(host.addLayerColumn({ id: 'volume', title: 'Volume', render: jest.fn() })).toBe(true);
+      expect(host.addLayerColumn({ id: 'volume', title: 'Other', render: jest.fn() })).toBe(false);
+      expect(pluginManager.getLayerColumns()).toHaveLength(1);
+    });
+
+    it('should get the context menu items of a menu for the target', () => {
+      const getItems = jest.fn(() => [{ label: 'Add Sound' }]);
+      host.addContextMenuItems('frame', getItems);
+
+      expect(pluginManager.getContextMenuItems('frame', { layerId: 'layer-1', frame: 5 })).toEqual([{ label: 'Add Sound' }]);
+      expect(getItems).toHaveBeenCalledWith({ layerId: 'layer-1', frame: 5 });
+      expect(pluginManager.getContextMenuItems('layer', { layerId: 'layer-1' })).toEqual([]);
+    });
+
+    it('should re-render the panel when a layer column is added', () => {
+      host.addLayerColumn({ id: 'volume', title: 'Volume', render: jest.fn() });
+
+      expect(mockContext.UI.layerPanel.render).toHaveBeenCalled();
+    });
+
+    it('should give access to other plugins', () => {
+      expect(host.getPlugin('audio')).toBe(pluginManager.get('audio'));
+      expect(host.getPlugin('video')).toBeUndefined();
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    it('should run the render hooks around renders', () => {
+      mockContext.Core.renderScheduler = new RenderScheduler(mockContext);
+      const calls: string[] = [];
+      (mockContext.UI.layerPanel.render as jest.Mock).mockImplementation(() => calls.push('render'));
+      pluginManager.install([createPlugin('audio', {
+        beforeRender: change => calls.push(`before ${change.panel}`),
+        afterRender: () => calls.push('after')
+      })]);
+
+      mockContext.Core.renderScheduler.invalidate({ panel: true });
+
+      expect(calls).toEqual(['before true', 'render', 'after']);
+    });
+
+    it('should keep running hooks when a plugin throws', () => {
+      const onDataLoaded = jest.fn();
+      pluginManager.install([
+        createPlugin('broken', { onDataLoaded: () => { throw new Error('boom'); } }),
+        createPlugin('audio', { onDataLoaded })
+      ]);
+
+      pluginManager.dataLoaded();
+
+      expect(onDataLoaded).toHaveBeenCalledWith(mockContext.Data.getData());
+      expect(errorSpy).toHaveBeenCalledWith('Plugin "broken" failed in onDataLoaded:', expect.any(Error));
+    });
+
+    it('should save plugin states in the data and keep those of missing plugins', () => {
+      const data = mockContext.Data.getData();
+      mockContext.Data.load({ ...data, plugins: { video: { clips: 2 } } });
+      pluginManager.install([createPlugin('audio', { onSerialize: () => ({ volume: 0.5 }) })]);
+
+      pluginManager.serialize();
+
+      expect(JSON.parse(mockContext.Data.toJSON()).plugins).toEqual({ video: { clips: 2 }, audio: { volume: 0.5 } });
+    });
+
+    it('should restore saved states on import and installation', () => {
+      const onDeserialize = jest.fn();
+      const data = mockContext.Data.getData();
+      mockContext.Data.load({ ...data, plugins: { audio: { volume: 0.5 } } });
+
+      pluginManager.install([createPlugin('audio', { onDeserialize })]);
+      expect(onDeserialize).toHaveBeenCalledWith({ volume: 0.5 });
+
+      mockContext.Data.load({ ...data });
+      pluginManager.deserialize();
+      expect(onDeserialize).toHaveBeenLastCalledWith(undefined);
+    });
+  });
+});
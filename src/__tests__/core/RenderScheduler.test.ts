@@ -0,0 +1,152 @@
+import { RenderScheduler, requestRender } from '../../core/RenderScheduler';
+import { KeyframeManager } from '../../core/KeyframeManager';
+import { HistoryManager } from '../../core/HistoryManager';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('RenderScheduler', () => {
+  let renderScheduler: RenderScheduler;
+  let mockContext: IJsTimeLineContext;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    mockContext.UI.timelineGrid.renderRows = jest.fn();
+    renderScheduler = new RenderScheduler(mockContext);
+    mockContext.Core.renderScheduler = renderScheduler;
+  });
+
+  describe('invalidate', () => {
+    it('should emit render:requested event with the changes for the views', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('render:requested', callback);
+
+      renderScheduler.invalidate({ layerIds: ['layer-1'], startFrame: 5, endFrame: 8, ruler: true });
+
+      expect(callback).toHaveBeenCalledWith({
+        grid: false,
+        panel: false,
+        ruler: true,
+        rows: new Map([['layer-1', { startFrame: 5, endFrame: 8 }]])
+      });
+    });
+
+    it('should patch the changed grid rows', () => {
+      renderScheduler.invalidate({ layerIds: ['layer-1'], startFrame: 5, endFrame: 8 });
+
+      expect(mockContext.UI.timelineGrid.renderRows).toHaveBeenCalledWith(new Map([['layer-1', { startFrame: 5, endFrame: 8 }]]));
+      expect(mockContext.UI.timelineGrid.render).not.toHaveBeenCalled();
+      expect(mockContext.UI.layerPanel.render).not.toHaveBeenCalled();
+    });
+
+    it('should default to all frames of the row', () => {
+      renderScheduler.invalidate({ layerIds: ['layer-1'] });
+
+      expect(mockContext.UI.timelineGrid.renderRows).toHaveBeenCalledWith(new Map([['layer-1', { startFrame: 1, endFrame: Infinity }]]));
+    });
+
+    it('should render only the requested components', () => {
+      renderScheduler.invalidate({ ruler: true });
+
+      expect(mockContext.UI.timeRuler.render).toHaveBeenCalledTimes(1);
+      expect(mockContext.UI.layerPanel.render).not.toHaveBeenCalled();
+      expect(mockContext.UI.timelineGrid.render).not.toHaveBeenCalled();
+      expect(mockContext.UI.timelineGrid.renderRows).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a full grid render when rows cannot be patched', () => {
+      delete mockContext.UI.timelineGrid.renderRows;
+
+      renderScheduler.invalidate({ layerIds: ['layer-1'] });
+
+      expect(mockContext.UI.timelineGrid.render).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('batch', () => {
+    it('should render once when the batch ends', () => {
+      mockContext.batch(() => {
+        renderScheduler.invalidate({ layerIds: ['layer-1'], startFrame: 10, endFrame: 12 });
+        renderScheduler.invalidate({ layerIds: ['layer-1'], startFrame: 3, endFrame: 4 });
+        renderScheduler.invalidate({ layerIds: ['layer-2'], startFrame: 7 });
+
+        expect(mockContext.UI.timelineGrid.renderRows).not.toHaveBeenCalled();
+      });
+
+      expect(mockContext.UI.timelineGrid.renderRows).toHaveBeenCalledTimes(1);
+      expect(mockContext.UI.timelineGrid.renderRows).toHaveBeenCalledWith(new Map([
+        ['layer-1', { startFrame: 3, endFrame: 12 }],
+        ['layer-2', { startFrame: 7, endFrame: Infinity }]
+      ]));
+    });
+
+    it('should replace row patches with a full render when the grid structure changed', () => {
+      mockContext.batch(() => {
+        renderScheduler.invalidate({ layerIds: ['layer-1'] });
+        renderScheduler.invalidate({ panel: true, grid: true });
+      });
+
+      expect(mockContext.UI.timelineGrid.render).toHaveBeenCalledTimes(1);
+      expect(mockContext.UI.timelineGrid.renderRows).not.toHaveBeenCalled();
+      expect(mockContext.UI.layerPanel.render).toHaveBeenCalledTimes(1);
+    });
+
+    it('should merge nested batches into the outermost one', () => {
+      mockContext.batch(() => {
+        mockContext.batch(() => {
+          renderScheduler.invalidate({ grid: true });
+        });
+        expect(renderScheduler.isBatching()).toBe(true);
+        expect(mockContext.UI.timelineGrid.render).not.toHaveBeenCalled();
+      });
+
+      expect(renderScheduler.isBatching()).toBe(false);
+      expect(mockContext.UI.timelineGrid.render).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the result of the function', () => {
+      expect(mockContext.batch(() => 42)).toBe(42);
+    });
+
+    it('should render the changes made before an error', () => {
+      expect(() => mockContext.batch(() => {
+        renderScheduler.invalidate({ grid: true });
+        throw new Error('boom');
+      })).toThrow('boom');
+
+      expect(mockContext.UI.timelineGrid.render).toHaveBeenCalledTimes(1);
+    });
+
+    it('should render bulk keyframe edits once', () => {
+      const keyframeManager = new KeyframeManager(mockContext);
+      mockContext.Core.historyManager = new HistoryManager(mockContext);
+
+      mockContext.batch(() => {
+        keyframeManager.insertKeyframe('layer-1', 30);
+        keyframeManager.insertKeyframe('layer-1', 40);
+        keyframeManager.insertBlankKeyframe('layer-2', 50);
+      });
+
+      expect(mockContext.UI.timelineGrid.renderRows).toHaveBeenCalledTimes(1);
+      expect(mockContext.UI.timelineGrid.renderRows).toHaveBeenCalledWith(new Map([
+        ['layer-1', { startFrame: 30, endFrame: Infinity }],
+        ['layer-2', { startFrame: 50, endFrame: Infinity }]
+      ]));
+      expect(mockContext.UI.timelineGrid.render).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestRender', () => {
+    it('should render the affected components directly without a scheduler', () => {
+      delete mockContext.Core.renderScheduler;
+
+      requestRender(mockContext, { layerIds: ['layer-1'], startFrame: 5 });
+      requestRender(mockContext, { panel: true });
+
+      expect(mockContext.UI.timelineGrid.renderRows).toHaveBeenCalledWith(new Map([['layer-1', { startFrame: 5, endFrame: Infinity }]]));
+      expect(mockContext.UI.timelineGrid.render).not.toHaveBeenCalled();
+      expect(mockContext.UI.layerPanel.render).toHaveBeenCalledTimes(1);
+      expect(mockContext.UI.timeRuler.render).not.toHaveBeenCalled();
+    });
+  });
+});
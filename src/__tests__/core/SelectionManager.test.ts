@@ -129,6 +129,59 @@ describe('SelectionManager', () => {
     });
   });
 
+  describe('selectCells', () => {
+    it('should replace the selection', () => {
+      selectionManager.selectFrame('layer-1:1');
+
+      selectionManager.selectCells(['layer-1:5', 'layer-1:6', 'layer-2:5', 'layer-2:6']);
+
+      expect(selectionManager.getSelectedFrames()).toEqual(['layer-1:5', 'layer-1:6', 'layer-2:5', 'layer-2:6']);
+      expect(selectionManager.getLastSelectedFrame()).toBe('layer-2:6');
+    });
+
+    it('should add to the selection', () => {
+      selectionManager.selectFrame('layer-1:1');
+
+      selectionManager.selectCells(['layer-1:1', 'layer-1:2'], 'add');
+
+      expect(selectionManager.getSelectedFrames()).toEqual(['layer-1:1', 'layer-1:2']);
+    });
+
+    it('should subtract from the selection', () => {
+      selectionManager.selectCells(['layer-1:1', 'layer-1:2', 'layer-1:3']);
+
+      selectionManager.selectCells(['layer-1:2', 'layer-1:3', 'layer-1:4'], 'subtract');
+
+      expect(selectionManager.getSelectedFrames()).toEqual(['layer-1:1']);
+      expect(selectionManager.getLastSelectedFrame()).toBeNull();
+    });
+
+    it('should emit a single selection change', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('selection:changed', callback);
+
+      selectionManager.selectCells(['layer-1:5', 'layer-1:6', 'layer-2:5']);
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ selectedFrames: ['layer-1:5', 'layer-1:6', 'layer-2:5'], count: 3 });
+    });
+  });
+
+  describe('getSelectionWith', () => {
+    it('should preview a selection without changing it', () => {
+      const callback = jest.fn();
+      selectionManager.selectCells(['layer-1:1', 'layer-1:2']);
+      mockContext.Core.eventManager.on('selection:changed', callback);
+
+      expect(selectionManager.getSelectionWith(['layer-1:3'], 'add')).toEqual(['layer-1:1', 'layer-1:2', 'layer-1:3']);
+      expect(selectionManager.getSelectionWith(['layer-1:1'], 'subtract')).toEqual(['layer-1:2']);
+      expect(selectionManager.getSelectionWith(['layer-1:3'], 'replace')).toEqual(['layer-1:3']);
+
+      expect(selectionManager.getSelectedFrames()).toEqual(['layer-1:1', 'layer-1:2']);
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
   describe('isSelected', () => {
     it('should return true for selected frames', () => {
       selectionManager.selectFrame('layer-1:5');
@@ -166,4 +219,45 @@ describe('SelectionManager', () => {
       expect(selectionManager.getSelectionCount()).toBe(0);
     });
   });
+
+  describe('active layer', () => {
+    it('should set the active layer and emit onLayerSelect event once', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onLayerSelect', callback);
+
+      expect(selectionManager.setActiveLayer('layer-2')).toBe(true);
+      selectionManager.setActiveLayer('layer-2');
+
+      expect(selectionManager.getActiveLayerId()).toBe('layer-2');
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ layerId: 'layer-2' });
+    });
+
+    it('should reject unknown layers', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(selectionManager.setActiveLayer('missing')).toBe(false);
+      expect(selectionManager.getActiveLayerId()).toBeNull();
+
+      errorSpy.mockRestore();
+    });
+
+    it('should forget a deleted active layer', () => {
+      selectionManager.setActiveLayer('layer-3');
+      const data = mockContext.Data.getData();
+      mockContext.Data.load({ ...data, layers: data.layers.filter(layer => layer.id !== 'layer-3') });
+
+      expect(selectionManager.getActiveLayerId()).toBeNull();
+    });
+
+    it('should target the active layer, or the first layer when none is active', () => {
+      expect(selectionManager.getTargetLayerId()).toBe('layer-1');
+
+      selectionManager.setActiveLayer('layer-2');
+      expect(selectionManager.getTargetLayerId()).toBe('layer-2');
+
+      selectionManager.setActiveLayer('folder-1');
+      expect(selectionManager.getTargetLayerId()).toBeNull();
+    });
+  });
 });
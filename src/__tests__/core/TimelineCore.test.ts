@@ -0,0 +1,106 @@
+/** @jest-environment node */
+import { createTimelineCore, IPlaybackClock, IRenderEvent } from '../../headless';
+import { createTestData } from '../helpers/mockContext';
+
+describe('TimelineCore', () => {
+  it('should run without a DOM', () => {
+    expect(typeof document).toBe('undefined');
+  });
+
+  it('should create an empty timeline by default', () => {
+    const core = createTimelineCore();
+
+    expect(core.Data.getData().layers).toEqual([]);
+    expect(core.Core.layerManager).toBeDefined();
+    expect(core.Core.playbackEngine!.getCurrentFrame()).toBe(1);
+  });
+
+  it('should load a copy of the initial data with the settings overrides', () => {
+    const data = createTestData();
+    const core = createTimelineCore({ data, settings: { totalFrames: 50 } });
+
+    expect(core.Data.getData().settings.totalFrames).toBe(50);
+    expect(core.Data.getData().settings.frameRate).toBe(24);
+
+    core.Core.layerManager!.renameObject('layer-1', 'Renamed');
+    expect(data.layers[0].name).toBe('Layer 1');
+  });
+
+  it('should throw on invalid data', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const data = { ...createTestData(), settings: { ...createTestData().settings, totalFrames: 0 } };
+
+    expect(() => createTimelineCore({ data })).toThrow('totalFrames must be a positive number');
+    errorSpy.mockRestore();
+  });
+
+  it('should report edits with the render:requested event', () => {
+    const core = createTimelineCore({ data: createTestData() });
+    const events: IRenderEvent[] = [];
+    core.Core.eventManager.on('render:requested', event => events.push(event));
+
+    core.batch(() => {
+      core.Core.keyframeManager!.insertKeyframe('layer-1', 15);
+      core.Core.keyframeManager!.insertKeyframe('layer-1', 30);
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].rows.has('layer-1')).toBe(true);
+    expect(core.Core.historyManager!.canUndo()).toBe(true);
+  });
+
+  // Deterministic clock: ticks run only when tick() is called
+  const createFakeClock = () => {
+    let time = 0;
+    let pending: (() => void) | null = null;
+    const clock: IPlaybackClock = {
+      now: () => time,
+      requestFrame: callback => {
+        pending = callback;
+        return 1;
+      },
+      cancelFrame: () => {
+        pending = null;
+      }
+    };
+    const tick = (ms: number) => {
+      time += ms;
+      const callback = pending as (() => void) | null;
+      pending = null;
+      callback?.();
+    };
+    return { clock, tick };
+  };
+
+  it('should play with an injected clock and evaluate layers', () => {
+    const { clock, tick } = createFakeClock();
+    const core = createTimelineCore({ data: createTestData(), settings: { frameRate: 10 }, clock });
+    const positions: number[] = [];
+    core.Core.eventManager.on('playback:positionChanged', ({ frame }) => positions.push(frame));
+
+    core.Core.playbackEngine!.play();
+    tick(100);
+    tick(100);
+    tick(100);
+    core.Core.playbackEngine!.pause();
+
+    expect(positions).toEqual([2, 3, 4]);
+    expect(core.Core.interpolationEngine!.evaluateLayer('layer-1', 4)!.tween).toEqual(expect.objectContaining({ startFrame: 1, endFrame: 10 }));
+  });
+
+  it('should move the onion skin with seeks and playback', () => {
+    const { clock, tick } = createFakeClock();
+    const core = createTimelineCore({ data: createTestData(), settings: { frameRate: 10 }, clock });
+    core.Core.onionSkinManager!.setEnabled(true);
+    const frames: number[] = [];
+    core.Core.eventManager.on('onOnionSkinChange', info => frames.push(info.currentFrame));
+
+    core.Core.playbackEngine!.goToFrame(5);
+    core.Core.playbackEngine!.play();
+    tick(100);
+    core.Core.playbackEngine!.pause();
+
+    expect(frames).toEqual([5, 6]);
+    expect(core.Core.onionSkinManager!.getRange()).toEqual({ start: 4, end: 8 });
+  });
+});
@@ -1,4 +1,5 @@
 import { TweenManager } from '../../core/TweenManager';
+import { EasingRegistry } from '../../core/EasingRegistry';
 import { createMockContext, createTestData } from '../helpers/mockContext';
 import { IJsTimeLineContext } from '../../IJsTimeLineContext';
 
@@ -103,6 +104,33 @@ describe('TweenManager', () => {
       expect(tween?.type).toBe('ease-in');
     });
 
+    it('should store normalized cubic-bezier and steps easings', () => {
+      tweenManager.createMotionTween('layer-1', 10, 20, 'cubic-bezier(.4,0,.2,1)');
+
+      const layer = mockContext.Data.getData().layers.find(l => l.id === 'layer-1');
+      const tween = layer?.tweens?.find(tw => tw.startFrame === 10);
+
+      expect(tween?.type).toBe('cubic-bezier(0.4, 0, 0.2, 1)');
+    });
+
+    it('should reject unknown easings', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const result = tweenManager.createMotionTween('layer-1', 10, 20, 'wobble');
+
+      expect(result).toBe(false);
+      expect(warnSpy).toHaveBeenCalledWith('Unknown easing "wobble"');
+      warnSpy.mockRestore();
+    });
+
+    it('should accept easings registered in the EasingRegistry', () => {
+      const easingRegistry = new EasingRegistry(mockContext);
+      mockContext.Core.easingRegistry = easingRegistry;
+      easingRegistry.register('wobble', t => t);
+
+      expect(tweenManager.createMotionTween('layer-1', 10, 20, 'wobble')).toBe(true);
+    });
+
     it('should sort tweens by start frame', () => {
       // Create tween from 10-20 first
       tweenManager.createMotionTween('layer-1', 10, 20);
@@ -147,6 +175,17 @@ describe('TweenManager', () => {
       });
     });
 
+    it('should reject an update to an unknown easing', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const oldTween = { startFrame: 1, endFrame: 10, type: 'linear' };
+
+      const result = tweenManager.updateTween('layer-1', oldTween, { ...oldTween, type: 'steps(0)' });
+
+      expect(result).toBe(false);
+      expect(tweenManager.getTweenAtFrame('layer-1', 5)?.type).toBe('linear');
+      warnSpy.mockRestore();
+    });
+
     it('should return false for non-existent tween', () => {
       const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
       
@@ -171,7 +210,7 @@ describe('TweenManager', () => {
   describe('updateTween', () => {
     it('should update an existing tween', () => {
       const oldTween = { startFrame: 1, endFrame: 10, type: 'linear' };
-      const newTween = { startFrame: 1, endFrame: 15, type: 'ease-out' };
+      const newTween = { startFrame: 10, endFrame: 20, type: 'ease-out' };
       
       const result = tweenManager.updateTween('layer-1', oldTween, newTween);
       
@@ -181,16 +220,41 @@ describe('TweenManager', () => {
       const layer = data.layers.find(l => l.id === 'layer-1');
       const tween = layer?.tweens?.[0];
       
-      expect(tween?.endFrame).toBe(15);
+      expect(tween?.startFrame).toBe(10);
+      expect(tween?.endFrame).toBe(20);
       expect(tween?.type).toBe('ease-out');
     });
 
+    it('should reject frames that would detach the tween from its keyframes', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const oldTween = { startFrame: 1, endFrame: 10, type: 'linear' };
+
+      expect(tweenManager.updateTween('layer-1', oldTween, { ...oldTween, endFrame: 15 })).toBe(false);
+      expect(tweenManager.updateTween('layer-1', oldTween, { ...oldTween, endFrame: 20 })).toBe(false);
+      expect(tweenManager.updateTween('layer-1', oldTween, { ...oldTween, startFrame: 10, endFrame: 1 })).toBe(false);
+      expect(errorSpy).toHaveBeenCalledWith('Cannot move the tween to frames 1-15: missingEndKeyframe');
+
+      expect(tweenManager.getTweenAtFrame('layer-1', 5)).toEqual(oldTween);
+      errorSpy.mockRestore();
+    });
+
+    it('should reject frames overlapping another tween', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      tweenManager.createMotionTween('layer-1', 10, 20);
+
+      const result = tweenManager.updateTween('layer-1', { startFrame: 1, endFrame: 10 }, { startFrame: 10, endFrame: 20 });
+
+      expect(result).toBe(false);
+      expect(warnSpy).toHaveBeenCalledWith('Tween overlaps with existing tween');
+      warnSpy.mockRestore();
+    });
+
     it('should emit onTweenUpdate event', () => {
       const callback = jest.fn();
       mockContext.Core.eventManager.on('onTweenUpdate', callback);
       
       const oldTween = { startFrame: 1, endFrame: 10, type: 'linear' };
-      const newTween = { startFrame: 1, endFrame: 15, type: 'ease-out' };
+      const newTween = { startFrame: 1, endFrame: 10, type: 'ease-out' };
       
       tweenManager.updateTween('layer-1', oldTween, newTween);
       
@@ -263,4 +327,38 @@ describe('TweenManager', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('checkTweens / repairTweens', () => {
+    beforeEach(() => {
+      // Orphaned tween: frame 15 is not a keyframe
+      mockContext.Data.getData().layers[0].tweens!.push({ startFrame: 10, endFrame: 15 });
+    });
+
+    it('should report tweens not attached to their keyframes without changing them', () => {
+      const issues = tweenManager.checkTweens();
+
+      expect(issues).toEqual([{
+        layerId: 'layer-1',
+        tween: { startFrame: 10, endFrame: 15 },
+        type: 'missingEndKeyframe',
+        repair: 'removed',
+        tweens: []
+      }]);
+      expect(mockContext.Data.getData().layers[0].tweens).toHaveLength(2);
+    });
+
+    it('should repair the tweens and emit onTweensRepair event', () => {
+      const callback = jest.fn();
+      mockContext.Core.eventManager.on('onTweensRepair', callback);
+      const logSpy = jest.spyOn(console, 'log').mockImplementation();
+
+      const issues = tweenManager.repairTweens();
+
+      expect(issues).toHaveLength(1);
+      expect(mockContext.Data.getData().layers[0].tweens).toEqual([{ startFrame: 1, endFrame: 10, type: 'linear' }]);
+      expect(callback).toHaveBeenCalledWith({ issues });
+      expect(tweenManager.checkTweens()).toEqual([]);
+      logSpy.mockRestore();
+    });
+  });
 });
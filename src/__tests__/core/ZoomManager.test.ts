@@ -0,0 +1,197 @@
+import { ZoomManager, MAX_ZOOM, MIN_ZOOM, ZOOM_STEP, getZoomedFrameWidth } from '../../core/ZoomManager';
+import { SelectionManager } from '../../core/SelectionManager';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('ZoomManager', () => {
+  let zoomManager: ZoomManager;
+  let mockContext: IJsTimeLineContext;
+
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    Object.defineProperty(mockContext.UI.gridContainer, 'clientWidth', { value: 300, configurable: true });
+    zoomManager = new ZoomManager(mockContext);
+  });
+
+  describe('setZoom', () => {
+    it('should default to no zoom', () => {
+      expect(zoomManager.getZoom()).toBe(1);
+      expect(zoomManager.getFrameWidth()).toBe(15);
+    });
+
+    it('should store the zoom in the timeline settings', () => {
+      expect(zoomManager.setZoom(2)).toBe(true);
+
+      expect(mockContext.Data.getData().settings.zoom).toBe(2);
+      expect(getZoomedFrameWidth(mockContext.Data.getData().settings)).toBe(30);
+      expect(JSON.parse(mockContext.Data.toJSON()).settings.zoom).toBe(2);
+    });
+
+    it('should re-render the ruler and grid', () => {
+      zoomManager.setZoom(2);
+
+      expect(mockContext.UI.timeRuler.render).toHaveBeenCalledTimes(1);
+      expect(mockContext.UI.timelineGrid.render).toHaveBeenCalledTimes(1);
+      expect(mockContext.UI.layerPanel.render).not.toHaveBeenCalled();
+    });
+
+    it('should emit onZoomChange and zoom:changed events', () => {
+      const specListener = jest.fn();
+      const legacyListener = jest.fn();
+      mockContext.Core.eventManager.on('onZoomChange', specListener);
+      mockContext.Core.eventManager.on('zoom:changed', legacyListener);
+
+      zoomManager.setZoom(0.5);
+
+      expect(specListener).toHaveBeenCalledWith({ zoom: 0.5, frameWidth: 7.5 });
+      expect(legacyListener).toHaveBeenCalledWith({ zoom: 0.5, frameWidth: 7.5 });
+    });
+
+    it('should not emit when the zoom does not change', () => {
+      const listener = jest.fn();
+      mockContext.Core.eventManager.on('onZoomChange', listener);
+
+      zoomManager.setZoom(1);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should clamp the zoom', () => {
+      zoomManager.setZoom(1000);
+      expect(zoomManager.getZoom()).toBe(MAX_ZOOM);
+
+      zoomManager.setZoom(0.0001);
+      expect(zoomManager.getZoom()).toBe(MIN_ZOOM);
+    });
+
+    it('should reject invalid zooms', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(zoomManager.setZoom(0)).toBe(false);
+      expect(zoomManager.setZoom(-2)).toBe(false);
+      expect(zoomManager.setZoom(NaN)).toBe(false);
+      expect(zoomManager.getZoom()).toBe(1);
+
+      errorSpy.mockRestore();
+    });
+
+    it('should keep the frame under the cursor in place', () => {
+      const gridContainer = mockContext.UI.gridContainer;
+      gridContainer.scrollLeft = 150;
+
+      // Frame 21 starts 150px into the view (scrollLeft 150 + 150 = 300px = 20 frames)
+      zoomManager.setZoom(2, 150);
+
+      expect(gridContainer.scrollLeft).toBe(450);
+    });
+
+    it('should keep the playhead in place', () => {
+      const gridContainer = mockContext.UI.gridContainer;
+      mockContext.Core.playbackEngine = { getCurrentFrame: () => 11 } as any;
+      gridContainer.scrollLeft = 90;
+
+      // The playhead is at 150px, 60px into the view
+      zoomManager.setZoom(2);
+
+      expect(gridContainer.scrollLeft).toBe(240);
+    });
+
+    it('should anchor on the viewport centre when the playhead is out of view', () => {
+      const gridContainer = mockContext.UI.gridContainer;
+      mockContext.Core.playbackEngine = { getCurrentFrame: () => 1 } as any;
+      gridContainer.scrollLeft = 300;
+
+      zoomManager.setZoom(2);
+
+      expect(gridContainer.scrollLeft).toBe(750);
+    });
+  });
+
+  describe('zoomIn / zoomOut', () => {
+    it('should zoom by one step', () => {
+      zoomManager.zoomIn();
+      expect(zoomManager.getZoom()).toBeCloseTo(ZOOM_STEP);
+
+      zoomManager.zoomOut();
+      zoomManager.zoomOut();
+      expect(zoomManager.getZoom()).toBeCloseTo(1 / ZOOM_STEP);
+    });
+  });
+
+  describe('zoomToRange', () => {
+    it('should fit the range in the visible grid and scroll to it', () => {
+      expect(zoomManager.zoomToRange(11, 30)).toBe(true);
+
+      expect(zoomManager.getFrameWidth()).toBe(15);
+      expect(mockContext.UI.gridContainer.scrollLeft).toBe(150);
+
+      zoomManager.zoomToRange(41, 50);
+
+      expect(zoomManager.getFrameWidth()).toBe(30);
+      expect(mockContext.UI.gridContainer.scrollLeft).toBe(1200);
+    });
+
+    it('should reject invalid ranges', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(zoomManager.zoomToRange(0, 10)).toBe(false);
+      expect(zoomManager.zoomToRange(20, 10)).toBe(false);
+      expect(zoomManager.zoomToRange(1, 101)).toBe(false);
+
+      errorSpy.mockRestore();
+    });
+
+    it('should not zoom while the grid has no size', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      Object.defineProperty(mockContext.UI.gridContainer, 'clientWidth', { value: 0, configurable: true });
+
+      expect(zoomManager.zoomToFit()).toBe(false);
+      expect(zoomManager.getZoom()).toBe(1);
+
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('zoomToFit', () => {
+    it('should fit the whole timeline', () => {
+      expect(zoomManager.zoomToFit()).toBe(true);
+
+      expect(zoomManager.getZoom()).toBeCloseTo(0.2);
+      expect(zoomManager.getFrameWidth()).toBeCloseTo(3);
+      expect(mockContext.UI.gridContainer.scrollLeft).toBe(0);
+    });
+  });
+
+  describe('zoomToSelection', () => {
+    it('should fit the selected frames', () => {
+      const selectionManager = new SelectionManager(mockContext);
+      mockContext.Core.selectionManager = selectionManager;
+      selectionManager.selectFrame('layer-1:10');
+      selectionManager.toggleSelection('layer-2:29');
+
+      expect(zoomManager.zoomToSelection()).toBe(true);
+
+      expect(zoomManager.getFrameWidth()).toBe(15);
+      expect(mockContext.UI.gridContainer.scrollLeft).toBe(135);
+    });
+
+    it('should fit a selection too large to spread into arguments', () => {
+      const frameIds = Array.from({ length: 200000 }, (_, index) => `layer-1:${(index % 20) + 10}`);
+      mockContext.Core.selectionManager = { getSelectedFrames: () => frameIds } as unknown as SelectionManager;
+
+      expect(zoomManager.zoomToSelection()).toBe(true);
+      expect(mockContext.UI.gridContainer.scrollLeft).toBe(135);
+    });
+
+    it('should not zoom without a selection', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      mockContext.Core.selectionManager = new SelectionManager(mockContext);
+
+      expect(zoomManager.zoomToSelection()).toBe(false);
+      expect(zoomManager.getZoom()).toBe(1);
+
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { applyChanges, cloneData, diffData, revertChanges } from '../../data/DataChanges';
+
+describe('DataChanges', () => {
+  const createData = () => ({
+    layers: [
+      { id: 'layer-1', keyframes: [{ frame: 1 }, { frame: 5 }, { frame: 10 }] },
+      { id: 'layer-2', keyframes: [{ frame: 1 }], locked: true }
+    ] as Record<string, any>[]
+  });
+
+  it('should find no changes between equal values', () => {
+    expect(diffData(createData(), createData())).toEqual([]);
+  });
+
+  it('should only copy the items around an insertion', () => {
+    const before = createData();
+    const after = createData();
+    after.layers[0].keyframes.splice(2, 0, { frame: 7 });
+
+    expect(diffData(before, after)).toEqual([
+      { type: 'splice', path: ['layers', 0, 'keyframes'], index: 2, removed: [], inserted: [{ frame: 7 }] }
+    ]);
+  });
+
+  it('should record changed and removed properties', () => {
+    const before = createData();
+    const after = createData();
+    after.layers[0].name = 'Layer 1';
+    delete after.layers[1].locked;
+
+    expect(diffData(before, after)).toEqual([
+      { type: 'set', path: ['layers', 0, 'name'], before: undefined, after: 'Layer 1' },
+      { type: 'set', path: ['layers', 1, 'locked'], before: true, after: undefined }
+    ]);
+  });
+
+  it('should revert and reapply the changes in place', () => {
+    const data = createData();
+    const before = cloneData(data);
+    data.layers[1].keyframes.splice(0, 1);
+    data.layers.push({ id: 'layer-3', keyframes: [] });
+    delete data.layers[1].locked;
+    const after = cloneData(data);
+    const changes = diffData(before, data);
+    const untouched = data.layers[0];
+
+    revertChanges(data, changes);
+    expect(data).toEqual(before);
+    expect(data.layers[0]).toBe(untouched);
+
+    applyChanges(data, changes);
+    expect(data).toEqual(after);
+  });
+
+  it('should not share values with the recorded changes', () => {
+    const data = createData();
+    const before = cloneData(data);
+    data.layers[0].keyframes.push({ frame: 20 });
+    const changes = diffData(before, data);
+
+    data.layers[0].keyframes[3].frame = 30;
+    revertChanges(data, changes);
+    applyChanges(data, changes);
+
+    expect(data.layers[0].keyframes[3]).toEqual({ frame: 20 });
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  cloneKeyframeValues,
+  getKeyframeValueType,
+  interpolateKeyframeValue,
+  isColorValue,
+  isKeyframeValue,
+  isPointValue
+} from '../../data/KeyframeValues';
+
+describe('KeyframeValues', () => {
+  describe('getKeyframeValueType', () => {
+    it('should detect primitive value types', () => {
+      expect(getKeyframeValueType(1.5)).toBe('number');
+      expect(getKeyframeValueType('text')).toBe('string');
+      expect(getKeyframeValueType(false)).toBe('boolean');
+    });
+
+    it('should detect points and colors', () => {
+      expect(getKeyframeValueType({ x: 1, y: 2 })).toBe('point');
+      expect(getKeyframeValueType({ r: 1, g: 2, b: 3 })).toBe('color');
+      expect(getKeyframeValueType({ r: 1, g: 2, b: 3, a: 0.5 })).toBe('color');
+    });
+
+    it('should return null for unsupported values', () => {
+      expect(getKeyframeValueType(NaN)).toBeNull();
+      expect(getKeyframeValueType(null)).toBeNull();
+      expect(getKeyframeValueType([1, 2])).toBeNull();
+      expect(getKeyframeValueType({ x: 1 })).toBeNull();
+      expect(getKeyframeValueType({ x: 1, y: 2, z: 3 })).toBeNull();
+    });
+  });
+
+  describe('isPointValue / isColorValue', () => {
+    it('should reject out of range color channels', () => {
+      expect(isColorValue({ r: 256, g: 0, b: 0 })).toBe(false);
+      expect(isColorValue({ r: 0, g: 0, b: 0, a: 2 })).toBe(false);
+    });
+
+    it('should reject non-finite point coordinates', () => {
+      expect(isPointValue({ x: Infinity, y: 0 })).toBe(false);
+    });
+
+    it('should accept all supported keyframe values', () => {
+      expect(isKeyframeValue('a')).toBe(true);
+      expect(isKeyframeValue({ x: 0, y: 0 })).toBe(true);
+      expect(isKeyframeValue(undefined)).toBe(false);
+    });
+  });
+
+  describe('cloneKeyframeValues', () => {
+    it('should deep clone object values', () => {
+      const values = { position: { x: 1, y: 2 }, opacity: 1 };
+      const clone = cloneKeyframeValues(values);
+
+      (clone.position as { x: number; y: number }).x = 5;
+
+      expect(values.position.x).toBe(1);
+      expect(clone.opacity).toBe(1);
+    });
+  });
+
+  describe('interpolateKeyframeValue', () => {
+    it('should interpolate numbers', () => {
+      expect(interpolateKeyframeValue(0, 100, 0.25)).toBe(25);
+    });
+
+    it('should interpolate points', () => {
+      expect(interpolateKeyframeValue({ x: 0, y: 10 }, { x: 10, y: 20 }, 0.5)).toEqual({ x: 5, y: 15 });
+    });
+
+    it('should interpolate colors with rounded and clamped channels', () => {
+      expect(interpolateKeyframeValue({ r: 0, g: 0, b: 0 }, { r: 255, g: 100, b: 0 }, 0.5))
+        .toEqual({ r: 128, g: 50, b: 0 });
+      expect(interpolateKeyframeValue({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 }, 1.5))
+        .toEqual({ r: 255, g: 255, b: 255 });
+    });
+
+    it('should interpolate alpha defaulting to opaque', () => {
+      const color = interpolateKeyframeValue({ r: 0, g: 0, b: 0 }, { r: 0, g: 0, b: 0, a: 0 }, 0.5);
+      expect(color).toEqual({ r: 0, g: 0, b: 0, a: 0.5 });
+    });
+
+    it('should hold strings and booleans until the end', () => {
+      expect(interpolateKeyframeValue('a', 'b', 0.99)).toBe('a');
+      expect(interpolateKeyframeValue('a', 'b', 1)).toBe('b');
+      expect(interpolateKeyframeValue(false, true, 0.5)).toBe(false);
+    });
+
+    it('should hold the start value for mismatched types', () => {
+      expect(interpolateKeyframeValue(1, 'b', 0.5)).toBe(1);
+      expect(interpolateKeyframeValue(1, 'b', 1)).toBe('b');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CURRENT_DATA_VERSION, DATA_MIGRATIONS, migrateData } from '../../data/Migrations';
+import { TimeLineData } from '../../data/TimelineData';
+import { ITimeLineData } from '../../data/ITimeLineData';
+
+// Timeline files saved by each data format version
+const readFixture = (version: string): string =>
+  fs.readFileSync(path.join(__dirname, '../fixtures', `timeline-${version}.json`), 'utf8');
+
+describe('Migrations', () => {
+  it('should chain the migrations up to the current version', () => {
+    const versions = DATA_MIGRATIONS.map(migration => migration.from);
+
+    expect(versions).toEqual(['1.0.0']);
+    DATA_MIGRATIONS.forEach((migration, i) => {
+      const next = DATA_MIGRATIONS[i + 1];
+      expect(next ? next.from : CURRENT_DATA_VERSION).toBe(migration.to);
+    });
+  });
+
+  describe('migrateData', () => {
+    it('should upgrade 1.0.0 data to the current version', () => {
+      const data = JSON.parse(readFixture('1.0.0')) as ITimeLineData;
+
+      const report = migrateData(data);
+
+      expect(report.fromVersion).toBe('1.0.0');
+      expect(report.toVersion).toBe(CURRENT_DATA_VERSION);
+      expect(report.changed).toBe(true);
+      expect(report.steps).toEqual([{
+        from: '1.0.0',
+        to: '1.1.0',
+        description: 'Sort keyframes, tweens and labels by frame and normalize tween easings',
+        changes: [
+          '/layers/0/keyframes: sorted by frame',
+          '/layers/0/tweens: sorted by start frame',
+          '/layers/0/tweens/0/type: "cubic-bezier(.4,0,.2,1)" normalized to "cubic-bezier(0.4, 0, 0.2, 1)"',
+          '/layers/1/children/0/keyframes: sorted by frame'
+        ]
+      }]);
+
+      const layer = report.data.layers[0];
+      expect(layer.keyframes!.map(kf => kf.frame)).toEqual([1, 10, 20]);
+      expect(layer.tweens).toEqual([
+        { startFrame: 1, endFrame: 10, type: 'cubic-bezier(0.4, 0, 0.2, 1)' },
+        { startFrame: 10, endFrame: 20, type: 'ease-in' }
+      ]);
+      expect(report.data.layers[1].children![0].keyframes!.map(kf => kf.frame)).toEqual([1, 30]);
+    });
+
+    it('should not modify the data it migrates', () => {
+      const data = JSON.parse(readFixture('1.0.0')) as ITimeLineData;
+
+      migrateData(data);
+
+      expect(data).toEqual(JSON.parse(readFixture('1.0.0')));
+    });
+
+    it('should leave current data unchanged', () => {
+      const data = JSON.parse(readFixture('1.1.0')) as ITimeLineData;
+
+      const report = migrateData(data);
+
+      expect(report.changed).toBe(false);
+      expect(report.steps).toEqual([]);
+      expect(report.data).toEqual(data);
+    });
+
+    it('should report a step without changes when the data already follows the new format', () => {
+      const data: ITimeLineData = { version: '1.0.0', settings: { totalFrames: 10, frameRate: 24 }, layers: [] };
+
+      const report = migrateData(data);
+
+      expect(report.data.version).toBe('1.1.0');
+      expect(report.steps[0].changes).toEqual([]);
+    });
+
+    it('should refuse data from a newer major version', () => {
+      const data: ITimeLineData = { version: '2.0.0', settings: { totalFrames: 10, frameRate: 24 }, layers: [] };
+
+      expect(() => migrateData(data)).toThrow('Cannot load timeline data version 2.0.0: it was saved by a newer version of the timeline (supported data version 1.1.0)');
+    });
+
+    it('should refuse invalid versions and versions without a migration path', () => {
+      const settings = { totalFrames: 10, frameRate: 24 };
+
+      expect(() => migrateData({ version: '1.0', settings, layers: [] })).toThrow('version "1.0" must be "major.minor.patch"');
+      expect(() => migrateData({ version: '0.9.0', settings, layers: [] })).toThrow('no migration from version 0.9.0');
+    });
+  });
+
+  describe('TimeLineData', () => {
+    let timelineData: TimeLineData;
+
+    beforeEach(() => {
+      timelineData = new TimeLineData();
+    });
+
+    it('should upgrade older data on import', () => {
+      const report = timelineData.fromJSON(readFixture('1.0.0'));
+
+      expect(report.steps).toHaveLength(1);
+      expect(timelineData.getData().version).toBe(CURRENT_DATA_VERSION);
+      expect(timelineData.getData().layers[0].keyframes!.map(kf => kf.frame)).toEqual([1, 10, 20]);
+      expect(JSON.parse(timelineData.toJSON()).version).toBe(CURRENT_DATA_VERSION);
+    });
+
+    it('should load current data as it is', () => {
+      timelineData.fromJSON(readFixture('1.1.0'));
+
+      expect(timelineData.getData()).toEqual(JSON.parse(readFixture('1.1.0')));
+    });
+
+    it('should report what would change in a dry run without loading the data', () => {
+      const report = timelineData.previewMigration(readFixture('1.0.0'));
+
+      expect(report.fromVersion).toBe('1.0.0');
+      expect(report.steps[0].changes).toHaveLength(4);
+      expect(timelineData.getData().layers).toEqual([]);
+    });
+
+    it('should refuse data from a newer major version without loading it', () => {
+      const data = { ...JSON.parse(readFixture('1.1.0')), version: '2.0.0' };
+
+      expect(() => timelineData.fromJSON(JSON.stringify(data))).toThrow('it was saved by a newer version of the timeline');
+      expect(timelineData.getData().layers).toEqual([]);
+    });
+
+    it('should load data from a newer minor version with a warning', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const data = { ...JSON.parse(readFixture('1.1.0')), version: '1.2.0' };
+
+      timelineData.fromJSON(JSON.stringify(data));
+
+      expect(timelineData.getData().version).toBe('1.2.0');
+      expect(warnSpy).toHaveBeenCalledWith('Timeline data version 1.2.0 is newer than 1.1.0; unknown fields are kept but ignored.');
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -12,7 +12,7 @@ describe('TimeLineData', () => {
     it('should initialize with default data when no argument is provided', () => {
       const data = timelineData.getData();
       
-      expect(data.version).toBe('1.0.0');
+      expect(data.version).toBe('1.1.0');
       expect(data.settings.totalFrames).toBe(100);
       expect(data.settings.frameRate).toBe(24);
       expect(data.settings.frameWidth).toBe(15);
@@ -90,7 +90,7 @@ describe('TimeLineData', () => {
       expect(typeof json).toBe('string');
       
       const parsed = JSON.parse(json);
-      expect(parsed.version).toBe('1.0.0');
+      expect(parsed.version).toBe('1.1.0');
       expect(parsed.settings.totalFrames).toBe(100);
     });
 
@@ -219,6 +219,18 @@ describe('TimeLineData', () => {
       }).toThrow('frameRate must be a positive number');
     });
 
+    it('should throw error for invalid zoom', () => {
+      const invalidData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30, zoom: 0 },
+        layers: []
+      };
+      
+      expect(() => {
+        timelineData.fromJSON(JSON.stringify(invalidData));
+      }).toThrow('zoom must be a positive number');
+    });
+
     it('should validate layer structure', () => {
       const invalidData = {
         version: '1.0.0',
@@ -266,5 +278,200 @@ describe('TimeLineData', () => {
       const data = timelineData.getData();
       expect(data.layers[0].children?.[0].name).toBe('Nested Layer');
     });
+
+    it('should round-trip keyframe values', () => {
+      const jsonData: ITimeLineData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [
+          {
+            id: 'layer-1',
+            name: 'Animated',
+            type: 'layer',
+            keyframes: [
+              {
+                frame: 1,
+                values: {
+                  x: 10,
+                  name: 'hero',
+                  visible: true,
+                  position: { x: 5, y: 6 },
+                  fill: { r: 255, g: 128, b: 0, a: 0.5 }
+                }
+              }
+            ],
+            tweens: []
+          }
+        ]
+      };
+
+      timelineData.fromJSON(JSON.stringify(jsonData));
+      const reparsed = JSON.parse(timelineData.toJSON());
+
+      expect(reparsed.layers[0].keyframes[0].values).toEqual(jsonData.layers[0].keyframes![0].values);
+    });
+
+    it('should reject invalid keyframe values', () => {
+      const invalidData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [
+          { id: 'layer-1', name: 'Layer', type: 'layer', keyframes: [{ frame: 1, values: { x: [1, 2] } }] }
+        ]
+      };
+
+      expect(() => {
+        timelineData.fromJSON(JSON.stringify(invalidData));
+      }).toThrow('keyframe value "x" at frame 1 must be a number, string, boolean, point or color');
+    });
+
+    it('should reject keyframe values that are not an object', () => {
+      const invalidData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [
+          { id: 'layer-1', name: 'Layer', type: 'layer', keyframes: [{ frame: 3, values: 'x' }] }
+        ]
+      };
+
+      expect(() => {
+        timelineData.fromJSON(JSON.stringify(invalidData));
+      }).toThrow('keyframe values at frame 3 must be an object');
+    });
+  
+    it('should round-trip tween easings including unregistered custom names', () => {
+      const jsonData: ITimeLineData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [
+          {
+            id: 'layer-1',
+            name: 'Animated',
+            type: 'layer',
+            keyframes: [{ frame: 1 }, { frame: 10 }, { frame: 20 }],
+            tweens: [
+              { startFrame: 1, endFrame: 10, type: 'cubic-bezier(0.4, 0, 0.2, 1)' },
+              { startFrame: 10, endFrame: 20, type: 'myPluginEasing' }
+            ]
+          }
+        ]
+      };
+
+      timelineData.fromJSON(JSON.stringify(jsonData));
+      const reparsed = JSON.parse(timelineData.toJSON());
+
+      expect(reparsed.layers[0].tweens).toEqual(jsonData.layers[0].tweens);
+    });
+
+    it('should reject tween easings that are not strings', () => {
+      const invalidData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [
+          { id: 'layer-1', name: 'Layer', type: 'layer', tweens: [{ startFrame: 1, endFrame: 5, type: 3 }] }
+        ]
+      };
+
+      expect(() => {
+        timelineData.fromJSON(JSON.stringify(invalidData));
+      }).toThrow('tween easing at frame 1 must be a string');
+    });
+  
+    it('should round-trip frame labels', () => {
+      const jsonData: ITimeLineData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [],
+        labels: [
+          { frame: 1, name: 'intro', type: 'label' },
+          { frame: 12, name: 'check timing', type: 'comment' }
+        ]
+      };
+
+      timelineData.fromJSON(JSON.stringify(jsonData));
+      const reparsed = JSON.parse(timelineData.toJSON());
+
+      expect(reparsed.labels).toEqual(jsonData.labels);
+    });
+
+    it('should reject duplicate frame label names', () => {
+      const invalidData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [],
+        labels: [
+          { frame: 1, name: 'intro', type: 'label' },
+          { frame: 5, name: 'intro', type: 'label' }
+        ]
+      };
+
+      expect(() => {
+        timelineData.fromJSON(JSON.stringify(invalidData));
+      }).toThrow('duplicate frame label "intro"');
+    });
+
+    it('should reject malformed frame labels', () => {
+      const invalidData = {
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [],
+        labels: [{ frame: 1, name: 'intro', type: 'marker' }]
+      };
+
+      expect(() => {
+        timelineData.fromJSON(JSON.stringify(invalidData));
+      }).toThrow('label type at frame 1 must be "label" or "comment"');
+    });
+  
+    it('should reject invalid playback range and loop mode settings', () => {
+      const withSettings = (extra: object) => JSON.stringify({
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30, ...extra },
+        layers: []
+      });
+
+      expect(() => timelineData.fromJSON(withSettings({ playbackRange: { start: 20, end: 10 } })))
+        .toThrow('playbackRange must have integer start and end');
+      expect(() => timelineData.fromJSON(withSettings({ loopMode: 'bounce' })))
+        .toThrow('loopMode must be "loop", "once" or "ping-pong"');
+      expect(() => timelineData.fromJSON(withSettings({ playbackRange: { start: 5, end: 10 }, loopMode: 'once' })))
+        .not.toThrow();
+    });
+
+    it('should validate onion skin settings', () => {
+      const withOnionSkin = (onionSkin: object) => JSON.stringify({
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30, onionSkin },
+        layers: []
+      });
+      const onionSkin = { enabled: true, before: 2, after: 3, mode: 'outline', anchor: 'relative' };
+
+      expect(() => timelineData.fromJSON(withOnionSkin(onionSkin))).not.toThrow();
+      expect(() => timelineData.fromJSON(withOnionSkin({ ...onionSkin, before: -1 })))
+        .toThrow('onionSkin before and after must be non-negative integers');
+      expect(() => timelineData.fromJSON(withOnionSkin({ ...onionSkin, mode: 'ghost' })))
+        .toThrow('onionSkin mode must be "outline" or "filled"');
+      expect(() => timelineData.fromJSON(withOnionSkin({ ...onionSkin, anchor: 'fixed' })))
+        .toThrow('fixed onionSkin must have integer start and end');
+    });
+
+    it('should round-trip keyframe actions and reject invalid ones', () => {
+      const withActions = (actions: unknown) => JSON.stringify({
+        version: '1.0.0',
+        settings: { totalFrames: 100, frameRate: 24, frameWidth: 15, rowHeight: 30 },
+        layers: [{ id: 'actions', name: 'Actions', type: 'layer', keyframes: [{ frame: 10, actions }] }]
+      });
+
+      const actions = [{ type: 'stop' }, { type: 'gotoAndPlay', target: 'loop' }, { type: 'call', name: 'spawn', payload: { count: 2 } }];
+      timelineData.fromJSON(withActions(actions));
+      expect(JSON.parse(timelineData.toJSON()).layers[0].keyframes[0].actions).toEqual(actions);
+
+      expect(() => timelineData.fromJSON(withActions({ type: 'stop' })))
+        .toThrow('keyframe actions at frame 10 must be an array');
+      expect(() => timelineData.fromJSON(withActions([{ type: 'jump' }])))
+        .toThrow('unknown frame action type "jump" at frame 10');
+      expect(() => timelineData.fromJSON(withActions([{ type: 'gotoAndStop', target: 0 }])))
+        .toThrow('gotoAndStop needs a frame number or label name as target at frame 10');
+    });
   });
 });
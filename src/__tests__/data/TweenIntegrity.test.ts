@@ -0,0 +1,77 @@
+import { checkTweens, getTweenIssueType, repairTweens, splitTween } from '../../data/TweenIntegrity';
+import { ILayer } from '../../data/ITimeLineData';
+
+describe('TweenIntegrity', () => {
+  const keyframes = [{ frame: 1 }, { frame: 5 }, { frame: 10 }, { frame: 20 }];
+
+  const createLayer = (tweens: ILayer['tweens']): ILayer => ({
+    id: 'layer-1',
+    name: 'Layer 1',
+    type: 'layer',
+    keyframes: keyframes.map(kf => ({ ...kf })),
+    tweens
+  });
+
+  describe('getTweenIssueType', () => {
+    it('should accept tweens between consecutive keyframes', () => {
+      expect(getTweenIssueType({ startFrame: 5, endFrame: 10 }, keyframes)).toBeNull();
+    });
+
+    it('should detect missing keyframes and empty ranges', () => {
+      expect(getTweenIssueType({ startFrame: 2, endFrame: 10 }, keyframes)).toBe('missingStartKeyframe');
+      expect(getTweenIssueType({ startFrame: 10, endFrame: 12 }, keyframes)).toBe('missingEndKeyframe');
+      expect(getTweenIssueType({ startFrame: 10, endFrame: 5 }, keyframes)).toBe('invalidRange');
+    });
+
+    it('should detect keyframes inside the tween', () => {
+      expect(getTweenIssueType({ startFrame: 1, endFrame: 10 }, keyframes)).toBe('innerKeyframe');
+    });
+  });
+
+  describe('splitTween', () => {
+    it('should split at each inner keyframe, keeping the tween settings', () => {
+      expect(splitTween({ startFrame: 1, endFrame: 20, type: 'ease-in-quad' }, keyframes)).toEqual([
+        { startFrame: 1, endFrame: 5, type: 'ease-in-quad' },
+        { startFrame: 5, endFrame: 10, type: 'ease-in-quad' },
+        { startFrame: 10, endFrame: 20, type: 'ease-in-quad' }
+      ]);
+    });
+  });
+
+  describe('checkTweens', () => {
+    it('should search layers inside folders', () => {
+      const folder: ILayer = { id: 'folder-1', name: 'Folder', type: 'folder', children: [createLayer([{ startFrame: 3, endFrame: 5 }])] };
+
+      expect(checkTweens([folder]).map(issue => [issue.layerId, issue.type])).toEqual([['layer-1', 'missingStartKeyframe']]);
+    });
+
+    it('should report tweens overlapping an earlier tween', () => {
+      const issues = checkTweens([createLayer([{ startFrame: 1, endFrame: 5 }, { startFrame: 1, endFrame: 5 }])]);
+
+      expect(issues).toEqual([{ layerId: 'layer-1', tween: { startFrame: 1, endFrame: 5 }, type: 'overlap', repair: 'removed', tweens: [] }]);
+    });
+  });
+
+  describe('repairTweens', () => {
+    it('should remove orphaned tweens and split tweens with inner keyframes', () => {
+      const layer = createLayer([{ startFrame: 10, endFrame: 20 }, { startFrame: 1, endFrame: 10 }, { startFrame: 20, endFrame: 30 }]);
+
+      const issues = repairTweens([layer]);
+
+      expect(issues.map(issue => [issue.type, issue.repair])).toEqual([['innerKeyframe', 'split'], ['missingEndKeyframe', 'removed']]);
+      expect(layer.tweens).toEqual([
+        { startFrame: 1, endFrame: 5 },
+        { startFrame: 5, endFrame: 10 },
+        { startFrame: 10, endFrame: 20 }
+      ]);
+    });
+
+    it('should leave layers without issues untouched', () => {
+      const tweens = [{ startFrame: 5, endFrame: 10 }];
+      const layer = createLayer(tweens);
+
+      expect(repairTweens([layer])).toEqual([]);
+      expect(layer.tweens).toBe(tweens);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateTimelineData } from '../../data/Validation';
+import { TimeLineData } from '../../data/TimelineData';
+import { ITimeLineData } from '../../data/ITimeLineData';
+
+const readJSON = (...segments: string[]) => JSON.parse(fs.readFileSync(path.join(__dirname, ...segments), 'utf8'));
+
+describe('Validation', () => {
+  const createData = (): ITimeLineData => ({
+    version: '1.1.0',
+    settings: { totalFrames: 20, frameRate: 24 },
+    layers: [
+      {
+        id: 'layer-1',
+        name: 'Layer 1',
+        type: 'layer',
+        keyframes: [{ frame: 1 }, { frame: 10 }],
+        tweens: [{ startFrame: 1, endFrame: 10, type: 'linear' }]
+      },
+      {
+        id: 'folder-1',
+        name: 'Folder 1',
+        type: 'folder',
+        children: [
+          { id: 'layer-2', name: 'Layer 2', type: 'layer', keyframes: [{ frame: 5 }], tweens: [] }
+        ]
+      }
+    ]
+  });
+
+  it('should accept valid data', () => {
+    const result = validateTimelineData(readJSON('../fixtures/timeline-1.1.0.json'));
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('should report every problem with its JSON pointer path', () => {
+    const data = createData();
+    data.layers[0].keyframes!.push({ frame: 0 });
+    data.layers[1].children![0].id = 'layer-1';
+    data.layers[1].children![0].tweens = [{ startFrame: 5, endFrame: 30 }];
+
+    const result = validateTimelineData(data);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map(({ path, severity }) => `${severity} ${path}`)).toEqual([
+      'error /layers/0/keyframes/2/frame',
+      'error /layers/1/children/0/id',
+      'warning /layers/1/children/0/tweens/0/endFrame',
+      'warning /layers/1/children/0/tweens/0'
+    ]);
+    expect(result.diagnostics[1]).toEqual({
+      path: '/layers/1/children/0/id',
+      severity: 'error',
+      message: 'duplicate layer id "layer-1"',
+      fixable: true,
+      fixed: false
+    });
+  });
+
+  it('should report tweens not anchored on keyframes as warnings', () => {
+    const data = createData();
+    data.layers[0].tweens = [{ startFrame: 1, endFrame: 15 }];
+
+    const result = validateTimelineData(data);
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      path: '/layers/0/tweens/0',
+      severity: 'warning',
+      message: 'tween 1-15 is not attached to its keyframes (missingEndKeyframe); the fix removes it'
+    })]);
+  });
+
+  it('should report tweens that do not end after they start as errors', () => {
+    const data = createData();
+    data.layers[0].tweens = [{ startFrame: 10, endFrame: 1 }];
+
+    const result = validateTimelineData(data);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      path: '/layers/0/tweens/0/endFrame',
+      severity: 'error',
+      message: 'tween endFrame 1 must be after its startFrame 10'
+    })]);
+  });
+
+  it('should report emit actions naming timeline events', () => {
+    const data = createData();
+    data.layers[0].keyframes![0].actions = [{ type: 'emit', name: 'history:changed' }];
+
+    const result = validateTimelineData(data);
+
+    expect(result.diagnostics).toEqual([expect.objectContaining({
+      path: '/layers/0/keyframes/0/actions/0',
+      severity: 'error',
+      message: 'emit cannot fire the timeline event "history:changed" at frame 1'
+    })]);
+  });
+
+  it('should escape property names in paths', () => {
+    const data = createData();
+    data.layers[0].keyframes![0].values = { 'transform/x': [1] as unknown as number };
+
+    const result = validateTimelineData(data);
+
+    expect(result.diagnostics[0].path).toBe('/layers/0/keyframes/0/values/transform~1x');
+  });
+
+  it('should report data that is not an object', () => {
+    expect(validateTimelineData(null).diagnostics).toEqual([expect.objectContaining({ path: '', message: 'timeline data must be an object' })]);
+  });
+
+  describe('fix', () => {
+    it('should repair the recoverable problems on a copy', () => {
+      const data = createData();
+      data.settings.zoom = -1;
+      data.layers[0].keyframes = [{ frame: 10 }, { frame: 1 }, { frame: 10, isEmpty: true }];
+      data.layers[0].tweens = [{ startFrame: 1, endFrame: 15 }, { startFrame: 1, endFrame: 10 }];
+      data.layers[1].children![0].id = 'layer-1';
+      const original = JSON.parse(JSON.stringify(data));
+
+      const result = validateTimelineData(data, { fix: true });
+
+      expect(result.valid).toBe(true);
+      expect(result.diagnostics.every(diagnostic => diagnostic.fixed)).toBe(true);
+      expect(result.data.settings.zoom).toBeUndefined();
+      expect(result.data.layers[0].keyframes).toEqual([{ frame: 1 }, { frame: 10 }]);
+      expect(result.data.layers[0].tweens).toEqual([{ startFrame: 1, endFrame: 10 }]);
+      expect(result.data.layers[1].children![0].id).toBe('layer-1-2');
+      expect(data).toEqual(original);
+    });
+
+    it('should only check the order of the kept keyframes', () => {
+      const data = createData();
+      data.layers[0].keyframes = [{ frame: 1 }, { frame: 10 }, { frame: 1 }];
+
+      const result = validateTimelineData(data, { fix: true });
+
+      expect(result.diagnostics.map(({ path, severity }) => `${severity} ${path}`)).toEqual(['error /layers/0/keyframes/2/frame']);
+      expect(result.data.layers[0].keyframes).toEqual([{ frame: 1 }, { frame: 10 }]);
+    });
+
+    it('should remove tweens that do not end after they start', () => {
+      const data = createData();
+      data.layers[0].tweens!.push({ startFrame: 10, endFrame: 10 });
+
+      const result = validateTimelineData(data, { fix: true });
+
+      expect(result.valid).toBe(true);
+      expect(result.diagnostics).toEqual([expect.objectContaining({ path: '/layers/0/tweens/1/endFrame', severity: 'error', fixed: true })]);
+      expect(result.data.layers[0].tweens).toEqual([{ startFrame: 1, endFrame: 10, type: 'linear' }]);
+    });
+
+    it('should leave the problems it cannot repair', () => {
+      const data = createData();
+      data.settings.totalFrames = 0;
+
+      const result = validateTimelineData(data, { fix: true });
+
+      expect(result.valid).toBe(false);
+      expect(result.diagnostics).toEqual([expect.objectContaining({ path: '/settings/totalFrames', fixable: false, fixed: false })]);
+    });
+  });
+
+  describe('TimeLineData', () => {
+    it('should load data without frameWidth and rowHeight', () => {
+      const timelineData = new TimeLineData();
+      const data = createData();
+
+      timelineData.fromJSON(JSON.stringify(data));
+
+      expect(timelineData.getData().settings.frameWidth).toBeUndefined();
+      expect(timelineData.getData().layers).toHaveLength(2);
+    });
+
+    it('should throw the first error with its path', () => {
+      const data = createData();
+      data.layers[0].tweens![0].endFrame = 2.5;
+
+      expect(() => new TimeLineData().fromJSON(JSON.stringify(data)))
+        .toThrow('Invalid timeline data: tween endFrame must be a positive integer (at /layers/0/tweens/0/endFrame)');
+    });
+
+    it('should repair the data on import with the fix option', () => {
+      const timelineData = new TimeLineData();
+      const data = createData();
+      data.layers[1].children![0].id = 'layer-1';
+
+      expect(() => timelineData.fromJSON(JSON.stringify(data))).toThrow('duplicate layer id "layer-1"');
+      timelineData.fromJSON(JSON.stringify(data), { fix: true });
+
+      expect(timelineData.getData().layers[1].children![0].id).toBe('layer-1-2');
+    });
+  });
+
+  describe('JSON Schema', () => {
+    const schema = readJSON('../../../schema/timeline-data.schema.json');
+
+    it('should describe every setting and require the same fields as the validator', () => {
+      const fixture = readJSON('../fixtures/timeline-1.1.0.json');
+
+      expect(schema.required).toEqual(['version', 'settings', 'layers']);
+      expect(schema.definitions.settings.required).toEqual(['totalFrames', 'frameRate']);
+      for (const key of Object.keys(fixture.settings)) {
+        expect(schema.definitions.settings.properties).toHaveProperty(key);
+      }
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { TimeLineData } from '../../data/TimelineData';
 import { EventManager } from '../../core/EventManager';
 import { StateManager } from '../../core/StateManager';
 import { ITimeLineData } from '../../data/ITimeLineData';
+import { TimelineView } from '../../ui/TimelineView';
 
 /**
  * Creates a mock context for testing core managers
@@ -12,7 +13,7 @@ export function createMockContext(): IJsTimeLineContext {
   const stateManager = new StateManager();
   const timelineData = new TimeLineData();
 
-  return {
+  const context: IJsTimeLineContext = {
     UI: {
       root: document.createElement('div'),
       layoutGrid: document.createElement('div'),
@@ -42,8 +43,17 @@ export function createMockContext(): IJsTimeLineContext {
       stateManager
     },
     Data: timelineData,
-    Plugins: {}
+    Plugins: {},
+    batch: <T>(fn: () => T): T => {
+      const renderScheduler = context.Core.renderScheduler;
+      return renderScheduler ? renderScheduler.batch(fn) : fn();
+    }
   };
+
+  // The mock components render the changes the core reports, like in the control
+  new TimelineView(context);
+
+  return context;
 }
 
 /**
@@ -0,0 +1,81 @@
+import { CanvasGridRenderer } from '../../ui/CanvasGridRenderer';
+import { IGridCell, IGridScene } from '../../ui/GridRenderer';
+
+describe('CanvasGridRenderer', () => {
+  let renderer: CanvasGridRenderer;
+  let container: HTMLElement;
+
+  // Rows 2-4 and frames 11-20 are rendered; row 3 is a folder
+  const createScene = (): IGridScene => {
+    const cells: IGridCell[] = [];
+    for (const [layerId, row] of [['layer-1', 2], ['layer-2', 4]] as const) {
+      for (let frame = 11; frame <= 20; frame++) {
+        cells.push({ id: `${layerId}:${frame}`, layerId, frame, row, type: 'empty' });
+      }
+    }
+    return {
+      window: { firstRow: 2, lastRow: 4, firstFrame: 11, lastFrame: 20, frameWidth: 10, rowHeight: 20 },
+      width: 1000,
+      height: 200,
+      rows: [
+        { index: 2, layerId: 'layer-1', isFolder: false },
+        { index: 3, layerId: 'folder-1', isFolder: true },
+        { index: 4, layerId: 'layer-2', isFolder: false }
+      ],
+      cells,
+      tweens: [],
+      labels: [],
+      selectedFrameIds: []
+    };
+  };
+
+  beforeEach(() => {
+    // jsdom has no 2D context: the renderer skips drawing
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    renderer = new CanvasGridRenderer();
+    renderer.mount(container);
+  });
+
+  afterEach(() => {
+    renderer.unmount();
+    container.remove();
+    jest.restoreAllMocks();
+  });
+
+  const renderAt = (left: number, top: number) => {
+    renderer.render(createScene());
+    const canvas = container.querySelector('canvas')!;
+    jest.spyOn(canvas, 'getBoundingClientRect').mockReturnValue({ left, top, width: 100, height: 60 } as DOMRect);
+  };
+
+  describe('hitTest', () => {
+    it('should map a position to the frame cell drawn there', () => {
+      renderAt(100, 50);
+
+      expect(renderer.hitTest(100, 50)).toBe('layer-1:11');
+      expect(renderer.hitTest(125, 55)).toBe('layer-1:13');
+      expect(renderer.hitTest(199, 109)).toBe('layer-2:20');
+    });
+
+    it('should not hit folder rows', () => {
+      renderAt(100, 50);
+
+      expect(renderer.hitTest(125, 75)).toBeNull();
+    });
+
+    it('should not hit positions outside the canvas', () => {
+      renderAt(100, 50);
+
+      expect(renderer.hitTest(99, 55)).toBeNull();
+      expect(renderer.hitTest(125, 49)).toBeNull();
+      expect(renderer.hitTest(200, 55)).toBeNull();
+      expect(renderer.hitTest(125, 110)).toBeNull();
+    });
+
+    it('should not hit anything before the first render', () => {
+      expect(renderer.hitTest(0, 0)).toBeNull();
+    });
+  });
+});
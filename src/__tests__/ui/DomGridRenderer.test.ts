@@ -0,0 +1,83 @@
+import { DomGridRenderer } from '../../ui/DomGridRenderer';
+import { IGridScene } from '../../ui/GridRenderer';
+
+describe('DomGridRenderer', () => {
+  let renderer: DomGridRenderer;
+  let container: HTMLElement;
+  let elementAtPoint: Element | null;
+
+  // Frames 1-5 of a layer with a keyframe carrying an action, then a folder row
+  const createScene = (): IGridScene => ({
+    window: { firstRow: 0, lastRow: 1, firstFrame: 1, lastFrame: 5, frameWidth: 10, rowHeight: 20 },
+    width: 50,
+    height: 40,
+    rows: [
+      { index: 0, layerId: 'layer-1', isFolder: false },
+      { index: 1, layerId: 'folder-1', isFolder: true }
+    ],
+    cells: [1, 2, 3, 4, 5].map(frame => ({
+      id: `layer-1:${frame}`,
+      layerId: 'layer-1',
+      frame,
+      row: 0,
+      type: frame === 1 ? 'keyframe' as const : 'standard' as const,
+      actions: frame === 1 ? [{ type: 'stop' as const }] : undefined
+    })),
+    tweens: [],
+    labels: [],
+    selectedFrameIds: []
+  });
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    renderer = new DomGridRenderer();
+    renderer.mount(container);
+    renderer.render(createScene());
+
+    // jsdom does no layout: elementFromPoint returns the element set by each test
+    elementAtPoint = null;
+    document.elementFromPoint = jest.fn(() => elementAtPoint);
+  });
+
+  afterEach(() => {
+    renderer.unmount();
+    container.remove();
+    delete (document as Partial<Document>).elementFromPoint;
+  });
+
+  describe('hitTest', () => {
+    it('should return the frame id of the cell under the pointer', () => {
+      elementAtPoint = container.querySelector('[data-frame-id="layer-1:3"]');
+
+      expect(renderer.hitTest(25, 10)).toBe('layer-1:3');
+      expect(document.elementFromPoint).toHaveBeenCalledWith(25, 10);
+    });
+
+    it('should return the cell of an element inside it', () => {
+      elementAtPoint = container.querySelector('.grid-action-marker');
+
+      expect(renderer.hitTest(5, 10)).toBe('layer-1:1');
+    });
+
+    it('should not hit folder rows', () => {
+      elementAtPoint = container.querySelector('.grid-row[data-layer-id="folder-1"] .grid-frame');
+
+      expect(elementAtPoint).not.toBeNull();
+      expect(renderer.hitTest(25, 30)).toBeNull();
+    });
+
+    it('should not hit elements outside the grid', () => {
+      const outside = document.createElement('div');
+      outside.dataset.frameId = 'other:1';
+      document.body.appendChild(outside);
+      elementAtPoint = outside;
+
+      expect(renderer.hitTest(500, 500)).toBeNull();
+      elementAtPoint = null;
+      expect(renderer.hitTest(-10, -10)).toBeNull();
+
+      outside.remove();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { coversRange, getVisibleFrames, getVisibleRows } from '../../ui/Viewport';
+import { createMockContext, createTestData } from '../helpers/mockContext';
+import { IJsTimeLineContext } from '../../IJsTimeLineContext';
+
+describe('Viewport', () => {
+  let mockContext: IJsTimeLineContext;
+
+  // 300 x 300 pixel grid: 10 rows of 30px and 20 frames of 15px in view
+  beforeEach(() => {
+    mockContext = createMockContext();
+    mockContext.Data.load(createTestData());
+    Object.defineProperty(mockContext.UI.gridContainer, 'clientWidth', { value: 300, configurable: true });
+    Object.defineProperty(mockContext.UI.gridContainer, 'clientHeight', { value: 300, configurable: true });
+  });
+
+  describe('getVisibleRows', () => {
+    it('should add the overscan around the rows in view', () => {
+      mockContext.UI.gridContainer.scrollTop = 600;
+
+      expect(getVisibleRows(mockContext, 50)).toEqual({ start: 15, end: 35 });
+      expect(getVisibleRows(mockContext, 50, 0)).toEqual({ start: 20, end: 30 });
+    });
+
+    it('should clamp the range to the rows', () => {
+      expect(getVisibleRows(mockContext, 50)).toEqual({ start: 0, end: 20 });
+      expect(getVisibleRows(mockContext, 12)).toEqual({ start: 0, end: 11 });
+    });
+  });
+
+  describe('getVisibleFrames', () => {
+    it('should add the overscan around the frames in view', () => {
+      mockContext.UI.gridContainer.scrollLeft = 750;
+
+      expect(getVisibleFrames(mockContext)).toEqual({ start: 30, end: 90 });
+      expect(getVisibleFrames(mockContext, 0)).toEqual({ start: 50, end: 70 });
+    });
+
+    it('should clamp the range to the timeline', () => {
+      expect(getVisibleFrames(mockContext)).toEqual({ start: 0, end: 60 });
+
+      mockContext.UI.gridContainer.scrollLeft = 1200;
+      expect(getVisibleFrames(mockContext)).toEqual({ start: 60, end: 99 });
+    });
+
+    it('should use the zoomed frame width', () => {
+      mockContext.Data.getData().settings.zoom = 2;
+      mockContext.UI.gridContainer.scrollLeft = 600;
+
+      expect(getVisibleFrames(mockContext, 0)).toEqual({ start: 20, end: 30 });
+    });
+  });
+
+  describe('coversRange', () => {
+    it('should check if the rendered range still covers the range in view', () => {
+      expect(coversRange({ start: 10, end: 50 }, { start: 10, end: 50 })).toBe(true);
+      expect(coversRange({ start: 10, end: 50 }, { start: 20, end: 30 })).toBe(true);
+      expect(coversRange({ start: 10, end: 50 }, { start: 5, end: 30 })).toBe(false);
+      expect(coversRange({ start: 10, end: 50 }, { start: 40, end: 60 })).toBe(false);
+    });
+
+    it('should not cover anything before the first render', () => {
+      expect(coversRange(null, { start: 0, end: 0 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  cubicBezier,
+  getBuiltInEasingNames,
+  getCubicBezierPoints,
+  getEasingFunction,
+  normalizeEasing,
+  parseEasing,
+  steps
+} from '../../utils/Easing';
+
+describe('Easing', () => {
+  describe('built-in easings', () => {
+    it('should start at 0 and end at 1', () => {
+      // step-start jumps immediately, like its CSS counterpart
+      for (const name of getBuiltInEasingNames().filter(n => n !== 'step-start')) {
+        const easing = getEasingFunction(name);
+        expect(easing(0)).toBeCloseTo(0);
+        expect(easing(1)).toBeCloseTo(1);
+      }
+    });
+
+    it('should provide in, out and in-out variants of each Penner family', () => {
+      const families = ['quad', 'cubic', 'quart', 'quint', 'sine', 'expo', 'circ', 'back', 'elastic', 'bounce'];
+      const names = getBuiltInEasingNames();
+
+      for (const family of families) {
+        expect(names).toContain(`ease-in-${family}`);
+        expect(names).toContain(`ease-out-${family}`);
+        expect(names).toContain(`ease-in-out-${family}`);
+      }
+    });
+
+    it('should compute Penner curves', () => {
+      expect(getEasingFunction('ease-in-quad')(0.5)).toBeCloseTo(0.25);
+      expect(getEasingFunction('ease-out-quad')(0.5)).toBeCloseTo(0.75);
+      expect(getEasingFunction('ease-in-out-cubic')(0.25)).toBeCloseTo(0.0625);
+      expect(getEasingFunction('ease-in-out-cubic')(0.5)).toBeCloseTo(0.5);
+    });
+
+    it('should allow overshooting curves', () => {
+      expect(getEasingFunction('ease-in-back')(0.2)).toBeLessThan(0);
+      expect(getEasingFunction('ease-out-back')(0.8)).toBeGreaterThan(1);
+    });
+
+    it('should fall back to linear for unknown types', () => {
+      expect(getEasingFunction('unknown')(0.4)).toBe(0.4);
+      expect(getEasingFunction()(0.4)).toBe(0.4);
+    });
+  });
+
+  describe('cubicBezier', () => {
+    it('should match the CSS ease-in-out keyword', () => {
+      const easing = cubicBezier(0.42, 0, 0.58, 1);
+
+      expect(easing(0.5)).toBeCloseTo(0.5);
+      expect(easing(0.25)).toBeCloseTo(getEasingFunction('ease-in-out')(0.25));
+    });
+
+    it('should clamp progress outside 0-1', () => {
+      const easing = cubicBezier(0.25, 0.1, 0.25, 1);
+
+      expect(easing(-1)).toBe(0);
+      expect(easing(2)).toBe(1);
+    });
+  });
+
+  describe('steps', () => {
+    it('should jump at the end of each step by default', () => {
+      const easing = steps(4);
+
+      expect(easing(0)).toBe(0);
+      expect(easing(0.3)).toBe(0.25);
+      expect(easing(0.99)).toBe(0.75);
+      expect(easing(1)).toBe(1);
+    });
+
+    it('should support jump-start, jump-none and jump-both', () => {
+      expect(steps(4, 'jump-start')(0)).toBe(0.25);
+      expect(steps(4, 'jump-start')(0.3)).toBe(0.5);
+      expect(steps(3, 'jump-none')(0.5)).toBe(0.5);
+      expect(steps(3, 'jump-none')(1)).toBe(1);
+      expect(steps(3, 'jump-both')(0)).toBe(0.25);
+      expect(steps(3, 'jump-both')(1)).toBe(1);
+    });
+  });
+
+  describe('parseEasing', () => {
+    it('should parse cubic-bezier specs', () => {
+      expect(parseEasing('cubic-bezier(0.42, 0, 0.58, 1)')?.(0.5)).toBeCloseTo(0.5);
+    });
+
+    it('should parse steps specs', () => {
+      expect(parseEasing('steps(2, start)')?.(0.1)).toBe(0.5);
+    });
+
+    it('should return null for unknown or malformed specs', () => {
+      expect(parseEasing('wobble')).toBeNull();
+      expect(parseEasing('cubic-bezier(0, 0, 1)')).toBeNull();
+      expect(parseEasing('steps(1, jump-none)')).toBeNull();
+    });
+  });
+
+  describe('normalizeEasing', () => {
+    it('should format functional specs canonically', () => {
+      expect(normalizeEasing('cubic-bezier(.4,0,.2,1)')).toBe('cubic-bezier(0.4, 0, 0.2, 1)');
+      expect(normalizeEasing('steps(4,jump-end)')).toBe('steps(4, jump-end)');
+      expect(normalizeEasing('steps(4)')).toBe('steps(4)');
+    });
+
+    it('should keep names as-is', () => {
+      expect(normalizeEasing(' ease-in-quad ')).toBe('ease-in-quad');
+    });
+
+    it('should reject cubic-bezier x coordinates outside 0-1', () => {
+      expect(normalizeEasing('cubic-bezier(1.5, 0, 0.5, 1)')).toBeNull();
+    });
+  });
+
+  describe('getCubicBezierPoints', () => {
+    it('should return the control points of CSS keywords and cubic-bezier specs', () => {
+      expect(getCubicBezierPoints('linear')).toEqual([0, 0, 1, 1]);
+      expect(getCubicBezierPoints('ease-in')).toEqual([0.42, 0, 1, 1]);
+      expect(getCubicBezierPoints('cubic-bezier(.1, -0.5, .9, 1.5)')).toEqual([0.1, -0.5, 0.9, 1.5]);
+    });
+
+    it('should return null for non-bezier easings', () => {
+      expect(getCubicBezierPoints('ease-in-bounce')).toBeNull();
+      expect(getCubicBezierPoints('steps(3)')).toBeNull();
+    });
+
+    it('should not treat object prototype keys as CSS keywords', () => {
+      expect(getCubicBezierPoints('constructor')).toBeNull();
+      expect(getCubicBezierPoints('toString')).toBeNull();
+    });
+  });
+});
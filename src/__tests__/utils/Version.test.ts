@@ -0,0 +1,53 @@
+import { compareVersions, isValidVersionRange, parseVersion, satisfiesVersion } from '../../utils/Version';
+
+describe('Version', () => {
+  describe('parseVersion', () => {
+    it('should parse major, minor and patch', () => {
+      expect(parseVersion('1.2.3')).toEqual([1, 2, 3]);
+      expect(parseVersion('2.0.0-beta.1')).toEqual([2, 0, 0]);
+    });
+
+    it('should reject incomplete versions', () => {
+      expect(parseVersion('1.2')).toBeNull();
+      expect(parseVersion('v1.2.3')).toBeNull();
+      expect(parseVersion('')).toBeNull();
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should compare numerically', () => {
+      expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+      expect(compareVersions('1.0.0', '1.0.1')).toBeLessThan(0);
+      expect(compareVersions('2.1.0', '2.1.0')).toBe(0);
+    });
+
+    it('should throw for invalid versions', () => {
+      expect(() => compareVersions('1.0', '1.0.0')).toThrow('Invalid version: "1.0"');
+    });
+  });
+
+  describe('satisfiesVersion', () => {
+    it('should match caret ranges within the major version', () => {
+      expect(satisfiesVersion('1.4.0', '^1.2.0')).toBe(true);
+      expect(satisfiesVersion('1.1.9', '^1.2.0')).toBe(false);
+      expect(satisfiesVersion('2.0.0', '^1.2.0')).toBe(false);
+      expect(satisfiesVersion('0.3.1', '^0.3.0')).toBe(true);
+      expect(satisfiesVersion('0.4.0', '^0.3.0')).toBe(false);
+    });
+
+    it('should match tilde, minimum, exact and any ranges', () => {
+      expect(satisfiesVersion('1.2.5', '~1.2.0')).toBe(true);
+      expect(satisfiesVersion('1.3.0', '~1.2.0')).toBe(false);
+      expect(satisfiesVersion('3.0.0', '>=1.2.0')).toBe(true);
+      expect(satisfiesVersion('1.2.0', '1.2.0')).toBe(true);
+      expect(satisfiesVersion('1.2.1', '1.2.0')).toBe(false);
+      expect(satisfiesVersion('5.0.0', '*')).toBe(true);
+    });
+
+    it('should not match invalid versions or ranges', () => {
+      expect(satisfiesVersion('1.2', '*')).toBe(false);
+      expect(satisfiesVersion('1.2.0', '1.x')).toBe(false);
+      expect(isValidVersionRange('<2.0.0')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { IFrameAction, ILayer } from '../data/ITimeLineData';
+import { cloneFrameActions, getFrameActionError, isReservedEventName } from '../data/FrameActions';
+import { EventManager } from './EventManager';
+import { requestRender } from './RenderScheduler';
+
+/**
+ * Data passed to host actions and to listeners of emitted action events
+ */
+export interface IFrameActionEvent {
+  frame: number;        // Frame whose actions are running
+  layerId: string;      // Layer of the keyframe carrying the action
+  payload?: unknown;    // Payload stored on the action
+}
+
+export type FrameActionHandler = (event: IFrameActionEvent) => void;
+
+// Maximum number of nested gotos (a frame jumping to a frame that jumps again...)
+// before execution is aborted, so that actions jumping to themselves cannot hang playback
+const MAX_ACTION_DEPTH = 16;
+
+/**
+ * ActionManager
+ * Stores the actions attached to keyframes and runs them when playback
+ * enters a frame (Flash-style frame scripts such as stop() or gotoAndPlay("loop"))
+ */
+export class ActionManager {
+  private context: ITimelineCoreContext;
+  private handlers: Map<string, FrameActionHandler> = new Map();
+  private depth: number = 0;
+
+  constructor(context: ITimelineCoreContext) {
+    this.context = context;
+  }
+
+  /**
+   * Register a named host action that keyframes can run with { type: 'call', name }
+   * @param name Action name
+   * @param handler Function called with the frame, layer and payload of the action
+   * @returns true if registered, false if the name is invalid or already registered
+   */
+  public registerAction(name: string, handler: FrameActionHandler): boolean {
+    if (!/^[A-Za-z_][\w-]*$/.test(name)) {
+      console.error(`Invalid action name "${name}"`);
+      return false;
+    }
+
+    if (this.handlers.has(name)) {
+      console.warn(`Action "${name}" is already registered`);
+      return false;
+    }
+
+    if (typeof handler !== 'function') {
+      console.error(`Action "${name}" must be a function`);
+      return false;
+    }
+
+    this.handlers.set(name, handler);
+    return true;
+  }
+
+  /**
+   * Remove a named host action
+   * Keyframes calling it are kept and warn when run until it is registered again
+   * @param name Action name
+   * @returns true if removed, false if not found
+   */
+  public unregisterAction(name: string): boolean {
+    if (!this.handlers.delete(name)) {
+      console.warn(`Action "${name}" not found`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check if a named host action is registered
+   * @param name Action name
+   */
+  public hasAction(name: string): boolean {
+    return this.handlers.has(name);
+  }
+
+  /**
+   * Get the names of the registered host actions
+   */
+  public getActionNames(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Replace the actions of a keyframe
+   * Emits onFrameActionsChange event
+   * @param layerId ID of the layer
+   * @param frame Frame number of the keyframe
+   * @param actions Actions run in order when playback enters the frame (empty to remove them)
+   * @returns true if set, false if the keyframe is not found or an action is invalid
+   */
+  public setActions(layerId: string, frame: number, actions: IFrameAction[]): boolean {
+    return this.record('Set Frame Actions', () => {
+      const layer = this.findLayer(layerId);
+      const keyframe = layer?.keyframes?.find(kf => kf.frame === frame);
+      if (!keyframe) {
+        console.error(`Keyframe not found at frame ${frame} on layer ${layerId}`);
+        return false;
+      }
+
+      for (const action of actions) {
+        const error = getFrameActionError(action);
+        if (error) {
+          console.error(`Invalid frame action: ${error}`);
+          return false;
+        }
+      }
+
+      if (actions.length > 0) {
+        keyframe.actions = cloneFrameActions(actions);
+      } else {
+        delete keyframe.actions;
+      }
+
+      const eventData = { layerId, frame, actions: cloneFrameActions(actions) };
+
+      // Emit onFrameActionsChange event (spec-style)
+      this.context.Core.eventManager.emit('onFrameActionsChange', eventData);
+
+      // Also emit namespaced event for consistency with legacy listeners
+      this.context.Core.eventManager.emit('actions:changed', eventData);
+
+      this.refreshUI(layerId, frame);
+      return true;
+    });
+  }
+
+  /**
+   * Remove all actions from a keyframe
+   * Emits onFrameActionsChange event
+   * @param layerId ID of the layer
+   * @param frame Frame number of the keyframe
+   * @returns true if cleared, false if the keyframe is not found
+   */
+  public clearActions(layerId: string, frame: number): boolean {
+    return this.setActions(layerId, frame, []);
+  }
+
+  /**
+   * Get a copy of the actions of a keyframe
+   * @param layerId ID of the layer
+   * @param frame Frame number of the keyframe
+   * @returns Copy of the actions (empty if none), or null if the keyframe is not found
+   */
+  public getActions(layerId: string, frame: number): IFrameAction[] | null {
+    const keyframe = this.findLayer(layerId)?.keyframes?.find(kf => kf.frame === frame);
+    if (!keyframe) {
+      return null;
+    }
+    return keyframe.actions ? cloneFrameActions(keyframe.actions) : [];
+  }
+
+  /**
+   * Run the actions of every keyframe on a frame, layer by layer from top to bottom
+   * Actions also run on hidden layers. A goto ends the script of the frame and runs
+   * the actions of the target frame instead
+   * Emits onFrameAction event for each action run
+   * @param frame Frame number
+   */
+  public executeFrame(frame: number): void {
+    if (this.depth >= MAX_ACTION_DEPTH) {
+      console.error(`Frame actions aborted at frame ${frame}: too many nested gotos`);
+      return;
+    }
+
+    const scripts = this.collectActions(frame);
+    if (scripts.length === 0) {
+      return;
+    }
+
+    this.depth++;
+    try {
+      for (const { layerId, actions } of scripts) {
+        for (const action of actions) {
+          if (!this.executeAction(action, frame, layerId)) {
+            return;
+          }
+        }
+      }
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /**
+   * Run a single action
+   * @returns false if the action moved the playhead and the rest of the script must be skipped
+   */
+  private executeAction(action: IFrameAction, frame: number, layerId: string): boolean {
+    const playbackEngine = this.context.Core.playbackEngine;
+
+    // Emit onFrameAction event (spec-style)
+    this.context.Core.eventManager.emit('onFrameAction', { frame, layerId, action: { ...action } });
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('action:executed', { frame, layerId, action: { ...action } });
+
+    switch (action.type) {
+      case 'stop':
+        playbackEngine?.pause();
+        return true;
+
+      case 'play':
+        playbackEngine?.play();
+        return true;
+
+      case 'gotoAndPlay':
+      case 'gotoAndStop': {
+        if (!playbackEngine) {
+          return true;
+        }
+        const targetFrame = this.resolveTarget(action.target!);
+        if (targetFrame === null) {
+          return true;
+        }
+
+        // Set the play state first so that the target frame's actions can override it
+        if (action.type === 'gotoAndPlay') {
+          playbackEngine.play();
+        } else {
+          playbackEngine.pause();
+        }
+        playbackEngine.goToFrame(targetFrame);
+        this.executeFrame(playbackEngine.getCurrentFrame());
+        return false;
+      }
+
+      case 'emit': {
+        // Data loaded without validation must not fire the timeline's own events
+        if (typeof action.name !== 'string' || isReservedEventName(action.name)) {
+          console.warn(`Frame action cannot emit "${action.name}": the name is reserved for timeline events`);
+          return true;
+        }
+
+        // Event names come from the timeline data, so they are not part of the typed event map
+        const eventManager = this.context.Core.eventManager as unknown as EventManager<Record<string, IFrameActionEvent>>;
+        eventManager.emit(action.name, { frame, layerId, payload: action.payload });
+        return true;
+      }
+
+      case 'call': {
+        const handler = this.handlers.get(action.name!);
+        if (!handler) {
+          console.warn(`Action "${action.name}" is not registered`);
+          return true;
+        }
+        try {
+          handler({ frame, layerId, payload: action.payload });
+        } catch (error) {
+          console.error(`Action "${action.name}" failed:`, error);
+        }
+        return true;
+      }
+    }
+  }
+
+  /**
+   * Resolve a goto target (frame number or label name) to a frame number
+   * @returns The frame number, or null if the label does not exist
+   */
+  private resolveTarget(target: number | string): number | null {
+    if (typeof target === 'number') {
+      return target;
+    }
+
+    const label = this.context.Data.getData().labels?.find(l => l.type === 'label' && l.name === target);
+    if (!label) {
+      console.warn(`Label "${target}" not found`);
+      return null;
+    }
+    return label.frame;
+  }
+
+  /**
+   * Collect the actions of the keyframes on a frame, in layer order
+   */
+  private collectActions(frame: number): { layerId: string; actions: IFrameAction[] }[] {
+    const result: { layerId: string; actions: IFrameAction[] }[] = [];
+    const collect = (layers: readonly ILayer[]) => {
+      for (const layer of layers) {
+        const keyframe = layer.keyframes?.find(kf => kf.frame === frame);
+        if (keyframe?.actions && keyframe.actions.length > 0) {
+          result.push({ layerId: layer.id, actions: cloneFrameActions(keyframe.actions) });
+        }
+        if (layer.children) {
+          collect(layer.children);
+        }
+      }
+    };
+    collect(this.context.Data.getData().layers);
+    return result;
+  }
+
+  /**
+   * Run a mutation through the HistoryManager so it can be undone,
+   * rendering its changes once when it completes
+   * @param label Name of the operation shown in the history
+   * @param mutation Function performing the mutation
+   */
+  private record<T>(label: string, mutation: () => T): T {
+    const historyManager = this.context.Core.historyManager;
+    return this.context.batch(() => historyManager ? historyManager.transact(label, mutation) : mutation());
+  }
+
+  /**
+   * Find a layer by ID recursively
+   * @param layerId ID of the layer to find
+   */
+  private findLayer(layerId: string): ILayer | null {
+    const data = this.context.Data.getData();
+    return this.findLayerRecursive(data.layers, layerId);
+  }
+
+  /**
+   * Recursive helper to find a layer
+   */
+  private findLayerRecursive(layers: readonly ILayer[], layerId: string): ILayer | null {
+    for (const layer of layers) {
+      if (layer.id === layerId) {
+        return layer as ILayer;
+      }
+      if (layer.children) {
+        const found = this.findLayerRecursive(layer.children, layerId);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Redraw the keyframe whose actions changed
+   */
+  private refreshUI(layerId: string, frame: number): void {
+    requestRender(this.context, { layerIds: [layerId], startFrame: frame, endFrame: frame });
+  }
+}
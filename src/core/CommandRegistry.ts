@@ -0,0 +1,179 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+
+/**
+ * Where a command is run from and what it applies to
+ */
+export interface ICommandContext {
+  source?: 'keyboard' | 'menu' | 'toolbar' | 'palette' | 'api';
+  layerId?: string;     // Layer the command applies to (default: the active layer)
+  frame?: number;       // Frame the command applies to (default: the playhead)
+  event?: Event;        // DOM event that triggered the command
+}
+
+/**
+ * A named timeline operation that keyboard shortcuts, context menus,
+ * the toolbar and the command palette can run
+ */
+export interface ICommand {
+  id: string;
+  label: string;                      // Name shown in menus and the command palette
+  category?: string;                  // Group shown in the command palette, e.g. "Edit"
+  shortcut?: string;                  // Default shortcut, e.g. "Ctrl+Shift+D"
+  menu?: 'frame' | 'layer';           // Context menu the command is added to
+  edits?: boolean;                    // Changes the timeline data; disabled in read-only mode
+  isEnabled?: (context: ICommandContext) => boolean;
+  run: (context: ICommandContext) => boolean | void;   // Returning false means the command did not apply
+}
+
+/**
+ * Payload of the onCommandExecute event
+ */
+export interface ICommandExecuteEvent {
+  commandId: string;
+  context: ICommandContext;
+}
+
+/**
+ * CommandRegistry
+ * Central list of timeline commands; the keymap, context menus, toolbar
+ * and command palette all run operations through it
+ */
+export class CommandRegistry {
+  private context: IJsTimeLineContext;
+  private commands: Map<string, ICommand> = new Map();
+
+  constructor(context: IJsTimeLineContext) {
+    this.context = context;
+  }
+
+  /**
+   * Register a command; its default shortcut is added to the keymap
+   * @param command Command to register
+   * @returns true if registered, false if the command is invalid or the id is taken
+   */
+  public register(command: ICommand): boolean {
+    if (!command || typeof command.id !== 'string' || !command.id || typeof command.label !== 'string' || typeof command.run !== 'function') {
+      console.error('Invalid command: id, label and run are required');
+      return false;
+    }
+    if (this.commands.has(command.id)) {
+      console.error(`Command "${command.id}" is already registered`);
+      return false;
+    }
+
+    this.commands.set(command.id, command);
+
+    if (command.shortcut) {
+      this.context.Core.keymapManager?.addDefaultBinding(command.shortcut, command.id);
+    }
+    return true;
+  }
+
+  /**
+   * Unregister a command and remove its shortcuts from the keymap
+   * @param commandId Command id
+   * @returns true if the command was registered
+   */
+  public unregister(commandId: string): boolean {
+    if (!this.commands.delete(commandId)) {
+      return false;
+    }
+
+    this.context.Core.keymapManager?.removeCommand(commandId);
+    return true;
+  }
+
+  /**
+   * Check if a command is registered
+   * @param commandId Command id
+   */
+  public has(commandId: string): boolean {
+    return this.commands.has(commandId);
+  }
+
+  /**
+   * Get a registered command
+   * @param commandId Command id
+   */
+  public get(commandId: string): ICommand | null {
+    return this.commands.get(commandId) ?? null;
+  }
+
+  /**
+   * Get all registered commands in registration order
+   */
+  public getCommands(): ICommand[] {
+    return [...this.commands.values()];
+  }
+
+  /**
+   * Check if a command can run
+   * @param commandId Command id
+   * @param context What the command applies to
+   * @returns false if the command is not registered or not enabled
+   */
+  public isEnabled(commandId: string, context: ICommandContext = {}): boolean {
+    const command = this.commands.get(commandId);
+    if (!command || (command.edits && this.context.readOnly)) {
+      return false;
+    }
+    return command.isEnabled ? command.isEnabled(context) : true;
+  }
+
+  /**
+   * Get the shortcut shown for a command: the first shortcut bound to it in the keymap
+   * @param commandId Command id
+   */
+  public getShortcut(commandId: string): string | null {
+    return this.context.Core.keymapManager?.getShortcuts(commandId)[0] ?? null;
+  }
+
+  /**
+   * Run a command
+   * Emits onCommandExecute event when the command ran
+   * @param commandId Command id
+   * @param context What the command applies to
+   * @returns true if the command ran, false if it is unknown, disabled or did not apply
+   */
+  public execute(commandId: string, context: ICommandContext = {}): boolean {
+    const command = this.commands.get(commandId);
+    if (!command) {
+      console.error(`Unknown command "${commandId}"`);
+      return false;
+    }
+    if (!this.isEnabled(commandId, context) || command.run(context) === false) {
+      return false;
+    }
+
+    const event: ICommandExecuteEvent = { commandId, context };
+
+    // Emit onCommandExecute event (spec-style)
+    this.context.Core.eventManager.emit('onCommandExecute', event);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('command:executed', event);
+    return true;
+  }
+
+  /**
+   * Find commands by name for the command palette
+   * Every word of the query must appear in the label, category or id;
+   * commands whose label starts with the query come first
+   * @param query Search text (all commands when empty)
+   */
+  public search(query: string): ICommand[] {
+    const text = query.trim().toLowerCase();
+    const words = text.split(/\s+/).filter(Boolean);
+    const commands = this.getCommands();
+    if (words.length === 0) {
+      return commands;
+    }
+
+    const matches = commands.filter(command => {
+      const haystack = `${command.label} ${command.category ?? ''} ${command.id}`.toLowerCase();
+      return words.every(word => haystack.includes(word));
+    });
+    const rank = (command: ICommand) => command.label.toLowerCase().startsWith(text) ? 0 : 1;
+    return matches.sort((a, b) => rank(a) - rank(b));
+  }
+}
@@ -0,0 +1,140 @@
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import {
+  EasingFunction,
+  getBuiltInEasingNames,
+  isBuiltInEasing,
+  linear,
+  normalizeEasing,
+  parseEasing
+} from '../utils/Easing';
+
+/**
+ * EasingRegistry
+ * Resolves the easing spec stored in ITween.type into an easing function.
+ * Knows the built-in easings, cubic-bezier()/steps() specs and custom
+ * easings registered by the host application or plugins
+ */
+export class EasingRegistry {
+  private context: ITimelineCoreContext;
+  private customEasings: Map<string, EasingFunction> = new Map();
+
+  constructor(context: ITimelineCoreContext) {
+    this.context = context;
+  }
+
+  /**
+   * Register a named easing function
+   * Emits onEasingRegister event
+   * @param name Easing name stored in tweens (letters, digits, '-' and '_')
+   * @param easing Function mapping linear progress (0-1) to eased progress
+   * @returns true if registered, false if the name is invalid or built-in
+   */
+  public register(name: string, easing: EasingFunction): boolean {
+    if (!/^[A-Za-z_][\w-]*$/.test(name)) {
+      console.error(`Invalid easing name "${name}"`);
+      return false;
+    }
+
+    if (isBuiltInEasing(name)) {
+      console.warn(`Cannot override built-in easing "${name}"`);
+      return false;
+    }
+
+    if (typeof easing !== 'function') {
+      console.error(`Easing "${name}" must be a function`);
+      return false;
+    }
+
+    this.customEasings.set(name, easing);
+
+    // Emit onEasingRegister event (spec-style)
+    this.context.Core.eventManager.emit('onEasingRegister', { name });
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('easing:registered', { name });
+
+    return true;
+  }
+
+  /**
+   * Remove a custom easing
+   * Tweens using it keep their easing name and fall back to linear until it is registered again
+   * Emits onEasingUnregister event
+   * @param name Name of the custom easing
+   * @returns true if removed, false if not found
+   */
+  public unregister(name: string): boolean {
+    if (!this.customEasings.delete(name)) {
+      console.warn(`Custom easing "${name}" not found`);
+      return false;
+    }
+
+    // Emit onEasingUnregister event (spec-style)
+    this.context.Core.eventManager.emit('onEasingUnregister', { name });
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('easing:unregistered', { name });
+
+    return true;
+  }
+
+  /**
+   * Check if an easing spec can be resolved
+   * @param spec Easing name, cubic-bezier() or steps() spec
+   */
+  public has(spec: string): boolean {
+    return this.get(spec) !== null;
+  }
+
+  /**
+   * Get the easing function for a spec
+   * @param spec Easing name, cubic-bezier() or steps() spec
+   * @returns The easing function, or null if the spec is unknown
+   */
+  public get(spec: string): EasingFunction | null {
+    const custom = this.customEasings.get(spec.trim());
+    if (custom) {
+      return custom;
+    }
+    return parseEasing(spec);
+  }
+
+  /**
+   * Resolve the easing function of a tween
+   * Unknown specs fall back to linear so that tweens always play
+   * @param spec Easing spec stored in ITween.type
+   */
+  public resolve(spec?: string): EasingFunction {
+    if (!spec) {
+      return linear;
+    }
+    return this.get(spec) || linear;
+  }
+
+  /**
+   * Normalize an easing spec for storage in a tween
+   * @param spec Easing spec
+   * @returns The canonical spec, or null if it is unknown or malformed
+   */
+  public normalize(spec: string): string | null {
+    const normalized = normalizeEasing(spec);
+    if (!normalized || !this.has(normalized)) {
+      return null;
+    }
+    return normalized;
+  }
+
+  /**
+   * Get the names of all available easings (built-in first, then custom)
+   */
+  public getNames(): string[] {
+    return [...getBuiltInEasingNames(), ...this.customEasings.keys()];
+  }
+
+  /**
+   * Get the names of custom easings
+   */
+  public getCustomNames(): string[] {
+    return Array.from(this.customEasings.keys());
+  }
+}
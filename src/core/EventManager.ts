@@ -1,42 +1,122 @@
+import { TimelineEventMap } from './TimelineEventMap';
+
 /**
  * Interface for cancellable events
  * Listeners can call preventDefault() to cancel the operation
  */
-export interface ICancellableEvent {
+export interface ICancellableEvent<T = any> {
   eventName: string;
-  data: any;
+  data: T;
   defaultPrevented: boolean;
   preventDefault(): void;
 }
 
+/**
+ * Names of the events of an event map
+ */
+export type EventName<TEvents> = Extract<keyof TEvents, string>;
+
+// Namespace of a namespaced event name, e.g. "keyframe" for "keyframe:added"
+type EventNamespace<K extends string> = K extends `${infer Namespace}:${string}` ? Namespace : never;
+
+/**
+ * What a listener can subscribe to: an event name, all events of a
+ * namespace (e.g. "keyframe:*") or every event ("*")
+ */
+export type EventPattern<TEvents> = EventName<TEvents> | `${EventNamespace<EventName<TEvents>>}:*` | '*';
+
+/**
+ * Payload received by the listeners of an event pattern
+ */
+export type EventPayload<TEvents, P extends string> =
+  P extends '*' ? TEvents[EventName<TEvents>]
+  : P extends `${infer Namespace}:*` ? TEvents[Extract<EventName<TEvents>, `${Namespace}:${string}`>]
+  : P extends EventName<TEvents> ? TEvents[P]
+  : never;
+
+/**
+ * Listener of an event pattern; wildcard listeners also receive the name of the event
+ */
+export type EventListener<TEvents, P extends string> = P extends '*' | `${string}:*`
+  ? (data: EventPayload<TEvents, P>, eventName: EventName<TEvents>) => void
+  : (data: EventPayload<TEvents, P>) => void;
+
+/**
+ * Names of the events emitted with emitCancellable()
+ */
+export type CancellableEventName<TEvents> = {
+  [K in EventName<TEvents>]: TEvents[K] extends ICancellableEvent ? K : never
+}[EventName<TEvents>];
+
+/**
+ * Options of a listener
+ */
+export interface IListenerOptions {
+  priority?: number;    // Listeners with a higher priority run first (default: 0)
+  once?: boolean;       // Remove the listener after its first call
+}
+
+// A registered listener, with the order it was added in for listeners of the same priority
+interface IListenerEntry {
+  callback: Function;
+  priority: number;
+  once: boolean;
+  order: number;
+}
+
 /**
  * EventManager handles all event subscriptions and emissions
- * Supports both regular and cancellable events
+ * Supports both regular and cancellable events; the event map types the
+ * event names and payloads (TimelineEventMap for the timeline's events)
  */
-export class EventManager {
-  private listeners: Map<string, Set<Function>> = new Map();
+export class EventManager<TEvents extends object = TimelineEventMap> {
+  private listeners: Map<string, IListenerEntry[]> = new Map();
+  private nextOrder: number = 0;
 
   /**
    * Subscribe to an event
-   * @param eventName Name of the event
+   * @param eventName Name of the event, "namespace:*" for all events of a namespace or "*" for all events
    * @param callback Function to call when event is triggered
+   * @param options Priority and once
+   * @returns Function that removes the listener
    */
-  public on(eventName: string, callback: Function): void {
+  public on<P extends EventPattern<TEvents>>(eventName: P, callback: EventListener<TEvents, P>, options: IListenerOptions = {}): () => void {
     if (!this.listeners.has(eventName)) {
-      this.listeners.set(eventName, new Set());
+      this.listeners.set(eventName, []);
     }
-    this.listeners.get(eventName)!.add(callback);
+
+    // A callback is only added once per event
+    const entries = this.listeners.get(eventName)!;
+    if (!entries.some(entry => entry.callback === callback)) {
+      entries.push({ callback, priority: options.priority ?? 0, once: options.once ?? false, order: this.nextOrder++ });
+    }
+
+    return () => this.off(eventName, callback);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event
+   * @param eventName Name of the event or a wildcard pattern
+   * @param callback Function to call when event is triggered
+   * @param options Priority
+   * @returns Function that removes the listener
+   */
+  public once<P extends EventPattern<TEvents>>(eventName: P, callback: EventListener<TEvents, P>, options: IListenerOptions = {}): () => void {
+    return this.on(eventName, callback, { ...options, once: true });
   }
 
   /**
    * Unsubscribe from an event
-   * @param eventName Name of the event
+   * @param eventName Name of the event or the wildcard pattern subscribed to
    * @param callback Function to remove
    */
-  public off(eventName: string, callback: Function): void {
-    const callbacks = this.listeners.get(eventName);
-    if (callbacks) {
-      callbacks.delete(callback);
+  public off<P extends EventPattern<TEvents>>(eventName: P, callback: EventListener<TEvents, P>): void {
+    const entries = this.listeners.get(eventName);
+    if (entries) {
+      const index = entries.findIndex(entry => entry.callback === callback);
+      if (index !== -1) {
+        entries.splice(index, 1);
+      }
     }
   }
 
@@ -44,13 +124,10 @@ export class EventManager {
    * Trigger an event
    * @param eventName Name of the event
    * @param data Data to pass to listeners
-   * @returns The event object (for cancellable events)
+   * @returns The data passed to listeners
    */
-  public emit(eventName: string, data?: any): any {
-    const callbacks = this.listeners.get(eventName);
-    if (callbacks) {
-      callbacks.forEach(callback => callback(data));
-    }
+  public emit<K extends EventName<TEvents>>(eventName: K, data: TEvents[K]): TEvents[K] {
+    this.dispatch(eventName, data);
     return data;
   }
 
@@ -61,7 +138,10 @@ export class EventManager {
    * @param data Data to pass to listeners
    * @returns The cancellable event object
    */
-  public emitCancellable(eventName: string, data?: any): ICancellableEvent {
+  public emitCancellable<K extends CancellableEventName<TEvents>>(
+    eventName: K,
+    data: TEvents[K] extends ICancellableEvent<infer T> ? T : never
+  ): TEvents[K] {
     const event: ICancellableEvent = {
       eventName,
       data,
@@ -71,12 +151,16 @@ export class EventManager {
       }
     };
 
-    const callbacks = this.listeners.get(eventName);
-    if (callbacks) {
-      callbacks.forEach(callback => callback(event));
-    }
+    this.dispatch(eventName, event);
+    return event as TEvents[K];
+  }
 
-    return event;
+  /**
+   * Check if an event has listeners, including wildcard listeners
+   * @param eventName Name of the event
+   */
+  public hasListeners(eventName: EventName<TEvents>): boolean {
+    return this.getListeners(eventName).length > 0;
   }
 
   /**
@@ -85,4 +169,37 @@ export class EventManager {
   public clear(): void {
     this.listeners.clear();
   }
+
+  /**
+   * Call the listeners of an event, its namespace and "*" by priority
+   */
+  private dispatch(eventName: string, data: unknown): void {
+    for (const { key, entry } of this.getListeners(eventName)) {
+      // Skip listeners removed by an earlier listener
+      const entries = this.listeners.get(key);
+      const index = entries ? entries.indexOf(entry) : -1;
+      if (index === -1) continue;
+
+      if (entry.once) {
+        entries!.splice(index, 1);
+      }
+      if (key === eventName) {
+        entry.callback(data);
+      } else {
+        entry.callback(data, eventName);
+      }
+    }
+  }
+
+  /**
+   * Get the listeners an event reaches, sorted by priority then by the order they were added
+   */
+  private getListeners(eventName: string): { key: string; entry: IListenerEntry }[] {
+    const separator = eventName.indexOf(':');
+    const keys = separator > 0 ? [eventName, `${eventName.slice(0, separator)}:*`, '*'] : [eventName, '*'];
+
+    return [...new Set(keys)]
+      .flatMap(key => (this.listeners.get(key) || []).map(entry => ({ key, entry })))
+      .sort((a, b) => b.entry.priority - a.entry.priority || a.entry.order - b.entry.order);
+  }
 }
@@ -0,0 +1,271 @@
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { ITimeLineData } from '../data/ITimeLineData';
+import { DataChange, applyChanges, cloneData, diffData, revertChanges } from '../data/DataChanges';
+import { requestRender } from './RenderScheduler';
+
+/**
+ * A reversible operation stored in the history stacks
+ */
+export interface IHistoryCommand {
+  label: string;
+  undo(): void;
+  redo(): void;
+}
+
+/**
+ * Snapshot of the history state, used as the payload of history events
+ */
+export interface IHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  undoCount: number;
+  redoCount: number;
+}
+
+/**
+ * HistoryManager
+ * Records reversible commands for every data mutation and provides undo/redo
+ *
+ * A transaction copies the undoable data when it starts and compares it with the
+ * data when it ends, so its cost grows with the size of the timeline. Each step
+ * only keeps the values that changed (e.g. the keyframes of one layer), and undo
+ * writes them back in place, leaving the other layers untouched.
+ */
+export class HistoryManager {
+  private context: ITimelineCoreContext;
+  private undoStack: IHistoryCommand[] = [];
+  private redoStack: IHistoryCommand[] = [];
+  private maxDepth: number;
+  private transactionDepth: number = 0;
+  private transactionSnapshot: Omit<ITimeLineData, 'settings'> | null = null;
+  private isRestoring: boolean = false;
+
+  constructor(context: ITimelineCoreContext, maxDepth: number = 100) {
+    this.context = context;
+    this.maxDepth = Math.max(1, maxDepth);
+  }
+
+  /**
+   * Run a mutation and record its inverse as a single undoable step
+   * Nested transactions are merged into the outermost one, and mutations
+   * that leave the data unchanged (failed or cancelled) are not recorded
+   * @param label Human readable name of the operation (e.g. "Insert Keyframe")
+   * @param mutation Function performing the mutation
+   * @returns The return value of the mutation
+   */
+  public transact<T>(label: string, mutation: () => T): T {
+    if (this.isRestoring) {
+      return mutation();
+    }
+
+    const isOutermost = this.transactionDepth === 0;
+    if (isOutermost) {
+      this.transactionSnapshot = cloneData(this.getContent());
+    }
+
+    this.transactionDepth++;
+    let result: T;
+    try {
+      result = mutation();
+    } finally {
+      this.transactionDepth--;
+    }
+
+    if (isOutermost) {
+      const changes = diffData(this.transactionSnapshot, this.getContent());
+      this.transactionSnapshot = null;
+
+      if (changes.length > 0) {
+        this.push({
+          label,
+          undo: () => this.restoreChanges(changes, revertChanges),
+          redo: () => this.restoreChanges(changes, applyChanges)
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Push an already executed command onto the undo stack
+   * Clears the redo stack, since a new branch of history starts here
+   * @param command The command to record
+   */
+  public push(command: IHistoryCommand): void {
+    this.undoStack.push(command);
+    this.redoStack = [];
+    this.trimToMaxDepth();
+    this.emitHistoryChange('record');
+  }
+
+  /**
+   * Undo the most recent command
+   * Emits onHistoryChange event
+   * @returns true if a command was undone
+   */
+  public undo(): boolean {
+    if (this.transactionDepth > 0) {
+      console.warn('Cannot undo while a transaction is in progress');
+      return false;
+    }
+
+    const command = this.undoStack.pop();
+    if (!command) {
+      return false;
+    }
+
+    this.runRestoring(() => command.undo());
+    this.redoStack.push(command);
+    this.emitHistoryChange('undo', command.label);
+
+    return true;
+  }
+
+  /**
+   * Redo the most recently undone command
+   * Emits onHistoryChange event
+   * @returns true if a command was redone
+   */
+  public redo(): boolean {
+    if (this.transactionDepth > 0) {
+      console.warn('Cannot redo while a transaction is in progress');
+      return false;
+    }
+
+    const command = this.redoStack.pop();
+    if (!command) {
+      return false;
+    }
+
+    this.runRestoring(() => command.redo());
+    this.undoStack.push(command);
+    this.emitHistoryChange('redo', command.label);
+
+    return true;
+  }
+
+  /**
+   * Check if there is anything to undo
+   */
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Check if there is anything to redo
+   */
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Get the current history state
+   */
+  public getState(): IHistoryState {
+    return {
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      undoLabel: this.undoStack.length > 0 ? this.undoStack[this.undoStack.length - 1].label : null,
+      redoLabel: this.redoStack.length > 0 ? this.redoStack[this.redoStack.length - 1].label : null,
+      undoCount: this.undoStack.length,
+      redoCount: this.redoStack.length
+    };
+  }
+
+  /**
+   * Get the maximum number of undo steps kept
+   */
+  public getMaxDepth(): number {
+    return this.maxDepth;
+  }
+
+  /**
+   * Set the maximum number of undo steps kept
+   * Oldest steps are discarded when the limit is reduced
+   * @param maxDepth New history depth (minimum 1)
+   */
+  public setMaxDepth(maxDepth: number): void {
+    this.maxDepth = Math.max(1, Math.floor(maxDepth));
+    if (this.trimToMaxDepth()) {
+      this.emitHistoryChange('trim');
+    }
+  }
+
+  /**
+   * Clear both undo and redo stacks
+   */
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emitHistoryChange('clear');
+  }
+
+  /**
+   * Drop the oldest undo steps above the configured depth
+   * @returns true if any step was dropped
+   */
+  private trimToMaxDepth(): boolean {
+    if (this.undoStack.length <= this.maxDepth) {
+      return false;
+    }
+    this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+    return true;
+  }
+
+  /**
+   * Run a restore operation without recording it as a new transaction
+   */
+  private runRestoring(restore: () => void): void {
+    this.isRestoring = true;
+    try {
+      restore();
+    } finally {
+      this.isRestoring = false;
+    }
+  }
+
+  /**
+   * Get the undoable part of the timeline data
+   * Settings are excluded so that view preferences (panel sizes, etc.)
+   * are not reverted by undo
+   */
+  private getContent(): Omit<ITimeLineData, 'settings'> {
+    const { settings, ...content } = this.context.Data.getData();
+    return content;
+  }
+
+  /**
+   * Write recorded changes back into the timeline data
+   */
+  private restoreChanges(changes: DataChange[], restore: (root: object, changes: DataChange[]) => void): void {
+    restore(this.context.Data.getData(), changes);
+    this.refreshUI();
+  }
+
+  /**
+   * Emit history change events
+   */
+  private emitHistoryChange(action: 'record' | 'undo' | 'redo' | 'clear' | 'trim', label?: string): void {
+    const payload = {
+      action,
+      label: label ?? null,
+      ...this.getState()
+    };
+
+    // Emit onHistoryChange event (spec-style)
+    this.context.Core.eventManager.emit('onHistoryChange', payload);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('history:changed', payload);
+  }
+
+  /**
+   * Refresh UI components after restoring data
+   */
+  private refreshUI(): void {
+    requestRender(this.context, { panel: true, ruler: true, grid: true });
+  }
+}
@@ -0,0 +1,173 @@
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { ILayer, IKeyframe, IKeyframeValues, ITween } from '../data/ITimeLineData';
+import { cloneKeyframeValues, interpolateKeyframeValue } from '../data/KeyframeValues';
+import { getEasingFunction } from '../utils/Easing';
+
+/**
+ * Computed state of a layer at a given frame
+ */
+export interface ILayerState {
+  layerId: string;
+  frame: number;
+  hasContent: boolean;          // False before the first keyframe or on a blank keyframe span
+  keyframe: number | null;      // Frame of the keyframe in effect
+  tween: ITween | null;         // Tween in progress at this frame, if any
+  progress: number;             // Eased tween progress (0 when not tweening)
+  values: IKeyframeValues;      // Interpolated property values
+}
+
+/**
+ * Options for evaluating all layers
+ */
+export interface IEvaluateOptions {
+  visibleOnly?: boolean;        // Skip hidden layers and layers inside hidden folders
+}
+
+/**
+ * InterpolationEngine
+ * Evaluates keyframes and tweens to compute layer property values at any frame
+ */
+export class InterpolationEngine {
+  private context: ITimelineCoreContext;
+
+  constructor(context: ITimelineCoreContext) {
+    this.context = context;
+  }
+
+  /**
+   * Evaluate the state of a single layer at a frame
+   * @param layerId ID of the layer
+   * @param frame Frame number to evaluate
+   * @returns The layer state, or null if the layer does not exist or is a folder
+   */
+  public evaluateLayer(layerId: string, frame: number): ILayerState | null {
+    const layer = this.findLayer(layerId);
+    if (!layer || layer.type !== 'layer') {
+      return null;
+    }
+    return this.evaluate(layer, frame);
+  }
+
+  /**
+   * Evaluate all layers at a frame, in display order
+   * @param frame Frame number to evaluate
+   * @param options Evaluation options
+   * @returns States of every (visible) layer, folders excluded
+   */
+  public evaluateAll(frame: number, options: IEvaluateOptions = {}): ILayerState[] {
+    const states: ILayerState[] = [];
+
+    const collect = (layers: readonly ILayer[]) => {
+      for (const layer of layers) {
+        if (options.visibleOnly && layer.visible === false) {
+          continue;
+        }
+        if (layer.type === 'layer') {
+          states.push(this.evaluate(layer, frame));
+        } else if (layer.children) {
+          collect(layer.children);
+        }
+      }
+    };
+
+    collect(this.context.Data.getData().layers);
+    return states;
+  }
+
+  /**
+   * Evaluate a layer at a frame
+   */
+  private evaluate(layer: ILayer, frame: number): ILayerState {
+    const state: ILayerState = {
+      layerId: layer.id,
+      frame,
+      hasContent: false,
+      keyframe: null,
+      tween: null,
+      progress: 0,
+      values: {}
+    };
+
+    const keyframe = this.findKeyframeInEffect(layer, frame);
+    if (!keyframe) {
+      return state;
+    }
+
+    state.keyframe = keyframe.frame;
+
+    // Blank keyframes mean "no content" until the next keyframe
+    if (keyframe.isEmpty) {
+      return state;
+    }
+
+    state.hasContent = true;
+    const startValues = keyframe.values || {};
+
+    // Only a tween starting on this keyframe can affect the frame
+    const tween = layer.tweens?.find(tw => tw.startFrame === keyframe.frame && frame < tw.endFrame);
+    const endKeyframe = tween ? layer.keyframes?.find(kf => kf.frame === tween.endFrame) : undefined;
+
+    if (!tween || !endKeyframe || endKeyframe.isEmpty) {
+      state.values = cloneKeyframeValues(startValues);
+      return state;
+    }
+
+    const linearProgress = (frame - tween.startFrame) / (tween.endFrame - tween.startFrame);
+    const easingRegistry = this.context.Core.easingRegistry;
+    const easing = easingRegistry ? easingRegistry.resolve(tween.type) : getEasingFunction(tween.type);
+    const progress = easing(linearProgress);
+    const endValues = endKeyframe.values || {};
+
+    state.tween = { ...tween };
+    state.progress = progress;
+
+    for (const [property, startValue] of Object.entries(startValues)) {
+      const endValue = endValues[property];
+      state.values[property] = endValue === undefined
+        ? cloneKeyframeValues({ [property]: startValue })[property]
+        : interpolateKeyframeValue(startValue, endValue, progress);
+    }
+
+    return state;
+  }
+
+  /**
+   * Find the last keyframe at or before a frame
+   */
+  private findKeyframeInEffect(layer: ILayer, frame: number): IKeyframe | null {
+    let result: IKeyframe | null = null;
+    for (const kf of layer.keyframes || []) {
+      if (kf.frame <= frame && (!result || kf.frame > result.frame)) {
+        result = kf;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find a layer by ID recursively
+   * @param layerId ID of the layer to find
+   */
+  private findLayer(layerId: string): ILayer | null {
+    const data = this.context.Data.getData();
+    return this.findLayerRecursive(data.layers, layerId);
+  }
+
+  /**
+   * Recursive helper to find a layer
+   */
+  private findLayerRecursive(layers: readonly ILayer[], layerId: string): ILayer | null {
+    for (const layer of layers) {
+      if (layer.id === layerId) {
+        return layer as ILayer;
+      }
+      if (layer.children) {
+        const found = this.findLayerRecursive(layer.children, layerId);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return null;
+  }
+}
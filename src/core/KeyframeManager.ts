@@ -1,68 +1,180 @@
-import { IJsTimeLineContext } from '../IJsTimeLineContext';
-import { ILayer, IKeyframe } from '../data/ITimeLineData';
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { ILayer, IKeyframe, IKeyframeValues, ITween } from '../data/ITimeLineData';
+import { cloneKeyframeValues, isKeyframeValue } from '../data/KeyframeValues';
+import { cloneFrameActions } from '../data/FrameActions';
+import { getTweenIssueType, splitTween } from '../data/TweenIntegrity';
+import { requestRender } from './RenderScheduler';
+
+/**
+ * How moved keyframes landing on existing keyframes are handled
+ * - reject: the whole move is cancelled
+ * - overwrite: the existing keyframes are replaced
+ * - skip: the conflicting keyframes stay where they are, the others move
+ * - shift: the conflicting keyframes land on the next free frame of their layer
+ */
+export type MoveConflictPolicy = 'reject' | 'overwrite' | 'skip' | 'shift';
+
+/**
+ * Why a moved keyframe cannot land where the move puts it
+ * - occupied: a keyframe that does not move is at the target frame
+ * - locked: the source or target layer is locked
+ * - noLayer: the layer offset puts the keyframe above the first or below the last layer
+ * - outOfRange: the target frame is before frame 1 or after the last frame
+ */
+export type MoveConflictReason = 'occupied' | 'locked' | 'noLayer' | 'outOfRange';
+
+/**
+ * What the move does about a conflict, depending on the policy
+ */
+export type MoveConflictResolution = 'rejected' | 'overwritten' | 'skipped' | 'shifted';
+
+/**
+ * A keyframe moved by moveKeyframes
+ */
+export interface IKeyframeMove {
+  id: string;               // Keyframe id before the move (kf-layerId-frame)
+  fromLayerId: string;
+  toLayerId: string;
+  oldFrame: number;
+  newFrame: number;
+}
+
+/**
+ * A moved keyframe that could not land where the move put it
+ */
+export interface IKeyframeMoveConflict {
+  frameId: string;          // Moved keyframe (layerId:frame)
+  targetFrame: number;      // Frame the keyframe would have landed on
+  reason: MoveConflictReason;
+  resolution: MoveConflictResolution;
+}
+
+/**
+ * A tween identified by its layer and frames
+ */
+export interface ITweenRef {
+  layerId: string;
+  startFrame: number;
+  endFrame: number;
+}
+
+/**
+ * Outcome of a keyframe move, returned by planMoveKeyframes and sent with onKeyframeMove
+ */
+export interface IKeyframeMoveReport {
+  success: boolean;                     // Whether the move can be (or was) made
+  policy: MoveConflictPolicy;
+  frameOffset: number;                  // Frames moved
+  layerOffset: number;                  // Layers moved (folders are not counted)
+  moves: IKeyframeMove[];               // Keyframes that move (skipped keyframes excluded)
+  overwritten: string[];                // Existing keyframes replaced (layerId:frame)
+  movedTweens: Array<{ from: ITweenRef; to: ITweenRef }>;  // Tweens following their moved keyframes
+  removedTweens: ITweenRef[];           // Tweens that lose a keyframe
+  conflicts: { [layerId: string]: IKeyframeMoveConflict[] };  // Conflicts per layer (the source layer for noLayer and a locked source)
+}
+
+/**
+ * A keyframe being planned by planMoveKeyframes
+ */
+interface IPlannedMove {
+  frameId: string;
+  source: ILayer;
+  target: ILayer | null;    // null when the layer offset leaves the layer list
+  oldFrame: number;
+  newFrame: number;
+  skipped: boolean;
+}
+
+/**
+ * A tween with the keyframes it is attached to, taken before a keyframe edit
+ */
+interface ITweenBinding {
+  tween: ITween;
+  start: IKeyframe;
+  end: IKeyframe;
+  startFrame: number;       // Start frame before the edit
+}
 
 /**
  * KeyframeManager
  * Manages keyframe and frame operations
  */
 export class KeyframeManager {
-  private context: IJsTimeLineContext;
+  private context: ITimelineCoreContext;
 
-  constructor(context: IJsTimeLineContext) {
+  constructor(context: ITimelineCoreContext) {
     this.context = context;
   }
 
   /**
    * Insert a content keyframe (F6)
+   * Like Flash, the new keyframe duplicates the property values of the
+   * content keyframe in effect at that frame unless values are provided
    * Emits onKeyframeAdd event
    * @param layerId ID of the layer
    * @param frame Frame number where to insert
+   * @param values Optional property values for the new keyframe
    */
-  public insertKeyframe(layerId: string, frame: number): void {
-    const layer = this.findLayer(layerId);
-    if (!layer) {
-      console.error(`Layer ${layerId} not found`);
-      return;
-    }
+  public insertKeyframe(layerId: string, frame: number, values?: IKeyframeValues): void {
+    this.record('Insert Keyframe', () => {
+      const layer = this.findLayer(layerId);
+      if (!layer) {
+        console.error(`Layer ${layerId} not found`);
+        return;
+      }
 
-    // Check if keyframe already exists at this frame
-    const existingKeyframe = layer.keyframes?.find(kf => kf.frame === frame);
-    if (existingKeyframe) {
-      console.warn(`Keyframe already exists at frame ${frame}`);
-      return;
-    }
+      // Check if keyframe already exists at this frame
+      const existingKeyframe = layer.keyframes?.find(kf => kf.frame === frame);
+      if (existingKeyframe) {
+        console.warn(`Keyframe already exists at frame ${frame}`);
+        return;
+      }
 
-    // Create new keyframe
-    const newKeyframe: IKeyframe = {
-      frame,
-      isEmpty: false
-    };
+      if (values && !this.validateValues(values)) {
+        return;
+      }
 
-    // Add to keyframes array
-    if (!layer.keyframes) {
-      layer.keyframes = [];
-    }
-    layer.keyframes.push(newKeyframe);
+      // Create new keyframe
+      const newKeyframe: IKeyframe = {
+        frame,
+        isEmpty: false
+      };
+
+      // Use provided values, or inherit from the keyframe currently in effect
+      const inheritedFrom = values ? null : this.findKeyframeInEffect(layer, frame);
+      const initialValues = values ?? (inheritedFrom && !inheritedFrom.isEmpty ? inheritedFrom.values : undefined);
+      if (initialValues && Object.keys(initialValues).length > 0) {
+        newKeyframe.values = cloneKeyframeValues(initialValues);
+      }
 
-    // Sort keyframes by frame number
-    layer.keyframes.sort((a, b) => a.frame - b.frame);
+      // Add to keyframes array, splitting a tween the keyframe lands inside
+      this.keepTweensAttached([layer], () => {
+        if (!layer.keyframes) {
+          layer.keyframes = [];
+        }
+        layer.keyframes.push(newKeyframe);
 
-    // Generate keyframe ID for event
-    const keyframeId = `kf-${layerId}-${frame}`;
+        // Sort keyframes by frame number
+        layer.keyframes.sort((a, b) => a.frame - b.frame);
+      });
 
-    // Emit onKeyframeAdd event (spec-compliant)
-    this.context.Core.eventManager.emit('onKeyframeAdd', {
-      id: keyframeId,
-      layerId,
-      frame,
-      type: 'content'
-    });
+      // Generate keyframe ID for event
+      const keyframeId = `kf-${layerId}-${frame}`;
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('keyframe:added', { layerId, frame, isEmpty: false });
+      // Emit onKeyframeAdd event (spec-compliant)
+      this.context.Core.eventManager.emit('onKeyframeAdd', {
+        id: keyframeId,
+        layerId,
+        frame,
+        type: 'content'
+      });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('keyframe:added', { layerId, frame, isEmpty: false });
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Trigger UI re-render
+      this.refreshUI([layerId], frame);
+    });
   }
 
   /**
@@ -72,50 +184,54 @@ export class KeyframeManager {
    * @param frame Frame number where to insert
    */
   public insertBlankKeyframe(layerId: string, frame: number): void {
-    const layer = this.findLayer(layerId);
-    if (!layer) {
-      console.error(`Layer ${layerId} not found`);
-      return;
-    }
+    this.record('Insert Blank Keyframe', () => {
+      const layer = this.findLayer(layerId);
+      if (!layer) {
+        console.error(`Layer ${layerId} not found`);
+        return;
+      }
 
-    // Check if keyframe already exists at this frame
-    const existingKeyframe = layer.keyframes?.find(kf => kf.frame === frame);
-    if (existingKeyframe) {
-      console.warn(`Keyframe already exists at frame ${frame}`);
-      return;
-    }
+      // Check if keyframe already exists at this frame
+      const existingKeyframe = layer.keyframes?.find(kf => kf.frame === frame);
+      if (existingKeyframe) {
+        console.warn(`Keyframe already exists at frame ${frame}`);
+        return;
+      }
 
-    // Create new blank keyframe
-    const newKeyframe: IKeyframe = {
-      frame,
-      isEmpty: true
-    };
+      // Create new blank keyframe
+      const newKeyframe: IKeyframe = {
+        frame,
+        isEmpty: true
+      };
 
-    // Add to keyframes array
-    if (!layer.keyframes) {
-      layer.keyframes = [];
-    }
-    layer.keyframes.push(newKeyframe);
+      // Add to keyframes array, splitting a tween the keyframe lands inside
+      this.keepTweensAttached([layer], () => {
+        if (!layer.keyframes) {
+          layer.keyframes = [];
+        }
+        layer.keyframes.push(newKeyframe);
 
-    // Sort keyframes by frame number
-    layer.keyframes.sort((a, b) => a.frame - b.frame);
+        // Sort keyframes by frame number
+        layer.keyframes.sort((a, b) => a.frame - b.frame);
+      });
 
-    // Generate keyframe ID for event
-    const keyframeId = `kf-${layerId}-${frame}`;
+      // Generate keyframe ID for event
+      const keyframeId = `kf-${layerId}-${frame}`;
 
-    // Emit onKeyframeAdd event (spec-compliant)
-    this.context.Core.eventManager.emit('onKeyframeAdd', {
-      id: keyframeId,
-      layerId,
-      frame,
-      type: 'blank'
-    });
+      // Emit onKeyframeAdd event (spec-compliant)
+      this.context.Core.eventManager.emit('onKeyframeAdd', {
+        id: keyframeId,
+        layerId,
+        frame,
+        type: 'blank'
+      });
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('keyframe:added', { layerId, frame, isEmpty: true });
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('keyframe:added', { layerId, frame, isEmpty: true });
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Trigger UI re-render
+      this.refreshUI([layerId], frame);
+    });
   }
 
   /**
@@ -124,37 +240,41 @@ export class KeyframeManager {
    * @param frame Frame number where to insert
    */
   public insertFrame(layerId: string, frame: number): void {
-    const layer = this.findLayer(layerId);
-    if (!layer) {
-      console.error(`Layer ${layerId} not found`);
-      return;
-    }
+    this.record('Insert Frame', () => {
+      const layer = this.findLayer(layerId);
+      if (!layer) {
+        console.error(`Layer ${layerId} not found`);
+        return;
+      }
 
-    // Shift all keyframes and tweens after this frame by 1
-    if (layer.keyframes) {
-      layer.keyframes.forEach(kf => {
-        if (kf.frame >= frame) {
-          kf.frame++;
+      // Shift all keyframes and tweens after this frame by 1
+      this.keepTweensAttached([layer], () => {
+        if (layer.keyframes) {
+          layer.keyframes.forEach(kf => {
+            if (kf.frame >= frame) {
+              kf.frame++;
+            }
+          });
         }
-      });
-    }
 
-    if (layer.tweens) {
-      layer.tweens.forEach(tw => {
-        if (tw.startFrame >= frame) {
-          tw.startFrame++;
-          tw.endFrame++;
-        } else if (tw.endFrame >= frame) {
-          tw.endFrame++;
+        if (layer.tweens) {
+          layer.tweens.forEach(tw => {
+            if (tw.startFrame >= frame) {
+              tw.startFrame++;
+              tw.endFrame++;
+            } else if (tw.endFrame >= frame) {
+              tw.endFrame++;
+            }
+          });
         }
       });
-    }
 
-    // Emit event
-    this.context.Core.eventManager.emit('frame:inserted', { layerId, frame });
+      // Emit event
+      this.context.Core.eventManager.emit('frame:inserted', { layerId, frame });
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Trigger UI re-render
+      this.refreshUI([layerId], frame);
+    });
   }
 
   /**
@@ -166,75 +286,80 @@ export class KeyframeManager {
    * @returns true if deleted, false if cancelled by listener
    */
   public deleteFrames(layerId: string, frameStart: number, frameEnd: number): boolean {
-    const layer = this.findLayer(layerId);
-    if (!layer) {
-      console.error(`Layer ${layerId} not found`);
-      return false;
-    }
+    return this.record('Delete Frames', () => {
+      const layer = this.findLayer(layerId);
+      if (!layer) {
+        console.error(`Layer ${layerId} not found`);
+        return false;
+      }
 
-    // Collect keyframe IDs that will be deleted
-    const keyframesToDelete = layer.keyframes
-      ?.filter(kf => kf.frame >= frameStart && kf.frame <= frameEnd)
-      .map(kf => `kf-${layerId}-${kf.frame}`) || [];
+      // Collect keyframe IDs that will be deleted
+      const keyframesToDelete = layer.keyframes
+        ?.filter(kf => kf.frame >= frameStart && kf.frame <= frameEnd)
+        .map(kf => `kf-${layerId}-${kf.frame}`) || [];
 
-    // Emit cancellable onBeforeKeyframeDelete event
-    const beforeEvent = this.context.Core.eventManager.emitCancellable('onBeforeKeyframeDelete', {
-      ids: keyframesToDelete
-    });
+      // Emit cancellable onBeforeKeyframeDelete event
+      const beforeEvent = this.context.Core.eventManager.emitCancellable('onBeforeKeyframeDelete', {
+        ids: keyframesToDelete
+      });
 
-    // Check if the deletion was cancelled
-    if (beforeEvent.defaultPrevented) {
-      console.log('Keyframe deletion cancelled by listener');
-      return false;
-    }
+      // Check if the deletion was cancelled
+      if (beforeEvent.defaultPrevented) {
+        console.log('Keyframe deletion cancelled by listener');
+        return false;
+      }
 
-    const frameCount = frameEnd - frameStart + 1;
+      const frameCount = frameEnd - frameStart + 1;
 
-    // Remove keyframes in the range
-    if (layer.keyframes) {
-      layer.keyframes = layer.keyframes.filter(kf => kf.frame < frameStart || kf.frame > frameEnd);
+      // Tweens losing a keyframe in the range are removed
+      this.keepTweensAttached([layer], () => {
+        // Remove keyframes in the range
+        if (layer.keyframes) {
+          layer.keyframes = layer.keyframes.filter(kf => kf.frame < frameStart || kf.frame > frameEnd);
 
-      // Shift keyframes after the deleted range
-      layer.keyframes.forEach(kf => {
-        if (kf.frame > frameEnd) {
-          kf.frame -= frameCount;
+          // Shift keyframes after the deleted range
+          layer.keyframes.forEach(kf => {
+            if (kf.frame > frameEnd) {
+              kf.frame -= frameCount;
+            }
+          });
         }
-      });
-    }
 
-    // Handle tweens
-    if (layer.tweens) {
-      layer.tweens = layer.tweens.filter(tw => {
-        // Remove tweens completely within the range
-        if (tw.startFrame >= frameStart && tw.endFrame <= frameEnd) {
-          return false;
-        }
-        return true;
-      });
+        // Handle tweens
+        if (layer.tweens) {
+          layer.tweens = layer.tweens.filter(tw => {
+            // Remove tweens completely within the range
+            if (tw.startFrame >= frameStart && tw.endFrame <= frameEnd) {
+              return false;
+            }
+            return true;
+          });
 
-      // Adjust remaining tweens
-      layer.tweens.forEach(tw => {
-        if (tw.startFrame > frameEnd) {
-          tw.startFrame -= frameCount;
-          tw.endFrame -= frameCount;
-        } else if (tw.endFrame > frameEnd && tw.startFrame < frameStart) {
-          tw.endFrame -= frameCount;
+          // Adjust remaining tweens
+          layer.tweens.forEach(tw => {
+            if (tw.startFrame > frameEnd) {
+              tw.startFrame -= frameCount;
+              tw.endFrame -= frameCount;
+            } else if (tw.endFrame > frameEnd && tw.startFrame < frameStart) {
+              tw.endFrame -= frameCount;
+            }
+          });
         }
       });
-    }
 
-    // Emit onKeyframeDelete event (spec-compliant)
-    this.context.Core.eventManager.emit('onKeyframeDelete', {
-      ids: keyframesToDelete
-    });
+      // Emit onKeyframeDelete event (spec-compliant)
+      this.context.Core.eventManager.emit('onKeyframeDelete', {
+        ids: keyframesToDelete
+      });
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('frames:deleted', { layerId, frameStart, frameEnd });
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('frames:deleted', { layerId, frameStart, frameEnd });
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Trigger UI re-render
+      this.refreshUI([layerId], frameStart);
 
-    return true;
+      return true;
+    });
   }
 
   /**
@@ -245,142 +370,347 @@ export class KeyframeManager {
    * @returns true if deleted, false if not found or cancelled by listener
    */
   public deleteKeyframe(layerId: string, frame: number): boolean {
-    const layer = this.findLayer(layerId);
-    if (!layer) {
-      console.error(`Layer ${layerId} not found`);
-      return false;
-    }
+    return this.record('Clear Keyframe', () => {
+      const layer = this.findLayer(layerId);
+      if (!layer) {
+        console.error(`Layer ${layerId} not found`);
+        return false;
+      }
 
-    if (!layer.keyframes) {
-      return false;
-    }
+      if (!layer.keyframes) {
+        return false;
+      }
 
-    // Generate keyframe ID
-    const keyframeId = `kf-${layerId}-${frame}`;
+      // Generate keyframe ID
+      const keyframeId = `kf-${layerId}-${frame}`;
 
-    // Emit cancellable onBeforeKeyframeDelete event
-    const beforeEvent = this.context.Core.eventManager.emitCancellable('onBeforeKeyframeDelete', {
-      ids: [keyframeId]
-    });
+      // Emit cancellable onBeforeKeyframeDelete event
+      const beforeEvent = this.context.Core.eventManager.emitCancellable('onBeforeKeyframeDelete', {
+        ids: [keyframeId]
+      });
 
-    // Check if the deletion was cancelled
-    if (beforeEvent.defaultPrevented) {
-      console.log('Keyframe deletion cancelled by listener');
-      return false;
-    }
+      // Check if the deletion was cancelled
+      if (beforeEvent.defaultPrevented) {
+        console.log('Keyframe deletion cancelled by listener');
+        return false;
+      }
 
-    // Remove the keyframe
-    layer.keyframes = layer.keyframes.filter(kf => kf.frame !== frame);
+      // Remove the keyframe, and the tweens starting or ending on it
+      this.keepTweensAttached([layer], () => {
+        layer.keyframes = layer.keyframes!.filter(kf => kf.frame !== frame);
+      });
 
-    // Emit onKeyframeDelete event (spec-compliant)
-    this.context.Core.eventManager.emit('onKeyframeDelete', {
-      ids: [keyframeId]
-    });
+      // Emit onKeyframeDelete event (spec-compliant)
+      this.context.Core.eventManager.emit('onKeyframeDelete', {
+        ids: [keyframeId]
+      });
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('keyframe:deleted', { layerId, frame });
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('keyframe:deleted', { layerId, frame });
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Trigger UI re-render
+      this.refreshUI([layerId], frame);
 
-    return true;
+      return true;
+    });
   }
 
   /**
-   * Move keyframes to a new position (for drag-and-drop)
-   * Emits onKeyframeMove event
-   * @param frameIds Array of frame IDs (format: layerId:frameNumber)
-   * @param targetLayerId Target layer ID
-   * @param targetFrame Target frame number
-   * @returns true if moved successfully, false if conflict or error
+   * Work out where a keyframe move puts each keyframe, without changing anything
+   * The first frame id is the anchor: it lands on targetLayerId at targetFrame,
+   * and every other keyframe keeps its frame offset and its layer offset from it
+   * (counted over the layers in tree order, folders excluded)
+   * @param frameIds Array of frame IDs (format: layerId:frameNumber); ids that are not keyframes are ignored
+   * @param targetLayerId Layer the anchor keyframe lands on
+   * @param targetFrame Frame the anchor keyframe lands on
+   * @param policy How keyframes landing on existing keyframes are handled (default: reject)
+   * @returns The moves, overwritten keyframes, tween changes and conflicts per layer
    */
-  public moveKeyframes(frameIds: string[], targetLayerId: string, targetFrame: number): boolean {
-    if (frameIds.length === 0) return false;
+  public planMoveKeyframes(frameIds: string[], targetLayerId: string, targetFrame: number, policy: MoveConflictPolicy = 'reject'): IKeyframeMoveReport {
+    const report: IKeyframeMoveReport = {
+      success: false,
+      policy,
+      frameOffset: 0,
+      layerOffset: 0,
+      moves: [],
+      overwritten: [],
+      movedTweens: [],
+      removedTweens: [],
+      conflicts: {}
+    };
+    if (frameIds.length === 0) return report;
+
+    const layerRows = this.getLayerRows();
+    const rowIndexes = new Map(layerRows.map((layer, row) => [layer.id, row]));
+    const [anchorLayerId, anchorFrameStr] = frameIds[0].split(':');
+    const anchorRow = rowIndexes.get(anchorLayerId);
+    const targetRow = rowIndexes.get(targetLayerId);
+    if (anchorRow === undefined || targetRow === undefined) {
+      console.error('Source or target layer not found');
+      return report;
+    }
 
-    // Parse first frameId to get source layer
-    const [sourceLayerId, sourceFrameStr] = frameIds[0].split(':');
-    const sourceFrame = parseInt(sourceFrameStr, 10);
+    report.frameOffset = targetFrame - parseInt(anchorFrameStr, 10);
+    report.layerOffset = targetRow - anchorRow;
+    if (report.frameOffset === 0 && report.layerOffset === 0) return report;
 
-    // Calculate offset
-    const frameOffset = targetFrame - sourceFrame;
-    const isLayerChange = sourceLayerId !== targetLayerId;
+    // Collect the keyframes to move with their target layer and frame
+    const planned: IPlannedMove[] = [];
+    for (const frameId of new Set(frameIds)) {
+      const [layerId, frameStr] = frameId.split(':');
+      const row = rowIndexes.get(layerId);
+      const frame = parseInt(frameStr, 10);
+      const keyframe = row === undefined ? undefined : layerRows[row].keyframes?.find(kf => kf.frame === frame);
+      if (row === undefined || !keyframe) continue;
+
+      planned.push({
+        frameId,
+        source: layerRows[row],
+        target: layerRows[row + report.layerOffset] ?? null,
+        oldFrame: frame,
+        newFrame: frame + report.frameOffset,
+        skipped: false
+      });
+    }
 
-    // Get source and target layers
-    const sourceLayer = this.findLayer(sourceLayerId);
-    const targetLayer = this.findLayer(targetLayerId);
+    const totalFrames = this.context.Data.getData().settings.totalFrames;
+    let rejected = false;
 
-    if (!sourceLayer || !targetLayer) {
-      console.error('Source or target layer not found');
-      return false;
+    const addConflict = (move: IPlannedMove, reason: MoveConflictReason, resolution: MoveConflictResolution, targetFrame: number = move.newFrame) => {
+      const layerId = reason === 'noLayer' || (reason === 'locked' && move.source.locked) ? move.source.id : move.target!.id;
+      (report.conflicts[layerId] = report.conflicts[layerId] || []).push({ frameId: move.frameId, targetFrame, reason, resolution });
+      if (resolution === 'skipped') {
+        move.skipped = true;
+      } else if (resolution === 'rejected') {
+        rejected = true;
+      }
+    };
+
+    // Keyframes that cannot land anywhere: only the skip policy leaves them in place
+    for (const move of planned) {
+      const reason: MoveConflictReason | null = !move.target ? 'noLayer'
+        : move.source.locked || move.target.locked ? 'locked'
+        : move.newFrame < 1 || move.newFrame > totalFrames ? 'outOfRange'
+        : null;
+      if (reason) {
+        addConflict(move, reason, policy === 'skip' ? 'skipped' : 'rejected');
+      }
     }
 
-    // Collect keyframes to move
-    const keyframesToMove: IKeyframe[] = [];
-    const moves: Array<{ id: string; newFrame: number; oldFrame: number }> = [];
+    // A frame is occupied by keyframes that stay where they are
+    const isOccupied = (layer: ILayer, frame: number): boolean => {
+      if (!layer.keyframes?.some(kf => kf.frame === frame)) return false;
+      const move = planned.find(m => m.source === layer && m.oldFrame === frame);
+      return !move || move.skipped;
+    };
+    const landing = () => planned.filter(move => !move.skipped && move.target);
+
+    if (policy === 'skip') {
+      // Skipped keyframes stay in place, and may block other keyframes in turn
+      let changed = true;
+      while (changed) {
+        changed = false;
+        for (const move of landing()) {
+          if (isOccupied(move.target!, move.newFrame)) {
+            addConflict(move, 'occupied', 'skipped');
+            changed = true;
+          }
+        }
+      }
+    } else if (policy === 'shift') {
+      // Keyframes move on to the next free frame, keeping their order on each layer
+      const byLayer = new Map<ILayer, IPlannedMove[]>();
+      for (const move of landing()) {
+        byLayer.set(move.target!, [...(byLayer.get(move.target!) || []), move]);
+      }
+      byLayer.forEach((moves, layer) => {
+        let lastFrame = 0;
+        for (const move of moves.sort((a, b) => a.newFrame - b.newFrame)) {
+          let frame = Math.max(move.newFrame, lastFrame + 1);
+          while (isOccupied(layer, frame)) frame++;
+          if (frame > totalFrames) {
+            addConflict(move, 'outOfRange', 'rejected', frame);
+          } else if (frame !== move.newFrame) {
+            addConflict(move, 'occupied', 'shifted');
+            move.newFrame = frame;
+          }
+          lastFrame = frame;
+        }
+      });
+    } else {
+      for (const move of landing()) {
+        if (!isOccupied(move.target!, move.newFrame)) continue;
+        if (policy === 'overwrite') {
+          addConflict(move, 'occupied', 'overwritten');
+          report.overwritten.push(`${move.target!.id}:${move.newFrame}`);
+        } else {
+          addConflict(move, 'occupied', 'rejected');
+        }
+      }
+    }
 
-    frameIds.forEach(frameId => {
-      const [layerId, frameStr] = frameId.split(':');
-      const frame = parseInt(frameStr, 10);
-      const layer = this.findLayer(layerId);
-      if (layer && layer.keyframes) {
-        const kf = layer.keyframes.find(k => k.frame === frame);
-        if (kf) {
-          const newFrame = kf.frame + frameOffset;
-          keyframesToMove.push({ ...kf, frame: newFrame });
-          moves.push({
-            id: `kf-${layerId}-${frame}`,
-            oldFrame: frame,
-            newFrame
-          });
+    const moves = landing();
+    report.moves = moves.map(move => ({
+      id: `kf-${move.source.id}-${move.oldFrame}`,
+      fromLayerId: move.source.id,
+      toLayerId: move.target!.id,
+      oldFrame: move.oldFrame,
+      newFrame: move.newFrame
+    }));
+
+    // Tweens follow their keyframes while both ends stay on one layer in order, even
+    // when only one end moves; tweens losing an end keyframe are removed
+    const isOverwritten = (layer: ILayer, frame: number) => report.overwritten.includes(`${layer.id}:${frame}`);
+    const tweenLayers = new Set([
+      ...moves.map(move => move.source),
+      ...report.overwritten.map(frameId => layerRows[rowIndexes.get(frameId.split(':')[0])!])
+    ]);
+    tweenLayers.forEach(layer => {
+      for (const tween of layer.tweens || []) {
+        const start = moves.find(move => move.source === layer && move.oldFrame === tween.startFrame);
+        const end = moves.find(move => move.source === layer && move.oldFrame === tween.endFrame);
+        const lost = (!start && isOverwritten(layer, tween.startFrame)) || (!end && isOverwritten(layer, tween.endFrame));
+        if (!start && !end && !lost) continue;
+
+        const from = { layerId: layer.id, startFrame: tween.startFrame, endFrame: tween.endFrame };
+        const startLayer = start ? start.target! : layer;
+        const endLayer = end ? end.target! : layer;
+        const to = { layerId: startLayer.id, startFrame: start ? start.newFrame : tween.startFrame, endFrame: end ? end.newFrame : tween.endFrame };
+        if (!lost && startLayer === endLayer && to.startFrame < to.endFrame) {
+          report.movedTweens.push({ from, to });
+        } else {
+          report.removedTweens.push(from);
         }
       }
     });
 
-    // Check for conflicts in target layer
-    if (targetLayer.keyframes) {
-      for (const kf of keyframesToMove) {
-        const conflict = targetLayer.keyframes.find(existing => existing.frame === kf.frame);
-        if (conflict && !frameIds.includes(`${targetLayerId}:${conflict.frame}`)) {
-          console.warn('Conflict detected at target position');
-          return false;
+    report.success = !rejected && moves.length > 0;
+    return report;
+  }
+
+  /**
+   * Move keyframes to a new position (for drag-and-drop)
+   * Each keyframe keeps its layer and frame offset from the first (anchor) keyframe,
+   * and tweens move with their keyframes; see planMoveKeyframes()
+   * Emits onKeyframeMove event, and onBeforeKeyframeDelete / onKeyframeDelete
+   * events for keyframes replaced with the overwrite policy
+   * @param frameIds Array of frame IDs (format: layerId:frameNumber)
+   * @param targetLayerId Layer the anchor keyframe lands on
+   * @param targetFrame Frame the anchor keyframe lands on
+   * @param policy How keyframes landing on existing keyframes are handled (default: reject)
+   * @returns true if moved successfully, false if rejected, cancelled or error
+   */
+  public moveKeyframes(frameIds: string[], targetLayerId: string, targetFrame: number, policy: MoveConflictPolicy = 'reject'): boolean {
+    return this.record('Move Keyframes', () => {
+      const report = this.planMoveKeyframes(frameIds, targetLayerId, targetFrame, policy);
+      if (!report.success) {
+        if (Object.keys(report.conflicts).length > 0) {
+          console.warn('Keyframe move rejected by conflicts', report.conflicts);
         }
+        return false;
       }
-    }
 
-    // Remove keyframes from source layer(s)
-    frameIds.forEach(frameId => {
-      const [layerId, frameStr] = frameId.split(':');
-      const frame = parseInt(frameStr, 10);
-      const layer = this.findLayer(layerId);
-      if (layer && layer.keyframes) {
-        layer.keyframes = layer.keyframes.filter(kf => kf.frame !== frame);
+      // Emit cancellable onBeforeKeyframeDelete event for overwritten keyframes
+      const overwrittenIds = report.overwritten.map(frameId => `kf-${frameId.replace(':', '-')}`);
+      if (overwrittenIds.length > 0) {
+        const beforeEvent = this.context.Core.eventManager.emitCancellable('onBeforeKeyframeDelete', {
+          ids: overwrittenIds
+        });
+        if (beforeEvent.defaultPrevented) {
+          console.log('Keyframe move cancelled by listener');
+          return false;
+        }
       }
-    });
 
-    // Add keyframes to target layer
-    if (!targetLayer.keyframes) {
-      targetLayer.keyframes = [];
-    }
-    targetLayer.keyframes.push(...keyframesToMove);
-    targetLayer.keyframes.sort((a, b) => a.frame - b.frame);
+      // Tweens follow their keyframes and are split by keyframes landing inside them
+      const changedLayers = new Set([
+        ...report.moves.flatMap(move => [move.fromLayerId, move.toLayerId]),
+        ...report.overwritten.map(frameId => frameId.split(':')[0])
+      ]);
+      this.keepTweensAttached([...changedLayers].map(layerId => this.findLayer(layerId)!), () => {
+        // Take the moved keyframes out of their layers
+        const movedKeyframes = report.moves.map(move => {
+          const source = this.findLayer(move.fromLayerId)!;
+          const keyframe = source.keyframes!.find(kf => kf.frame === move.oldFrame)!;
+          return { move, keyframe: { ...this.cloneKeyframe(keyframe), frame: move.newFrame } };
+        });
+        for (const { move } of movedKeyframes) {
+          const source = this.findLayer(move.fromLayerId)!;
+          source.keyframes = source.keyframes!.filter(kf => kf.frame !== move.oldFrame);
+        }
 
-    // Emit onKeyframeMove event (spec-compliant)
-    this.context.Core.eventManager.emit('onKeyframeMove', {
-      moves
-    });
+        // Remove overwritten keyframes
+        for (const frameId of report.overwritten) {
+          const [layerId, frameStr] = frameId.split(':');
+          const layer = this.findLayer(layerId)!;
+          layer.keyframes = layer.keyframes!.filter(kf => kf.frame !== parseInt(frameStr, 10));
+        }
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('keyframes:moved', {
-      frameIds,
-      targetLayerId,
-      targetFrame,
-      frameOffset
-    });
+        // Remove broken tweens and move the others with their keyframes
+        const movedTweens = report.movedTweens.map(({ from, to }) => {
+          const tween = this.findLayer(from.layerId)!.tweens!.find(tw => tw.startFrame === from.startFrame && tw.endFrame === from.endFrame)!;
+          return { to, tween: { ...tween, startFrame: to.startFrame, endFrame: to.endFrame } };
+        });
+        for (const ref of [...report.removedTweens, ...report.movedTweens.map(tween => tween.from)]) {
+          const layer = this.findLayer(ref.layerId)!;
+          layer.tweens = (layer.tweens || []).filter(tw => tw.startFrame !== ref.startFrame || tw.endFrame !== ref.endFrame);
+        }
+        for (const { to, tween } of movedTweens) {
+          const layer = this.findLayer(to.layerId)!;
+          layer.tweens = [...(layer.tweens || []), tween].sort((a, b) => a.startFrame - b.startFrame);
+        }
+
+        // Add keyframes to their target layers
+        for (const { move, keyframe } of movedKeyframes) {
+          const target = this.findLayer(move.toLayerId)!;
+          target.keyframes = [...(target.keyframes || []), keyframe].sort((a, b) => a.frame - b.frame);
+        }
+      });
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Emit onTweenRemove events for the tweens that lost a keyframe
+      report.removedTweens.forEach(ref => this.emitTweenRemove(ref.layerId, ref));
 
-    return true;
+      if (overwrittenIds.length > 0) {
+        // Emit onKeyframeDelete event (spec-compliant)
+        this.context.Core.eventManager.emit('onKeyframeDelete', {
+          ids: overwrittenIds
+        });
+      }
+
+      // Emit onKeyframeMove event (spec-compliant)
+      this.context.Core.eventManager.emit('onKeyframeMove', {
+        moves: report.moves,
+        report
+      });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('keyframes:moved', {
+        frameIds,
+        targetLayerId,
+        targetFrame,
+        frameOffset: report.frameOffset,
+        layerOffset: report.layerOffset
+      });
+
+      // Trigger UI re-render
+      // Single pass: spreading thousands of moves into Math.min overflows the call stack
+      const layerIds = new Set<string>();
+      let startFrame = Infinity;
+      for (const move of report.moves) {
+        layerIds.add(move.fromLayerId);
+        layerIds.add(move.toLayerId);
+        startFrame = Math.min(startFrame, move.oldFrame, move.newFrame);
+      }
+      for (const ref of report.removedTweens) {
+        startFrame = Math.min(startFrame, ref.startFrame);
+      }
+      for (const { from, to } of report.movedTweens) {
+        startFrame = Math.min(startFrame, from.startFrame, to.startFrame);
+      }
+      this.refreshUI([...layerIds], startFrame);
+
+      return true;
+    });
   }
 
   /**
@@ -402,7 +732,7 @@ export class KeyframeManager {
       if (layer && layer.keyframes) {
         const kf = layer.keyframes.find(k => k.frame === frame);
         if (kf) {
-          keyframeData.push({ layerId, frame, keyframe: { ...kf } });
+          keyframeData.push({ layerId, frame, keyframe: this.cloneKeyframe(kf) });
         }
       }
     });
@@ -427,62 +757,307 @@ export class KeyframeManager {
    * @param targetFrame Target frame number
    */
   public pasteKeyframes(targetLayerId: string, targetFrame: number): void {
-    const clipboardData = this.context.Core.stateManager.get('clipboard_keyframes');
-    if (!clipboardData || !Array.isArray(clipboardData) || clipboardData.length === 0) {
-      console.warn('No keyframes in clipboard');
-      return;
-    }
+    this.record('Paste Keyframes', () => {
+      const clipboardData = this.context.Core.stateManager.get('clipboard_keyframes');
+      if (!clipboardData || !Array.isArray(clipboardData) || clipboardData.length === 0) {
+        console.warn('No keyframes in clipboard');
+        return;
+      }
 
-    const targetLayer = this.findLayer(targetLayerId);
-    if (!targetLayer) {
-      console.error(`Target layer ${targetLayerId} not found`);
-      return;
-    }
+      const targetLayer = this.findLayer(targetLayerId);
+      if (!targetLayer) {
+        console.error(`Target layer ${targetLayerId} not found`);
+        return;
+      }
 
-    // Find the minimum frame in clipboard to calculate offset
-    const minFrame = Math.min(...clipboardData.map((item: any) => item.frame));
-    const frameOffset = targetFrame - minFrame;
+      // Find the minimum frame in clipboard to calculate offset
+      // (in a loop: spreading a large clipboard into Math.min overflows the call stack)
+      let minFrame = Infinity;
+      for (const item of clipboardData) {
+        minFrame = Math.min(minFrame, item.frame);
+      }
+      const frameOffset = targetFrame - minFrame;
 
-    // Create new keyframes with adjusted frames
-    const newKeyframes: IKeyframe[] = [];
-    clipboardData.forEach((item: any) => {
-      const newFrame = item.frame + frameOffset;
+      // Create new keyframes with adjusted frames
+      const newKeyframes: IKeyframe[] = [];
+      let firstPastedFrame = Infinity;
+      clipboardData.forEach((item: any) => {
+        const newFrame = item.frame + frameOffset;
       
-      // Check for conflicts
-      const conflict = targetLayer.keyframes?.find(kf => kf.frame === newFrame);
-      if (!conflict) {
-        newKeyframes.push({
-          ...item.keyframe,
-          frame: newFrame
-        });
-      } else {
-        console.warn(`Skipping frame ${newFrame} - conflict detected`);
+        // Check for conflicts
+        const conflict = targetLayer.keyframes?.find(kf => kf.frame === newFrame);
+        if (!conflict) {
+          newKeyframes.push({
+            ...this.cloneKeyframe(item.keyframe),
+            frame: newFrame
+          });
+          firstPastedFrame = Math.min(firstPastedFrame, newFrame);
+        } else {
+          console.warn(`Skipping frame ${newFrame} - conflict detected`);
+        }
+      });
+
+      if (newKeyframes.length === 0) {
+        console.warn('All frames conflict - nothing pasted');
+        return;
       }
+
+      // Add to target layer, splitting the tweens the keyframes land inside
+      this.keepTweensAttached([targetLayer], () => {
+        targetLayer.keyframes = (targetLayer.keyframes || []).concat(newKeyframes);
+        targetLayer.keyframes.sort((a, b) => a.frame - b.frame);
+      });
+
+      // Emit event
+      this.context.Core.eventManager.emit('keyframes:pasted', {
+        targetLayerId,
+        targetFrame,
+        count: newKeyframes.length
+      });
+
+      // Trigger UI re-render
+      this.refreshUI([targetLayerId], firstPastedFrame);
+
+      console.log(`Pasted ${newKeyframes.length} keyframes at frame ${targetFrame}`);
     });
+  }
 
-    if (newKeyframes.length === 0) {
-      console.warn('All frames conflict - nothing pasted');
-      return;
-    }
+  /**
+   * Set property values on a keyframe
+   * Setting values on a blank keyframe turns it into a content keyframe
+   * Emits onKeyframeValuesChange event
+   * @param layerId ID of the layer
+   * @param frame Frame number of the keyframe
+   * @param values Property values to set
+   * @param replace If true, replace all existing values instead of merging
+   * @returns true if the values were set, false if keyframe not found or values invalid
+   */
+  public setKeyframeValues(layerId: string, frame: number, values: IKeyframeValues, replace: boolean = false): boolean {
+    return this.record('Set Keyframe Values', () => {
+      const keyframe = this.findKeyframe(layerId, frame);
+      if (!keyframe) {
+        console.error(`Keyframe not found at frame ${frame} on layer ${layerId}`);
+        return false;
+      }
+
+      if (!this.validateValues(values)) {
+        return false;
+      }
+
+      const newValues = cloneKeyframeValues(values);
+      keyframe.values = replace ? newValues : { ...(keyframe.values || {}), ...newValues };
+      keyframe.isEmpty = false;
+
+      this.emitValuesChange(layerId, keyframe);
+      this.refreshUI([layerId], frame);
+      return true;
+    });
+  }
+
+  /**
+   * Remove a single property value from a keyframe
+   * Emits onKeyframeValuesChange event
+   * @param layerId ID of the layer
+   * @param frame Frame number of the keyframe
+   * @param property Name of the property to remove
+   * @returns true if removed, false if keyframe or property not found
+   */
+  public removeKeyframeValue(layerId: string, frame: number, property: string): boolean {
+    return this.record('Remove Keyframe Value', () => {
+      const keyframe = this.findKeyframe(layerId, frame);
+      if (!keyframe || !keyframe.values || !(property in keyframe.values)) {
+        return false;
+      }
+
+      delete keyframe.values[property];
+      if (Object.keys(keyframe.values).length === 0) {
+        delete keyframe.values;
+      }
 
-    // Add to target layer
-    if (!targetLayer.keyframes) {
-      targetLayer.keyframes = [];
+      this.emitValuesChange(layerId, keyframe);
+      this.refreshUI([layerId], frame);
+      return true;
+    });
+  }
+
+  /**
+   * Get a copy of the property values stored on a keyframe
+   * @param layerId ID of the layer
+   * @param frame Frame number of the keyframe
+   * @returns Copy of the values (empty object if none), or null if keyframe not found
+   */
+  public getKeyframeValues(layerId: string, frame: number): IKeyframeValues | null {
+    const keyframe = this.findKeyframe(layerId, frame);
+    if (!keyframe) {
+      return null;
     }
-    targetLayer.keyframes.push(...newKeyframes);
-    targetLayer.keyframes.sort((a, b) => a.frame - b.frame);
+    return keyframe.values ? cloneKeyframeValues(keyframe.values) : {};
+  }
 
-    // Emit event
-    this.context.Core.eventManager.emit('keyframes:pasted', {
-      targetLayerId,
-      targetFrame,
-      count: newKeyframes.length
+  /**
+   * Emit keyframe value change events
+   */
+  private emitValuesChange(layerId: string, keyframe: IKeyframe): void {
+    const values = keyframe.values ? cloneKeyframeValues(keyframe.values) : {};
+
+    // Emit onKeyframeValuesChange event (spec-style)
+    this.context.Core.eventManager.emit('onKeyframeValuesChange', {
+      id: `kf-${layerId}-${keyframe.frame}`,
+      layerId,
+      frame: keyframe.frame,
+      values
     });
 
-    // Trigger UI re-render
-    this.refreshUI();
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('keyframe:valuesChanged', { layerId, frame: keyframe.frame, values });
+  }
+
+  /**
+   * Validate a property value bag, logging the first invalid property
+   */
+  private validateValues(values: IKeyframeValues): boolean {
+    for (const [property, value] of Object.entries(values)) {
+      if (!isKeyframeValue(value)) {
+        console.error(`Invalid value for keyframe property "${property}"`);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Clone a keyframe including its property values and frame actions
+   */
+  private cloneKeyframe(keyframe: IKeyframe): IKeyframe {
+    const clone: IKeyframe = { ...keyframe };
+    if (keyframe.values) {
+      clone.values = cloneKeyframeValues(keyframe.values);
+    }
+    if (keyframe.actions) {
+      clone.actions = cloneFrameActions(keyframe.actions);
+    }
+    return clone;
+  }
+
+  /**
+   * Find the keyframe at an exact frame
+   */
+  private findKeyframe(layerId: string, frame: number): IKeyframe | null {
+    const layer = this.findLayer(layerId);
+    return layer?.keyframes?.find(kf => kf.frame === frame) || null;
+  }
+
+  /**
+   * Find the last keyframe at or before a frame (the one whose content is displayed)
+   */
+  private findKeyframeInEffect(layer: ILayer, frame: number): IKeyframe | null {
+    let result: IKeyframe | null = null;
+    for (const kf of layer.keyframes || []) {
+      if (kf.frame <= frame && (!result || kf.frame > result.frame)) {
+        result = kf;
+      }
+    }
+    return result;
+  }
 
-    console.log(`Pasted ${newKeyframes.length} keyframes at frame ${targetFrame}`);
+  /**
+   * Run a keyframe edit keeping the tweens of the edited layers attached to their keyframes
+   * Tweens follow their start and end keyframes, are removed when one of them is
+   * removed, and are split at keyframes that end up inside them; tweens that were
+   * not attached before the edit are left to the TweenManager integrity check
+   * Emits onTweenRemove, onTweenUpdate and onTweenAdd events for the changed tweens
+   * @param layers Layers edited by the mutation
+   * @param mutation Function performing the edit
+   */
+  private keepTweensAttached<T>(layers: ILayer[], mutation: () => T): T {
+    const bindings = new Map(layers.map(layer => [layer, this.bindTweens(layer)]));
+    const result = mutation();
+    bindings.forEach((layerBindings, layer) => this.reattachTweens(layer, layerBindings));
+    return result;
+  }
+
+  /**
+   * Get the tweens of a layer with the keyframes they start and end on
+   */
+  private bindTweens(layer: ILayer): ITweenBinding[] {
+    const bindings: ITweenBinding[] = [];
+    for (const tween of layer.tweens || []) {
+      const start = layer.keyframes?.find(kf => kf.frame === tween.startFrame);
+      const end = layer.keyframes?.find(kf => kf.frame === tween.endFrame);
+      if (start && end && start !== end) {
+        bindings.push({ tween, start, end, startFrame: tween.startFrame });
+      }
+    }
+    return bindings;
+  }
+
+  /**
+   * Move the bound tweens of a layer back onto their keyframes after an edit,
+   * removing those that lost a keyframe and splitting those with keyframes inside
+   */
+  private reattachTweens(layer: ILayer, bindings: ITweenBinding[]): void {
+    const keyframes = layer.keyframes || [];
+    let changedFrom = Infinity;
+
+    for (const { tween, start, end, startFrame } of bindings) {
+      // Tweens removed by the edit itself
+      if (!layer.tweens?.includes(tween)) continue;
+
+      if (keyframes.includes(start) && keyframes.includes(end) && start.frame < end.frame) {
+        tween.startFrame = start.frame;
+        tween.endFrame = end.frame;
+        continue;
+      }
+
+      layer.tweens = layer.tweens.filter(tw => tw !== tween);
+      changedFrom = Math.min(changedFrom, startFrame, tween.startFrame);
+      this.emitTweenRemove(layer.id, tween);
+    }
+
+    for (const tween of [...(layer.tweens || [])]) {
+      if (getTweenIssueType(tween, keyframes) !== 'innerKeyframe') continue;
+
+      const parts = splitTween(tween, keyframes);
+      layer.tweens = layer.tweens!.flatMap(tw => tw === tween ? parts : [tw]);
+      changedFrom = Math.min(changedFrom, tween.startFrame);
+
+      // The tween keeps its first part and gains the others
+      this.context.Core.eventManager.emit('onTweenUpdate', { layerId: layer.id, oldTween: { ...tween }, newTween: { ...parts[0] } });
+      this.context.Core.eventManager.emit('tween:updated', { layerId: layer.id, tween: { ...parts[0] } });
+      for (const part of parts.slice(1)) {
+        this.context.Core.eventManager.emit('onTweenAdd', { layerId: layer.id, startFrame: part.startFrame, endFrame: part.endFrame, type: 'motion' });
+        this.context.Core.eventManager.emit('tween:added', { layerId: layer.id, startFrame: part.startFrame, endFrame: part.endFrame, type: part.type });
+      }
+    }
+
+    if (layer.tweens) {
+      layer.tweens.sort((a, b) => a.startFrame - b.startFrame);
+    }
+    if (changedFrom !== Infinity) {
+      this.refreshUI([layer.id], changedFrom);
+    }
+  }
+
+  /**
+   * Emit onTweenRemove event for a tween removed along with its keyframes
+   */
+  private emitTweenRemove(layerId: string, tween: { startFrame: number; endFrame: number }): void {
+    // Emit onTweenRemove event (spec-compliant)
+    this.context.Core.eventManager.emit('onTweenRemove', { layerId, startFrame: tween.startFrame, endFrame: tween.endFrame });
+
+    // Also emit legacy event for backward compatibility
+    this.context.Core.eventManager.emit('tween:removed', { layerId, startFrame: tween.startFrame, endFrame: tween.endFrame });
+  }
+
+  /**
+   * Run a mutation through the HistoryManager so it can be undone,
+   * rendering its changes once when it completes
+   * @param label Name of the operation shown in the history
+   * @param mutation Function performing the mutation
+   */
+  private record<T>(label: string, mutation: () => T): T {
+    const historyManager = this.context.Core.historyManager;
+    return this.context.batch(() => historyManager ? historyManager.transact(label, mutation) : mutation());
   }
 
   /**
@@ -513,14 +1088,25 @@ export class KeyframeManager {
   }
 
   /**
-   * Refresh UI components
+   * Get the layers in tree order without folders: the rows keyframes move across
    */
-  private refreshUI(): void {
-    if (this.context.UI.timelineGrid) {
-      this.context.UI.timelineGrid.render();
-    }
-    if (this.context.UI.layerPanel) {
-      this.context.UI.layerPanel.render();
+  private getLayerRows(layers: readonly ILayer[] = this.context.Data.getData().layers, rows: ILayer[] = []): ILayer[] {
+    for (const layer of layers) {
+      if (layer.type === 'folder') {
+        this.getLayerRows(layer.children || [], rows);
+      } else {
+        rows.push(layer);
+      }
     }
+    return rows;
+  }
+
+  /**
+   * Redraw the grid rows of the changed layers
+   * @param layerIds Changed layers
+   * @param startFrame First changed frame (frames after it may change type)
+   */
+  private refreshUI(layerIds: string[], startFrame?: number): void {
+    requestRender(this.context, { layerIds, startFrame });
   }
 }
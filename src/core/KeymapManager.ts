@@ -0,0 +1,290 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+
+/**
+ * Payload of the onKeymapChange event
+ */
+export interface IKeymapChangeEvent {
+  shortcut: string;             // Normalized shortcut, e.g. "Ctrl+Shift+Z"
+  commandId: string | null;     // Command now bound to the shortcut, null when unbound
+}
+
+/**
+ * Default shortcuts of the timeline commands (Ctrl also matches Cmd on macOS)
+ */
+export const DEFAULT_KEYMAP: Readonly<Record<string, string>> = {
+  'Ctrl+Z': 'undo',
+  'Ctrl+Shift+Z': 'redo',
+  'Ctrl+Y': 'redo',
+  'Ctrl+C': 'copy',
+  'Ctrl+V': 'paste',
+  'Enter': 'togglePlayback',
+  ',': 'previousFrame',
+  '.': 'nextFrame',
+  'Delete': 'deleteSelection',
+  'F5': 'insertFrame',
+  'Shift+F5': 'deleteFrame',
+  'F6': 'insertKeyframe',
+  'F7': 'insertBlankKeyframe',
+  'Ctrl+Shift+P': 'showCommandPalette'
+};
+
+// Modifier names accepted in shortcuts, with the name they are normalized to
+const MODIFIER_ALIASES: Record<string, 'Ctrl' | 'Alt' | 'Shift'> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  cmd: 'Ctrl',
+  meta: 'Ctrl',
+  mod: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift'
+};
+
+// Named keys accepted in shortcuts, by lower case name
+const KEY_NAMES: Record<string, string> = {
+  enter: 'Enter',
+  delete: 'Delete',
+  del: 'Delete',
+  backspace: 'Backspace',
+  escape: 'Escape',
+  esc: 'Escape',
+  tab: 'Tab',
+  space: 'Space',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  arrowleft: 'ArrowLeft',
+  arrowright: 'ArrowRight',
+  arrowup: 'ArrowUp',
+  arrowdown: 'ArrowDown'
+};
+
+/**
+ * Normalize a shortcut to the form used in keymaps: modifiers in the order
+ * Ctrl, Alt, Shift followed by the key, e.g. "shift+ctrl+z" becomes "Ctrl+Shift+Z"
+ * @param shortcut Shortcut such as "Ctrl+Shift+Z", "Mod+D", "F6" or ","
+ * @returns The normalized shortcut, or null if it is not valid
+ */
+export function normalizeShortcut(shortcut: string): string | null {
+  if (typeof shortcut !== 'string' || shortcut.length === 0) {
+    return null;
+  }
+
+  // A trailing "+" is the plus key itself
+  const parts = shortcut.endsWith('+') ? [...shortcut.slice(0, -1).split('+').filter(Boolean), '+'] : shortcut.split('+');
+  const keyName = parts.pop()!.trim();
+  const modifiers = new Set<string>();
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.trim().toLowerCase()];
+    if (!modifier) {
+      return null;
+    }
+    modifiers.add(modifier);
+  }
+
+  const key = keyName.length === 1 ? keyName.toUpperCase()
+    : /^f\d{1,2}$/i.test(keyName) ? keyName.toUpperCase()
+    : KEY_NAMES[keyName.toLowerCase()];
+  if (!key) {
+    return null;
+  }
+
+  return [...['Ctrl', 'Alt', 'Shift'].filter(modifier => modifiers.has(modifier)), key].join('+');
+}
+
+/**
+ * Get the normalized shortcut of a key press
+ * @param event Keyboard event
+ */
+export function getEventShortcut(event: KeyboardEvent): string {
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  const modifiers = [
+    event.ctrlKey || event.metaKey ? 'Ctrl' : null,
+    event.altKey ? 'Alt' : null,
+    event.shiftKey ? 'Shift' : null
+  ].filter(Boolean);
+  return [...modifiers, key].join('+');
+}
+
+/**
+ * Check if an element takes text input, so that keys typed in it are not shortcuts
+ * @param target Event target
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!target || !(target as HTMLElement).tagName) {
+    return false;
+  }
+  const element = target as HTMLElement;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable;
+}
+
+/**
+ * KeymapManager
+ * Maps keyboard shortcuts to the commands of the CommandRegistry; hosts
+ * can rebind the shortcuts
+ */
+export class KeymapManager {
+  private context: IJsTimeLineContext;
+  private defaults: Map<string, string> = new Map(Object.entries(DEFAULT_KEYMAP));
+  private keymap: Map<string, string> = new Map(this.defaults);
+
+  constructor(context: IJsTimeLineContext) {
+    this.context = context;
+  }
+
+  /**
+   * Add a default shortcut of a command, bound now unless the shortcut is
+   * already in use and bound again by resetKeymap()
+   * Emits onKeymapChange event when bound
+   * @param shortcut Shortcut such as "Ctrl+Shift+D"
+   * @param commandId Command id
+   * @returns true if added, false if the shortcut is not valid or is already a default shortcut
+   */
+  public addDefaultBinding(shortcut: string, commandId: string): boolean {
+    const normalized = normalizeShortcut(shortcut);
+    if (!normalized) {
+      console.error(`Invalid shortcut "${shortcut}"`);
+      return false;
+    }
+    if (this.defaults.has(normalized)) {
+      console.warn(`Shortcut ${normalized} is already the default shortcut of "${this.defaults.get(normalized)}"`);
+      return false;
+    }
+
+    this.defaults.set(normalized, commandId);
+    if (!this.keymap.has(normalized)) {
+      this.keymap.set(normalized, commandId);
+      this.emitKeymapChange(normalized, commandId);
+    }
+    return true;
+  }
+
+  /**
+   * Bind a shortcut to a command, replacing the command it was bound to
+   * Emits onKeymapChange event
+   * @param shortcut Shortcut such as "Ctrl+Shift+Z" (Ctrl also matches Cmd)
+   * @param commandId Command id
+   * @returns true if bound, false if the shortcut is not valid
+   */
+  public bind(shortcut: string, commandId: string): boolean {
+    const normalized = normalizeShortcut(shortcut);
+    if (!normalized) {
+      console.error(`Invalid shortcut "${shortcut}"`);
+      return false;
+    }
+
+    this.keymap.set(normalized, commandId);
+    this.emitKeymapChange(normalized, commandId);
+    return true;
+  }
+
+  /**
+   * Remove the binding of a shortcut
+   * Emits onKeymapChange event
+   * @param shortcut Shortcut to unbind
+   * @returns true if unbound, false if the shortcut was not bound
+   */
+  public unbind(shortcut: string): boolean {
+    const normalized = normalizeShortcut(shortcut);
+    if (!normalized || !this.keymap.delete(normalized)) {
+      return false;
+    }
+
+    this.emitKeymapChange(normalized, null);
+    return true;
+  }
+
+  /**
+   * Remove every binding of a command, including its default shortcuts
+   * Emits onKeymapChange event for each shortcut unbound
+   * @param commandId Command id
+   */
+  public removeCommand(commandId: string): void {
+    for (const [shortcut, id] of [...this.defaults]) {
+      if (id === commandId) {
+        this.defaults.delete(shortcut);
+      }
+    }
+    for (const shortcut of this.getShortcuts(commandId)) {
+      this.keymap.delete(shortcut);
+      this.emitKeymapChange(shortcut, null);
+    }
+  }
+
+  /**
+   * Restore the default keymap, including the default shortcuts of registered commands
+   * Emits onKeymapChange event for each shortcut that changes
+   */
+  public resetKeymap(): void {
+    const previous = this.keymap;
+    this.keymap = new Map(this.defaults);
+
+    for (const shortcut of new Set([...previous.keys(), ...this.keymap.keys()])) {
+      const commandId = this.keymap.get(shortcut) ?? null;
+      if ((previous.get(shortcut) ?? null) !== commandId) {
+        this.emitKeymapChange(shortcut, commandId);
+      }
+    }
+  }
+
+  /**
+   * Get all bindings as a shortcut to command id map
+   */
+  public getKeymap(): Record<string, string> {
+    return Object.fromEntries(this.keymap);
+  }
+
+  /**
+   * Get the command bound to a shortcut
+   * @param shortcut Shortcut
+   * @returns The command id, or null if the shortcut is not bound
+   */
+  public getCommand(shortcut: string): string | null {
+    const normalized = normalizeShortcut(shortcut);
+    return normalized ? this.keymap.get(normalized) ?? null : null;
+  }
+
+  /**
+   * Get the shortcuts bound to a command
+   * @param commandId Command id
+   */
+  public getShortcuts(commandId: string): string[] {
+    return [...this.keymap].filter(([, id]) => id === commandId).map(([shortcut]) => shortcut);
+  }
+
+  /**
+   * Run the command bound to a key press through the CommandRegistry
+   * Keys typed in text inputs and keys already handled by a component are ignored
+   * @param event Keyboard event
+   * @returns true if a command handled the key (its default action is then prevented)
+   */
+  public handleKeyDown(event: KeyboardEvent): boolean {
+    const commandRegistry = this.context.Core.commandRegistry;
+    if (!commandRegistry || event.defaultPrevented || isEditableTarget(event.target)) {
+      return false;
+    }
+
+    // Disabled commands leave the key to the browser
+    const commandId = this.keymap.get(getEventShortcut(event));
+    if (!commandId || !commandRegistry.has(commandId) || !commandRegistry.execute(commandId, { source: 'keyboard', event })) {
+      return false;
+    }
+
+    event.preventDefault();
+    return true;
+  }
+
+  /**
+   * Emit onKeymapChange event
+   */
+  private emitKeymapChange(shortcut: string, commandId: string | null): void {
+    const event: IKeymapChangeEvent = { shortcut, commandId };
+
+    // Emit onKeymapChange event (spec-style)
+    this.context.Core.eventManager.emit('onKeymapChange', event);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('keymap:changed', event);
+  }
+}
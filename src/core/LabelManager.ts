@@ -0,0 +1,252 @@
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { IFrameLabel, FrameLabelType, ITimeLineData } from '../data/ITimeLineData';
+import { requestRender } from './RenderScheduler';
+
+/**
+ * LabelManager
+ * Manages frame labels (named frames playback can jump to) and frame comments
+ */
+export class LabelManager {
+  private context: ITimelineCoreContext;
+
+  constructor(context: ITimelineCoreContext) {
+    this.context = context;
+  }
+
+  /**
+   * Add a label or comment to a frame
+   * Emits onLabelAdd event
+   * @param frame Frame number
+   * @param name Label name or comment text
+   * @param type 'label' (default) or 'comment'
+   * @returns true if added, false if the frame already has a label or the name is taken
+   */
+  public addLabel(frame: number, name: string, type: FrameLabelType = 'label'): boolean {
+    return this.record(type === 'comment' ? 'Add Frame Comment' : 'Add Frame Label', () => {
+      const trimmedName = name.trim();
+      if (!this.validateLabel(frame, trimmedName, type)) {
+        return false;
+      }
+
+      if (this.getLabelAtFrame(frame)) {
+        console.warn(`Frame ${frame} already has a label`);
+        return false;
+      }
+
+      const label: IFrameLabel = { frame, name: trimmedName, type };
+      const labels = [...this.getMutableLabels(), label];
+      this.saveLabels(labels);
+
+      // Emit onLabelAdd event (spec-compliant)
+      this.context.Core.eventManager.emit('onLabelAdd', { ...label });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('label:added', { ...label });
+
+      return true;
+    });
+  }
+
+  /**
+   * Remove the label or comment on a frame
+   * Emits onLabelRemove event
+   * @param frame Frame number
+   * @returns true if removed, false if the frame has no label
+   */
+  public removeLabel(frame: number): boolean {
+    return this.record('Remove Frame Label', () => {
+      const label = this.getLabelAtFrame(frame);
+      if (!label) {
+        console.warn(`No label at frame ${frame}`);
+        return false;
+      }
+
+      this.saveLabels(this.getMutableLabels().filter(l => l.frame !== frame));
+
+      // Emit onLabelRemove event (spec-compliant)
+      this.context.Core.eventManager.emit('onLabelRemove', label);
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('label:removed', label);
+
+      return true;
+    });
+  }
+
+  /**
+   * Rename the label or comment on a frame
+   * Emits onLabelUpdate event
+   * @param frame Frame number
+   * @param name New name or comment text
+   * @returns true if renamed, false if not found or the name is invalid or taken
+   */
+  public renameLabel(frame: number, name: string): boolean {
+    const label = this.getLabelAtFrame(frame);
+    if (!label) {
+      console.warn(`No label at frame ${frame}`);
+      return false;
+    }
+    return this.updateLabel(frame, { ...label, name: name.trim() }, 'Rename Frame Label');
+  }
+
+  /**
+   * Move a label or comment to another frame
+   * Emits onLabelUpdate event
+   * @param frame Current frame of the label
+   * @param newFrame Target frame
+   * @returns true if moved, false if not found or the target frame already has a label
+   */
+  public moveLabel(frame: number, newFrame: number): boolean {
+    const label = this.getLabelAtFrame(frame);
+    if (!label) {
+      console.warn(`No label at frame ${frame}`);
+      return false;
+    }
+    if (newFrame !== frame && this.getLabelAtFrame(newFrame)) {
+      console.warn(`Frame ${newFrame} already has a label`);
+      return false;
+    }
+    return this.updateLabel(frame, { ...label, frame: newFrame }, 'Move Frame Label');
+  }
+
+  /**
+   * Change a label into a comment or a comment into a label
+   * Emits onLabelUpdate event
+   * @param frame Frame number
+   * @param type New type
+   * @returns true if changed, false if not found or the label name is taken
+   */
+  public setLabelType(frame: number, type: FrameLabelType): boolean {
+    const label = this.getLabelAtFrame(frame);
+    if (!label) {
+      console.warn(`No label at frame ${frame}`);
+      return false;
+    }
+    return this.updateLabel(frame, { ...label, type }, 'Change Frame Label Type');
+  }
+
+  /**
+   * Get the label or comment on a frame
+   * @param frame Frame number
+   * @returns A copy of the label, or null if the frame has none
+   */
+  public getLabelAtFrame(frame: number): IFrameLabel | null {
+    const label = this.getMutableLabels().find(l => l.frame === frame);
+    return label ? { ...label } : null;
+  }
+
+  /**
+   * Find a label by name (comments are ignored)
+   * @param name Label name
+   * @returns A copy of the label, or null if not found
+   */
+  public getLabel(name: string): IFrameLabel | null {
+    const label = this.getMutableLabels().find(l => l.type === 'label' && l.name === name);
+    return label ? { ...label } : null;
+  }
+
+  /**
+   * Get all labels sorted by frame
+   * @param type Only return labels of this type (optional)
+   */
+  public getLabels(type?: FrameLabelType): IFrameLabel[] {
+    return this.getMutableLabels()
+      .filter(l => !type || l.type === type)
+      .map(l => ({ ...l }));
+  }
+
+  /**
+   * Replace a label with updated properties
+   */
+  private updateLabel(frame: number, updated: IFrameLabel, historyLabel: string): boolean {
+    return this.record(historyLabel, () => {
+      if (!this.validateLabel(updated.frame, updated.name, updated.type, frame)) {
+        return false;
+      }
+
+      const oldLabel = this.getLabelAtFrame(frame)!;
+      const labels = this.getMutableLabels().map(l => l.frame === frame ? updated : l);
+      this.saveLabels(labels);
+
+      // Emit onLabelUpdate event (spec-compliant)
+      this.context.Core.eventManager.emit('onLabelUpdate', { oldLabel, newLabel: { ...updated } });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('label:updated', { oldLabel, newLabel: { ...updated } });
+
+      return true;
+    });
+  }
+
+  /**
+   * Validate label properties
+   * @param ignoreFrame Frame of the label being updated (excluded from the name check)
+   */
+  private validateLabel(frame: number, name: string, type: FrameLabelType, ignoreFrame?: number): boolean {
+    const totalFrames = this.context.Data.getData().settings.totalFrames;
+    if (!Number.isInteger(frame) || frame < 1 || frame > totalFrames) {
+      console.error(`Invalid label frame ${frame}`);
+      return false;
+    }
+
+    if (!name) {
+      console.error('Label name cannot be empty');
+      return false;
+    }
+
+    if (type !== 'label' && type !== 'comment') {
+      console.error(`Invalid label type "${type}"`);
+      return false;
+    }
+
+    if (type === 'label') {
+      const duplicate = this.getMutableLabels().some(l =>
+        l.type === 'label' && l.name === name && l.frame !== ignoreFrame
+      );
+      if (duplicate) {
+        console.warn(`Label "${name}" already exists`);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the labels stored in the timeline data
+   */
+  private getMutableLabels(): IFrameLabel[] {
+    return (this.context.Data.getData().labels || []) as IFrameLabel[];
+  }
+
+  /**
+   * Store labels sorted by frame and refresh the UI
+   */
+  private saveLabels(labels: IFrameLabel[]): void {
+    const data = this.context.Data.getData();
+    const updatedData: ITimeLineData = {
+      ...data,
+      labels: [...labels].sort((a, b) => a.frame - b.frame)
+    };
+    this.context.Data.load(updatedData);
+    this.refreshUI();
+  }
+
+  /**
+   * Run a mutation through the HistoryManager so it can be undone,
+   * rendering its changes once when it completes
+   * @param label Name of the operation shown in the history
+   * @param mutation Function performing the mutation
+   */
+  private record<T>(label: string, mutation: () => T): T {
+    const historyManager = this.context.Core.historyManager;
+    return this.context.batch(() => historyManager ? historyManager.transact(label, mutation) : mutation());
+  }
+
+  /**
+   * Redraw the ruler flags and the grid label markers
+   */
+  private refreshUI(): void {
+    requestRender(this.context, { ruler: true, grid: true });
+  }
+}
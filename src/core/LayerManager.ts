@@ -1,16 +1,27 @@
-import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
 import { ILayer, ITimeLineData } from '../data/ITimeLineData';
 
 /**
  * LayerManager - Manages layer and folder operations
  */
 export class LayerManager {
-  private context: IJsTimeLineContext;
+  private context: ITimelineCoreContext;
 
-  constructor(context: IJsTimeLineContext) {
+  constructor(context: ITimelineCoreContext) {
     this.context = context;
   }
 
+  /**
+   * Run a mutation through the HistoryManager so it can be undone,
+   * rendering its changes once when it completes
+   * @param label Name of the operation shown in the history
+   * @param mutation Function performing the mutation
+   */
+  private record<T>(label: string, mutation: () => T): T {
+    const historyManager = this.context.Core.historyManager;
+    return this.context.batch(() => historyManager ? historyManager.transact(label, mutation) : mutation());
+  }
+
   /**
    * Generate a unique ID for a new layer/folder
    */
@@ -54,107 +65,111 @@ export class LayerManager {
    * Add a new layer to the timeline
    */
   public addLayer(name?: string, parentId?: string): ILayer {
-    const data = this.context.Data.getData();
-    const layers = [...data.layers] as ILayer[];
-
-    const newLayer: ILayer = {
-      id: this.generateId(),
-      name: name || `Layer ${layers.length + 1}`,
-      type: 'layer',
-      visible: true,
-      locked: false,
-      keyframes: [],
-      tweens: []
-    };
-
-    if (parentId) {
-      // Add to specific folder
-      const parent = this.findLayerById(layers, parentId);
-      if (parent && parent.type === 'folder') {
-        if (!parent.children) {
-          parent.children = [];
+    return this.record('Add Layer', () => {
+      const data = this.context.Data.getData();
+      const layers = [...data.layers] as ILayer[];
+
+      const newLayer: ILayer = {
+        id: this.generateId(),
+        name: name || `Layer ${layers.length + 1}`,
+        type: 'layer',
+        visible: true,
+        locked: false,
+        keyframes: [],
+        tweens: []
+      };
+
+      if (parentId) {
+        // Add to specific folder
+        const parent = this.findLayerById(layers, parentId);
+        if (parent && parent.type === 'folder') {
+          if (!parent.children) {
+            parent.children = [];
+          }
+          (parent.children as ILayer[]).push(newLayer);
+        } else {
+          // Parent not found or not a folder, add to root
+          layers.push(newLayer);
         }
-        (parent.children as ILayer[]).push(newLayer);
       } else {
-        // Parent not found or not a folder, add to root
+        // Add to root level
         layers.push(newLayer);
       }
-    } else {
-      // Add to root level
-      layers.push(newLayer);
-    }
 
-    // Update data
-    const updatedData: ITimeLineData = {
-      ...data,
-      layers
-    };
-    this.context.Data.load(updatedData);
-
-    // Emit onObjectAdd event (spec-compliant)
-    this.context.Core.eventManager.emit('onObjectAdd', {
-      id: newLayer.id,
-      type: 'layer',
-      parentId: parentId || null
-    });
+      // Update data
+      const updatedData: ITimeLineData = {
+        ...data,
+        layers
+      };
+      this.context.Data.load(updatedData);
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('layer:added', { layer: newLayer });
+      // Emit onObjectAdd event (spec-compliant)
+      this.context.Core.eventManager.emit('onObjectAdd', {
+        id: newLayer.id,
+        type: 'layer',
+        parentId: parentId || null
+      });
 
-    return newLayer;
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('layer:added', { layer: newLayer });
+
+      return newLayer;
+    });
   }
 
   /**
    * Add a new folder to the timeline
    */
   public addFolder(name?: string, parentId?: string): ILayer {
-    const data = this.context.Data.getData();
-    const layers = [...data.layers] as ILayer[];
-
-    const newFolder: ILayer = {
-      id: this.generateId(),
-      name: name || `Folder ${layers.length + 1}`,
-      type: 'folder',
-      visible: true,
-      locked: false,
-      children: []
-    };
-
-    if (parentId) {
-      // Add to specific folder
-      const parent = this.findLayerById(layers, parentId);
-      if (parent && parent.type === 'folder') {
-        if (!parent.children) {
-          parent.children = [];
+    return this.record('Add Folder', () => {
+      const data = this.context.Data.getData();
+      const layers = [...data.layers] as ILayer[];
+
+      const newFolder: ILayer = {
+        id: this.generateId(),
+        name: name || `Folder ${layers.length + 1}`,
+        type: 'folder',
+        visible: true,
+        locked: false,
+        children: []
+      };
+
+      if (parentId) {
+        // Add to specific folder
+        const parent = this.findLayerById(layers, parentId);
+        if (parent && parent.type === 'folder') {
+          if (!parent.children) {
+            parent.children = [];
+          }
+          (parent.children as ILayer[]).push(newFolder);
+        } else {
+          // Parent not found or not a folder, add to root
+          layers.push(newFolder);
         }
-        (parent.children as ILayer[]).push(newFolder);
       } else {
-        // Parent not found or not a folder, add to root
+        // Add to root level
         layers.push(newFolder);
       }
-    } else {
-      // Add to root level
-      layers.push(newFolder);
-    }
 
-    // Update data
-    const updatedData: ITimeLineData = {
-      ...data,
-      layers
-    };
-    this.context.Data.load(updatedData);
-
-    // Emit onObjectAdd event (spec-compliant)
-    this.context.Core.eventManager.emit('onObjectAdd', {
-      id: newFolder.id,
-      type: 'folder',
-      parentId: parentId || null
-    });
+      // Update data
+      const updatedData: ITimeLineData = {
+        ...data,
+        layers
+      };
+      this.context.Data.load(updatedData);
+
+      // Emit onObjectAdd event (spec-compliant)
+      this.context.Core.eventManager.emit('onObjectAdd', {
+        id: newFolder.id,
+        type: 'folder',
+        parentId: parentId || null
+      });
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('folder:added', { folder: newFolder });
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('folder:added', { folder: newFolder });
 
-    return newFolder;
+      return newFolder;
+    });
   }
 
   /**
@@ -164,50 +179,52 @@ export class LayerManager {
    * @returns true if deleted, false if not found or cancelled by listener
    */
   public deleteObject(id: string): boolean {
-    const data = this.context.Data.getData();
-    const layers = [...data.layers] as ILayer[];
+    return this.record('Delete Layer', () => {
+      const data = this.context.Data.getData();
+      const layers = [...data.layers] as ILayer[];
 
-    const parentArray = this.findParentArray(layers, id);
-    if (!parentArray) return false;
+      const parentArray = this.findParentArray(layers, id);
+      if (!parentArray) return false;
 
-    const index = parentArray.findIndex(layer => layer.id === id);
-    if (index === -1) return false;
+      const index = parentArray.findIndex(layer => layer.id === id);
+      if (index === -1) return false;
 
-    const deletedObject = parentArray[index];
+      const deletedObject = parentArray[index];
 
-    // Emit cancellable onBeforeObjectDelete event
-    const beforeEvent = this.context.Core.eventManager.emitCancellable('onBeforeObjectDelete', {
-      ids: [id]
-    });
+      // Emit cancellable onBeforeObjectDelete event
+      const beforeEvent = this.context.Core.eventManager.emitCancellable('onBeforeObjectDelete', {
+        ids: [id]
+      });
 
-    // Check if the deletion was cancelled
-    if (beforeEvent.defaultPrevented) {
-      console.log('Layer deletion cancelled by listener');
-      return false;
-    }
+      // Check if the deletion was cancelled
+      if (beforeEvent.defaultPrevented) {
+        console.log('Layer deletion cancelled by listener');
+        return false;
+      }
 
-    // Proceed with deletion
-    parentArray.splice(index, 1);
+      // Proceed with deletion
+      parentArray.splice(index, 1);
 
-    // Update data
-    const updatedData: ITimeLineData = {
-      ...data,
-      layers
-    };
-    this.context.Data.load(updatedData);
+      // Update data
+      const updatedData: ITimeLineData = {
+        ...data,
+        layers
+      };
+      this.context.Data.load(updatedData);
 
-    // Emit onObjectDelete event
-    this.context.Core.eventManager.emit('onObjectDelete', { 
-      ids: [id]
-    });
+      // Emit onObjectDelete event
+      this.context.Core.eventManager.emit('onObjectDelete', { 
+        ids: [id]
+      });
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('layer:deleted', { 
-      id, 
-      object: deletedObject 
-    });
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('layer:deleted', { 
+        id, 
+        object: deletedObject 
+      });
 
-    return true;
+      return true;
+    });
   }
 
   /**
@@ -218,37 +235,39 @@ export class LayerManager {
    * @returns true if renamed successfully, false if not found
    */
   public renameObject(id: string, newName: string): boolean {
-    const data = this.context.Data.getData();
-    const layers = [...data.layers] as ILayer[];
-
-    const layer = this.findLayerById(layers, id);
-    if (!layer) return false;
-
-    const oldName = layer.name;
-    layer.name = newName;
-
-    // Update data
-    const updatedData: ITimeLineData = {
-      ...data,
-      layers
-    };
-    this.context.Data.load(updatedData);
-
-    // Emit onObjectRename event (spec-compliant)
-    this.context.Core.eventManager.emit('onObjectRename', { 
-      id, 
-      oldName, 
-      newName 
+    return this.record('Rename Layer', () => {
+      const data = this.context.Data.getData();
+      const layers = [...data.layers] as ILayer[];
+
+      const layer = this.findLayerById(layers, id);
+      if (!layer) return false;
+
+      const oldName = layer.name;
+      layer.name = newName;
+
+      // Update data
+      const updatedData: ITimeLineData = {
+        ...data,
+        layers
+      };
+      this.context.Data.load(updatedData);
+
+      // Emit onObjectRename event (spec-compliant)
+      this.context.Core.eventManager.emit('onObjectRename', { 
+        id, 
+        oldName, 
+        newName 
+      });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('layer:renamed', { 
+        id, 
+        oldName, 
+        newName 
+      });
+
+      return true;
     });
-
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('layer:renamed', { 
-      id, 
-      oldName, 
-      newName 
-    });
-
-    return true;
   }
 
   /**
@@ -259,44 +278,46 @@ export class LayerManager {
    * @returns true if reordered successfully, false if not found
    */
   public reorderObject(id: string, newIndex: number): boolean {
-    const data = this.context.Data.getData();
-    const layers = [...data.layers] as ILayer[];
-
-    const parentArray = this.findParentArray(layers, id);
-    if (!parentArray) return false;
-
-    const oldIndex = parentArray.findIndex(layer => layer.id === id);
-    if (oldIndex === -1) return false;
-
-    // Remove from old position
-    const [movedLayer] = parentArray.splice(oldIndex, 1);
-
-    // Insert at new position
-    const insertIndex = Math.min(newIndex, parentArray.length);
-    parentArray.splice(insertIndex, 0, movedLayer);
-
-    // Update data
-    const updatedData: ITimeLineData = {
-      ...data,
-      layers
-    };
-    this.context.Data.load(updatedData);
-
-    // Emit onObjectReorder event (spec-compliant)
-    this.context.Core.eventManager.emit('onObjectReorder', { 
-      id, 
-      oldIndex, 
-      newIndex: insertIndex 
+    return this.record('Reorder Layer', () => {
+      const data = this.context.Data.getData();
+      const layers = [...data.layers] as ILayer[];
+
+      const parentArray = this.findParentArray(layers, id);
+      if (!parentArray) return false;
+
+      const oldIndex = parentArray.findIndex(layer => layer.id === id);
+      if (oldIndex === -1) return false;
+
+      // Remove from old position
+      const [movedLayer] = parentArray.splice(oldIndex, 1);
+
+      // Insert at new position
+      const insertIndex = Math.min(newIndex, parentArray.length);
+      parentArray.splice(insertIndex, 0, movedLayer);
+
+      // Update data
+      const updatedData: ITimeLineData = {
+        ...data,
+        layers
+      };
+      this.context.Data.load(updatedData);
+
+      // Emit onObjectReorder event (spec-compliant)
+      this.context.Core.eventManager.emit('onObjectReorder', { 
+        id, 
+        oldIndex, 
+        newIndex: insertIndex 
+      });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('layer:reordered', { 
+        id, 
+        oldIndex, 
+        newIndex: insertIndex 
+      });
+
+      return true;
     });
-
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('layer:reordered', { 
-      id, 
-      oldIndex, 
-      newIndex: insertIndex 
-    });
-
-    return true;
   }
 
   /**
@@ -309,64 +330,66 @@ export class LayerManager {
    * @returns true if reparented successfully, false if not found or invalid parent
    */
   public reparentObject(id: string, newParentId: string | null, oldParentId?: string | null, index?: number): boolean {
-    const data = this.context.Data.getData();
-    const layers = [...data.layers] as ILayer[];
+    return this.record('Move Layer', () => {
+      const data = this.context.Data.getData();
+      const layers = [...data.layers] as ILayer[];
 
-    // Find and remove from current parent
-    const oldParentArray = this.findParentArray(layers, id);
-    if (!oldParentArray) return false;
+      // Find and remove from current parent
+      const oldParentArray = this.findParentArray(layers, id);
+      if (!oldParentArray) return false;
 
-    const oldIndex = oldParentArray.findIndex(layer => layer.id === id);
-    if (oldIndex === -1) return false;
+      const oldIndex = oldParentArray.findIndex(layer => layer.id === id);
+      if (oldIndex === -1) return false;
 
-    const [movedLayer] = oldParentArray.splice(oldIndex, 1);
+      const [movedLayer] = oldParentArray.splice(oldIndex, 1);
 
-    // Add to new parent at specified index
-    if (newParentId) {
-      const newParent = this.findLayerById(layers, newParentId);
-      if (!newParent || newParent.type !== 'folder') return false;
+      // Add to new parent at specified index
+      if (newParentId) {
+        const newParent = this.findLayerById(layers, newParentId);
+        if (!newParent || newParent.type !== 'folder') return false;
 
-      if (!newParent.children) {
-        newParent.children = [];
-      }
+        if (!newParent.children) {
+          newParent.children = [];
+        }
       
-      // Insert at specified index or append to end
-      const targetArray = newParent.children as ILayer[];
-      if (index !== undefined && index >= 0 && index <= targetArray.length) {
-        targetArray.splice(index, 0, movedLayer);
-      } else {
-        targetArray.push(movedLayer);
-      }
-    } else {
-      // Move to root level at specified index
-      if (index !== undefined && index >= 0 && index <= layers.length) {
-        layers.splice(index, 0, movedLayer);
+        // Insert at specified index or append to end
+        const targetArray = newParent.children as ILayer[];
+        if (index !== undefined && index >= 0 && index <= targetArray.length) {
+          targetArray.splice(index, 0, movedLayer);
+        } else {
+          targetArray.push(movedLayer);
+        }
       } else {
-        layers.push(movedLayer);
+        // Move to root level at specified index
+        if (index !== undefined && index >= 0 && index <= layers.length) {
+          layers.splice(index, 0, movedLayer);
+        } else {
+          layers.push(movedLayer);
+        }
       }
-    }
-
-    // Update data
-    const updatedData: ITimeLineData = {
-      ...data,
-      layers
-    };
-    this.context.Data.load(updatedData);
-
-    // Emit onObjectReparent event (spec-compliant)
-    this.context.Core.eventManager.emit('onObjectReparent', { 
-      id, 
-      newParentId,
-      oldParentId: oldParentId || null
-    });
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('layer:reparented', { 
-      id, 
-      newParentId 
+      // Update data
+      const updatedData: ITimeLineData = {
+        ...data,
+        layers
+      };
+      this.context.Data.load(updatedData);
+
+      // Emit onObjectReparent event (spec-compliant)
+      this.context.Core.eventManager.emit('onObjectReparent', { 
+        id, 
+        newParentId,
+        oldParentId: oldParentId || null
+      });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('layer:reparented', { 
+        id, 
+        newParentId 
+      });
+
+      return true;
     });
-
-    return true;
   }
 
   /**
@@ -376,34 +399,36 @@ export class LayerManager {
    * @returns true if toggled successfully, false if not found
    */
   public toggleVisibility(id: string): boolean {
-    const data = this.context.Data.getData();
-    const layers = [...data.layers] as ILayer[];
-
-    const layer = this.findLayerById(layers, id);
-    if (!layer) return false;
-
-    layer.visible = !layer.visible;
-
-    // Update data
-    const updatedData: ITimeLineData = {
-      ...data,
-      layers
-    };
-    this.context.Data.load(updatedData);
-
-    // Emit onObjectVisibilityChange event (spec-compliant)
-    this.context.Core.eventManager.emit('onObjectVisibilityChange', { 
-      id, 
-      isVisible: layer.visible 
-    });
-
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('layer:visibilityChanged', { 
-      id, 
-      visible: layer.visible 
+    return this.record('Toggle Visibility', () => {
+      const data = this.context.Data.getData();
+      const layers = [...data.layers] as ILayer[];
+
+      const layer = this.findLayerById(layers, id);
+      if (!layer) return false;
+
+      layer.visible = !layer.visible;
+
+      // Update data
+      const updatedData: ITimeLineData = {
+        ...data,
+        layers
+      };
+      this.context.Data.load(updatedData);
+
+      // Emit onObjectVisibilityChange event (spec-compliant)
+      this.context.Core.eventManager.emit('onObjectVisibilityChange', { 
+        id, 
+        isVisible: layer.visible 
+      });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('layer:visibilityChanged', { 
+        id, 
+        visible: layer.visible 
+      });
+
+      return true;
     });
-
-    return true;
   }
 
   /**
@@ -413,33 +438,35 @@ export class LayerManager {
    * @returns true if toggled successfully, false if not found
    */
   public toggleLock(id: string): boolean {
-    const data = this.context.Data.getData();
-    const layers = [...data.layers] as ILayer[];
-
-    const layer = this.findLayerById(layers, id);
-    if (!layer) return false;
-
-    layer.locked = !layer.locked;
-
-    // Update data
-    const updatedData: ITimeLineData = {
-      ...data,
-      layers
-    };
-    this.context.Data.load(updatedData);
-
-    // Emit onObjectLockChange event (spec-compliant)
-    this.context.Core.eventManager.emit('onObjectLockChange', { 
-      id, 
-      isLocked: layer.locked 
+    return this.record('Toggle Lock', () => {
+      const data = this.context.Data.getData();
+      const layers = [...data.layers] as ILayer[];
+
+      const layer = this.findLayerById(layers, id);
+      if (!layer) return false;
+
+      layer.locked = !layer.locked;
+
+      // Update data
+      const updatedData: ITimeLineData = {
+        ...data,
+        layers
+      };
+      this.context.Data.load(updatedData);
+
+      // Emit onObjectLockChange event (spec-compliant)
+      this.context.Core.eventManager.emit('onObjectLockChange', { 
+        id, 
+        isLocked: layer.locked 
+      });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('layer:lockChanged', { 
+        id, 
+        locked: layer.locked 
+      });
+
+      return true;
     });
-
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('layer:lockChanged', { 
-      id, 
-      locked: layer.locked 
-    });
-
-    return true;
   }
 }
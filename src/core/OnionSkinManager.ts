@@ -0,0 +1,262 @@
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { ILayer, IOnionSkinSettings, OnionSkinAnchor, OnionSkinMode } from '../data/ITimeLineData';
+import { requestRender } from './RenderScheduler';
+
+/**
+ * A frame to draw as a ghost
+ */
+export interface IOnionSkinFrame {
+  frame: number;        // Frame number
+  offset: number;       // Distance from the current frame (negative before, positive after)
+  opacity: number;      // Suggested ghost opacity (closer frames are more opaque)
+}
+
+/**
+ * What host renderers should ghost around the current frame
+ */
+export interface IOnionSkinInfo {
+  enabled: boolean;
+  currentFrame: number;
+  mode: OnionSkinMode;
+  start: number;                // First frame of the onion skin range
+  end: number;                  // Last frame of the onion skin range
+  frames: IOnionSkinFrame[];    // Ghost frames, empty when disabled
+  layerIds: string[];           // Layers to ghost (visible and unlocked), empty when disabled
+}
+
+const DEFAULT_ONION_SKIN: IOnionSkinSettings = {
+  enabled: false,
+  before: 2,
+  after: 2,
+  mode: 'filled',
+  anchor: 'relative'
+};
+
+// Opacity of the ghosts next to the current frame; farther ghosts fade out
+const MAX_GHOST_OPACITY = 0.5;
+
+/**
+ * OnionSkinManager
+ * Manages the onion skin state (stored in the timeline settings) and tells
+ * host renderers which frames and layers to draw as ghosts
+ */
+export class OnionSkinManager {
+  private context: ITimelineCoreContext;
+  private playheadFrame: number | null = null;
+
+  constructor(context: ITimelineCoreContext) {
+    this.context = context;
+
+    // Ghost frames follow the playhead, whether moved by playback or by a seek
+    this.context.Core.eventManager.on('playback:positionChanged', ({ frame }) => {
+      this.playheadFrame = frame;
+      if (this.getSettings().enabled) {
+        this.emitChange(false);
+      }
+    });
+  }
+
+  /**
+   * Get the onion skin settings
+   * @returns A copy of the settings, with defaults for missing fields
+   */
+  public getSettings(): IOnionSkinSettings {
+    return { ...DEFAULT_ONION_SKIN, ...this.context.Data.getData().settings.onionSkin };
+  }
+
+  /**
+   * Check if onion skinning is enabled
+   */
+  public isEnabled(): boolean {
+    return this.getSettings().enabled;
+  }
+
+  /**
+   * Turn onion skinning on or off
+   * Emits onOnionSkinChange event
+   * @param enabled Whether ghosts are shown
+   */
+  public setEnabled(enabled: boolean): void {
+    this.saveSettings({ ...this.getSettings(), enabled });
+  }
+
+  /**
+   * Set how many frames are ghosted around the playhead (relative anchor)
+   * Emits onOnionSkinChange event
+   * @param before Frames before the current frame
+   * @param after Frames after the current frame
+   * @returns true if set, false if a count is not a non-negative integer
+   */
+  public setRange(before: number, after: number): boolean {
+    if (!Number.isInteger(before) || !Number.isInteger(after) || before < 0 || after < 0) {
+      console.error(`Invalid onion skin range ${before}/${after}`);
+      return false;
+    }
+
+    this.saveSettings({ ...this.getSettings(), before, after });
+    return true;
+  }
+
+  /**
+   * Pin the onion skin range to fixed frames (switches to the fixed anchor)
+   * Emits onOnionSkinChange event
+   * @param start First ghosted frame
+   * @param end Last ghosted frame
+   * @returns true if set, false if the range is invalid
+   */
+  public setFixedRange(start: number, end: number): boolean {
+    const totalFrames = this.context.Data.getData().settings.totalFrames;
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || start > end || end > totalFrames) {
+      console.error(`Invalid onion skin range ${start}-${end}`);
+      return false;
+    }
+
+    this.saveSettings({ ...this.getSettings(), anchor: 'fixed', start, end });
+    return true;
+  }
+
+  /**
+   * Draw ghosts as outlines or filled
+   * Emits onOnionSkinChange event
+   * @param mode 'outline' or 'filled'
+   */
+  public setMode(mode: OnionSkinMode): void {
+    if (mode !== 'outline' && mode !== 'filled') {
+      console.error(`Invalid onion skin mode "${mode}"`);
+      return;
+    }
+    this.saveSettings({ ...this.getSettings(), mode });
+  }
+
+  /**
+   * Make the onion skin range follow the playhead or stay on fixed frames
+   * Switching to 'fixed' pins the range currently shown around the playhead
+   * Emits onOnionSkinChange event
+   * @param anchor 'relative' or 'fixed'
+   */
+  public setAnchor(anchor: OnionSkinAnchor): void {
+    const settings = this.getSettings();
+    if (anchor === 'fixed') {
+      const { start, end } = this.getRange();
+      this.saveSettings({ ...settings, anchor, start, end });
+    } else {
+      const { start: _start, end: _end, ...relative } = settings;
+      this.saveSettings({ ...relative, anchor });
+    }
+  }
+
+  /**
+   * Get the frames covered by the onion skin
+   * @param frame Current frame (defaults to the playhead position)
+   * @returns First and last frame of the range, clamped to the timeline
+   */
+  public getRange(frame: number = this.getCurrentFrame()): { start: number; end: number } {
+    const settings = this.getSettings();
+    const totalFrames = this.context.Data.getData().settings.totalFrames;
+
+    if (settings.anchor === 'fixed' && settings.start !== undefined && settings.end !== undefined) {
+      return {
+        start: Math.max(1, Math.min(totalFrames, settings.start)),
+        end: Math.max(1, Math.min(totalFrames, settings.end))
+      };
+    }
+
+    return {
+      start: Math.max(1, frame - settings.before),
+      end: Math.min(totalFrames, frame + settings.after)
+    };
+  }
+
+  /**
+   * Get the frames to draw as ghosts around a frame
+   * @param frame Current frame (defaults to the playhead position)
+   * @returns Ghost frames sorted by frame, excluding the current frame
+   */
+  public getGhostFrames(frame: number = this.getCurrentFrame()): IOnionSkinFrame[] {
+    const { start, end } = this.getRange(frame);
+    const frames: IOnionSkinFrame[] = [];
+
+    for (let ghost = start; ghost <= end; ghost++) {
+      if (ghost === frame) continue;
+
+      const offset = ghost - frame;
+      const span = offset < 0 ? frame - start : end - frame;
+      const opacity = MAX_GHOST_OPACITY * (span - Math.abs(offset) + 1) / span;
+      frames.push({ frame: ghost, offset, opacity: Math.round(opacity * 100) / 100 });
+    }
+
+    return frames;
+  }
+
+  /**
+   * Get everything a renderer needs to draw the onion skin
+   * @param frame Current frame (defaults to the playhead position)
+   */
+  public getOnionSkin(frame: number = this.getCurrentFrame()): IOnionSkinInfo {
+    const settings = this.getSettings();
+    const { start, end } = this.getRange(frame);
+
+    return {
+      enabled: settings.enabled,
+      currentFrame: frame,
+      mode: settings.mode,
+      start,
+      end,
+      frames: settings.enabled ? this.getGhostFrames(frame) : [],
+      layerIds: settings.enabled ? this.getGhostLayerIds() : []
+    };
+  }
+
+  /**
+   * Get the frame under the playhead, which relative onion skins are centred on
+   */
+  public getCurrentFrame(): number {
+    return this.context.Core.playbackEngine?.getCurrentFrame() ?? this.playheadFrame ?? 1;
+  }
+
+  /**
+   * Get the layers whose content is ghosted: visible and unlocked layers
+   * (folders excluded) whose parent folders are also visible and unlocked
+   */
+  private getGhostLayerIds(): string[] {
+    const layerIds: string[] = [];
+    const collect = (layers: readonly ILayer[]) => {
+      for (const layer of layers) {
+        if (layer.visible === false || layer.locked) continue;
+        if (layer.type === 'folder') {
+          collect(layer.children || []);
+        } else {
+          layerIds.push(layer.id);
+        }
+      }
+    };
+    collect(this.context.Data.getData().layers);
+    return layerIds;
+  }
+
+  /**
+   * Store the settings and notify listeners
+   */
+  private saveSettings(onionSkin: IOnionSkinSettings): void {
+    this.context.Data.getData().settings.onionSkin = onionSkin;
+    this.emitChange(true);
+  }
+
+  /**
+   * Emit onOnionSkinChange event
+   * @param settingsChanged Whether the settings changed (the ruler markers are redrawn)
+   */
+  private emitChange(settingsChanged: boolean): void {
+    const info = this.getOnionSkin();
+
+    // Emit onOnionSkinChange event (spec-style)
+    this.context.Core.eventManager.emit('onOnionSkinChange', info);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('onionSkin:changed', info);
+
+    if (settingsChanged) {
+      requestRender(this.context, { ruler: true });
+    }
+  }
+}
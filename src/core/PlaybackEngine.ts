@@ -1,18 +1,60 @@
-import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { IPlaybackRange, LoopMode } from '../data/ITimeLineData';
+import { requestRender } from './RenderScheduler';
+
+/**
+ * Time source driving playback
+ * Inject a custom clock to run the engine deterministically (e.g. in tests)
+ */
+export interface IPlaybackClock {
+  now(): number;                                      // Current time in milliseconds
+  requestFrame(callback: () => void): number;         // Schedule the next tick
+  cancelFrame(id: number): void;                      // Cancel a scheduled tick
+}
+
+// Without requestAnimationFrame (Node, some workers) ticks run on a 60 Hz timer
+const hasAnimationFrame = typeof requestAnimationFrame === 'function';
+
+/**
+ * Default clock based on performance.now() and requestAnimationFrame
+ */
+export const defaultPlaybackClock: IPlaybackClock = {
+  now: () => performance.now(),
+  requestFrame: (callback: () => void) => hasAnimationFrame
+    ? requestAnimationFrame(() => callback())
+    : setTimeout(callback, 1000 / 60) as unknown as number,
+  cancelFrame: (id: number) => hasAnimationFrame ? cancelAnimationFrame(id) : clearTimeout(id)
+};
+
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 4;
 
 /**
  * PlaybackEngine - Manages timeline playback with frame-accurate timing
  */
 export class PlaybackEngine {
-  private context: IJsTimeLineContext;
+  private context: ITimelineCoreContext;
+  private clock: IPlaybackClock;
   private currentFrame: number = 1;
   private isPlaying: boolean = false;
   private animationFrameId: number | null = null;
-  private lastFrameTime: number = 0;
+  private lastTickTime: number = 0;
   private frameInterval: number = 0;
+  private accumulatedTime: number = 0;
+  private elapsedTime: number = 0;
+  private frameTimes: number[] = [];
+  private playbackRate: number = 1;
+  private dropFrames: boolean = true;
+  private direction: 1 | -1 = 1;
+  private reversed: boolean = false;
 
-  constructor(context: IJsTimeLineContext) {
+  /**
+   * @param context Timeline context
+   * @param clock Time source (defaults to performance.now() and requestAnimationFrame)
+   */
+  constructor(context: ITimelineCoreContext, clock: IPlaybackClock = defaultPlaybackClock) {
     this.context = context;
+    this.clock = clock;
     this.updateFrameInterval();
   }
 
@@ -32,8 +74,24 @@ export class PlaybackEngine {
   public play(): void {
     if (this.isPlaying) return;
 
+    // In play-once mode, playing again from the end of the range restarts it
+    const { start, end } = this.getPlaybackRange();
+    if (this.getLoopMode() === 'once') {
+      const boundary = this.reversed ? start : end;
+      if (this.currentFrame === boundary) {
+        this.goToFrame(this.reversed ? end : start);
+      }
+    }
+
+    // Ping-pong keeps its current direction when resuming
+    if (this.getLoopMode() !== 'ping-pong') {
+      this.direction = this.reversed ? -1 : 1;
+    }
     this.isPlaying = true;
-    this.lastFrameTime = performance.now();
+    this.lastTickTime = this.clock.now();
+    this.accumulatedTime = 0;
+    this.elapsedTime = 0;
+    this.frameTimes = [];
     this.updateFrameInterval();
     
     // Emit onPlaybackStart event (spec-compliant)
@@ -46,43 +104,75 @@ export class PlaybackEngine {
   }
 
   /**
-   * Animation loop using requestAnimationFrame
+   * Animation loop driven by the playback clock
+   * Time is accumulated (scaled by the playback rate) and converted into frames;
+   * when frame dropping is enabled several frames may be advanced in one tick
+   * to stay in sync with wall-clock time
    */
   private animate(): void {
+    this.animationFrameId = null;
     if (!this.isPlaying) return;
 
-    const currentTime = performance.now();
-    const elapsed = currentTime - this.lastFrameTime;
+    const now = this.clock.now();
+    const delta = now - this.lastTickTime;
+    this.lastTickTime = now;
+    this.elapsedTime += delta;
+    this.accumulatedTime += delta * this.playbackRate;
 
-    // Check if enough time has passed for the next frame
-    if (elapsed >= this.frameInterval) {
-      this.lastFrameTime = currentTime - (elapsed % this.frameInterval);
-      this.advanceFrame();
+    if (this.accumulatedTime >= this.frameInterval) {
+      const dueFrames = Math.floor(this.accumulatedTime / this.frameInterval);
+      this.accumulatedTime -= dueFrames * this.frameInterval;
+      this.advanceFrames(this.dropFrames ? dueFrames : 1);
     }
 
-    this.animationFrameId = requestAnimationFrame(() => this.animate());
+    // Frame actions may have restarted playback, which already scheduled a tick
+    if (this.isPlaying && this.animationFrameId === null) {
+      this.animationFrameId = this.clock.requestFrame(() => this.animate());
+    }
   }
 
   /**
-   * Advance to the next frame
-   * Emits onFrameEnter event with keyframe IDs on current frame
+   * Advance playback by a number of frames
+   * Only the last frame is rendered; the frames in between are dropped but
+   * still trigger their label events and frame actions
+   * @param count Number of frames to advance
    */
-  private advanceFrame(): void {
-    const settings = this.context.Data.getData()?.settings;
-    const totalFrames = settings?.totalFrames ?? 100;
+  private advanceFrames(count: number): void {
+    for (let i = 0; i < count; i++) {
+      const nextFrame = this.getNextFrame();
+      if (nextFrame === null) {
+        // Stopped at the end of the range: show the last frame reached
+        if (i > 0) {
+          this.enterFrame(i - 1, false);
+        }
+        return;
+      }
+      this.currentFrame = nextFrame;
 
-    this.currentFrame++;
+      if (i === count - 1) {
+        this.enterFrame(i, true);
+        return;
+      }
 
-    // Loop back to frame 1 when reaching the end
-    if (this.currentFrame > totalFrames) {
-      this.currentFrame = 1;
-      this.context.Core.eventManager.emit('playback:loop', { frame: this.currentFrame });
-    }
+      this.runFrameScripts();
 
-    // Update playhead position
-    if (this.context.UI.timeRuler) {
-      this.context.UI.timeRuler.setPlayheadPosition(this.currentFrame);
+      // A frame action stopped playback or jumped to another frame
+      if (!this.isPlaying || this.currentFrame !== nextFrame) {
+        this.enterFrame(i, false);
+        return;
+      }
     }
+  }
+
+  /**
+   * Render the current frame
+   * Emits onFrameEnter event with keyframe IDs, evaluated layer states and timing information
+   * @param droppedFrames Number of frames skipped since the previous rendered frame
+   * @param runScripts Whether to emit label events and run frame actions afterwards
+   */
+  private enterFrame(droppedFrames: number, runScripts: boolean): void {
+    // Views move their playhead
+    this.context.Core.eventManager.emit('playback:positionChanged', { frame: this.currentFrame });
 
     // Collect keyframe IDs on the current frame
     const keyframeIdsOnFrame: string[] = [];
@@ -105,14 +195,105 @@ export class PlaybackEngine {
       collectKeyframes(data.layers);
     }
 
+    // Evaluate interpolated values of visible layers for renderers
+    const interpolationEngine = this.context.Core.interpolationEngine;
+    const layerStates = interpolationEngine
+      ? interpolationEngine.evaluateAll(this.currentFrame, { visibleOnly: true })
+      : [];
+
+    this.recordFrameTime();
+
     // Emit onFrameEnter event (spec-compliant)
     this.context.Core.eventManager.emit('onFrameEnter', {
       currentFrame: this.currentFrame,
-      keyframeIdsOnFrame
+      keyframeIdsOnFrame,
+      layerStates,
+      elapsedTime: this.elapsedTime,
+      fps: this.getActualFps(),
+      droppedFrames,
+      playbackRate: this.playbackRate
     });
 
     // Also emit legacy event for backward compatibility
     this.context.Core.eventManager.emit('playback:frameEnter', { frame: this.currentFrame });
+
+    if (runScripts) {
+      this.runFrameScripts();
+    }
+  }
+
+  /**
+   * Emit label events and run the frame actions of the current frame
+   */
+  private runFrameScripts(): void {
+    this.emitLabelEnter();
+    this.context.Core.actionManager?.executeFrame(this.currentFrame);
+  }
+
+  /**
+   * Emit onLabelEnter when the current frame has a label (comments are ignored)
+   */
+  private emitLabelEnter(): void {
+    const label = this.context.Data.getData()?.labels?.find(l => l.frame === this.currentFrame && l.type === 'label');
+    if (label) {
+      this.context.Core.eventManager.emit('onLabelEnter', { name: label.name, frame: label.frame });
+      this.context.Core.eventManager.emit('playback:labelEnter', { name: label.name, frame: label.frame });
+    }
+  }
+
+  /**
+   * Remember when a frame was rendered, keeping one second of history for the fps measurement
+   */
+  private recordFrameTime(): void {
+    const now = this.clock.now();
+    this.frameTimes.push(now);
+    while (this.frameTimes.length > 0 && now - this.frameTimes[0] > 1000) {
+      this.frameTimes.shift();
+    }
+  }
+
+  /**
+   * Compute the next frame within the playback range, applying the loop mode
+   * Emits onPlaybackRangeEnd event when the end of the range is reached
+   * @returns The next frame, or null if playback stopped at the end of the range
+   */
+  private getNextFrame(): number | null {
+    const { start, end } = this.getPlaybackRange();
+
+    // Coming from outside the range (e.g. after a seek): enter it from its first frame
+    if (this.currentFrame < start || this.currentFrame > end) {
+      return this.direction > 0 ? start : end;
+    }
+
+    const nextFrame = this.currentFrame + this.direction;
+    if (nextFrame >= start && nextFrame <= end) {
+      return nextFrame;
+    }
+
+    const loopMode = this.getLoopMode();
+    const rangeEnd = { frame: this.currentFrame, start, end, loopMode, reversed: this.direction < 0 };
+
+    // Emit onPlaybackRangeEnd event (spec-style)
+    this.context.Core.eventManager.emit('onPlaybackRangeEnd', rangeEnd);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('playback:rangeEnd', rangeEnd);
+
+    switch (loopMode) {
+      case 'once':
+        this.pause();
+        return null;
+
+      case 'ping-pong':
+        this.direction = this.direction > 0 ? -1 : 1;
+        return Math.max(start, Math.min(end, this.currentFrame + this.direction));
+
+      default: {
+        const loopFrame = this.direction > 0 ? start : end;
+        this.context.Core.eventManager.emit('playback:loop', { frame: loopFrame });
+        return loopFrame;
+      }
+    }
   }
 
   /**
@@ -125,7 +306,7 @@ export class PlaybackEngine {
     this.isPlaying = false;
     
     if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
+      this.clock.cancelFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
 
@@ -137,11 +318,11 @@ export class PlaybackEngine {
   }
 
   /**
-   * Stop playback and reset to frame 1
+   * Stop playback and rewind to the start of the playback range
    */
   public stop(): void {
     this.pause();
-    this.goToFrame(1);
+    this.goToFrame(this.getPlaybackRange().start);
     this.context.Core.eventManager.emit('playback:stopped', { frame: this.currentFrame });
   }
 
@@ -155,14 +336,191 @@ export class PlaybackEngine {
     // Clamp frame to valid range
     this.currentFrame = Math.max(1, Math.min(totalFrames, frame));
 
-    // Update playhead position
-    if (this.context.UI.timeRuler) {
-      this.context.UI.timeRuler.setPlayheadPosition(this.currentFrame);
-    }
+    // Views move their playhead
+    this.context.Core.eventManager.emit('playback:positionChanged', { frame: this.currentFrame });
 
     this.context.Core.eventManager.emit('playback:frameChanged', { frame: this.currentFrame });
   }
 
+  /**
+   * Jump to the frame of a label
+   * @param name Name of the frame label
+   * @returns true if the label exists, false otherwise
+   */
+  public goToLabel(name: string): boolean {
+    const label = this.context.Data.getData()?.labels?.find(l => l.type === 'label' && l.name === name);
+    if (!label) {
+      console.warn(`Label "${name}" not found`);
+      return false;
+    }
+
+    this.goToFrame(label.frame);
+    return true;
+  }
+
+  /**
+   * Set the in/out points of the playback range
+   * Emits onPlaybackRangeChange event
+   * @param start First frame played
+   * @param end Last frame played
+   * @returns true if the range was set, false if it is invalid
+   */
+  public setPlaybackRange(start: number, end: number): boolean {
+    const settings = this.context.Data.getData().settings;
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end > settings.totalFrames || start > end) {
+      console.error(`Invalid playback range ${start}-${end}`);
+      return false;
+    }
+
+    settings.playbackRange = { start, end };
+    this.emitRangeChange();
+    return true;
+  }
+
+  /**
+   * Reset the playback range to the whole timeline
+   * Emits onPlaybackRangeChange event
+   */
+  public clearPlaybackRange(): void {
+    const settings = this.context.Data.getData().settings;
+    if (!settings.playbackRange) return;
+
+    delete settings.playbackRange;
+    this.emitRangeChange();
+  }
+
+  /**
+   * Get the effective playback range (the whole timeline when none is set)
+   * The range is clamped to the current timeline length
+   */
+  public getPlaybackRange(): IPlaybackRange {
+    const settings = this.context.Data.getData()?.settings;
+    const totalFrames = settings?.totalFrames ?? 100;
+    const range = settings?.playbackRange;
+
+    const start = Math.max(1, Math.min(totalFrames, range?.start ?? 1));
+    const end = Math.max(start, Math.min(totalFrames, range?.end ?? totalFrames));
+    return { start, end };
+  }
+
+  /**
+   * Check if a custom playback range is set
+   */
+  public hasPlaybackRange(): boolean {
+    return !!this.context.Data.getData()?.settings?.playbackRange;
+  }
+
+  /**
+   * Set what happens when playback reaches the end of the range
+   * @param mode 'loop' (default), 'once' or 'ping-pong'
+   */
+  public setLoopMode(mode: LoopMode): void {
+    if (!['loop', 'once', 'ping-pong'].includes(mode)) {
+      console.error(`Invalid loop mode "${mode}"`);
+      return;
+    }
+
+    this.context.Data.getData().settings.loopMode = mode;
+    this.context.Core.eventManager.emit('timeline:settingChanged', { setting: 'loopMode', value: mode });
+  }
+
+  /**
+   * Get the current loop mode
+   */
+  public getLoopMode(): LoopMode {
+    return this.context.Data.getData()?.settings?.loopMode ?? 'loop';
+  }
+
+  /**
+   * Play backwards (from the out point towards the in point)
+   * @param reversed true to play backwards
+   */
+  public setReversed(reversed: boolean): void {
+    this.reversed = reversed;
+    this.direction = reversed ? -1 : 1;
+  }
+
+  /**
+   * Check if playback runs backwards
+   */
+  public isReversed(): boolean {
+    return this.reversed;
+  }
+
+  /**
+   * Emit playback range change events and refresh the ruler
+   */
+  private emitRangeChange(): void {
+    const range = { ...this.getPlaybackRange(), isCustom: this.hasPlaybackRange() };
+
+    // Emit onPlaybackRangeChange event (spec-style)
+    this.context.Core.eventManager.emit('onPlaybackRangeChange', range);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('playback:rangeChanged', range);
+
+    requestRender(this.context, { ruler: true });
+  }
+
+  /**
+   * Set the playback speed multiplier
+   * @param rate Speed multiplier between 0.25 and 4 (1 = normal speed)
+   * @returns true if the rate was set, false if out of range
+   */
+  public setPlaybackRate(rate: number): boolean {
+    if (!isFinite(rate) || rate < MIN_PLAYBACK_RATE || rate > MAX_PLAYBACK_RATE) {
+      console.error(`Playback rate must be between ${MIN_PLAYBACK_RATE} and ${MAX_PLAYBACK_RATE}`);
+      return false;
+    }
+
+    this.playbackRate = rate;
+    this.context.Core.eventManager.emit('onPlaybackRateChange', { playbackRate: rate });
+    this.context.Core.eventManager.emit('playback:rateChanged', { playbackRate: rate });
+    return true;
+  }
+
+  /**
+   * Get the playback speed multiplier
+   */
+  public getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  /**
+   * Choose between real-time playback and playing every frame
+   * @param enabled true (default) to skip frames when rendering falls behind
+   *                wall-clock time, false to render every frame (playback slows down instead)
+   */
+  public setDropFrames(enabled: boolean): void {
+    this.dropFrames = enabled;
+  }
+
+  /**
+   * Check if frames are dropped to stay in real-time
+   */
+  public getDropFrames(): boolean {
+    return this.dropFrames;
+  }
+
+  /**
+   * Get the wall-clock time spent playing since playback started, in milliseconds
+   */
+  public getElapsedTime(): number {
+    return this.elapsedTime;
+  }
+
+  /**
+   * Get the measured number of frames rendered per second over the last second
+   */
+  public getActualFps(): number {
+    if (this.frameTimes.length < 2) {
+      return 0;
+    }
+    const duration = this.frameTimes[this.frameTimes.length - 1] - this.frameTimes[0];
+    return duration > 0 ? Math.round((this.frameTimes.length - 1) * 1000 / duration * 100) / 100 : 0;
+  }
+
   /**
    * Get current frame number
    */
@@ -0,0 +1,437 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ITimeLineData } from '../data/ITimeLineData';
+import { ICommand, ICommandContext } from './CommandRegistry';
+import { IRenderChange, requestRender } from './RenderScheduler';
+import { ContextMenuProvider, IGridOverlay, ILayerColumn, IPlugin, IPluginHost, IToolbarButton } from '../plugins/IPlugin';
+import { IMenuItem } from '../ui/ContextMenu';
+import { isValidVersionRange, parseVersion, satisfiesVersion } from '../utils/Version';
+
+/**
+ * Kinds of extensions plugins add through their host
+ */
+export type PluginExtensionPoint = 'contextMenu' | 'toolbar' | 'layerColumn' | 'gridOverlay' | 'command';
+
+/**
+ * Payload of the plugin add and remove events
+ */
+export interface IPluginEvent {
+  name: string;
+  version: string;
+}
+
+// An installed plugin with the extensions it added
+interface IPluginEntry {
+  plugin: IPlugin;
+  contextMenuItems: { menu: 'frame' | 'layer'; getItems: ContextMenuProvider }[];
+  toolbarButtons: IToolbarButton[];
+  layerColumns: ILayerColumn[];
+  gridOverlays: IGridOverlay[];
+  commandIds: string[];
+}
+
+/**
+ * PluginManager
+ * Installs and removes plugins, checks their dependencies, runs their
+ * lifecycle hooks and collects the extensions they add to the UI
+ * Installed plugins are also listed in context.Plugins
+ */
+export class PluginManager {
+  private context: IJsTimeLineContext;
+  private entries: Map<string, IPluginEntry> = new Map();
+
+  constructor(context: IJsTimeLineContext) {
+    this.context = context;
+  }
+
+  /**
+   * Install plugins
+   * Plugins of the list are installed after the plugins they depend on;
+   * dependencies must be installed and satisfy the required version ranges
+   * Emits onPluginAdd event for each installed plugin
+   * @param plugins Plugins to install
+   * @returns true if every plugin was installed
+   */
+  public install(plugins: readonly IPlugin[]): boolean {
+    let installed = true;
+    for (const plugin of this.sortByDependencies(plugins)) {
+      installed = this.installPlugin(plugin) && installed;
+    }
+    return installed;
+  }
+
+  /**
+   * Remove a plugin and the extensions it added
+   * Emits onPluginRemove event
+   * @param name Plugin name
+   * @returns false if the plugin is not installed or other plugins depend on it
+   */
+  public remove(name: string): boolean {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      console.error(`Plugin "${name}" is not installed`);
+      return false;
+    }
+
+    const dependents = this.getPlugins().filter(plugin => plugin.dependencies && name in plugin.dependencies);
+    if (dependents.length > 0) {
+      console.error(`Plugin "${name}" is required by ${dependents.map(plugin => `"${plugin.name}"`).join(', ')}`);
+      return false;
+    }
+
+    this.context.batch(() => {
+      this.callHook(entry.plugin, 'destroy', () => entry.plugin.destroy?.());
+      this.removeEntry(entry);
+    });
+
+    const eventData = { name, version: entry.plugin.version };
+
+    // Emit onPluginRemove event (spec-style)
+    this.context.Core.eventManager.emit('onPluginRemove', eventData);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('plugin:removed', eventData);
+
+    return true;
+  }
+
+  /**
+   * Remove all plugins, dependents first, without checking dependencies
+   */
+  public destroy(): void {
+    const entries = [...this.entries.values()].reverse();
+    this.context.batch(() => {
+      for (const entry of entries) {
+        this.callHook(entry.plugin, 'destroy', () => entry.plugin.destroy?.());
+        this.removeEntry(entry);
+      }
+    });
+  }
+
+  /**
+   * Check if a plugin is installed
+   * @param name Plugin name
+   */
+  public has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Get an installed plugin
+   * @param name Plugin name
+   */
+  public get<T extends IPlugin = IPlugin>(name: string): T | undefined {
+    return this.entries.get(name)?.plugin as T | undefined;
+  }
+
+  /**
+   * Get the installed plugins in installation order
+   */
+  public getPlugins(): IPlugin[] {
+    return [...this.entries.values()].map(entry => entry.plugin);
+  }
+
+  /**
+   * Get the items plugins add to a context menu
+   * @param menu Frame or layer menu
+   * @param target Layer (and frame) the menu was opened on
+   */
+  public getContextMenuItems(menu: 'frame' | 'layer', target: ICommandContext): IMenuItem[] {
+    const items: IMenuItem[] = [];
+    for (const entry of this.entries.values()) {
+      for (const contribution of entry.contextMenuItems) {
+        if (contribution.menu === menu) {
+          this.callHook(entry.plugin, 'context menu items', () => items.push(...contribution.getItems(target)));
+        }
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Get the toolbar buttons added by plugins
+   */
+  public getToolbarButtons(): IToolbarButton[] {
+    return [...this.entries.values()].flatMap(entry => entry.toolbarButtons);
+  }
+
+  /**
+   * Get the layer panel columns added by plugins
+   */
+  public getLayerColumns(): ILayerColumn[] {
+    return [...this.entries.values()].flatMap(entry => entry.layerColumns);
+  }
+
+  /**
+   * Get the grid overlays added by plugins
+   */
+  public getGridOverlays(): IGridOverlay[] {
+    return [...this.entries.values()].flatMap(entry => entry.gridOverlays);
+  }
+
+  /**
+   * Run the beforeRender hooks
+   */
+  public beforeRender(change: IRenderChange): void {
+    for (const { plugin } of this.entries.values()) {
+      if (plugin.beforeRender) {
+        this.callHook(plugin, 'beforeRender', () => plugin.beforeRender!(change));
+      }
+    }
+  }
+
+  /**
+   * Run the afterRender hooks
+   */
+  public afterRender(change: IRenderChange): void {
+    for (const { plugin } of this.entries.values()) {
+      if (plugin.afterRender) {
+        this.callHook(plugin, 'afterRender', () => plugin.afterRender!(change));
+      }
+    }
+  }
+
+  /**
+   * Run the onDataLoaded hooks
+   */
+  public dataLoaded(): void {
+    const data = this.context.Data.getData();
+    for (const { plugin } of this.entries.values()) {
+      if (plugin.onDataLoaded) {
+        this.callHook(plugin, 'onDataLoaded', () => plugin.onDataLoaded!(data));
+      }
+    }
+  }
+
+  /**
+   * Save the state of the plugins in data.plugins (onSerialize hooks)
+   * Saved states of plugins that are not installed are kept
+   */
+  public serialize(): void {
+    const data = this.context.Data.getData() as ITimeLineData;
+    const states: { [pluginName: string]: unknown } = { ...data.plugins };
+
+    for (const { plugin } of this.entries.values()) {
+      if (plugin.onSerialize) {
+        this.callHook(plugin, 'onSerialize', () => {
+          const state = plugin.onSerialize!();
+          if (state === undefined) {
+            delete states[plugin.name];
+          } else {
+            states[plugin.name] = state;
+          }
+        });
+      }
+    }
+
+    if (Object.keys(states).length > 0) {
+      data.plugins = states;
+    } else {
+      delete data.plugins;
+    }
+  }
+
+  /**
+   * Give the plugins their state saved in data.plugins (onDeserialize hooks)
+   */
+  public deserialize(): void {
+    const states = this.context.Data.getData().plugins;
+    for (const { plugin } of this.entries.values()) {
+      if (plugin.onDeserialize) {
+        this.callHook(plugin, 'onDeserialize', () => plugin.onDeserialize!(states?.[plugin.name]));
+      }
+    }
+  }
+
+  /**
+   * Install a single plugin
+   */
+  private installPlugin(plugin: IPlugin): boolean {
+    if (!plugin || typeof plugin.name !== 'string' || !plugin.name || typeof plugin.initialize !== 'function') {
+      console.error('Invalid plugin: name and initialize are required');
+      return false;
+    }
+    if (!parseVersion(plugin.version)) {
+      console.error(`Invalid version "${plugin.version}" for plugin "${plugin.name}": expected "major.minor.patch"`);
+      return false;
+    }
+    if (this.entries.has(plugin.name)) {
+      console.error(`Plugin "${plugin.name}" is already installed`);
+      return false;
+    }
+
+    const dependencyError = this.getDependencyError(plugin);
+    if (dependencyError) {
+      console.error(`Cannot install plugin "${plugin.name}": ${dependencyError}`);
+      return false;
+    }
+
+    const entry: IPluginEntry = { plugin, contextMenuItems: [], toolbarButtons: [], layerColumns: [], gridOverlays: [], commandIds: [] };
+    this.entries.set(plugin.name, entry);
+    this.context.Plugins[plugin.name] = plugin;
+
+    const initialized = this.context.batch(() => {
+      try {
+        plugin.initialize(this.context, this.createHost(entry));
+      } catch (error) {
+        console.error(`Plugin "${plugin.name}" failed to initialize:`, error);
+        this.removeEntry(entry);
+        return false;
+      }
+
+      // Restore the state saved with the loaded data
+      const state = this.context.Data.getData().plugins?.[plugin.name];
+      if (state !== undefined && plugin.onDeserialize) {
+        this.callHook(plugin, 'onDeserialize', () => plugin.onDeserialize!(state));
+      }
+      return true;
+    });
+
+    if (!initialized) {
+      return false;
+    }
+
+    const eventData = { name: plugin.name, version: plugin.version };
+
+    // Emit onPluginAdd event (spec-style)
+    this.context.Core.eventManager.emit('onPluginAdd', eventData);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('plugin:added', eventData);
+
+    return true;
+  }
+
+  /**
+   * Check that the dependencies of a plugin are installed with a matching version
+   * @returns Why the dependencies are not met, or null if they are
+   */
+  private getDependencyError(plugin: IPlugin): string | null {
+    for (const [name, range] of Object.entries(plugin.dependencies || {})) {
+      if (!isValidVersionRange(range)) {
+        return `invalid version range "${range}" for dependency "${name}"`;
+      }
+
+      const dependency = this.entries.get(name)?.plugin;
+      if (!dependency) {
+        return `requires plugin "${name}" ${range}, which is not installed`;
+      }
+      if (!satisfiesVersion(dependency.version, range)) {
+        return `requires plugin "${name}" ${range}, but version ${dependency.version} is installed`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Order plugins so that dependencies in the list come before the plugins requiring them
+   * Plugins with missing or circular dependencies keep their place at the end, and fail to install
+   */
+  private sortByDependencies(plugins: readonly IPlugin[]): IPlugin[] {
+    const pending = [...plugins];
+    const sorted: IPlugin[] = [];
+    const isPending = (name: string) => pending.some(plugin => plugin?.name === name);
+
+    while (pending.length > 0) {
+      const index = pending.findIndex(plugin => !plugin?.dependencies || Object.keys(plugin.dependencies).every(name => !isPending(name)));
+      if (index === -1) {
+        sorted.push(...pending);
+        break;
+      }
+      sorted.push(...pending.splice(index, 1));
+    }
+
+    return sorted;
+  }
+
+  /**
+   * Create the extension points given to a plugin
+   */
+  private createHost(entry: IPluginEntry): IPluginHost {
+    return {
+      addContextMenuItems: (menu, getItems) => {
+        entry.contextMenuItems.push({ menu, getItems });
+        this.onExtensionsChange('contextMenu');
+      },
+      addToolbarButton: button => this.addExtension(entry.toolbarButtons, this.getToolbarButtons(), button, 'Toolbar button', 'toolbar'),
+      addLayerColumn: column => this.addExtension(entry.layerColumns, this.getLayerColumns(), column, 'Layer column', 'layerColumn'),
+      addGridOverlay: overlay => this.addExtension(entry.gridOverlays, this.getGridOverlays(), overlay, 'Grid overlay', 'gridOverlay'),
+      addCommand: (command: ICommand) => {
+        const commandRegistry = this.context.Core.commandRegistry;
+        if (!commandRegistry || !commandRegistry.register(command)) {
+          return false;
+        }
+        entry.commandIds.push(command.id);
+        this.onExtensionsChange('command');
+        return true;
+      },
+      getPlugin: <T extends IPlugin = IPlugin>(name: string) => this.get<T>(name)
+    };
+  }
+
+  /**
+   * Add an extension with an id unique among the extensions of its kind
+   */
+  private addExtension<T extends { id: string }>(list: T[], existing: T[], extension: T, kind: string, point: PluginExtensionPoint): boolean {
+    if (!extension || typeof extension.id !== 'string' || !extension.id) {
+      console.error(`${kind} must have an id`);
+      return false;
+    }
+    if (existing.some(item => item.id === extension.id)) {
+      console.error(`${kind} "${extension.id}" already exists`);
+      return false;
+    }
+
+    list.push(extension);
+    this.onExtensionsChange(point);
+    return true;
+  }
+
+  /**
+   * Forget a plugin and remove its extensions
+   */
+  private removeEntry(entry: IPluginEntry): void {
+    this.entries.delete(entry.plugin.name);
+    delete this.context.Plugins[entry.plugin.name];
+
+    for (const commandId of entry.commandIds) {
+      this.context.Core.commandRegistry?.unregister(commandId);
+    }
+
+    const points: [unknown[], PluginExtensionPoint][] = [
+      [entry.contextMenuItems, 'contextMenu'],
+      [entry.toolbarButtons, 'toolbar'],
+      [entry.layerColumns, 'layerColumn'],
+      [entry.gridOverlays, 'gridOverlay'],
+      [entry.commandIds, 'command']
+    ];
+    for (const [list, point] of points) {
+      if (list.length > 0) {
+        list.length = 0;
+        this.onExtensionsChange(point);
+      }
+    }
+  }
+
+  /**
+   * Redraw the UI showing an extension point
+   */
+  private onExtensionsChange(extension: PluginExtensionPoint): void {
+    if (extension === 'layerColumn') {
+      requestRender(this.context, { panel: true });
+    } else if (extension === 'gridOverlay') {
+      requestRender(this.context, { grid: true });
+    }
+    this.context.Core.eventManager.emit('plugin:extensionsChanged', { extension });
+  }
+
+  /**
+   * Run plugin code, reporting errors without interrupting the timeline
+   */
+  private callHook(plugin: IPlugin, hook: string, fn: () => void): void {
+    try {
+      fn();
+    } catch (error) {
+      console.error(`Plugin "${plugin.name}" failed in ${hook}:`, error);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+
+/**
+ * What a mutation changed, so that only the affected parts of the UI are redrawn
+ */
+export interface IRenderChange {
+  layerIds?: readonly string[];   // Layers whose grid rows changed
+  startFrame?: number;            // First changed frame on those layers (defaults to 1)
+  endFrame?: number;              // Last changed frame on those layers (defaults to the last frame)
+  grid?: boolean;                 // The whole grid needs a re-render (rows added, removed or moved)
+  panel?: boolean;                // The layer panel needs a re-render
+  ruler?: boolean;                // The time ruler needs a re-render
+}
+
+/**
+ * Changed frames of a grid row
+ */
+export interface IRowChange {
+  startFrame: number;
+  endFrame: number;
+}
+
+/**
+ * Payload of the render:requested event: the merged changes views should redraw
+ */
+export interface IRenderEvent {
+  grid: boolean;                              // The whole grid needs a re-render
+  panel: boolean;                             // The layer panel needs a re-render
+  ruler: boolean;                             // The time ruler needs a re-render
+  rows: ReadonlyMap<string, IRowChange>;      // Changed frames of grid rows, by layer
+}
+
+/**
+ * RenderScheduler
+ * Collects the changes reported by mutations and emits them to the views
+ * (render:requested event): changes made inside batch() are merged into a
+ * single render when the batch ends. The core knows nothing about the DOM;
+ * the timeline control is one view, and headless hosts may have none
+ */
+export class RenderScheduler {
+  private context: ITimelineCoreContext;
+  private batchDepth: number = 0;
+  private pendingRows: Map<string, IRowChange> = new Map();
+  private pendingGrid: boolean = false;
+  private pendingPanel: boolean = false;
+  private pendingRuler: boolean = false;
+
+  constructor(context: ITimelineCoreContext) {
+    this.context = context;
+  }
+
+  /**
+   * Report a change; it is rendered immediately, or when the current batch ends
+   * @param change What changed
+   */
+  public invalidate(change: IRenderChange): void {
+    this.pendingGrid = this.pendingGrid || !!change.grid;
+    this.pendingPanel = this.pendingPanel || !!change.panel;
+    this.pendingRuler = this.pendingRuler || !!change.ruler;
+
+    const startFrame = change.startFrame ?? 1;
+    const endFrame = change.endFrame ?? Infinity;
+    for (const layerId of change.layerIds || []) {
+      const pending = this.pendingRows.get(layerId);
+      this.pendingRows.set(layerId, pending
+        ? { startFrame: Math.min(pending.startFrame, startFrame), endFrame: Math.max(pending.endFrame, endFrame) }
+        : { startFrame, endFrame });
+    }
+
+    if (this.batchDepth === 0) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Run several mutations and render their changes once at the end
+   * Nested batches are merged into the outermost one
+   * @param fn Function performing the mutations
+   * @returns The return value of fn
+   */
+  public batch<T>(fn: () => T): T {
+    this.batchDepth++;
+    try {
+      return fn();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        this.flush();
+      }
+    }
+  }
+
+  /**
+   * Check if a batch is in progress
+   */
+  public isBatching(): boolean {
+    return this.batchDepth > 0;
+  }
+
+  /**
+   * Emit the pending changes to the views
+   */
+  public flush(): void {
+    const event: IRenderEvent = { grid: this.pendingGrid, panel: this.pendingPanel, ruler: this.pendingRuler, rows: this.pendingRows };
+    this.pendingRows = new Map();
+    this.pendingGrid = false;
+    this.pendingPanel = false;
+    this.pendingRuler = false;
+
+    if (!event.grid && !event.panel && !event.ruler && event.rows.size === 0) {
+      return;
+    }
+
+    this.context.Core.eventManager.emit('render:requested', event);
+  }
+}
+
+/**
+ * Report a change to the render scheduler, or emit it to the views right
+ * away when the context has no scheduler
+ * @param context Timeline context
+ * @param change What changed
+ */
+export function requestRender(context: ITimelineCoreContext, change: IRenderChange): void {
+  const renderScheduler = context.Core.renderScheduler;
+  if (renderScheduler) {
+    renderScheduler.invalidate(change);
+    return;
+  }
+
+  const startFrame = change.startFrame ?? 1;
+  const endFrame = change.endFrame ?? Infinity;
+  context.Core.eventManager.emit('render:requested', {
+    grid: !!change.grid,
+    panel: !!change.panel,
+    ruler: !!change.ruler,
+    rows: new Map((change.layerIds || []).map(layerId => [layerId, { startFrame, endFrame }]))
+  });
+}
@@ -1,15 +1,25 @@
-import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { ILayer } from '../data/ITimeLineData';
+
+/**
+ * How selectCells() combines frames with the current selection
+ * - replace: select only the given frames
+ * - add: add the given frames to the selection
+ * - subtract: remove the given frames from the selection
+ */
+export type SelectionMode = 'replace' | 'add' | 'subtract';
 
 /**
  * SelectionManager
  * Manages selection of frames and keyframes in the timeline
  */
 export class SelectionManager {
-  private context: IJsTimeLineContext;
+  private context: ITimelineCoreContext;
   private selectedFrames: Set<string> = new Set();
   private lastSelectedFrame: string | null = null;
+  private activeLayerId: string | null = null;
 
-  constructor(context: IJsTimeLineContext) {
+  constructor(context: ITimelineCoreContext) {
     this.context = context;
   }
 
@@ -89,6 +99,46 @@ export class SelectionManager {
     this.emitSelectionChange();
   }
 
+  /**
+   * Select a set of frames at once (for marquee selection)
+   * Emits a single selection change event
+   * @param frameIds Frame IDs (layerId:frameNumber)
+   * @param mode How the frames are combined with the current selection (default: replace)
+   */
+  public selectCells(frameIds: readonly string[], mode: SelectionMode = 'replace'): void {
+    this.selectedFrames = new Set(this.getSelectionWith(frameIds, mode));
+
+    if (mode !== 'subtract' && frameIds.length > 0) {
+      this.lastSelectedFrame = frameIds[frameIds.length - 1];
+    } else if (this.lastSelectedFrame && !this.selectedFrames.has(this.lastSelectedFrame)) {
+      this.lastSelectedFrame = null;
+    }
+
+    this.emitSelectionChange();
+  }
+
+  /**
+   * Get the selection selectCells() would produce, without changing it
+   * Used to preview a marquee selection while it is being dragged
+   * @param frameIds Frame IDs (layerId:frameNumber)
+   * @param mode How the frames are combined with the current selection
+   */
+  public getSelectionWith(frameIds: readonly string[], mode: SelectionMode): string[] {
+    if (mode === 'replace') {
+      return Array.from(new Set(frameIds));
+    }
+
+    const selection = new Set(this.selectedFrames);
+    for (const frameId of frameIds) {
+      if (mode === 'add') {
+        selection.add(frameId);
+      } else {
+        selection.delete(frameId);
+      }
+    }
+    return Array.from(selection);
+  }
+
   /**
    * Get all selected frame IDs
    */
@@ -118,6 +168,85 @@ export class SelectionManager {
     return this.selectedFrames.size;
   }
 
+  /**
+   * Make a layer or folder the active layer, the target of keyboard shortcuts
+   * Emits onLayerSelect event when the active layer changes
+   * @param layerId ID of the layer, or null for no active layer
+   * @returns true if set, false if the layer does not exist
+   */
+  public setActiveLayer(layerId: string | null): boolean {
+    if (layerId !== null && !this.findLayer(this.context.Data.getData().layers, layerId)) {
+      console.error(`Layer ${layerId} not found`);
+      return false;
+    }
+    if (layerId === this.activeLayerId) {
+      return true;
+    }
+
+    this.activeLayerId = layerId;
+
+    // Emit onLayerSelect event (spec-compliant)
+    this.context.Core.eventManager.emit('onLayerSelect', { layerId });
+
+    // Also emit legacy event for backward compatibility
+    this.context.Core.eventManager.emit('layer:selected', { layerId });
+    return true;
+  }
+
+  /**
+   * Get the active layer
+   * @returns The ID of the active layer or folder, or null if there is none or it was deleted
+   */
+  public getActiveLayerId(): string | null {
+    if (this.activeLayerId && !this.findLayer(this.context.Data.getData().layers, this.activeLayerId)) {
+      this.activeLayerId = null;
+    }
+    return this.activeLayerId;
+  }
+
+  /**
+   * Get the layer that frame edits from keyboard shortcuts apply to: the active
+   * layer, or the first layer when no layer is active
+   * @returns The layer ID, or null if the active layer is a folder or there are no layers
+   */
+  public getTargetLayerId(): string | null {
+    const layers = this.context.Data.getData().layers;
+    const activeLayerId = this.getActiveLayerId();
+    if (activeLayerId) {
+      return this.findLayer(layers, activeLayerId)!.type === 'layer' ? activeLayerId : null;
+    }
+    return this.findFirstLayer(layers)?.id ?? null;
+  }
+
+  /**
+   * Find a layer or folder by ID recursively
+   */
+  private findLayer(layers: readonly ILayer[], layerId: string): ILayer | null {
+    for (const layer of layers) {
+      if (layer.id === layerId) {
+        return layer;
+      }
+      const found = layer.children ? this.findLayer(layer.children, layerId) : null;
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the first layer (not folder) in tree order
+   */
+  private findFirstLayer(layers: readonly ILayer[]): ILayer | null {
+    for (const layer of layers) {
+      const found = layer.type === 'layer' ? layer : this.findFirstLayer(layer.children || []);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
   /**
    * Emit selection change event
    * Emits onKeyframeSelect event (spec-compliant) and legacy selection:changed event
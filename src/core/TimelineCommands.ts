@@ -0,0 +1,448 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ILayer } from '../data/ITimeLineData';
+import { ICommand, ICommandContext } from './CommandRegistry';
+
+/**
+ * Find a layer or folder by ID
+ */
+function findLayer(layers: readonly ILayer[], layerId: string): ILayer | null {
+  for (const layer of layers) {
+    if (layer.id === layerId) {
+      return layer;
+    }
+    if (layer.children) {
+      const found = findLayer(layer.children, layerId);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the built-in timeline commands
+ * Frame commands apply to the layer and frame of the command context, by default
+ * the active layer at the playhead; layer commands apply to the layer of the
+ * command context, by default the active layer
+ * @param context Timeline context
+ */
+export function createTimelineCommands(context: IJsTimeLineContext): ICommand[] {
+  const core = context.Core;
+
+  // Run several mutations as a single undo step
+  const record = (label: string, fn: () => void): void => {
+    context.batch(() => core.historyManager ? core.historyManager.transact(label, fn) : fn());
+  };
+
+  // Layer and frame a frame command applies to
+  const getFrameTarget = (ctx: ICommandContext): { layerId: string; frame: number } | null => {
+    const layerId = ctx.layerId ?? core.selectionManager?.getTargetLayerId() ?? null;
+    if (!layerId) {
+      return null;
+    }
+    return { layerId, frame: ctx.frame ?? core.playbackEngine?.getCurrentFrame() ?? 1 };
+  };
+
+  // Layer a layer command applies to
+  const getLayer = (ctx: ICommandContext): ILayer | null => {
+    const layerId = ctx.layerId ?? core.selectionManager?.getActiveLayerId() ?? null;
+    return layerId ? findLayer(context.Data.getData().layers, layerId) : null;
+  };
+
+  const hasKeyframeAt = (ctx: ICommandContext): boolean => {
+    const target = getFrameTarget(ctx);
+    if (!target) return false;
+    const layer = findLayer(context.Data.getData().layers, target.layerId);
+    return !!layer?.keyframes?.some(kf => kf.frame === target.frame);
+  };
+
+  const getTweenAt = (ctx: ICommandContext) => {
+    const target = getFrameTarget(ctx);
+    const tween = target ? core.tweenManager?.getTweenAtFrame(target.layerId, target.frame) ?? null : null;
+    return tween && target ? { layerId: target.layerId, tween } : null;
+  };
+
+  // The two selected keyframes of a layer a motion tween can be created between
+  const getTweenRange = (): { layerId: string; startFrame: number; endFrame: number } | null => {
+    const selectedFrames = core.selectionManager?.getSelectedFrames() ?? [];
+    if (selectedFrames.length !== 2) return null;
+
+    const [layerId1, frame1Str] = selectedFrames[0].split(':');
+    const [layerId2, frame2Str] = selectedFrames[1].split(':');
+    if (layerId1 !== layerId2) return null;
+
+    const frame1 = parseInt(frame1Str, 10);
+    const frame2 = parseInt(frame2Str, 10);
+    const startFrame = Math.min(frame1, frame2);
+    const endFrame = Math.max(frame1, frame2);
+    const keyframes = findLayer(context.Data.getData().layers, layerId1)?.keyframes ?? [];
+    if (!keyframes.some(kf => kf.frame === startFrame) || !keyframes.some(kf => kf.frame === endFrame)) {
+      return null;
+    }
+    return { layerId: layerId1, startFrame, endFrame };
+  };
+
+  // Run a frame edit on the target layer
+  const editFrame = (ctx: ICommandContext, edit: (layerId: string, frame: number) => void): boolean => {
+    const target = getFrameTarget(ctx);
+    if (!core.keyframeManager) {
+      return false;
+    }
+    if (!target) {
+      console.warn('No layer to edit: select a layer');
+      return false;
+    }
+    edit(target.layerId, target.frame);
+    return true;
+  };
+
+  // Apply a change to all layers and folders except one, as a single undo step
+  const forOtherLayers = (label: string, excludeLayerId: string, change: (layer: ILayer) => void): void => {
+    const changeRecursive = (layers: readonly ILayer[]) => {
+      layers.forEach(layer => {
+        if (layer.id !== excludeLayerId) {
+          change(layer);
+        }
+        if (layer.children) {
+          changeRecursive(layer.children);
+        }
+      });
+    };
+    record(label, () => changeRecursive(context.Data.getData().layers));
+  };
+
+  const hasSelection = () => (core.selectionManager?.getSelectionCount() ?? 0) > 0;
+  const hasPlayback = () => !!core.playbackEngine;
+
+  return [
+    // Edit
+    {
+      id: 'undo',
+      label: 'Undo',
+      category: 'Edit',
+      edits: true,
+      isEnabled: () => core.historyManager?.canUndo() ?? false,
+      run: () => core.historyManager!.undo()
+    },
+    {
+      id: 'redo',
+      label: 'Redo',
+      category: 'Edit',
+      edits: true,
+      isEnabled: () => core.historyManager?.canRedo() ?? false,
+      run: () => core.historyManager!.redo()
+    },
+    {
+      id: 'copy',
+      label: 'Copy Frames',
+      category: 'Edit',
+      isEnabled: ctx => !!core.keyframeManager && (hasSelection() || hasKeyframeAt(ctx)),
+      run: ctx => {
+        if (hasSelection()) {
+          core.keyframeManager!.copyKeyframes(core.selectionManager!.getSelectedFrames());
+        } else {
+          const target = getFrameTarget(ctx)!;
+          core.keyframeManager!.copyKeyframes([`${target.layerId}:${target.frame}`]);
+        }
+      }
+    },
+    {
+      id: 'paste',
+      label: 'Paste Frames',
+      category: 'Edit',
+      edits: true,
+      isEnabled: () => {
+        const clipboard = core.stateManager.get('clipboard_keyframes');
+        return Array.isArray(clipboard) && clipboard.length > 0;
+      },
+      run: ctx => editFrame(ctx, (layerId, frame) => {
+        core.keyframeManager!.pasteKeyframes(layerId, frame);
+      })
+    },
+    {
+      id: 'deleteSelection',
+      label: 'Delete Selected Frames',
+      category: 'Edit',
+      edits: true,
+      isEnabled: () => !!core.keyframeManager && hasSelection(),
+      run: () => {
+        const selectedFrames = core.selectionManager!.getSelectedFrames();
+
+        // Group selected frames by layer into the range to delete
+        const rangeByLayer = new Map<string, { start: number; end: number }>();
+        selectedFrames.forEach(frameId => {
+          const [layerId, frameStr] = frameId.split(':');
+          const frame = parseInt(frameStr, 10);
+          const range = rangeByLayer.get(layerId);
+          if (range) {
+            range.start = Math.min(range.start, frame);
+            range.end = Math.max(range.end, frame);
+          } else {
+            rangeByLayer.set(layerId, { start: frame, end: frame });
+          }
+        });
+
+        record('Delete Frames', () => {
+          rangeByLayer.forEach((range, layerId) => {
+            core.keyframeManager!.deleteFrames(layerId, range.start, range.end);
+          });
+        });
+
+        core.selectionManager!.clearSelection();
+        console.log(`Deleted ${selectedFrames.length} selected frames`);
+      }
+    },
+
+    // Playback
+    {
+      id: 'togglePlayback',
+      label: 'Play / Pause',
+      category: 'Playback',
+      isEnabled: hasPlayback,
+      run: () => {
+        core.playbackEngine!.togglePlayPause();
+      }
+    },
+    {
+      id: 'stop',
+      label: 'Stop',
+      category: 'Playback',
+      isEnabled: hasPlayback,
+      run: () => {
+        core.playbackEngine!.stop();
+      }
+    },
+    {
+      id: 'previousFrame',
+      label: 'Previous Frame',
+      category: 'Playback',
+      isEnabled: hasPlayback,
+      run: () => {
+        core.playbackEngine!.goToFrame(Math.max(1, core.playbackEngine!.getCurrentFrame() - 1));
+      }
+    },
+    {
+      id: 'nextFrame',
+      label: 'Next Frame',
+      category: 'Playback',
+      isEnabled: hasPlayback,
+      run: () => {
+        const totalFrames = context.Data.getData().settings.totalFrames;
+        core.playbackEngine!.goToFrame(Math.min(totalFrames, core.playbackEngine!.getCurrentFrame() + 1));
+      }
+    },
+    {
+      id: 'toggleOnionSkin',
+      label: 'Toggle Onion Skin',
+      category: 'Playback',
+      isEnabled: () => !!core.onionSkinManager,
+      run: () => {
+        core.onionSkinManager!.setEnabled(!core.onionSkinManager!.isEnabled());
+      }
+    },
+
+    // Frames
+    {
+      id: 'insertFrame',
+      label: 'Insert Frame',
+      category: 'Frames',
+      edits: true,
+      run: ctx => editFrame(ctx, (layerId, frame) => {
+        core.keyframeManager!.insertFrame(layerId, frame);
+      })
+    },
+    {
+      id: 'deleteFrame',
+      label: 'Delete Frame',
+      category: 'Frames',
+      edits: true,
+      run: ctx => editFrame(ctx, (layerId, frame) => {
+        core.keyframeManager!.deleteFrames(layerId, frame, frame);
+      })
+    },
+    {
+      id: 'insertKeyframe',
+      label: 'Insert Keyframe',
+      category: 'Frames',
+      edits: true,
+      run: ctx => editFrame(ctx, (layerId, frame) => {
+        core.keyframeManager!.insertKeyframe(layerId, frame);
+      })
+    },
+    {
+      id: 'insertBlankKeyframe',
+      label: 'Insert Blank Keyframe',
+      category: 'Frames',
+      edits: true,
+      run: ctx => editFrame(ctx, (layerId, frame) => {
+        core.keyframeManager!.insertBlankKeyframe(layerId, frame);
+      })
+    },
+    {
+      id: 'clearKeyframe',
+      label: 'Clear Keyframe',
+      category: 'Frames',
+      edits: true,
+      isEnabled: hasKeyframeAt,
+      run: ctx => editFrame(ctx, (layerId, frame) => {
+        core.keyframeManager!.deleteKeyframe(layerId, frame);
+      })
+    },
+
+    // Tweens
+    {
+      id: 'createMotionTween',
+      label: 'Create Motion Tween',
+      category: 'Tweens',
+      edits: true,
+      isEnabled: () => !!core.tweenManager && getTweenRange() !== null,
+      run: () => {
+        const range = getTweenRange()!;
+        return core.tweenManager!.createMotionTween(range.layerId, range.startFrame, range.endFrame);
+      }
+    },
+    {
+      id: 'tweenProperties',
+      label: 'Tween Properties...',
+      category: 'Tweens',
+      edits: true,
+      isEnabled: ctx => !!context.UI.tweenPropertiesDialog && getTweenAt(ctx) !== null,
+      run: ctx => {
+        const { layerId, tween } = getTweenAt(ctx)!;
+        context.UI.tweenPropertiesDialog.show(layerId, tween, (_layerId: string, updatedTween: typeof tween) => {
+          core.tweenManager!.updateTween(layerId, tween, updatedTween);
+        });
+      }
+    },
+    {
+      id: 'removeMotionTween',
+      label: 'Remove Motion Tween',
+      category: 'Tweens',
+      edits: true,
+      isEnabled: ctx => getTweenAt(ctx) !== null,
+      run: ctx => {
+        const { layerId, tween } = getTweenAt(ctx)!;
+        return core.tweenManager!.removeTween(layerId, tween.startFrame, tween.endFrame);
+      }
+    },
+
+    // Layers
+    {
+      id: 'insertLayer',
+      label: 'Insert Layer',
+      category: 'Layers',
+      edits: true,
+      isEnabled: () => !!core.layerManager,
+      run: ctx => {
+        core.layerManager!.addLayer('New Layer', getLayer(ctx)?.id);
+      }
+    },
+    {
+      id: 'insertFolder',
+      label: 'Insert Folder',
+      category: 'Layers',
+      edits: true,
+      isEnabled: () => !!core.layerManager,
+      run: ctx => {
+        core.layerManager!.addFolder('New Folder', getLayer(ctx)?.id);
+      }
+    },
+    {
+      id: 'deleteLayer',
+      label: 'Delete Layer',
+      category: 'Layers',
+      edits: true,
+      isEnabled: ctx => !!core.layerManager && getLayer(ctx) !== null,
+      run: ctx => {
+        const layer = getLayer(ctx)!;
+        if (!confirm(`Delete layer "${layer.name}"?`)) {
+          return false;
+        }
+        return core.layerManager!.deleteObject(layer.id);
+      }
+    },
+    {
+      id: 'renameLayer',
+      label: 'Rename Layer',
+      category: 'Layers',
+      edits: true,
+      isEnabled: ctx => !!context.UI.layerPanel?.renameLayer && getLayer(ctx) !== null,
+      run: ctx => context.UI.layerPanel.renameLayer(getLayer(ctx)!.id)
+    },
+    {
+      id: 'toggleOthersVisibility',
+      label: 'Show/Hide Others',
+      category: 'Layers',
+      edits: true,
+      isEnabled: ctx => !!core.layerManager && getLayer(ctx) !== null,
+      run: ctx => {
+        forOtherLayers('Show/Hide Others', getLayer(ctx)!.id, layer => {
+          core.layerManager!.toggleVisibility(layer.id);
+        });
+      }
+    },
+    {
+      id: 'lockOthers',
+      label: 'Lock Others',
+      category: 'Layers',
+      edits: true,
+      isEnabled: ctx => !!core.layerManager && getLayer(ctx) !== null,
+      run: ctx => {
+        forOtherLayers('Lock Others', getLayer(ctx)!.id, layer => {
+          if (!layer.locked) {
+            core.layerManager!.toggleLock(layer.id);
+          }
+        });
+      }
+    },
+
+    // View
+    {
+      id: 'zoomIn',
+      label: 'Zoom In',
+      category: 'View',
+      isEnabled: () => !!core.zoomManager,
+      run: () => core.zoomManager!.zoomIn()
+    },
+    {
+      id: 'zoomOut',
+      label: 'Zoom Out',
+      category: 'View',
+      isEnabled: () => !!core.zoomManager,
+      run: () => core.zoomManager!.zoomOut()
+    },
+    {
+      id: 'zoomToFit',
+      label: 'Zoom to Fit',
+      category: 'View',
+      isEnabled: () => !!core.zoomManager,
+      run: () => core.zoomManager!.zoomToFit()
+    },
+    {
+      id: 'zoomToSelection',
+      label: 'Zoom to Selection',
+      category: 'View',
+      isEnabled: () => !!core.zoomManager && hasSelection(),
+      run: () => core.zoomManager!.zoomToSelection()
+    },
+    {
+      id: 'showCommandPalette',
+      label: 'Show Command Palette',
+      category: 'View',
+      isEnabled: () => !!context.UI.commandPalette,
+      run: () => {
+        context.UI.commandPalette.open();
+      }
+    }
+  ];
+}
+
+/**
+ * Register the built-in timeline commands
+ * @param context Timeline context with a CommandRegistry
+ */
+export function registerTimelineCommands(context: IJsTimeLineContext): void {
+  const commandRegistry = context.Core.commandRegistry;
+  if (!commandRegistry) return;
+
+  createTimelineCommands(context).forEach(command => commandRegistry.register(command));
+}
@@ -0,0 +1,84 @@
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { ITimeLineData, ITimeLineSettings } from '../data/ITimeLineData';
+import { TimeLineData } from '../data/TimelineData';
+import { EventManager } from './EventManager';
+import { StateManager } from './StateManager';
+import { RenderScheduler } from './RenderScheduler';
+import { PlaybackEngine, IPlaybackClock } from './PlaybackEngine';
+import { LayerManager } from './LayerManager';
+import { SelectionManager } from './SelectionManager';
+import { KeyframeManager } from './KeyframeManager';
+import { TweenManager } from './TweenManager';
+import { LabelManager } from './LabelManager';
+import { ActionManager } from './ActionManager';
+import { OnionSkinManager } from './OnionSkinManager';
+import { HistoryManager } from './HistoryManager';
+import { EasingRegistry } from './EasingRegistry';
+import { InterpolationEngine } from './InterpolationEngine';
+
+/**
+ * Options of createTimelineCore()
+ */
+export interface ITimelineCoreOptions {
+  data?: ITimeLineData;                     // Initial data (optional, default an empty timeline); copied, not shared
+  settings?: Partial<ITimeLineSettings>;    // Overrides of the initial data settings (optional)
+  clock?: IPlaybackClock;                   // Time source of the playback engine (optional)
+}
+
+/**
+ * Build the timeline model without any UI: the data, the core managers and
+ * the playback engine. Changes are reported with the render:requested event
+ * for views to redraw; the DOM control is built on top of this core
+ * @param options Initial data, settings overrides and playback clock
+ * @returns The core context
+ * @throws Error if the data is invalid
+ */
+export function createTimelineCore(options: ITimelineCoreOptions = {}): ITimelineCoreContext {
+  const context: ITimelineCoreContext = {
+    Core: {
+      eventManager: new EventManager(),
+      stateManager: new StateManager()
+    },
+    Data: new TimeLineData(),
+    Plugins: {},
+    batch: <T>(fn: () => T): T => {
+      const renderScheduler = context.Core.renderScheduler;
+      return renderScheduler ? renderScheduler.batch(fn) : fn();
+    }
+  };
+
+  // The initial data is validated like imported data
+  if (options.data || options.settings) {
+    const data = options.data ?? context.Data.getData();
+    const settings = { ...data.settings, ...options.settings };
+    context.Data.fromJSON(JSON.stringify({ ...data, settings }));
+  }
+
+  const core = context.Core;
+
+  // RenderScheduler (batches the changes reported to the views)
+  core.renderScheduler = new RenderScheduler(context);
+
+  // PlaybackEngine
+  core.playbackEngine = new PlaybackEngine(context, options.clock);
+
+  // Layer, selection, keyframe, tween, label and frame action managers
+  core.layerManager = new LayerManager(context);
+  core.selectionManager = new SelectionManager(context);
+  core.keyframeManager = new KeyframeManager(context);
+  core.tweenManager = new TweenManager(context);
+  core.labelManager = new LabelManager(context);
+  core.actionManager = new ActionManager(context);
+
+  // OnionSkinManager (ghost frames around the playhead)
+  core.onionSkinManager = new OnionSkinManager(context);
+
+  // HistoryManager (undo/redo for all manager mutations)
+  core.historyManager = new HistoryManager(context);
+
+  // EasingRegistry and InterpolationEngine (layer values at any frame)
+  core.easingRegistry = new EasingRegistry(context);
+  core.interpolationEngine = new InterpolationEngine(context);
+
+  return context;
+}
@@ -0,0 +1,181 @@
+import { IFrameAction, IFrameLabel, ILayer, IPlaybackRange, IKeyframeValues, ITween, LoopMode } from '../data/ITimeLineData';
+import { ITweenIssue } from '../data/TweenIntegrity';
+import { ICancellableEvent } from './EventManager';
+import { ICommandExecuteEvent } from './CommandRegistry';
+import { IHistoryState } from './HistoryManager';
+import { ILayerState } from './InterpolationEngine';
+import { IKeyframeMove, IKeyframeMoveReport } from './KeyframeManager';
+import { IKeymapChangeEvent } from './KeymapManager';
+import { IOnionSkinInfo } from './OnionSkinManager';
+import { IPluginEvent, PluginExtensionPoint } from './PluginManager';
+import { IRenderEvent } from './RenderScheduler';
+import { IZoomChangeEvent } from './ZoomManager';
+
+/**
+ * Payload of the onFrameEnter event
+ */
+export interface IFrameEnterEvent {
+  currentFrame: number;
+  keyframeIdsOnFrame: string[];     // Keyframes on the frame ("kf-layerId-frame")
+  layerStates: ILayerState[];       // Interpolated values of the visible layers
+  elapsedTime: number;              // Playback time in milliseconds
+  fps: number;                      // Measured frame rate
+  droppedFrames: number;            // Frames skipped since the previous rendered frame
+  playbackRate: number;
+}
+
+/**
+ * Payload of the onPlaybackRangeEnd event
+ */
+export interface IPlaybackRangeEndEvent {
+  frame: number;
+  start: number;
+  end: number;
+  loopMode: LoopMode;
+  reversed: boolean;
+}
+
+/**
+ * Payload of the onHistoryChange event
+ */
+export interface IHistoryChangeEvent extends IHistoryState {
+  action: 'record' | 'undo' | 'redo' | 'clear' | 'trim';
+  label: string | null;             // Label of the recorded, undone or redone operation
+}
+
+/**
+ * Payload of the tween add and remove events
+ */
+export interface ITweenRangeEvent {
+  layerId: string;
+  startFrame: number;
+  endFrame: number;
+}
+
+/**
+ * Events emitted by the timeline, by name, with their payloads
+ * Spec events are named onXxx; legacy events are namespaced (e.g. "keyframe:added")
+ * and can be subscribed to by namespace (e.g. "keyframe:*").
+ * Hosts emitting events of their own, such as the events of "emit" frame actions,
+ * can add them by augmenting this interface.
+ */
+export interface TimelineEventMap {
+  // Layers and folders
+  onObjectAdd: { id: string; type: 'layer' | 'folder'; parentId: string | null };
+  onBeforeObjectDelete: ICancellableEvent<{ ids: string[] }>;
+  onObjectDelete: { ids: string[] };
+  onObjectRename: { id: string; oldName: string; newName: string };
+  onObjectReorder: { id: string; oldIndex: number; newIndex: number };
+  onObjectReparent: { id: string; newParentId: string | null; oldParentId: string | null };
+  onObjectVisibilityChange: { id: string; isVisible: boolean | undefined };
+  onObjectLockChange: { id: string; isLocked: boolean | undefined };
+  onLayerSelect: { layerId: string | null };
+  'layer:added': { layer: ILayer };
+  'folder:added': { folder: ILayer };
+  'folder:toggled': { id: string; collapsed: boolean };
+  'layer:deleted': { id: string; object: ILayer };
+  'layer:renamed': { id: string; oldName: string; newName: string };
+  'layer:reordered': { id: string; oldIndex: number; newIndex: number };
+  'layer:reparented': { id: string; newParentId: string | null };
+  'layer:visibilityChanged': { id: string; visible: boolean | undefined };
+  'layer:lockChanged': { id: string; locked: boolean | undefined };
+  'layer:selected': { layerId: string | null };
+
+  // Keyframes and frames
+  onKeyframeAdd: { id: string; layerId: string; frame: number; type: 'content' | 'blank' };
+  onBeforeKeyframeDelete: ICancellableEvent<{ ids: string[] }>;
+  onKeyframeDelete: { ids: string[] };
+  onKeyframeMove: { moves: IKeyframeMove[]; report: IKeyframeMoveReport };
+  onKeyframeValuesChange: { id: string; layerId: string; frame: number; values: IKeyframeValues };
+  onKeyframeSelect: { selectedIds: string[] };
+  'keyframe:added': { layerId: string; frame: number; isEmpty: boolean };
+  'keyframe:deleted': { layerId: string; frame: number };
+  'keyframe:valuesChanged': { layerId: string; frame: number; values: IKeyframeValues };
+  'keyframes:moved': { frameIds: string[]; targetLayerId: string; targetFrame: number; frameOffset: number; layerOffset: number };
+  'keyframes:copied': { count: number };
+  'keyframes:pasted': { targetLayerId: string; targetFrame: number; count: number };
+  'frame:inserted': { layerId: string; frame: number };
+  'frames:deleted': { layerId: string; frameStart: number; frameEnd: number };
+  'selection:changed': { selectedFrames: string[]; count: number };
+
+  // Tweens
+  onTweenAdd: ITweenRangeEvent & { type: 'motion' };
+  onTweenRemove: ITweenRangeEvent;
+  onTweenUpdate: { layerId: string; oldTween: ITween; newTween: ITween };
+  onTweensRepair: { issues: ITweenIssue[] };
+  'tween:added': ITweenRangeEvent & { type?: string };   // type is the easing
+  'tween:removed': ITweenRangeEvent;
+  'tween:updated': { layerId: string; tween: ITween };
+  'tweens:repaired': { issues: ITweenIssue[] };
+
+  // Labels
+  onLabelAdd: IFrameLabel;
+  onLabelRemove: IFrameLabel;
+  onLabelUpdate: { oldLabel: IFrameLabel; newLabel: IFrameLabel };
+  'label:added': IFrameLabel;
+  'label:removed': IFrameLabel;
+  'label:updated': { oldLabel: IFrameLabel; newLabel: IFrameLabel };
+
+  // Frame actions
+  onFrameActionsChange: { layerId: string; frame: number; actions: IFrameAction[] };
+  onFrameAction: { frame: number; layerId: string; action: IFrameAction };
+  'actions:changed': { layerId: string; frame: number; actions: IFrameAction[] };
+  'action:executed': { frame: number; layerId: string; action: IFrameAction };
+
+  // Playback
+  onPlaybackStart: { currentFrame: number };
+  onPlaybackPause: { currentFrame: number };
+  onFrameEnter: IFrameEnterEvent;
+  onTimeSeek: { currentFrame: number };
+  onLabelEnter: { name: string; frame: number };
+  onPlaybackRangeChange: IPlaybackRange & { isCustom: boolean };
+  onPlaybackRangeEnd: IPlaybackRangeEndEvent;
+  onPlaybackRateChange: { playbackRate: number };
+  'playback:started': { frame: number };
+  'playback:paused': { frame: number };
+  'playback:stopped': { frame: number };
+  'playback:frameEnter': { frame: number };
+  'playback:frameChanged': { frame: number };
+  'playback:positionChanged': { frame: number };
+  'playback:labelEnter': { name: string; frame: number };
+  'playback:loop': { frame: number };
+  'playback:rangeChanged': IPlaybackRange & { isCustom: boolean };
+  'playback:rangeEnd': IPlaybackRangeEndEvent;
+  'playback:rateChanged': { playbackRate: number };
+  'playhead:moved': { frame: number };
+
+  // Easings, onion skin, zoom, keymap and commands
+  onEasingRegister: { name: string };
+  onEasingUnregister: { name: string };
+  onOnionSkinChange: IOnionSkinInfo;
+  onZoomChange: IZoomChangeEvent;
+  onKeymapChange: IKeymapChangeEvent;
+  onCommandExecute: ICommandExecuteEvent;
+  'easing:registered': { name: string };
+  'easing:unregistered': { name: string };
+  'onionSkin:changed': IOnionSkinInfo;
+  'zoom:changed': IZoomChangeEvent;
+  'keymap:changed': IKeymapChangeEvent;
+  'command:executed': ICommandExecuteEvent;
+
+  // Plugins
+  onPluginAdd: IPluginEvent;
+  onPluginRemove: IPluginEvent;
+  'plugin:added': IPluginEvent;
+  'plugin:removed': IPluginEvent;
+  'plugin:extensionsChanged': { extension: PluginExtensionPoint };
+
+  // History
+  onHistoryChange: IHistoryChangeEvent;
+  'history:changed': IHistoryChangeEvent;
+
+  // Rendering (views redraw what changed)
+  'render:requested': IRenderEvent;
+
+  // Timeline view and data
+  'timeline:scroll': { scrollLeft: number; scrollTop: number };
+  'timeline:resized': { width: number; height: number };
+  'timeline:panelResized': { panel: 'layer'; width: number } | { panel: 'ruler'; height: number };
+  'timeline:settingChanged': { setting: string; value: unknown };
+  'timeline:dataImported': { timestamp: string };
+}
@@ -1,14 +1,17 @@
-import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
 import { ILayer, ITween } from '../data/ITimeLineData';
+import { normalizeEasing, parseEasing } from '../utils/Easing';
+import { ITweenIssue, checkTweens, getTweenIssueType, repairTweens } from '../data/TweenIntegrity';
+import { requestRender } from './RenderScheduler';
 
 /**
  * TweenManager
  * Manages tween/interpolation operations
  */
 export class TweenManager {
-  private context: IJsTimeLineContext;
+  private context: ITimelineCoreContext;
 
-  constructor(context: IJsTimeLineContext) {
+  constructor(context: ITimelineCoreContext) {
     this.context = context;
   }
 
@@ -18,83 +21,80 @@ export class TweenManager {
    * @param layerId ID of the layer
    * @param startFrame Start frame number
    * @param endFrame End frame number
-   * @param type Tween type (linear, ease, etc.)
-   * @returns true if created successfully, false if error or overlap
+   * @param type Easing spec (linear, ease-in-quad, cubic-bezier(...), steps(...) or a registered name)
+   * @returns true if created successfully, false if error, overlap or unknown easing
    */
   public createMotionTween(layerId: string, startFrame: number, endFrame: number, type: string = 'linear'): boolean {
-    const layer = this.findLayer(layerId);
-    if (!layer) {
-      console.error(`Layer ${layerId} not found`);
-      return false;
-    }
+    return this.record('Create Motion Tween', () => {
+      const layer = this.findLayer(layerId);
+      if (!layer) {
+        console.error(`Layer ${layerId} not found`);
+        return false;
+      }
 
-    // Validate that both frames are keyframes
-    if (!layer.keyframes) {
-      console.error('Layer has no keyframes');
-      return false;
-    }
+      // Validate that both frames are keyframes
+      if (!layer.keyframes) {
+        console.error('Layer has no keyframes');
+        return false;
+      }
 
-    const hasStartKeyframe = layer.keyframes.some(kf => kf.frame === startFrame);
-    const hasEndKeyframe = layer.keyframes.some(kf => kf.frame === endFrame);
+      const hasStartKeyframe = layer.keyframes.some(kf => kf.frame === startFrame);
+      const hasEndKeyframe = layer.keyframes.some(kf => kf.frame === endFrame);
 
-    if (!hasStartKeyframe || !hasEndKeyframe) {
-      console.error('Both start and end must be keyframes');
-      return false;
-    }
+      if (!hasStartKeyframe || !hasEndKeyframe) {
+        console.error('Both start and end must be keyframes');
+        return false;
+      }
 
-    if (startFrame >= endFrame) {
-      console.error('Start frame must be before end frame');
-      return false;
-    }
+      if (startFrame >= endFrame) {
+        console.error('Start frame must be before end frame');
+        return false;
+      }
 
-    // Check for overlapping tweens
-    if (layer.tweens) {
-      const overlapping = layer.tweens.some(tw => {
-        // Tweens can share an endpoint (one tween ends where another begins)
-        // So we use exclusive checks on endpoints
-        return (startFrame > tw.startFrame && startFrame < tw.endFrame) ||
-               (endFrame > tw.startFrame && endFrame < tw.endFrame) ||
-               (startFrame <= tw.startFrame && endFrame >= tw.endFrame);
-      });
+      const easing = this.normalizeEasingType(type);
+      if (!easing) {
+        return false;
+      }
 
-      if (overlapping) {
+      // Check for overlapping tweens
+      if (this.overlapsTween(layer.tweens || [], startFrame, endFrame)) {
         console.warn('Tween overlaps with existing tween');
         return false;
       }
-    }
 
-    // Create new tween
-    const newTween: ITween = {
-      startFrame,
-      endFrame,
-      type
-    };
+      // Create new tween
+      const newTween: ITween = {
+        startFrame,
+        endFrame,
+        type: easing
+      };
 
-    // Add to tweens array
-    if (!layer.tweens) {
-      layer.tweens = [];
-    }
-    layer.tweens.push(newTween);
+      // Add to tweens array
+      if (!layer.tweens) {
+        layer.tweens = [];
+      }
+      layer.tweens.push(newTween);
 
-    // Sort tweens by start frame
-    layer.tweens.sort((a, b) => a.startFrame - b.startFrame);
+      // Sort tweens by start frame
+      layer.tweens.sort((a, b) => a.startFrame - b.startFrame);
 
-    // Emit onTweenAdd event (spec-compliant)
-    this.context.Core.eventManager.emit('onTweenAdd', {
-      layerId,
-      startFrame,
-      endFrame,
-      type: 'motion'
-    });
+      // Emit onTweenAdd event (spec-compliant)
+      this.context.Core.eventManager.emit('onTweenAdd', {
+        layerId,
+        startFrame,
+        endFrame,
+        type: 'motion'
+      });
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('tween:added', { layerId, startFrame, endFrame, type });
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('tween:added', { layerId, startFrame, endFrame, type: easing });
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Trigger UI re-render
+      this.refreshUI(layerId, startFrame, endFrame);
 
-    console.log(`Created motion tween from frame ${startFrame} to ${endFrame}`);
-    return true;
+      console.log(`Created motion tween from frame ${startFrame} to ${endFrame}`);
+      return true;
+    });
   }
 
   /**
@@ -106,36 +106,38 @@ export class TweenManager {
    * @returns true if removed successfully, false if not found
    */
   public removeTween(layerId: string, startFrame: number, endFrame: number): boolean {
-    const layer = this.findLayer(layerId);
-    if (!layer || !layer.tweens) {
-      console.error('Layer or tweens not found');
-      return false;
-    }
+    return this.record('Remove Motion Tween', () => {
+      const layer = this.findLayer(layerId);
+      if (!layer || !layer.tweens) {
+        console.error('Layer or tweens not found');
+        return false;
+      }
 
-    // Find and remove the tween
-    const initialLength = layer.tweens.length;
-    layer.tweens = layer.tweens.filter(tw => !(tw.startFrame === startFrame && tw.endFrame === endFrame));
+      // Find and remove the tween
+      const initialLength = layer.tweens.length;
+      layer.tweens = layer.tweens.filter(tw => !(tw.startFrame === startFrame && tw.endFrame === endFrame));
 
-    if (layer.tweens.length === initialLength) {
-      console.warn('Tween not found');
-      return false;
-    }
+      if (layer.tweens.length === initialLength) {
+        console.warn('Tween not found');
+        return false;
+      }
 
-    // Emit onTweenRemove event (spec-compliant)
-    this.context.Core.eventManager.emit('onTweenRemove', {
-      layerId,
-      startFrame,
-      endFrame
-    });
+      // Emit onTweenRemove event (spec-compliant)
+      this.context.Core.eventManager.emit('onTweenRemove', {
+        layerId,
+        startFrame,
+        endFrame
+      });
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('tween:removed', { layerId, startFrame, endFrame });
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('tween:removed', { layerId, startFrame, endFrame });
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Trigger UI re-render
+      this.refreshUI(layerId, startFrame, endFrame);
 
-    console.log(`Removed tween from frame ${startFrame} to ${endFrame}`);
-    return true;
+      console.log(`Removed tween from frame ${startFrame} to ${endFrame}`);
+      return true;
+    });
   }
 
   /**
@@ -144,43 +146,69 @@ export class TweenManager {
    * @param layerId ID of the layer
    * @param oldTween The existing tween to update
    * @param newTween The new tween properties
-   * @returns true if updated successfully, false if not found
+   * New frames must be keyframes of the layer, with no keyframe in between, and
+   * must not overlap another tween, so that the tween stays attached to its keyframes
+   * @returns true if updated successfully, false if not found, the frames are invalid or the easing is unknown
    */
   public updateTween(layerId: string, oldTween: ITween, newTween: ITween): boolean {
-    const layer = this.findLayer(layerId);
-    if (!layer || !layer.tweens) {
-      console.error('Layer or tweens not found');
-      return false;
-    }
+    return this.record('Update Tween', () => {
+      const layer = this.findLayer(layerId);
+      if (!layer || !layer.tweens) {
+        console.error('Layer or tweens not found');
+        return false;
+      }
 
-    // Find the tween to update
-    const tweenIndex = layer.tweens.findIndex(tw => 
-      tw.startFrame === oldTween.startFrame && tw.endFrame === oldTween.endFrame
-    );
+      // Find the tween to update
+      const tweenIndex = layer.tweens.findIndex(tw => 
+        tw.startFrame === oldTween.startFrame && tw.endFrame === oldTween.endFrame
+      );
 
-    if (tweenIndex === -1) {
-      console.warn('Tween not found');
-      return false;
-    }
+      if (tweenIndex === -1) {
+        console.warn('Tween not found');
+        return false;
+      }
 
-    // Update the tween
-    layer.tweens[tweenIndex] = { ...newTween };
+      const { startFrame, endFrame } = newTween;
+      if (startFrame !== oldTween.startFrame || endFrame !== oldTween.endFrame) {
+        const issue = getTweenIssueType(newTween, layer.keyframes);
+        if (issue) {
+          console.error(`Cannot move the tween to frames ${startFrame}-${endFrame}: ${issue}`);
+          return false;
+        }
 
-    // Emit onTweenUpdate event (spec-compliant)
-    this.context.Core.eventManager.emit('onTweenUpdate', {
-      layerId,
-      oldTween,
-      newTween
-    });
+        const otherTweens = layer.tweens.filter((_, index) => index !== tweenIndex);
+        if (this.overlapsTween(otherTweens, startFrame, endFrame)) {
+          console.warn('Tween overlaps with existing tween');
+          return false;
+        }
+      }
 
-    // Also emit legacy event for backward compatibility
-    this.context.Core.eventManager.emit('tween:updated', { layerId, tween: newTween });
+      const easing = this.normalizeEasingType(newTween.type || 'linear');
+      if (!easing) {
+        return false;
+      }
 
-    // Trigger UI re-render
-    this.refreshUI();
+      // Update the tween
+      const updatedTween: ITween = { ...newTween, type: easing };
+      layer.tweens[tweenIndex] = updatedTween;
+      layer.tweens.sort((a, b) => a.startFrame - b.startFrame);
 
-    console.log(`Updated tween from frame ${newTween.startFrame} to ${newTween.endFrame}`);
-    return true;
+      // Emit onTweenUpdate event (spec-compliant)
+      this.context.Core.eventManager.emit('onTweenUpdate', {
+        layerId,
+        oldTween,
+        newTween: { ...updatedTween }
+      });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('tween:updated', { layerId, tween: { ...updatedTween } });
+
+      // Trigger UI re-render
+      this.refreshUI(layerId, Math.min(oldTween.startFrame, updatedTween.startFrame), Math.max(oldTween.endFrame, updatedTween.endFrame));
+
+      console.log(`Updated tween from frame ${updatedTween.startFrame} to ${updatedTween.endFrame}`);
+      return true;
+    });
   }
 
   /**
@@ -209,6 +237,87 @@ export class TweenManager {
     return this.getTweenAtFrame(layerId, frame) !== null;
   }
 
+  /**
+   * Find the tweens that are not attached to their bounding keyframes,
+   * e.g. in data loaded from JSON or edited directly
+   * @returns The issues found, with the repair repairTweens() would make
+   */
+  public checkTweens(): ITweenIssue[] {
+    return checkTweens(this.context.Data.getData().layers);
+  }
+
+  /**
+   * Remove tweens without a start or end keyframe, with an empty range or
+   * overlapping another tween, and split tweens at the keyframes inside them
+   * Emits onTweensRepair event when tweens were repaired
+   * @returns The issues repaired
+   */
+  public repairTweens(): ITweenIssue[] {
+    return this.record('Repair Tweens', () => {
+      const issues = repairTweens(this.context.Data.getData().layers);
+      if (issues.length === 0) {
+        return issues;
+      }
+
+      // Emit onTweensRepair event (spec-compliant)
+      this.context.Core.eventManager.emit('onTweensRepair', { issues });
+
+      // Also emit legacy event for backward compatibility
+      this.context.Core.eventManager.emit('tweens:repaired', { issues });
+
+      // Trigger UI re-render of the repaired rows
+      const layerIds = [...new Set(issues.map(issue => issue.layerId))];
+      const startFrame = issues.reduce((min, issue) => Math.min(min, issue.tween.startFrame), Infinity);
+      requestRender(this.context, { layerIds, startFrame });
+
+      console.log(`Repaired ${issues.length} tweens`);
+      return issues;
+    });
+  }
+
+  /**
+   * Check if a frame range overlaps one of the tweens
+   * Tweens can share an endpoint (one tween ends where another begins),
+   * so endpoints are compared exclusively
+   */
+  private overlapsTween(tweens: readonly ITween[], startFrame: number, endFrame: number): boolean {
+    return tweens.some(tw =>
+      (startFrame > tw.startFrame && startFrame < tw.endFrame) ||
+      (endFrame > tw.startFrame && endFrame < tw.endFrame) ||
+      (startFrame <= tw.startFrame && endFrame >= tw.endFrame)
+    );
+  }
+
+  /**
+   * Validate an easing spec and convert it to the canonical form stored in tweens
+   * Uses the EasingRegistry when available so that custom easings are accepted
+   * @param type Easing spec
+   * @returns The canonical spec, or null if the easing is unknown
+   */
+  private normalizeEasingType(type: string): string | null {
+    const easingRegistry = this.context.Core.easingRegistry;
+    const normalized = easingRegistry
+      ? easingRegistry.normalize(type)
+      : (parseEasing(type) ? normalizeEasing(type) : null);
+
+    if (!normalized) {
+      console.warn(`Unknown easing "${type}"`);
+      return null;
+    }
+    return normalized;
+  }
+
+  /**
+   * Run a mutation through the HistoryManager so it can be undone,
+   * rendering its changes once when it completes
+   * @param label Name of the operation shown in the history
+   * @param mutation Function performing the mutation
+   */
+  private record<T>(label: string, mutation: () => T): T {
+    const historyManager = this.context.Core.historyManager;
+    return this.context.batch(() => historyManager ? historyManager.transact(label, mutation) : mutation());
+  }
+
   /**
    * Find a layer by ID recursively
    * @param layerId ID of the layer to find
@@ -237,11 +346,9 @@ export class TweenManager {
   }
 
   /**
-   * Refresh UI components
+   * Redraw the tween frames of a layer's grid row
    */
-  private refreshUI(): void {
-    if (this.context.UI.timelineGrid) {
-      this.context.UI.timelineGrid.render();
-    }
+  private refreshUI(layerId: string, startFrame: number, endFrame: number): void {
+    requestRender(this.context, { layerIds: [layerId], startFrame, endFrame });
   }
 }
@@ -0,0 +1,199 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ITimeLineSettings } from '../data/ITimeLineData';
+import { requestRender } from './RenderScheduler';
+
+/**
+ * Point of the time axis that stays in place while zooming:
+ * - 'playhead': the playhead frame (the viewport centre when the playhead is scrolled out of view)
+ * - number: an x position in pixels from the left edge of the visible grid (e.g. the cursor)
+ */
+export type ZoomAnchor = 'playhead' | number;
+
+/**
+ * Payload of the onZoomChange event
+ */
+export interface IZoomChangeEvent {
+  zoom: number;         // New zoom factor
+  frameWidth: number;   // Width of a frame on screen at the new zoom, in pixels
+}
+
+export const MIN_ZOOM = 0.01;
+export const MAX_ZOOM = 10;
+
+// Zoom factor applied by one zoomIn() / zoomOut() step
+export const ZOOM_STEP = 1.25;
+
+/**
+ * Get the width of a frame on screen: the frame width setting scaled by the zoom
+ * @param settings Timeline settings
+ */
+export function getZoomedFrameWidth(settings: ITimeLineSettings): number {
+  return (settings.frameWidth || 15) * (settings.zoom ?? 1);
+}
+
+/**
+ * ZoomManager
+ * Scales the time axis horizontally; the zoom is stored in the timeline
+ * settings so that it is saved with each timeline
+ */
+export class ZoomManager {
+  private context: IJsTimeLineContext;
+
+  constructor(context: IJsTimeLineContext) {
+    this.context = context;
+  }
+
+  /**
+   * Get the current zoom factor (1 shows frames at the frame width setting)
+   */
+  public getZoom(): number {
+    return this.context.Data.getData().settings.zoom ?? 1;
+  }
+
+  /**
+   * Get the width of a frame on screen at the current zoom
+   */
+  public getFrameWidth(): number {
+    return getZoomedFrameWidth(this.context.Data.getData().settings);
+  }
+
+  /**
+   * Set the zoom factor, keeping the anchor in place
+   * Emits onZoomChange event
+   * @param zoom Zoom factor, clamped to MIN_ZOOM..MAX_ZOOM
+   * @param anchor Point kept in place (default: the playhead)
+   * @returns true if set, false if the zoom is not a positive number
+   */
+  public setZoom(zoom: number, anchor: ZoomAnchor = 'playhead'): boolean {
+    if (typeof zoom !== 'number' || !isFinite(zoom) || zoom <= 0) {
+      console.error(`Invalid zoom ${zoom}`);
+      return false;
+    }
+
+    const gridContainer = this.context.UI.gridContainer;
+    const oldFrameWidth = this.getFrameWidth();
+    const anchorX = this.getAnchorX(anchor, oldFrameWidth);
+    const anchorPosition = (gridContainer.scrollLeft + anchorX) / oldFrameWidth;
+
+    this.applyZoom(zoom);
+
+    gridContainer.scrollLeft = Math.max(0, anchorPosition * this.getFrameWidth() - anchorX);
+    return true;
+  }
+
+  /**
+   * Zoom in by one step
+   * Emits onZoomChange event
+   * @param anchor Point kept in place (default: the playhead)
+   */
+  public zoomIn(anchor: ZoomAnchor = 'playhead'): boolean {
+    return this.setZoom(this.getZoom() * ZOOM_STEP, anchor);
+  }
+
+  /**
+   * Zoom out by one step
+   * Emits onZoomChange event
+   * @param anchor Point kept in place (default: the playhead)
+   */
+  public zoomOut(anchor: ZoomAnchor = 'playhead'): boolean {
+    return this.setZoom(this.getZoom() / ZOOM_STEP, anchor);
+  }
+
+  /**
+   * Zoom so that a frame range fills the visible grid, and scroll to it
+   * Emits onZoomChange event
+   * @param startFrame First frame of the range
+   * @param endFrame Last frame of the range
+   * @returns true if zoomed, false if the range is invalid or the grid has no size
+   */
+  public zoomToRange(startFrame: number, endFrame: number): boolean {
+    const settings = this.context.Data.getData().settings;
+    if (!Number.isInteger(startFrame) || !Number.isInteger(endFrame) || startFrame < 1 || startFrame > endFrame || endFrame > settings.totalFrames) {
+      console.error(`Invalid zoom range ${startFrame}-${endFrame}`);
+      return false;
+    }
+
+    const gridContainer = this.context.UI.gridContainer;
+    const viewportWidth = gridContainer.clientWidth;
+    if (viewportWidth <= 0) {
+      console.warn('Cannot zoom to a range while the timeline grid has no size');
+      return false;
+    }
+
+    this.applyZoom(viewportWidth / ((endFrame - startFrame + 1) * (settings.frameWidth || 15)));
+
+    gridContainer.scrollLeft = (startFrame - 1) * this.getFrameWidth();
+    return true;
+  }
+
+  /**
+   * Zoom so that the whole timeline fits in the visible grid
+   * Emits onZoomChange event
+   * @returns true if zoomed, false if the grid has no size
+   */
+  public zoomToFit(): boolean {
+    return this.zoomToRange(1, this.context.Data.getData().settings.totalFrames);
+  }
+
+  /**
+   * Zoom so that the selected frames fill the visible grid
+   * Emits onZoomChange event
+   * @returns true if zoomed, false if nothing is selected or the grid has no size
+   */
+  public zoomToSelection(): boolean {
+    const selectedFrames = this.context.Core.selectionManager?.getSelectedFrames() || [];
+    if (selectedFrames.length === 0) {
+      console.warn('Cannot zoom to selection: no frames are selected');
+      return false;
+    }
+
+    // Single pass: spreading a large selection into Math.min/max overflows the call stack
+    let startFrame = Infinity;
+    let endFrame = -Infinity;
+    for (const frameId of selectedFrames) {
+      const frame = parseInt(frameId.split(':')[1], 10);
+      startFrame = Math.min(startFrame, frame);
+      endFrame = Math.max(endFrame, frame);
+    }
+    return this.zoomToRange(startFrame, endFrame);
+  }
+
+  /**
+   * Get the x position of the anchor in the visible grid
+   */
+  private getAnchorX(anchor: ZoomAnchor, frameWidth: number): number {
+    if (typeof anchor === 'number') {
+      return anchor;
+    }
+
+    const gridContainer = this.context.UI.gridContainer;
+    const currentFrame = this.context.Core.playbackEngine?.getCurrentFrame() ?? 1;
+    const playheadX = (currentFrame - 1) * frameWidth - gridContainer.scrollLeft;
+    if (playheadX < 0 || playheadX > gridContainer.clientWidth) {
+      return gridContainer.clientWidth / 2;
+    }
+    return playheadX;
+  }
+
+  /**
+   * Store the clamped zoom, re-render the time axis and emit onZoomChange event
+   */
+  private applyZoom(zoom: number): void {
+    const settings = this.context.Data.getData().settings;
+    const clampedZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    if (clampedZoom === this.getZoom()) return;
+
+    settings.zoom = clampedZoom;
+
+    // Render before the caller scrolls, so that the grid is wide enough for the new scroll position
+    requestRender(this.context, { ruler: true, grid: true });
+
+    const event: IZoomChangeEvent = { zoom: clampedZoom, frameWidth: getZoomedFrameWidth(settings) };
+
+    // Emit onZoomChange event (spec-style)
+    this.context.Core.eventManager.emit('onZoomChange', event);
+
+    // Also emit namespaced event for consistency with legacy listeners
+    this.context.Core.eventManager.emit('zoom:changed', event);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Location of a value in the timeline data, as property names and array indexes
+ */
+export type DataPath = (string | number)[];
+
+/**
+ * A property or array item changed from one value to another
+ * An undefined value means the property is absent
+ */
+export interface IValueChange {
+  type: 'set';
+  path: DataPath;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Items of an array replaced by others, as Array.prototype.splice does
+ */
+export interface IArrayChange {
+  type: 'splice';
+  path: DataPath;
+  index: number;
+  removed: unknown[];
+  inserted: unknown[];
+}
+
+/**
+ * A change of the timeline data that can be applied and reverted
+ */
+export type DataChange = IValueChange | IArrayChange;
+
+/**
+ * Deep copy of a JSON value
+ */
+export function cloneData<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * List the changes turning one value into another
+ * Only the parts that differ are copied into the changes: unchanged items
+ * at the start and end of a resized array are kept out of the splice
+ * @param before Value before the mutation (not modified)
+ * @param after Value after the mutation (not modified)
+ * @returns The changes, empty if both values are equal
+ */
+export function diffData(before: unknown, after: unknown): DataChange[] {
+  const changes: DataChange[] = [];
+  diffValue(before, after, [], changes);
+  return changes;
+}
+
+/**
+ * Apply changes listed by diffData, in place
+ * @param root Value the changes were computed on (in its before state)
+ * @param changes Changes to apply
+ */
+export function applyChanges(root: object, changes: readonly DataChange[]): void {
+  for (const change of changes) {
+    if (change.type === 'set') {
+      setValue(root, change.path, change.after);
+    } else {
+      replaceItems(resolve(root, change.path) as unknown as unknown[], change.index, change.removed.length, change.inserted);
+    }
+  }
+}
+
+/**
+ * Revert changes listed by diffData, in place
+ * @param root Value the changes were computed on (in its after state)
+ * @param changes Changes to revert
+ */
+export function revertChanges(root: object, changes: readonly DataChange[]): void {
+  for (let i = changes.length - 1; i >= 0; i--) {
+    const change = changes[i];
+    if (change.type === 'set') {
+      setValue(root, change.path, change.before);
+    } else {
+      replaceItems(resolve(root, change.path) as unknown as unknown[], change.index, change.inserted.length, change.removed);
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    return [...new Set([...Object.keys(a), ...Object.keys(b)])].every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Recurse into objects and equal-length arrays, recording the values that differ
+ */
+function diffValue(before: unknown, after: unknown, path: DataPath, changes: DataChange[]): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (before.length === after.length) {
+      before.forEach((item, i) => diffValue(item, after[i], [...path, i], changes));
+      return;
+    }
+
+    let start = 0;
+    while (start < before.length && start < after.length && isEqual(before[start], after[start])) {
+      start++;
+    }
+    let end = 0;
+    while (end < before.length - start && end < after.length - start
+      && isEqual(before[before.length - 1 - end], after[after.length - 1 - end])) {
+      end++;
+    }
+
+    changes.push({
+      type: 'splice',
+      path,
+      index: start,
+      removed: cloneData(before.slice(start, before.length - end)),
+      inserted: cloneData(after.slice(start, after.length - end))
+    });
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffValue(before[key], after[key], [...path, key], changes);
+    }
+    return;
+  }
+
+  if (!isEqual(before, after)) {
+    changes.push({ type: 'set', path, before: cloneData(before), after: cloneData(after) });
+  }
+}
+
+type Container = Record<string | number, unknown>;
+
+function resolve(root: object, path: DataPath): Container {
+  return path.reduce<Container>((target, key) => target[key] as Container, root as Container);
+}
+
+function setValue(root: object, path: DataPath, value: unknown): void {
+  const parent = resolve(root, path.slice(0, -1));
+  const key = path[path.length - 1];
+  if (value === undefined && !Array.isArray(parent)) {
+    delete parent[key];
+  } else {
+    parent[key] = cloneData(value);
+  }
+}
+
+// Splice without spreading the items into call arguments, which overflows on large arrays
+function replaceItems(array: unknown[], index: number, count: number, items: readonly unknown[]): void {
+  const tail = array.slice(index + count);
+  array.length = index;
+  for (const item of cloneData(items)) {
+    array.push(item);
+  }
+  for (const item of tail) {
+    array.push(item);
+  }
+}
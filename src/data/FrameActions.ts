@@ -0,0 +1,74 @@
+import { FrameActionType, IFrameAction } from './ITimeLineData';
+
+/**
+ * Supported frame action types
+ */
+export const FRAME_ACTION_TYPES: readonly FrameActionType[] = ['stop', 'play', 'gotoAndPlay', 'gotoAndStop', 'emit', 'call'];
+
+/**
+ * Check if an event name is reserved for the timeline's own events, which emit
+ * actions must not fire: spec-style names (onXxx) and namespaced names (ns:verb)
+ * @param name Event name
+ */
+export function isReservedEventName(name: string): boolean {
+  return name.includes(':') || /^on[A-Z]/.test(name);
+}
+
+/**
+ * Check a frame action for errors
+ * @param action Action to check
+ * @returns A description of the problem, or null if the action is valid
+ */
+export function getFrameActionError(action: unknown): string | null {
+  if (!action || typeof action !== 'object' || Array.isArray(action)) {
+    return 'frame action must be an object';
+  }
+
+  const { type, target, name } = action as IFrameAction;
+  if (!FRAME_ACTION_TYPES.includes(type)) {
+    return `unknown frame action type "${type}"`;
+  }
+
+  if (type === 'gotoAndPlay' || type === 'gotoAndStop') {
+    const isFrame = typeof target === 'number' && Number.isInteger(target) && target >= 1;
+    const isLabel = typeof target === 'string' && target.length > 0;
+    if (!isFrame && !isLabel) {
+      return `${type} needs a frame number or label name as target`;
+    }
+  }
+
+  if ((type === 'emit' || type === 'call') && (typeof name !== 'string' || !name)) {
+    return `${type} needs a name`;
+  }
+
+  if (type === 'emit' && isReservedEventName(name!)) {
+    return `emit cannot fire the timeline event "${name}"`;
+  }
+
+  return null;
+}
+
+/**
+ * Clone a list of frame actions
+ * @param actions Actions to clone
+ */
+export function cloneFrameActions(actions: readonly IFrameAction[]): IFrameAction[] {
+  return actions.map(action => ({ ...action }));
+}
+
+/**
+ * Describe a frame action in script-like form (e.g. gotoAndPlay("loop"))
+ * @param action Action to describe
+ */
+export function describeFrameAction(action: IFrameAction): string {
+  switch (action.type) {
+    case 'gotoAndPlay':
+    case 'gotoAndStop':
+      return `${action.type}(${JSON.stringify(action.target)})`;
+    case 'emit':
+    case 'call':
+      return `${action.type}("${action.name}")`;
+    default:
+      return `${action.type}()`;
+  }
+}
@@ -1,18 +1,78 @@
 // Timeline data interfaces based on spec Section 7.1
 
+// Playback behavior when the end of the playback range is reached
+export type LoopMode = 'loop' | 'once' | 'ping-pong';
+
+export interface IPlaybackRange {
+  start: number;        // In point (first frame played)
+  end: number;          // Out point (last frame played)
+}
+
+// Onion skin ghost drawing style
+export type OnionSkinMode = 'outline' | 'filled';
+
+// Whether the onion skin range follows the playhead or stays on fixed frames
+export type OnionSkinAnchor = 'relative' | 'fixed';
+
+export interface IOnionSkinSettings {
+  enabled: boolean;
+  before: number;               // Frames ghosted before the current frame (relative anchor)
+  after: number;                // Frames ghosted after the current frame (relative anchor)
+  mode: OnionSkinMode;          // Draw ghosts as outlines or filled
+  anchor: OnionSkinAnchor;      // 'relative' to the playhead or 'fixed' frames
+  start?: number;               // First ghosted frame (fixed anchor)
+  end?: number;                 // Last ghosted frame (fixed anchor)
+}
+
 export interface ITimeLineSettings {
   totalFrames: number;
   frameRate: number;
   frameWidth?: number;  // Width of each frame in pixels (optional, default 15)
+  zoom?: number;        // Horizontal zoom factor applied to frameWidth (optional, default 1)
   rowHeight?: number;   // Height of each layer row in pixels (optional, default 30)
   layerPanelWidth?: number;  // Width of layer panel in pixels (optional, default 250)
   rulerHeight?: number;      // Height of time ruler in pixels (optional, default 40)
   movePlayheadOnFrameClick?: boolean;  // Move playhead to clicked frame (optional, default true)
+  playbackRange?: IPlaybackRange;      // In/out points for playback (optional, default whole timeline)
+  loopMode?: LoopMode;                 // Behavior at the end of the range (optional, default 'loop')
+  onionSkin?: IOnionSkinSettings;      // Onion skin state (optional, default disabled)
+}
+
+export interface IPointValue {
+  x: number;
+  y: number;
+}
+
+export interface IColorValue {
+  r: number;            // Red channel (0-255)
+  g: number;            // Green channel (0-255)
+  b: number;            // Blue channel (0-255)
+  a?: number;           // Alpha channel (0-1, default 1)
+}
+
+// A single animatable property value stored on a keyframe
+export type KeyframeValue = number | string | boolean | IPointValue | IColorValue;
+
+// Property bag stored on a keyframe (e.g. { x: 10, opacity: 0.5, fill: { r: 255, g: 0, b: 0 } })
+export interface IKeyframeValues {
+  [property: string]: KeyframeValue;
+}
+
+// Declarative actions run by the playback engine when it enters a keyframe
+export type FrameActionType = 'stop' | 'play' | 'gotoAndPlay' | 'gotoAndStop' | 'emit' | 'call';
+
+export interface IFrameAction {
+  type: FrameActionType;
+  target?: number | string;  // Frame number or label name (gotoAndPlay, gotoAndStop)
+  name?: string;             // Event name (emit) or registered host action name (call)
+  payload?: unknown;         // Data passed to event listeners or to the host action (emit, call)
 }
 
 export interface IKeyframe {
   frame: number;        // Frame number where the keyframe is located
   isEmpty?: boolean;    // True for hollow circle keyframes, false/undefined for solid
+  values?: IKeyframeValues;  // Animatable property values (only meaningful on content keyframes)
+  actions?: IFrameAction[];  // Frame actions run in order when playback enters this keyframe
 }
 
 export interface ITween {
@@ -32,8 +92,19 @@ export interface ILayer {
   children?: ILayer[];       // Child layers (only for 'folder' type) - recursive structure
 }
 
+// Frame labels can be navigated to by name; comments are annotations only
+export type FrameLabelType = 'label' | 'comment';
+
+export interface IFrameLabel {
+  frame: number;        // Frame the label is attached to
+  name: string;         // Label name (unique among labels) or comment text
+  type: FrameLabelType; // 'label' or 'comment'
+}
+
 export interface ITimeLineData {
   version: string;      // Data format version
   settings: ITimeLineSettings;
   layers: ILayer[];     // Root layers array (can contain folders with nested children)
+  labels?: IFrameLabel[];    // Frame labels and comments, sorted by frame (optional)
+  plugins?: { [pluginName: string]: unknown };  // State saved by plugins (optional)
 }
@@ -0,0 +1,135 @@
+import { IColorValue, IKeyframeValues, IPointValue, KeyframeValue } from './ITimeLineData';
+
+/**
+ * Kind of a keyframe property value
+ */
+export type KeyframeValueType = 'number' | 'string' | 'boolean' | 'point' | 'color';
+
+/**
+ * Check if a value is a point ({ x, y })
+ * @param value Value to check
+ */
+export function isPointValue(value: unknown): value is IPointValue {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  const point = value as IPointValue;
+  return keys.length === 2 &&
+    typeof point.x === 'number' && isFinite(point.x) &&
+    typeof point.y === 'number' && isFinite(point.y);
+}
+
+/**
+ * Check if a value is a color ({ r, g, b, a? })
+ * @param value Value to check
+ */
+export function isColorValue(value: unknown): value is IColorValue {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  const color = value as IColorValue;
+  const isChannel = (channel: unknown) => typeof channel === 'number' && channel >= 0 && channel <= 255;
+
+  if (!isChannel(color.r) || !isChannel(color.g) || !isChannel(color.b)) {
+    return false;
+  }
+  if (color.a !== undefined && (typeof color.a !== 'number' || color.a < 0 || color.a > 1)) {
+    return false;
+  }
+  return keys.every(key => ['r', 'g', 'b', 'a'].includes(key));
+}
+
+/**
+ * Get the kind of a keyframe value
+ * @param value Value to inspect
+ * @returns The value type, or null if the value is not a valid keyframe value
+ */
+export function getKeyframeValueType(value: unknown): KeyframeValueType | null {
+  if (typeof value === 'number') {
+    return isFinite(value) ? 'number' : null;
+  }
+  if (typeof value === 'string') {
+    return 'string';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (isPointValue(value)) {
+    return 'point';
+  }
+  if (isColorValue(value)) {
+    return 'color';
+  }
+  return null;
+}
+
+/**
+ * Check if a value can be stored on a keyframe
+ * @param value Value to check
+ */
+export function isKeyframeValue(value: unknown): value is KeyframeValue {
+  return getKeyframeValueType(value) !== null;
+}
+
+/**
+ * Deep clone a keyframe value bag so keyframes never share value objects
+ * @param values Values to clone
+ * @returns A new value bag
+ */
+export function cloneKeyframeValues(values: Readonly<IKeyframeValues>): IKeyframeValues {
+  const clone: IKeyframeValues = {};
+  for (const [property, value] of Object.entries(values)) {
+    clone[property] = typeof value === 'object' ? { ...value } : value;
+  }
+  return clone;
+}
+
+/**
+ * Interpolate between two keyframe values
+ * Numbers, points and colors are interpolated linearly; strings, booleans and
+ * mismatched types hold the start value until the end keyframe is reached
+ * @param from Value at the start keyframe
+ * @param to Value at the end keyframe
+ * @param t Eased progress (0 = from, 1 = to, may overshoot)
+ * @returns The in-between value
+ */
+export function interpolateKeyframeValue(from: KeyframeValue, to: KeyframeValue, t: number): KeyframeValue {
+  const fromType = getKeyframeValueType(from);
+  const toType = getKeyframeValueType(to);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+
+  if (fromType !== toType) {
+    return t >= 1 ? to : from;
+  }
+
+  switch (fromType) {
+    case 'number':
+      return lerp(from as number, to as number);
+
+    case 'point': {
+      const a = from as IPointValue;
+      const b = to as IPointValue;
+      return { x: lerp(a.x, b.x), y: lerp(a.y, b.y) };
+    }
+
+    case 'color': {
+      const a = from as IColorValue;
+      const b = to as IColorValue;
+      const channel = (x: number, y: number) => Math.round(Math.max(0, Math.min(255, lerp(x, y))));
+      const color: IColorValue = {
+        r: channel(a.r, b.r),
+        g: channel(a.g, b.g),
+        b: channel(a.b, b.b)
+      };
+      if (a.a !== undefined || b.a !== undefined) {
+        color.a = Math.max(0, Math.min(1, lerp(a.a ?? 1, b.a ?? 1)));
+      }
+      return color;
+    }
+
+    default:
+      return t >= 1 ? to : from;
+  }
+}
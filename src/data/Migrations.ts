@@ -0,0 +1,153 @@
+import { ITimeLineData, ILayer } from './ITimeLineData';
+import { normalizeEasing } from '../utils/Easing';
+import { parseVersion, compareVersions } from '../utils/Version';
+
+/**
+ * Version of the data format written by this version of the timeline
+ * Minor versions only add optional fields; a new major version cannot be read by older versions
+ */
+export const CURRENT_DATA_VERSION = '1.1.0';
+
+/**
+ * A step upgrading timeline data from one format version to the next
+ */
+export interface IDataMigration {
+  from: string;           // Oldest version the step applies to
+  to: string;             // Version of the data after the step
+  description: string;    // What the step changes, for migration reports
+  migrate(data: ITimeLineData): string[];  // Upgrade the data in place; returns the changes made
+}
+
+/**
+ * A migration step applied to timeline data
+ */
+export interface IMigrationStep {
+  from: string;
+  to: string;
+  description: string;
+  changes: string[];      // Changes made to this data (empty if the data needed none)
+}
+
+/**
+ * Result of migrating timeline data to the current version
+ */
+export interface IMigrationReport {
+  fromVersion: string;            // Version of the data before the migration
+  toVersion: string;              // Version of the data after the migration
+  steps: IMigrationStep[];        // Steps applied, oldest first
+  changed: boolean;               // True if the data was modified
+  data: ITimeLineData;            // The migrated copy of the data
+}
+
+/**
+ * Sort the keyframes and tweens of every layer by frame, reporting the layers changed
+ */
+function sortLayerFrames(layers: ILayer[], path: string, changes: string[]): void {
+  if (!Array.isArray(layers)) {
+    return;
+  }
+
+  layers.forEach((layer, index) => {
+    // Malformed layers are left for validation to report
+    if (!isObject(layer)) {
+      return;
+    }
+
+    const layerPath = `${path}/${index}`;
+    if (Array.isArray(layer.keyframes) && layer.keyframes.every(isObject) && !isSorted(layer.keyframes.map(kf => kf.frame))) {
+      layer.keyframes.sort((a, b) => a.frame - b.frame);
+      changes.push(`${layerPath}/keyframes: sorted by frame`);
+    }
+    if (Array.isArray(layer.tweens) && layer.tweens.every(isObject)) {
+      if (!isSorted(layer.tweens.map(tween => tween.startFrame))) {
+        layer.tweens.sort((a, b) => a.startFrame - b.startFrame);
+        changes.push(`${layerPath}/tweens: sorted by start frame`);
+      }
+      layer.tweens.forEach((tween, tweenIndex) => {
+        const normalized = typeof tween.type === 'string' ? normalizeEasing(tween.type) : null;
+        if (normalized && normalized !== tween.type) {
+          changes.push(`${layerPath}/tweens/${tweenIndex}/type: "${tween.type}" normalized to "${normalized}"`);
+          tween.type = normalized;
+        }
+      });
+    }
+    if (layer.children) {
+      sortLayerFrames(layer.children, `${layerPath}/children`, changes);
+    }
+  });
+}
+
+function isObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null;
+}
+
+function isSorted(frames: number[]): boolean {
+  return frames.every((frame, i) => i === 0 || frames[i - 1] <= frame);
+}
+
+/**
+ * Registered migration steps, oldest first
+ * Every step must start at the version the previous step ends at
+ */
+export const DATA_MIGRATIONS: readonly IDataMigration[] = [
+  {
+    // 1.1.0 added keyframe values and actions, labels, playback range, loop mode, onion skin,
+    // zoom and plugin states; the managers now rely on frame-ordered keyframes, tweens and labels
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Sort keyframes, tweens and labels by frame and normalize tween easings',
+    migrate: (data) => {
+      const changes: string[] = [];
+      sortLayerFrames(data.layers, '/layers', changes);
+      if (Array.isArray(data.labels) && data.labels.every(isObject) && !isSorted(data.labels.map(label => label.frame))) {
+        data.labels.sort((a, b) => a.frame - b.frame);
+        changes.push('/labels: sorted by frame');
+      }
+      return changes;
+    }
+  }
+];
+
+/**
+ * Upgrade timeline data to the current format version
+ * The data is not modified; migrations run on a copy returned in the report.
+ * Data of a newer minor version of the current major version is returned as-is
+ * @param data Parsed timeline data of any supported version
+ * @returns What was changed, and the migrated copy
+ * @throws Error if the version is invalid, newer than the current major version or has no migration path
+ */
+export function migrateData(data: ITimeLineData): IMigrationReport {
+  const fromVersion = data.version;
+  const parsed = parseVersion(fromVersion);
+  if (!parsed) {
+    throw new Error(`Invalid timeline data: version "${fromVersion}" must be "major.minor.patch"`);
+  }
+
+  const current = parseVersion(CURRENT_DATA_VERSION)!;
+  if (parsed[0] > current[0]) {
+    throw new Error(`Cannot load timeline data version ${fromVersion}: it was saved by a newer version of the timeline (supported data version ${CURRENT_DATA_VERSION})`);
+  }
+
+  const copy = JSON.parse(JSON.stringify(data)) as ITimeLineData;
+  const steps: IMigrationStep[] = [];
+
+  while (compareVersions(copy.version, CURRENT_DATA_VERSION) < 0) {
+    const version = copy.version;
+    const migration = DATA_MIGRATIONS.find(step => compareVersions(version, step.from) >= 0 && compareVersions(version, step.to) < 0);
+    if (!migration) {
+      throw new Error(`Cannot load timeline data version ${fromVersion}: no migration from version ${version}`);
+    }
+
+    const changes = migration.migrate(copy);
+    copy.version = migration.to;
+    steps.push({ from: version, to: migration.to, description: migration.description, changes });
+  }
+
+  return {
+    fromVersion,
+    toVersion: copy.version,
+    steps,
+    changed: steps.length > 0,
+    data: copy
+  };
+}
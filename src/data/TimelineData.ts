@@ -1,4 +1,6 @@
-import { ITimeLineData, ITimeLineSettings, ILayer } from './ITimeLineData';
+import { ITimeLineData, ITimeLineSettings } from './ITimeLineData';
+import { CURRENT_DATA_VERSION, IMigrationReport, migrateData } from './Migrations';
+import { IValidationOptions, validateTimelineData } from './Validation';
 
 export class TimeLineData {
   private _data: ITimeLineData;
@@ -34,103 +36,68 @@ export class TimeLineData {
 
   /**
    * Load timeline data from JSON string
+   * Data of an older format version is upgraded to the current version first
    * @param json JSON string to parse
-   * @throws Error if JSON is invalid or version incompatible
+   * @param options Validation options (set fix to repair the recoverable problems)
+   * @returns What the upgrade changed
+   * @throws Error if JSON is invalid, version incompatible or the data has errors
    */
-  public fromJSON(json: string): void {
-    try {
-      const data = JSON.parse(json) as ITimeLineData;
-      
-      // Validate required fields
-      if (!data.version) {
-        throw new Error('Invalid timeline data: missing version field');
-      }
-      
-      if (!data.settings) {
-        throw new Error('Invalid timeline data: missing settings field');
-      }
-      
-      if (!data.layers) {
-        throw new Error('Invalid timeline data: missing layers field');
-      }
-      
-      // Check version compatibility (major version must match)
-      const currentMajor = this._data.version.split('.')[0];
-      const loadedMajor = data.version.split('.')[0];
-      
-      if (currentMajor !== loadedMajor) {
-        console.warn(`Version mismatch: current ${this._data.version}, loaded ${data.version}. Migration may be needed.`);
-      }
-      
-      // Validate settings
-      if (typeof data.settings.totalFrames !== 'number' || data.settings.totalFrames < 1) {
-        throw new Error('Invalid timeline data: totalFrames must be a positive number');
-      }
-      
-      if (typeof data.settings.frameRate !== 'number' || data.settings.frameRate < 1) {
-        throw new Error('Invalid timeline data: frameRate must be a positive number');
-      }
-      
-      if (typeof data.settings.frameWidth !== 'number' || data.settings.frameWidth < 1) {
-        throw new Error('Invalid timeline data: frameWidth must be a positive number');
-      }
-      
-      if (typeof data.settings.rowHeight !== 'number' || data.settings.rowHeight < 1) {
-        throw new Error('Invalid timeline data: rowHeight must be a positive number');
-      }
-      
-      // Validate layers structure
-      this.validateLayersStructure(data.layers);
-      
-      // Load validated data
-      this._data = data;
-      
-    } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new Error(`Invalid JSON: ${error.message}`);
-      }
-      throw error;
+  public fromJSON(json: string, options: IValidationOptions = {}): IMigrationReport {
+    const report = this.previewMigration(json);
+
+    // Data saved by a newer minor version may have fields this version ignores
+    if (report.toVersion !== CURRENT_DATA_VERSION) {
+      console.warn(`Timeline data version ${report.toVersion} is newer than ${CURRENT_DATA_VERSION}; unknown fields are kept but ignored.`);
+    }
+
+    const { diagnostics, data } = validateTimelineData(report.data, options);
+    const error = diagnostics.find(diagnostic => diagnostic.severity === 'error' && !diagnostic.fixed);
+    if (error) {
+      throw new Error(`Invalid timeline data: ${error.message} (at ${error.path || '/'})`);
     }
+
+    // Warnings such as tweens not attached to their keyframes are loaded as they are,
+    // so that nothing is lost before the host decides to repair them
+    const warnings = diagnostics.filter(diagnostic => diagnostic.severity === 'warning' && !diagnostic.fixed);
+    if (warnings.length > 0) {
+      console.warn(`Timeline data loaded with ${warnings.length} warnings. Use validateTimelineData() to list them or import with the fix option.`);
+    }
+
+    // Load validated data
+    report.data = data;
+    this._data = data;
+    return report;
   }
 
   /**
-   * Validate layers structure recursively
-   * @param layers Array of layers to validate
-   * @throws Error if structure is invalid
+   * Dry run of the format upgrade done by fromJSON(): reports what would change
+   * without loading the data. The data is not validated beyond its required fields
+   * @param json JSON string to parse
+   * @returns The migration steps and changes, and the migrated copy of the data
+   * @throws Error if JSON is invalid, a required field is missing or the version is not supported
    */
-  private validateLayersStructure(layers: readonly ILayer[]): void {
-    if (!Array.isArray(layers)) {
-      throw new Error('Invalid timeline data: layers must be an array');
+  public previewMigration(json: string): IMigrationReport {
+    let data: ITimeLineData;
+    try {
+      data = JSON.parse(json) as ITimeLineData;
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${(error as Error).message}`);
     }
-    
-    for (const layer of layers) {
-      if (!layer.id || typeof layer.id !== 'string') {
-        throw new Error('Invalid timeline data: layer must have a valid id');
-      }
-      
-      if (!layer.name || typeof layer.name !== 'string') {
-        throw new Error('Invalid timeline data: layer must have a valid name');
-      }
-      
-      if (typeof layer.type !== 'string' || !['layer', 'folder'].includes(layer.type)) {
-        throw new Error('Invalid timeline data: layer type must be "layer" or "folder"');
-      }
-      
-      if (layer.type === 'layer') {
-        if (layer.keyframes && !Array.isArray(layer.keyframes)) {
-          throw new Error('Invalid timeline data: keyframes must be an array');
-        }
-        
-        if (layer.tweens && !Array.isArray(layer.tweens)) {
-          throw new Error('Invalid timeline data: tweens must be an array');
-        }
-      }
-      
-      // Recursively validate children if folder
-      if (layer.children && Array.isArray(layer.children)) {
-        this.validateLayersStructure(layer.children);
-      }
+
+    // Validate required fields
+    if (!data || !data.version) {
+      throw new Error('Invalid timeline data: missing version field');
     }
+
+    if (!data.settings) {
+      throw new Error('Invalid timeline data: missing settings field');
+    }
+
+    if (!data.layers) {
+      throw new Error('Invalid timeline data: missing layers field');
+    }
+
+    return migrateData(data);
   }
 
   /**
@@ -139,7 +106,7 @@ export class TimeLineData {
    */
   private getDefaultData(): ITimeLineData {
     return {
-      version: '1.0.0',
+      version: CURRENT_DATA_VERSION,
       settings: {
         totalFrames: 100,
         frameRate: 24,
@@ -0,0 +1,129 @@
+import { IKeyframe, ILayer, ITween } from './ITimeLineData';
+
+/**
+ * What is wrong with a tween
+ * - invalidRange: the tween does not end after it starts
+ * - missingStartKeyframe: there is no keyframe at the start frame
+ * - missingEndKeyframe: there is no keyframe at the end frame
+ * - innerKeyframe: keyframes lie inside the tween
+ * - overlap: the tween overlaps an earlier tween of the layer
+ */
+export type TweenIssueType = 'invalidRange' | 'missingStartKeyframe' | 'missingEndKeyframe' | 'innerKeyframe' | 'overlap';
+
+/**
+ * A tween that is not attached to its bounding keyframes
+ */
+export interface ITweenIssue {
+  layerId: string;
+  tween: ITween;                    // The tween as it was found
+  type: TweenIssueType;
+  repair: 'removed' | 'split';      // What repairTweens does about it
+  tweens: ITween[];                 // Tweens replacing it after the repair (none when removed)
+}
+
+/**
+ * Find what is wrong with a single tween, ignoring the other tweens of the layer
+ * @param tween Tween to check
+ * @param keyframes Keyframes of the tween's layer
+ * @returns The issue type, or null if the tween is attached to its keyframes
+ */
+export function getTweenIssueType(tween: ITween, keyframes: readonly IKeyframe[] = []): TweenIssueType | null {
+  if (tween.startFrame >= tween.endFrame) {
+    return 'invalidRange';
+  }
+  if (!keyframes.some(kf => kf.frame === tween.startFrame)) {
+    return 'missingStartKeyframe';
+  }
+  if (!keyframes.some(kf => kf.frame === tween.endFrame)) {
+    return 'missingEndKeyframe';
+  }
+  if (keyframes.some(kf => kf.frame > tween.startFrame && kf.frame < tween.endFrame)) {
+    return 'innerKeyframe';
+  }
+  return null;
+}
+
+/**
+ * Split a tween at the keyframes inside it, like inserting a keyframe into a tween in Flash
+ * Every part keeps the easing and other settings of the tween
+ * @param tween Tween starting and ending on keyframes
+ * @param keyframes Keyframes of the tween's layer
+ * @returns The tweens between each pair of consecutive keyframes of the tween
+ */
+export function splitTween(tween: ITween, keyframes: readonly IKeyframe[]): ITween[] {
+  const frames = keyframes
+    .map(kf => kf.frame)
+    .filter(frame => frame > tween.startFrame && frame < tween.endFrame)
+    .sort((a, b) => a - b);
+  const bounds = [tween.startFrame, ...new Set(frames), tween.endFrame];
+
+  return bounds.slice(1).map((endFrame, i) => ({ ...tween, startFrame: bounds[i], endFrame }));
+}
+
+/**
+ * Work out the issues of the tweens of a layer and the tweens left after repairing them
+ * Tweens without a start or end keyframe, or with an empty range, are removed; tweens
+ * with keyframes inside are split; tweens overlapping an earlier tween are removed
+ */
+function reconcileLayerTweens(layer: ILayer): { tweens: ITween[]; issues: ITweenIssue[] } {
+  const tweens: ITween[] = [];
+  const issues: ITweenIssue[] = [];
+  const keyframes = layer.keyframes || [];
+
+  const sorted = [...(layer.tweens || [])].sort((a, b) => a.startFrame - b.startFrame || a.endFrame - b.endFrame);
+  for (const tween of sorted) {
+    const type = getTweenIssueType(tween, keyframes);
+    const parts = type === null ? [tween] : type === 'innerKeyframe' ? splitTween(tween, keyframes) : [];
+    const lastEnd = tweens.length > 0 ? tweens[tweens.length - 1].endFrame : -Infinity;
+
+    if (parts.length > 0 && parts[0].startFrame < lastEnd) {
+      issues.push({ layerId: layer.id, tween: { ...tween }, type: 'overlap', repair: 'removed', tweens: [] });
+    } else if (type !== null) {
+      issues.push({ layerId: layer.id, tween: { ...tween }, type, repair: parts.length > 0 ? 'split' : 'removed', tweens: parts });
+      tweens.push(...parts);
+    } else {
+      tweens.push(tween);
+    }
+  }
+
+  return { tweens, issues };
+}
+
+/**
+ * Collect the layers (not folders) of a layer tree
+ */
+function collectLayers(layers: readonly ILayer[], result: ILayer[] = []): ILayer[] {
+  for (const layer of layers) {
+    if (layer.type === 'layer') {
+      result.push(layer);
+    }
+    if (layer.children) {
+      collectLayers(layer.children, result);
+    }
+  }
+  return result;
+}
+
+/**
+ * Find the tweens of a layer tree that are not attached to their bounding keyframes
+ * @param layers Layers to check (folders are searched recursively)
+ * @returns The issues found, with the repair repairTweens would make
+ */
+export function checkTweens(layers: readonly ILayer[]): ITweenIssue[] {
+  return collectLayers(layers).flatMap(layer => reconcileLayerTweens(layer).issues);
+}
+
+/**
+ * Remove or split the tweens of a layer tree that are not attached to their bounding keyframes
+ * @param layers Layers to repair (folders are searched recursively); modified in place
+ * @returns The issues repaired
+ */
+export function repairTweens(layers: readonly ILayer[]): ITweenIssue[] {
+  return collectLayers(layers).flatMap(layer => {
+    const { tweens, issues } = reconcileLayerTweens(layer);
+    if (issues.length > 0) {
+      layer.tweens = tweens;
+    }
+    return issues;
+  });
+}
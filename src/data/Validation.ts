@@ -0,0 +1,484 @@
+import { ITimeLineData, ITimeLineSettings, ILayer, IKeyframe, IFrameLabel, IOnionSkinSettings } from './ITimeLineData';
+import { isKeyframeValue } from './KeyframeValues';
+import { getFrameActionError } from './FrameActions';
+import { checkTweens, repairTweens } from './TweenIntegrity';
+import { CURRENT_DATA_VERSION } from './Migrations';
+import { parseVersion } from '../utils/Version';
+
+/**
+ * How serious a problem is
+ * - error: the data cannot be loaded as it is
+ * - warning: the data loads, but part of it is ignored or may not behave as intended
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in timeline data
+ */
+export interface IValidationDiagnostic {
+  path: string;                   // JSON pointer to the value, e.g. /layers/2/children/0/tweens/1/endFrame
+  severity: ValidationSeverity;
+  message: string;
+  fixable: boolean;               // True if the fix option can repair it
+  fixed: boolean;                 // True if it was repaired in the returned data
+}
+
+/**
+ * Options of validateTimelineData()
+ */
+export interface IValidationOptions {
+  fix?: boolean;                  // Repair the recoverable problems (optional, default false)
+}
+
+/**
+ * Result of validateTimelineData()
+ */
+export interface IValidationResult {
+  valid: boolean;                 // True if no error is left
+  diagnostics: IValidationDiagnostic[];
+  data: ITimeLineData;            // Copy of the data, repaired when the fix option is set
+}
+
+// Settings that fall back to a default when they are missing
+const OPTIONAL_SIZE_SETTINGS: ReadonlyArray<keyof ITimeLineSettings> = ['frameWidth', 'rowHeight', 'layerPanelWidth', 'rulerHeight'];
+
+/**
+ * Escape a JSON pointer segment (RFC 6901)
+ */
+function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+/**
+ * Collects the diagnostics of one validation and applies the fixes
+ */
+class DataValidator {
+  public readonly diagnostics: IValidationDiagnostic[] = [];
+  private readonly fix: boolean;
+
+  constructor(fix: boolean) {
+    this.fix = fix;
+  }
+
+  /**
+   * Report a problem
+   * @param path JSON pointer to the value
+   * @param severity How serious the problem is
+   * @param message What is wrong
+   * @param repair Repairs the problem in place, if it is recoverable
+   */
+  public report(path: string, severity: ValidationSeverity, message: string, repair?: () => void): void {
+    if (repair && this.fix) {
+      repair();
+    }
+    this.diagnostics.push({ path, severity, message, fixable: !!repair, fixed: !!repair && this.fix });
+  }
+
+  public validate(data: ITimeLineData): void {
+    if (typeof data.version !== 'string' || !parseVersion(data.version)) {
+      this.report('/version', 'error', 'version must be a "major.minor.patch" string');
+    } else if (parseVersion(data.version)![0] > parseVersion(CURRENT_DATA_VERSION)![0]) {
+      this.report('/version', 'error', `version ${data.version} is newer than the supported data version ${CURRENT_DATA_VERSION}`);
+    }
+
+    if (!isObject(data.settings)) {
+      this.report('/settings', 'error', 'settings must be an object');
+    } else {
+      this.validateSettings(data.settings);
+    }
+    const totalFrames = isObject(data.settings) && isPositiveNumber(data.settings.totalFrames) ? data.settings.totalFrames : Infinity;
+
+    const layerIds = new Set<string>();
+    if (!Array.isArray(data.layers)) {
+      this.report('/layers', 'error', 'layers must be an array');
+    } else {
+      this.validateLayers(data.layers, '/layers', totalFrames, layerIds);
+    }
+
+    if (data.labels !== undefined) {
+      this.validateLabels(data, totalFrames);
+    }
+
+    // Plugin states are opaque, but must be stored by plugin name
+    if (data.plugins !== undefined && !isObject(data.plugins)) {
+      this.report('/plugins', 'error', 'plugins must be an object keyed by plugin name');
+    }
+  }
+
+  private validateSettings(settings: ITimeLineSettings): void {
+    if (!isPositiveNumber(settings.totalFrames) || settings.totalFrames < 1) {
+      this.report('/settings/totalFrames', 'error', 'totalFrames must be a positive number');
+    }
+
+    if (!isPositiveNumber(settings.frameRate) || settings.frameRate < 1) {
+      this.report('/settings/frameRate', 'error', 'frameRate must be a positive number');
+    }
+
+    for (const key of OPTIONAL_SIZE_SETTINGS) {
+      const value = settings[key];
+      if (value !== undefined && (!isPositiveNumber(value) || value < 1)) {
+        this.report(`/settings/${key}`, 'error', `${key} must be a positive number`, () => { delete settings[key]; });
+      }
+    }
+
+    if (settings.zoom !== undefined && !isPositiveNumber(settings.zoom)) {
+      this.report('/settings/zoom', 'error', 'zoom must be a positive number', () => { delete settings.zoom; });
+    }
+
+    if (settings.movePlayheadOnFrameClick !== undefined && typeof settings.movePlayheadOnFrameClick !== 'boolean') {
+      this.report('/settings/movePlayheadOnFrameClick', 'error', 'movePlayheadOnFrameClick must be a boolean', () => { delete settings.movePlayheadOnFrameClick; });
+    }
+
+    if (settings.playbackRange !== undefined) {
+      const range = settings.playbackRange;
+      if (!isObject(range) || !isPositiveInteger(range.start) || !isPositiveInteger(range.end) || range.start > range.end) {
+        this.report('/settings/playbackRange', 'error', 'playbackRange must have integer start and end with 1 <= start <= end', () => { delete settings.playbackRange; });
+      }
+    }
+
+    if (settings.loopMode !== undefined && !['loop', 'once', 'ping-pong'].includes(settings.loopMode)) {
+      this.report('/settings/loopMode', 'error', 'loopMode must be "loop", "once" or "ping-pong"', () => { delete settings.loopMode; });
+    }
+
+    if (settings.onionSkin !== undefined) {
+      const message = this.getOnionSkinError(settings.onionSkin);
+      if (message) {
+        this.report('/settings/onionSkin', 'error', message, () => { delete settings.onionSkin; });
+      }
+    }
+  }
+
+  private getOnionSkinError(onionSkin: IOnionSkinSettings): string | null {
+    if (!isObject(onionSkin) || typeof onionSkin.enabled !== 'boolean') {
+      return 'onionSkin must be an object with an enabled flag';
+    }
+
+    const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+    if (!isCount(onionSkin.before) || !isCount(onionSkin.after)) {
+      return 'onionSkin before and after must be non-negative integers';
+    }
+
+    if (onionSkin.mode !== 'outline' && onionSkin.mode !== 'filled') {
+      return 'onionSkin mode must be "outline" or "filled"';
+    }
+
+    if (onionSkin.anchor !== 'relative' && onionSkin.anchor !== 'fixed') {
+      return 'onionSkin anchor must be "relative" or "fixed"';
+    }
+
+    if (onionSkin.anchor === 'fixed') {
+      const { start, end } = onionSkin;
+      if (!isPositiveInteger(start) || !isPositiveInteger(end) || start > end) {
+        return 'fixed onionSkin must have integer start and end with 1 <= start <= end';
+      }
+    }
+    return null;
+  }
+
+  private validateLayers(layers: ILayer[], path: string, totalFrames: number, layerIds: Set<string>): void {
+    layers.forEach((layer, index) => {
+      const layerPath = `${path}/${index}`;
+      if (!isObject(layer)) {
+        this.report(layerPath, 'error', 'layer must be an object');
+        return;
+      }
+
+      if (!layer.id || typeof layer.id !== 'string') {
+        this.report(`${layerPath}/id`, 'error', 'layer must have a valid id');
+      } else if (layerIds.has(layer.id)) {
+        // Later duplicates get a new id; the first layer keeps it
+        this.report(`${layerPath}/id`, 'error', `duplicate layer id "${layer.id}"`, () => {
+          let suffix = 2;
+          while (layerIds.has(`${layer.id}-${suffix}`)) {
+            suffix++;
+          }
+          layer.id = `${layer.id}-${suffix}`;
+          layerIds.add(layer.id);
+        });
+      } else {
+        layerIds.add(layer.id);
+      }
+
+      if (!layer.name || typeof layer.name !== 'string') {
+        const id = layer.id;
+        this.report(`${layerPath}/name`, 'error', 'layer must have a valid name', typeof id === 'string' && id ? () => { layer.name = id; } : undefined);
+      }
+
+      if (layer.type !== 'layer' && layer.type !== 'folder') {
+        this.report(`${layerPath}/type`, 'error', 'layer type must be "layer" or "folder"');
+      }
+
+      if (layer.type === 'layer') {
+        this.validateLayerFrames(layer, layerPath, totalFrames);
+      }
+
+      if (layer.children !== undefined) {
+        if (!Array.isArray(layer.children)) {
+          this.report(`${layerPath}/children`, 'error', 'children must be an array');
+        } else {
+          this.validateLayers(layer.children, `${layerPath}/children`, totalFrames, layerIds);
+        }
+      }
+    });
+  }
+
+  private validateLayerFrames(layer: ILayer, layerPath: string, totalFrames: number): void {
+    const errorCount = this.countErrors();
+
+    if (layer.keyframes !== undefined) {
+      if (!Array.isArray(layer.keyframes)) {
+        this.report(`${layerPath}/keyframes`, 'error', 'keyframes must be an array');
+      } else {
+        this.validateKeyframes(layer, layerPath, totalFrames);
+      }
+    }
+
+    if (layer.tweens !== undefined) {
+      if (!Array.isArray(layer.tweens)) {
+        this.report(`${layerPath}/tweens`, 'error', 'tweens must be an array');
+      } else {
+        this.validateTweens(layer, `${layerPath}/tweens`, totalFrames);
+      }
+    }
+
+    // Tweens are only checked against keyframes when both are well-formed
+    if (this.countErrors() === errorCount) {
+      this.validateTweenAnchors(layer, layerPath);
+    }
+  }
+
+  private validateKeyframes(layer: ILayer, layerPath: string, totalFrames: number): void {
+    const keyframes = layer.keyframes!;
+    const frames = new Set<number>();
+    const duplicates = new Set<number>();
+    let sorted = true;
+    let lastFrame = -Infinity;
+
+    keyframes.forEach((keyframe, index) => {
+      const keyframePath = `${layerPath}/keyframes/${index}`;
+      if (!isObject(keyframe)) {
+        this.report(keyframePath, 'error', 'keyframe must be an object');
+        return;
+      }
+
+      if (!isPositiveInteger(keyframe.frame)) {
+        this.report(`${keyframePath}/frame`, 'error', 'keyframe frame must be a positive integer');
+        return;
+      }
+
+      // The first keyframe of a frame is kept, and only kept keyframes need sorting
+      if (frames.has(keyframe.frame)) {
+        this.report(`${keyframePath}/frame`, 'error', `more than one keyframe at frame ${keyframe.frame}`, () => duplicates.add(index));
+      } else {
+        if (keyframe.frame < lastFrame) {
+          sorted = false;
+        }
+        lastFrame = keyframe.frame;
+      }
+      frames.add(keyframe.frame);
+
+      if (keyframe.frame > totalFrames) {
+        this.report(`${keyframePath}/frame`, 'warning', `keyframe at frame ${keyframe.frame} is after the last frame ${totalFrames}`);
+      }
+
+      if (keyframe.isEmpty !== undefined && typeof keyframe.isEmpty !== 'boolean') {
+        this.report(`${keyframePath}/isEmpty`, 'error', `keyframe isEmpty at frame ${keyframe.frame} must be a boolean`);
+      }
+
+      this.validateKeyframeValues(keyframe, keyframePath);
+      this.validateKeyframeActions(keyframe, keyframePath);
+    });
+
+    if (duplicates.size > 0) {
+      layer.keyframes = keyframes.filter((_, index) => !duplicates.has(index));
+    }
+
+    if (!sorted) {
+      this.report(`${layerPath}/keyframes`, 'warning', 'keyframes must be sorted by frame', () => {
+        layer.keyframes!.sort((a, b) => a.frame - b.frame);
+      });
+    }
+  }
+
+  private validateKeyframeValues(keyframe: IKeyframe, keyframePath: string): void {
+    if (keyframe.values === undefined) {
+      return;
+    }
+
+    if (!isObject(keyframe.values)) {
+      this.report(`${keyframePath}/values`, 'error', `keyframe values at frame ${keyframe.frame} must be an object`);
+      return;
+    }
+
+    for (const [property, value] of Object.entries(keyframe.values)) {
+      if (!isKeyframeValue(value)) {
+        this.report(`${keyframePath}/values/${escapePointer(property)}`, 'error', `keyframe value "${property}" at frame ${keyframe.frame} must be a number, string, boolean, point or color`);
+      }
+    }
+  }
+
+  // Named host actions are not checked since they may be registered after loading
+  private validateKeyframeActions(keyframe: IKeyframe, keyframePath: string): void {
+    if (keyframe.actions === undefined) {
+      return;
+    }
+
+    if (!Array.isArray(keyframe.actions)) {
+      this.report(`${keyframePath}/actions`, 'error', `keyframe actions at frame ${keyframe.frame} must be an array`);
+      return;
+    }
+
+    keyframe.actions.forEach((action, index) => {
+      const error = getFrameActionError(action);
+      if (error) {
+        this.report(`${keyframePath}/actions/${index}`, 'error', `${error} at frame ${keyframe.frame}`);
+      }
+    });
+  }
+
+  private validateTweens(layer: ILayer, tweensPath: string, totalFrames: number): void {
+    const tweens = layer.tweens!;
+    const emptyRanges = new Set<number>();
+
+    tweens.forEach((tween, index) => {
+      const tweenPath = `${tweensPath}/${index}`;
+      if (!isObject(tween)) {
+        this.report(tweenPath, 'error', 'tween must be an object');
+        return;
+      }
+
+      if (!isPositiveInteger(tween.startFrame)) {
+        this.report(`${tweenPath}/startFrame`, 'error', 'tween startFrame must be a positive integer');
+      }
+      if (!isPositiveInteger(tween.endFrame)) {
+        this.report(`${tweenPath}/endFrame`, 'error', 'tween endFrame must be a positive integer');
+      } else if (isPositiveInteger(tween.startFrame) && tween.startFrame >= tween.endFrame) {
+        this.report(`${tweenPath}/endFrame`, 'error', `tween endFrame ${tween.endFrame} must be after its startFrame ${tween.startFrame}`, () => emptyRanges.add(index));
+      } else if (tween.endFrame > totalFrames) {
+        this.report(`${tweenPath}/endFrame`, 'warning', `tween ending at frame ${tween.endFrame} is after the last frame ${totalFrames}`);
+      }
+
+      // Easings are kept as spec strings so that custom easings registered
+      // after loading still resolve; only the type itself is checked here
+      if (tween.type !== undefined && typeof tween.type !== 'string') {
+        this.report(`${tweenPath}/type`, 'error', `tween easing at frame ${tween.startFrame} must be a string`, () => { delete tween.type; });
+      }
+    });
+
+    if (emptyRanges.size > 0) {
+      layer.tweens = tweens.filter((_, index) => !emptyRanges.has(index));
+    }
+  }
+
+  /**
+   * Report the tweens not attached to their keyframes; the fix repairs them like repairTweens()
+   */
+  private validateTweenAnchors(layer: ILayer, layerPath: string): void {
+    const tweens = layer.tweens || [];
+    const leaf: ILayer = { ...layer, children: undefined };
+    const issues = checkTweens([leaf]);
+    if (issues.length === 0) {
+      return;
+    }
+
+    // The issues hold copies of the tweens; find them back in the layer for their paths
+    const reported = new Set<number>();
+    let repair = false;
+    for (const issue of issues) {
+      const index = tweens.findIndex((tween, i) => !reported.has(i) && tween.startFrame === issue.tween.startFrame && tween.endFrame === issue.tween.endFrame);
+      reported.add(index);
+      this.report(`${layerPath}/tweens/${index}`, 'warning', `tween ${issue.tween.startFrame}-${issue.tween.endFrame} is not attached to its keyframes (${issue.type}); the fix ${issue.repair === 'split' ? 'splits' : 'removes'} it`, () => { repair = true; });
+    }
+
+    if (repair) {
+      repairTweens([leaf]);
+      layer.tweens = leaf.tweens;
+    }
+  }
+
+  private validateLabels(data: ITimeLineData, totalFrames: number): void {
+    const labels = data.labels as IFrameLabel[];
+    if (!Array.isArray(labels)) {
+      this.report('/labels', 'error', 'labels must be an array');
+      return;
+    }
+
+    const labelNames = new Set<string>();
+    const labelFrames = new Set<number>();
+    labels.forEach((label, index) => {
+      const labelPath = `/labels/${index}`;
+      if (!isObject(label)) {
+        this.report(labelPath, 'error', 'label must be an object');
+        return;
+      }
+
+      if (!isPositiveInteger(label.frame)) {
+        this.report(`${labelPath}/frame`, 'error', 'label frame must be a positive integer');
+      } else {
+        if (labelFrames.has(label.frame)) {
+          this.report(`${labelPath}/frame`, 'error', `more than one label at frame ${label.frame}`);
+        }
+        labelFrames.add(label.frame);
+
+        if (label.frame > totalFrames) {
+          this.report(`${labelPath}/frame`, 'warning', `label at frame ${label.frame} is after the last frame ${totalFrames}`);
+        }
+      }
+
+      if (!label.name || typeof label.name !== 'string') {
+        this.report(`${labelPath}/name`, 'error', `label at frame ${label.frame} must have a valid name`);
+      }
+
+      if (label.type !== 'label' && label.type !== 'comment') {
+        this.report(`${labelPath}/type`, 'error', `label type at frame ${label.frame} must be "label" or "comment"`);
+      } else if (label.type === 'label' && typeof label.name === 'string') {
+        if (labelNames.has(label.name)) {
+          this.report(`${labelPath}/name`, 'error', `duplicate frame label "${label.name}"`);
+        }
+        labelNames.add(label.name);
+      }
+    });
+  }
+
+  private countErrors(): number {
+    return this.diagnostics.filter(diagnostic => diagnostic.severity === 'error' && !diagnostic.fixed).length;
+  }
+}
+
+/**
+ * Validate timeline data of the current format version
+ * Every problem is reported, not only the first one. The data is not modified;
+ * with the fix option the recoverable problems are repaired on the returned copy
+ * @param data Parsed timeline data
+ * @param options Validation options
+ * @returns The diagnostics and the (repaired) copy of the data
+ */
+export function validateTimelineData(data: unknown, options: IValidationOptions = {}): IValidationResult {
+  const validator = new DataValidator(options.fix === true);
+
+  if (!isObject(data)) {
+    validator.report('', 'error', 'timeline data must be an object');
+    return { valid: false, diagnostics: validator.diagnostics, data: data as ITimeLineData };
+  }
+
+  const copy = JSON.parse(JSON.stringify(data)) as ITimeLineData;
+  validator.validate(copy);
+
+  return {
+    valid: !validator.diagnostics.some(diagnostic => diagnostic.severity === 'error' && !diagnostic.fixed),
+    diagnostics: validator.diagnostics,
+    data: copy
+  };
+}
@@ -0,0 +1,47 @@
+// Headless entry point: the timeline model without the DOM control or styles
+// Runs in Node and Web Workers, e.g. to validate data or pre-bake animations
+export { createTimelineCore } from './core/TimelineCore';
+export type { ITimelineCoreOptions } from './core/TimelineCore';
+export type { ITimelineCoreContext } from './IJsTimeLineContext';
+
+// Data and core managers
+export { TimeLineData } from './data/TimelineData';
+export { EventManager } from './core/EventManager';
+export { StateManager } from './core/StateManager';
+export { RenderScheduler, requestRender } from './core/RenderScheduler';
+export { PlaybackEngine, defaultPlaybackClock } from './core/PlaybackEngine';
+export { LayerManager } from './core/LayerManager';
+export { SelectionManager } from './core/SelectionManager';
+export { KeyframeManager } from './core/KeyframeManager';
+export { TweenManager } from './core/TweenManager';
+export { LabelManager } from './core/LabelManager';
+export { ActionManager } from './core/ActionManager';
+export { OnionSkinManager } from './core/OnionSkinManager';
+export { HistoryManager } from './core/HistoryManager';
+export { EasingRegistry } from './core/EasingRegistry';
+export { InterpolationEngine } from './core/InterpolationEngine';
+
+// Utility functions
+export { EventLogger, attachEventLogger } from './utils/EventLogger';
+export { getEasingFunction, cubicBezier, steps, parseEasing, normalizeEasing } from './utils/Easing';
+export { parseVersion, compareVersions, satisfiesVersion } from './utils/Version';
+export { checkTweens, repairTweens } from './data/TweenIntegrity';
+export { CURRENT_DATA_VERSION, DATA_MIGRATIONS, migrateData } from './data/Migrations';
+export { validateTimelineData } from './data/Validation';
+
+// Types
+export type { ITimeLineData, ITimeLineSettings, ILayer, IKeyframe, IKeyframeValues, KeyframeValue, IPointValue, IColorValue, ITween, IFrameAction, FrameActionType, IFrameLabel, FrameLabelType, IPlaybackRange, LoopMode, IOnionSkinSettings, OnionSkinMode, OnionSkinAnchor } from './data/ITimeLineData';
+export type { IPlaybackClock } from './core/PlaybackEngine';
+export type { EasingFunction } from './utils/Easing';
+export type { ILayerState } from './core/InterpolationEngine';
+export type { IFrameActionEvent, FrameActionHandler } from './core/ActionManager';
+export type { IOnionSkinInfo, IOnionSkinFrame } from './core/OnionSkinManager';
+export type { IRenderChange, IRowChange, IRenderEvent } from './core/RenderScheduler';
+export type { SelectionMode } from './core/SelectionManager';
+export type { IHistoryState } from './core/HistoryManager';
+export type { ICancellableEvent, EventName, EventPattern, EventPayload, EventListener, CancellableEventName, IListenerOptions } from './core/EventManager';
+export type { TimelineEventMap, IFrameEnterEvent, IPlaybackRangeEndEvent, IHistoryChangeEvent, ITweenRangeEvent } from './core/TimelineEventMap';
+export type { ITweenIssue, TweenIssueType } from './data/TweenIntegrity';
+export type { IDataMigration, IMigrationStep, IMigrationReport } from './data/Migrations';
+export type { ValidationSeverity, IValidationDiagnostic, IValidationOptions, IValidationResult } from './data/Validation';
+export type { MoveConflictPolicy, MoveConflictReason, MoveConflictResolution, IKeyframeMove, IKeyframeMoveConflict, IKeyframeMoveReport, ITweenRef } from './core/KeyframeManager';
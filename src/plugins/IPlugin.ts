@@ -1,8 +1,130 @@
 import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ILayer, ITimeLineData } from '../data/ITimeLineData';
+import { ICommand, ICommandContext } from '../core/CommandRegistry';
+import { IRenderChange } from '../core/RenderScheduler';
+import { IMenuItem } from '../ui/ContextMenu';
+import { IGridScene } from '../ui/GridRenderer';
 
+/**
+ * A timeline plugin, installed with JsTimeLine.use()
+ * Plugins are initialized after the plugins they depend on, and their hooks
+ * run in installation order
+ */
 export interface IPlugin {
   name: string;
-  version: string;
-  initialize(context: IJsTimeLineContext): void;
+  version: string;                                // "major.minor.patch"
+  dependencies?: { [pluginName: string]: string }; // Required plugins and version ranges, e.g. { "audio": "^1.2.0" }
+
+  /**
+   * Set up the plugin; extensions are added through the host
+   */
+  initialize(context: IJsTimeLineContext, host: IPluginHost): void;
+
+  /**
+   * Release what initialize() set up; extensions added through the host are removed automatically
+   */
   destroy?(): void;
+
+  /**
+   * Called before the timeline renders changes
+   */
+  beforeRender?(change: IRenderChange): void;
+
+  /**
+   * Called after the timeline rendered changes
+   */
+  afterRender?(change: IRenderChange): void;
+
+  /**
+   * Called when new timeline data was loaded or imported
+   */
+  onDataLoaded?(data: Readonly<ITimeLineData>): void;
+
+  /**
+   * Get the state to save with the exported data (stored under data.plugins[name])
+   * @returns The state, which must survive JSON serialization, or undefined to save nothing
+   */
+  onSerialize?(): unknown;
+
+  /**
+   * Restore the state saved by onSerialize() from imported data
+   * Also called on installation when the loaded data has a saved state
+   * @param state The saved state, or undefined if the data has none
+   */
+  onDeserialize?(state: unknown): void;
+}
+
+/**
+ * Gets the menu items a plugin adds to a context menu
+ * @param target Layer (and frame, for the frame menu) the menu was opened on
+ */
+export type ContextMenuProvider = (target: ICommandContext) => IMenuItem[];
+
+/**
+ * A button added to the timeline toolbar
+ */
+export interface IToolbarButton {
+  id: string;
+  text: string;             // Button content (text or icon character)
+  title: string;            // Tooltip and accessible name
+  commandId?: string;       // Command run on click; the button is disabled while the command is
+  onClick?(): void;         // Called on click when there is no command
+}
+
+/**
+ * A column added to the layer panel rows, after the visibility and lock buttons
+ */
+export interface ILayerColumn {
+  id: string;
+  title: string;            // Tooltip of the column cells
+  render(cell: HTMLElement, layer: Readonly<ILayer>): void;
+}
+
+/**
+ * A layer drawn over the grid, covering the whole grid content
+ * The element does not receive pointer events
+ */
+export interface IGridOverlay {
+  id: string;
+  render(element: HTMLElement, scene: Readonly<IGridScene>): void;
+}
+
+/**
+ * Extension points of the timeline, given to IPlugin.initialize()
+ * Everything added through the host is removed when the plugin is removed
+ */
+export interface IPluginHost {
+  /**
+   * Add items at the end of the frame or layer context menu
+   */
+  addContextMenuItems(menu: 'frame' | 'layer', getItems: ContextMenuProvider): void;
+
+  /**
+   * Add a button to the timeline toolbar
+   * @returns false if a button with the same id exists
+   */
+  addToolbarButton(button: IToolbarButton): boolean;
+
+  /**
+   * Add a column to the layer panel
+   * @returns false if a column with the same id exists
+   */
+  addLayerColumn(column: ILayerColumn): boolean;
+
+  /**
+   * Add an overlay to the timeline grid
+   * @returns false if an overlay with the same id exists
+   */
+  addGridOverlay(overlay: IGridOverlay): boolean;
+
+  /**
+   * Register a command (shortcuts, menus and the command palette)
+   * @returns false if the command is invalid or its id is taken
+   */
+  addCommand(command: ICommand): boolean;
+
+  /**
+   * Get an installed plugin, e.g. a dependency
+   */
+  getPlugin<T extends IPlugin = IPlugin>(name: string): T | undefined;
 }
@@ -0,0 +1,327 @@
+import { IGridCell, IGridRenderer, IGridScene } from './GridRenderer';
+
+// Colours matching the DOM renderer stylesheet
+const COLORS = {
+  empty: '#fafafa',
+  emptyBorder: '#e8e8e8',
+  filled: '#e5e5e5',
+  filledBorder: '#d8d8d8',
+  tween: '#d0e8ff',
+  tweenBorder: '#b8d8f0',
+  rowBorder: '#e0e0e0',
+  selected: '#4a90e2',
+  selectedBorder: '#2a70c2',
+  dot: '#333',
+  selectedDot: '#fff',
+  action: '#8e44ad',
+  tweenOverlay: 'rgba(100, 180, 255, 0.15)',
+  easeTweenOverlay: 'rgba(150, 200, 255, 0.2)',
+  tweenOverlayBorder: '#80c0ff',
+  tweenArrow: '#0066cc',
+  label: '#d35400',
+  comment: '#27ae60'
+};
+
+// Radius of the keyframe circles
+const DOT_RADIUS = 4;
+
+// Opacity of keyframes being dragged
+const DRAGGED_ALPHA = 0.5;
+
+/**
+ * CanvasGridRenderer
+ * Draws the rendered frames on a single 2D canvas covering the rendered window
+ * instead of one element per frame, for very long timelines
+ */
+export class CanvasGridRenderer implements IGridRenderer {
+  private container: HTMLElement | null = null;
+  private canvas: HTMLCanvasElement;
+  private scene: IGridScene | null = null;
+  private cells: Map<string, IGridCell> = new Map();
+  private rowLayerIds: Map<number, string> = new Map();
+  private selectedFrameIds: Set<string> = new Set();
+  private draggedFrameIds: Set<string> = new Set();
+
+  constructor() {
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'grid-canvas';
+    this.canvas.style.position = 'absolute';
+    this.canvas.setAttribute('draggable', 'true');
+    this.canvas.setAttribute('aria-hidden', 'true');
+  }
+
+  /**
+   * Attach the renderer to the grid content element
+   */
+  public mount(container: HTMLElement): void {
+    this.container = container;
+  }
+
+  /**
+   * Remove the canvas
+   */
+  public unmount(): void {
+    if (this.container) {
+      this.container.innerHTML = '';
+      this.container = null;
+    }
+    this.scene = null;
+  }
+
+  /**
+   * Resize the canvas to the rendered window and draw the scene
+   */
+  public render(scene: IGridScene): void {
+    const container = this.container;
+    if (!container) return;
+
+    this.scene = scene;
+    this.cells = new Map(scene.cells.map(cell => [cell.id, cell]));
+    this.rowLayerIds = new Map(scene.rows.filter(row => !row.isFolder).map(row => [row.index, row.layerId]));
+    this.selectedFrameIds = new Set(scene.selectedFrameIds);
+
+    // Clear existing content, keeping only the canvas
+    container.innerHTML = '';
+    container.appendChild(this.canvas);
+
+    const { firstRow, lastRow, firstFrame, lastFrame, frameWidth, rowHeight } = scene.window;
+    const width = Math.max(0, lastFrame - firstFrame + 1) * frameWidth;
+    const height = Math.max(0, lastRow - firstRow + 1) * rowHeight;
+    const pixelRatio = window.devicePixelRatio || 1;
+
+    this.canvas.style.left = `${(firstFrame - 1) * frameWidth}px`;
+    this.canvas.style.top = `${firstRow * rowHeight}px`;
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    this.canvas.width = Math.round(width * pixelRatio);
+    this.canvas.height = Math.round(height * pixelRatio);
+
+    this.draw();
+  }
+
+  /**
+   * Merge the changed rows into the drawn scene and redraw
+   * The canvas keeps its size, so only the drawing is redone
+   */
+  public renderRows(scene: IGridScene): void {
+    if (!this.scene) {
+      this.render(scene);
+      return;
+    }
+
+    const layerIds = new Set(scene.rows.map(row => row.layerId));
+    this.scene = {
+      ...this.scene,
+      cells: [...this.scene.cells.filter(cell => !layerIds.has(cell.layerId)), ...scene.cells],
+      tweens: [...this.scene.tweens.filter(span => !layerIds.has(span.layerId)), ...scene.tweens]
+    };
+    this.cells = new Map(this.scene.cells.map(cell => [cell.id, cell]));
+    this.selectedFrameIds = new Set(scene.selectedFrameIds);
+
+    this.draw();
+  }
+
+  /**
+   * Redraw with the new selection
+   */
+  public updateSelection(selectedFrameIds: readonly string[]): void {
+    this.selectedFrameIds = new Set(selectedFrameIds);
+    this.draw();
+  }
+
+  /**
+   * Redraw with the dragged keyframes faded
+   */
+  public setDraggedFrames(frameIds: readonly string[]): void {
+    this.draggedFrameIds = new Set(frameIds);
+    this.draw();
+  }
+
+  /**
+   * Map a pointer position to the frame cell drawn there
+   */
+  public hitTest(clientX: number, clientY: number): string | null {
+    if (!this.scene) return null;
+
+    const { firstRow, firstFrame, frameWidth, rowHeight } = this.scene.window;
+    const rect = this.canvas.getBoundingClientRect();
+    const x = clientX - rect.left;
+    const y = clientY - rect.top;
+    if (x < 0 || y < 0 || x >= rect.width || y >= rect.height) return null;
+
+    const layerId = this.rowLayerIds.get(firstRow + Math.floor(y / rowHeight));
+    if (!layerId) return null;
+
+    const frameId = `${layerId}:${firstFrame + Math.floor(x / frameWidth)}`;
+    return this.cells.has(frameId) ? frameId : null;
+  }
+
+  /**
+   * Draw the scene in canvas coordinates (origin at the first rendered row and frame)
+   */
+  private draw(): void {
+    const scene = this.scene;
+    const ctx = scene ? this.canvas.getContext('2d') : null;
+    if (!scene || !ctx) return;
+
+    const { firstRow, lastRow, firstFrame, lastFrame, frameWidth, rowHeight } = scene.window;
+    const pixelRatio = window.devicePixelRatio || 1;
+    const originX = (firstFrame - 1) * frameWidth;
+    const originY = firstRow * rowHeight;
+    const width = (lastFrame - firstFrame + 1) * frameWidth;
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, (lastRow - firstRow + 1) * rowHeight);
+    ctx.translate(-originX, -originY);
+
+    // Folder rows only get empty frames
+    for (const row of scene.rows) {
+      if (!row.isFolder) continue;
+      for (let frame = firstFrame; frame <= lastFrame; frame++) {
+        this.drawFrameBox(ctx, (frame - 1) * frameWidth, row.index * rowHeight, frameWidth, rowHeight, COLORS.empty, COLORS.emptyBorder);
+      }
+    }
+
+    for (const cell of scene.cells) {
+      this.drawCell(ctx, cell, frameWidth, rowHeight);
+    }
+
+    for (const span of scene.tweens) {
+      this.drawTween(ctx, span.tween.startFrame, span.tween.endFrame, span.tween.type, span.row, frameWidth, rowHeight);
+    }
+
+    // Row separators
+    ctx.fillStyle = COLORS.rowBorder;
+    for (const row of scene.rows) {
+      ctx.fillRect(originX, (row.index + 1) * rowHeight - 1, width, 1);
+    }
+
+    this.drawLabels(ctx, scene, originY);
+  }
+
+  /**
+   * Draw a frame cell: background, keyframe circle and action marker
+   */
+  private drawCell(ctx: CanvasRenderingContext2D, cell: IGridCell, frameWidth: number, rowHeight: number): void {
+    const x = (cell.frame - 1) * frameWidth;
+    const y = cell.row * rowHeight;
+    const isSelected = this.selectedFrameIds.has(cell.id);
+    const isKeyframe = cell.type === 'keyframe' || cell.type === 'blankKeyframe';
+
+    ctx.save();
+    if (this.draggedFrameIds.has(cell.id)) {
+      ctx.globalAlpha = DRAGGED_ALPHA;
+    }
+
+    if (isSelected) {
+      this.drawFrameBox(ctx, x, y, frameWidth, rowHeight, COLORS.selected, COLORS.selectedBorder);
+      ctx.strokeStyle = COLORS.selectedBorder;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x + 1, y + 1, frameWidth - 2, rowHeight - 2);
+    } else if (cell.type === 'tween') {
+      this.drawFrameBox(ctx, x, y, frameWidth, rowHeight, COLORS.tween, COLORS.tweenBorder);
+    } else if (cell.type === 'keyframe' || cell.type === 'standard') {
+      this.drawFrameBox(ctx, x, y, frameWidth, rowHeight, COLORS.filled, COLORS.filledBorder);
+    } else {
+      this.drawFrameBox(ctx, x, y, frameWidth, rowHeight, COLORS.empty, COLORS.emptyBorder);
+    }
+
+    if (isKeyframe) {
+      // Solid circle for keyframes, hollow circle for blank keyframes
+      const dotColor = isSelected ? COLORS.selectedDot : COLORS.dot;
+      ctx.beginPath();
+      if (cell.type === 'keyframe') {
+        ctx.arc(x + frameWidth / 2, y + rowHeight / 2, DOT_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = dotColor;
+        ctx.fill();
+      } else {
+        ctx.arc(x + frameWidth / 2, y + rowHeight / 2, DOT_RADIUS - 1, 0, Math.PI * 2);
+        ctx.strokeStyle = dotColor;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+    }
+
+    if (cell.actions && cell.actions.length > 0) {
+      ctx.fillStyle = isSelected ? COLORS.selectedDot : COLORS.action;
+      ctx.font = 'bold 9px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillText('a', x + frameWidth / 2, y + 1);
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * Draw a frame background with its right border
+   */
+  private drawFrameBox(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, fill: string, border: string): void {
+    ctx.fillStyle = fill;
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = border;
+    ctx.fillRect(x + width - 1, y, 1, height);
+  }
+
+  /**
+   * Draw a tween overlay (background and arrow)
+   */
+  private drawTween(ctx: CanvasRenderingContext2D, startFrame: number, endFrame: number, type: string | undefined, row: number, frameWidth: number, rowHeight: number): void {
+    const x = startFrame * frameWidth;
+    const y = row * rowHeight;
+    const width = (endFrame - startFrame) * frameWidth;
+    const isEase = type === 'ease';
+
+    ctx.fillStyle = isEase ? COLORS.easeTweenOverlay : COLORS.tweenOverlay;
+    ctx.fillRect(x, y, width, rowHeight);
+    ctx.strokeStyle = COLORS.tweenOverlayBorder;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x, y + 0.5);
+    ctx.lineTo(x + width - 0.5, y + 0.5);
+    ctx.lineTo(x + width - 0.5, y + rowHeight - 0.5);
+    ctx.lineTo(x, y + rowHeight - 0.5);
+    ctx.stroke();
+
+    ctx.fillStyle = COLORS.tweenArrow;
+    ctx.font = 'bold 12px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(isEase ? '⇝' : '→', x + width - 4, y + rowHeight / 2);
+  }
+
+  /**
+   * Draw the dashed marker of each frame label and comment
+   */
+  private drawLabels(ctx: CanvasRenderingContext2D, scene: IGridScene, originY: number): void {
+    const { firstFrame, lastFrame, frameWidth, firstRow, lastRow, rowHeight } = scene.window;
+    const bottom = (lastRow + 1) * rowHeight;
+
+    for (const label of scene.labels) {
+      if (label.frame < firstFrame || label.frame > lastFrame) continue;
+
+      const x = (label.frame - 1) * frameWidth + 0.5;
+      const color = label.type === 'comment' ? COLORS.comment : COLORS.label;
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(x, originY);
+      ctx.lineTo(x, bottom);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Small flag at the top of the grid
+      if (firstRow === 0) {
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x + 7, 4);
+        ctx.lineTo(x, 8);
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+  }
+}
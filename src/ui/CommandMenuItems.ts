@@ -0,0 +1,65 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ICommand, ICommandContext } from '../core/CommandRegistry';
+import { IMenuItem } from './ContextMenu';
+
+/**
+ * Build context menu items from registered commands
+ * Shared by the timeline grid and the layer panel
+ * @param context Timeline context
+ * @param commandIds Command ids in menu order; null adds a separator
+ * @param commandContext What the commands apply to
+ * @param menu Commands contributed to this menu (ICommand.menu) and the items plugins add to it are added at the end
+ * @returns Menu items, or an empty array if no CommandRegistry is available
+ */
+export function getCommandMenuItems(
+  context: IJsTimeLineContext,
+  commandIds: readonly (string | null)[],
+  commandContext: ICommandContext,
+  menu?: ICommand['menu']
+): IMenuItem[] {
+  const commandRegistry = context.Core.commandRegistry;
+  if (!commandRegistry) {
+    return [];
+  }
+
+  const contributed = menu ? commandRegistry.getCommands().filter(command => command.menu === menu).map(command => command.id) : [];
+  const ids = contributed.length > 0 ? [...commandIds, null, ...contributed] : commandIds;
+  const items: IMenuItem[] = [];
+
+  for (const commandId of ids) {
+    if (commandId === null) {
+      // Skip leading and repeated separators
+      if (items.length > 0 && !items[items.length - 1].separator) {
+        items.push({ separator: true });
+      }
+      continue;
+    }
+
+    const command = commandRegistry.get(commandId);
+    if (!command) continue;
+
+    const shortcut = commandRegistry.getShortcut(commandId);
+    items.push({
+      label: command.label,
+      shortcut: shortcut ?? undefined,
+      enabled: commandRegistry.isEnabled(commandId, commandContext),
+      action: () => {
+        commandRegistry.execute(commandId, { ...commandContext, source: 'menu' });
+      }
+    });
+  }
+
+  // Drop a trailing separator
+  if (items.length > 0 && items[items.length - 1].separator) {
+    items.pop();
+  }
+
+  const pluginItems = menu ? context.Core.pluginManager?.getContextMenuItems(menu, commandContext) ?? [] : [];
+  if (pluginItems.length > 0) {
+    if (items.length > 0) {
+      items.push({ separator: true });
+    }
+    items.push(...pluginItems);
+  }
+  return items;
+}
@@ -0,0 +1,227 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ICommand } from '../core/CommandRegistry';
+
+/**
+ * CommandPalette - Searchable overlay listing every registered command (Ctrl+Shift+P)
+ */
+export class CommandPalette {
+  private static instanceCount = 0;
+
+  private context: IJsTimeLineContext;
+  private listId: string;
+  private overlay: HTMLElement | null = null;
+  private input: HTMLInputElement | null = null;
+  private list: HTMLElement | null = null;
+  private results: ICommand[] = [];
+  private activeIndex: number = 0;
+
+  constructor(context: IJsTimeLineContext) {
+    this.context = context;
+    // Element ids must be unique when several timelines share the page
+    this.listId = `command-palette-list-${++CommandPalette.instanceCount}`;
+  }
+
+  /**
+   * Open the palette with the search field focused
+   */
+  public open(): void {
+    if (this.overlay) {
+      this.input?.focus();
+      return;
+    }
+
+    // Overlay covering the timeline; clicking outside the palette closes it
+    this.overlay = document.createElement('div');
+    this.overlay.className = 'command-palette-overlay';
+    this.overlay.addEventListener('mousedown', (e: MouseEvent) => {
+      if (e.target === this.overlay) {
+        e.preventDefault();
+        this.close();
+      }
+    });
+
+    const palette = document.createElement('div');
+    palette.className = 'command-palette';
+    palette.setAttribute('role', 'dialog');
+    palette.setAttribute('aria-label', 'Command palette');
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'command-palette-input';
+    input.placeholder = 'Type a command name';
+    input.setAttribute('role', 'combobox');
+    input.setAttribute('aria-expanded', 'true');
+    input.setAttribute('aria-controls', this.listId);
+    input.addEventListener('input', () => this.update());
+    input.addEventListener('keydown', (e: KeyboardEvent) => this.onKeyDown(e));
+    this.input = input;
+
+    const list = document.createElement('div');
+    list.className = 'command-palette-list';
+    list.id = this.listId;
+    list.setAttribute('role', 'listbox');
+    this.list = list;
+
+    palette.appendChild(input);
+    palette.appendChild(list);
+    this.overlay.appendChild(palette);
+    this.context.UI.root.appendChild(this.overlay);
+
+    this.update();
+    input.focus();
+  }
+
+  /**
+   * Close the palette and give the focus back to the timeline
+   */
+  public close(): void {
+    if (!this.overlay) return;
+
+    this.overlay.remove();
+    this.overlay = null;
+    this.input = null;
+    this.list = null;
+    this.results = [];
+    this.context.UI.root.focus({ preventScroll: true });
+  }
+
+  /**
+   * Check if the palette is open
+   */
+  public isOpen(): boolean {
+    return this.overlay !== null;
+  }
+
+  /**
+   * Filter the commands by the search text and render them
+   */
+  private update(): void {
+    const commandRegistry = this.context.Core.commandRegistry;
+    if (!this.list || !this.input || !commandRegistry) return;
+
+    // Hide the palette's own command
+    this.results = commandRegistry.search(this.input.value).filter(command => command.id !== 'showCommandPalette');
+    this.activeIndex = this.results.findIndex(command => commandRegistry.isEnabled(command.id, { source: 'palette' }));
+
+    this.list.innerHTML = '';
+    if (this.results.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'command-palette-empty';
+      empty.textContent = 'No matching commands';
+      this.list.appendChild(empty);
+      return;
+    }
+
+    this.results.forEach((command, index) => {
+      const enabled = commandRegistry.isEnabled(command.id, { source: 'palette' });
+
+      const item = document.createElement('div');
+      item.className = 'command-palette-item';
+      item.id = `${this.listId}-item-${index}`;
+      item.setAttribute('role', 'option');
+      item.setAttribute('aria-disabled', String(!enabled));
+      item.classList.toggle('disabled', !enabled);
+
+      const label = document.createElement('span');
+      label.className = 'command-palette-label';
+      label.textContent = command.category ? `${command.category}: ${command.label}` : command.label;
+      item.appendChild(label);
+
+      const shortcut = commandRegistry.getShortcut(command.id);
+      if (shortcut) {
+        const shortcutElement = document.createElement('span');
+        shortcutElement.className = 'command-palette-shortcut';
+        shortcutElement.textContent = shortcut;
+        item.appendChild(shortcutElement);
+      }
+
+      item.addEventListener('mousedown', (e: MouseEvent) => {
+        e.preventDefault();
+        this.run(index);
+      });
+      item.addEventListener('mousemove', () => this.setActive(index));
+
+      this.list!.appendChild(item);
+    });
+
+    this.setActive(this.activeIndex);
+  }
+
+  /**
+   * Highlight a result and scroll it into view
+   */
+  private setActive(index: number): void {
+    if (!this.list || !this.input) return;
+
+    this.activeIndex = index;
+    this.list.querySelectorAll('.command-palette-item').forEach((item, i) => {
+      item.classList.toggle('is-active', i === index);
+      item.setAttribute('aria-selected', String(i === index));
+    });
+
+    const activeItem = index >= 0 ? this.list.children[index] as HTMLElement | undefined : undefined;
+    if (activeItem) {
+      this.input.setAttribute('aria-activedescendant', activeItem.id);
+      activeItem.scrollIntoView?.({ block: 'nearest' });
+    } else {
+      this.input.removeAttribute('aria-activedescendant');
+    }
+  }
+
+  /**
+   * Move the highlight to the next enabled result in a direction, wrapping around
+   */
+  private moveActive(direction: 1 | -1): void {
+    const commandRegistry = this.context.Core.commandRegistry;
+    const count = this.results.length;
+    if (!commandRegistry || count === 0) return;
+
+    let index = this.activeIndex;
+    for (let i = 0; i < count; i++) {
+      index = (index + direction + count) % count;
+      if (commandRegistry.isEnabled(this.results[index].id, { source: 'palette' })) {
+        this.setActive(index);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Close the palette and run a result
+   */
+  private run(index: number): void {
+    const commandRegistry = this.context.Core.commandRegistry;
+    const command = this.results[index];
+    if (!commandRegistry || !command || !commandRegistry.isEnabled(command.id, { source: 'palette' })) return;
+
+    this.close();
+    commandRegistry.execute(command.id, { source: 'palette' });
+  }
+
+  /**
+   * Keyboard navigation of the results
+   */
+  private onKeyDown(e: KeyboardEvent): void {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        this.moveActive(1);
+        break;
+
+      case 'ArrowUp':
+        e.preventDefault();
+        this.moveActive(-1);
+        break;
+
+      case 'Enter':
+        e.preventDefault();
+        this.run(this.activeIndex);
+        break;
+
+      case 'Escape':
+        e.preventDefault();
+        this.close();
+        break;
+    }
+  }
+}
@@ -3,6 +3,7 @@
  */
 export interface IMenuItem {
   label?: string;
+  shortcut?: string;
   action?: () => void;
   enabled?: boolean;
   separator?: boolean;
@@ -16,22 +17,7 @@ export interface IMenuItem {
 export class ContextMenu {
   private menuElement: HTMLElement | null = null;
   private isVisible: boolean = false;
-
-  constructor() {
-    this.setupGlobalListeners();
-  }
-
-  /**
-   * Setup global event listeners for closing menu
-   */
-  private setupGlobalListeners(): void {
-    // Close on escape key
-    document.addEventListener('keydown', (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && this.isVisible) {
-        this.hide();
-      }
-    });
-  }
+  private outsideClickTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Show the context menu at specified coordinates
@@ -62,6 +48,13 @@ export class ContextMenu {
         menuItem.className = 'context-menu-item';
         menuItem.textContent = item.label || '';
 
+        if (item.shortcut) {
+          const shortcut = document.createElement('span');
+          shortcut.className = 'context-menu-shortcut';
+          shortcut.textContent = item.shortcut;
+          menuItem.appendChild(shortcut);
+        }
+
         // Handle enabled/disabled state
         const isEnabled = item.enabled !== false;
         if (!isEnabled) {
@@ -85,8 +78,12 @@ export class ContextMenu {
     // Adjust position if menu goes off screen
     this.adjustPosition();
 
+    // Close on escape key
+    document.addEventListener('keydown', this.handleEscapeKey);
+
     // Setup click outside to close
-    setTimeout(() => {
+    this.outsideClickTimer = setTimeout(() => {
+      this.outsideClickTimer = null;
       document.addEventListener('click', this.handleOutsideClick);
     }, 0);
   }
@@ -100,6 +97,11 @@ export class ContextMenu {
     }
     this.menuElement = null;
     this.isVisible = false;
+    if (this.outsideClickTimer !== null) {
+      clearTimeout(this.outsideClickTimer);
+      this.outsideClickTimer = null;
+    }
+    document.removeEventListener('keydown', this.handleEscapeKey);
     document.removeEventListener('click', this.handleOutsideClick);
   }
 
@@ -110,6 +112,15 @@ export class ContextMenu {
     return this.isVisible;
   }
 
+  /**
+   * Close the menu on escape key
+   */
+  private handleEscapeKey = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      this.hide();
+    }
+  };
+
   /**
    * Handle clicks outside the menu
    */
@@ -154,6 +165,7 @@ export class ContextMenu {
 
   /**
    * Destroy the context menu instance
+   * The menu only listens to the document while it is shown
    */
   public destroy(): void {
     this.hide();
@@ -0,0 +1,274 @@
+import { IFrameLabel } from '../data/ITimeLineData';
+import { describeFrameAction } from '../data/FrameActions';
+import { IGridCell, IGridRenderer, IGridRow, IGridScene, IGridTweenSpan, IGridWindow } from './GridRenderer';
+
+// Class names of the frame cell elements
+const CELL_CLASS_NAMES: Record<IGridCell['type'], string> = {
+  keyframe: 'grid-keyframe',
+  blankKeyframe: 'grid-keyframe-empty',
+  standard: 'grid-frame-standard',
+  tween: 'grid-frame-tween',
+  empty: 'grid-frame'
+};
+
+/**
+ * DomGridRenderer
+ * Default grid renderer: one absolutely positioned element per frame cell,
+ * styled by the timeline stylesheet
+ */
+export class DomGridRenderer implements IGridRenderer {
+  private container: HTMLElement | null = null;
+
+  /**
+   * Attach the renderer to the grid content element
+   */
+  public mount(container: HTMLElement): void {
+    this.container = container;
+  }
+
+  /**
+   * Remove the rendered elements
+   */
+  public unmount(): void {
+    if (this.container) {
+      this.container.innerHTML = '';
+      this.container = null;
+    }
+  }
+
+  /**
+   * Rebuild the rows, frame cells, tweens and label markers
+   */
+  public render(scene: IGridScene): void {
+    const container = this.container;
+    if (!container) return;
+
+    // Clear existing content
+    container.innerHTML = '';
+
+    const rowElements = new Map<string, HTMLElement>();
+    for (const row of scene.rows) {
+      const rowElement = this.createRow(row, scene);
+      rowElements.set(row.layerId, rowElement);
+      container.appendChild(rowElement);
+    }
+
+    for (const cell of scene.cells) {
+      rowElements.get(cell.layerId)?.appendChild(this.createCell(cell, scene.window));
+    }
+
+    for (const span of scene.tweens) {
+      rowElements.get(span.layerId)?.appendChild(this.createTween(span, scene.window));
+    }
+
+    // Render frame label markers on top of the rows
+    for (const label of scene.labels) {
+      container.appendChild(this.createLabelMarker(label, scene));
+    }
+
+    this.updateSelection(scene.selectedFrameIds);
+  }
+
+  /**
+   * Replace the elements of the changed rows
+   */
+  public renderRows(scene: IGridScene): void {
+    const container = this.container;
+    if (!container) return;
+
+    for (const row of scene.rows) {
+      const rowElement = this.createRow(row, scene);
+      for (const cell of scene.cells) {
+        if (cell.layerId === row.layerId) {
+          rowElement.appendChild(this.createCell(cell, scene.window));
+        }
+      }
+      for (const span of scene.tweens) {
+        if (span.layerId === row.layerId) {
+          rowElement.appendChild(this.createTween(span, scene.window));
+        }
+      }
+
+      const oldRowElement = container.querySelector(`.grid-row[data-layer-id="${row.layerId}"]`);
+      if (oldRowElement) {
+        container.replaceChild(rowElement, oldRowElement);
+      } else {
+        container.appendChild(rowElement);
+      }
+    }
+
+    this.updateSelection(scene.selectedFrameIds);
+  }
+
+  /**
+   * Toggle the selected class on the frame cells
+   */
+  public updateSelection(selectedFrameIds: readonly string[]): void {
+    if (!this.container) return;
+
+    // Remove all existing selection classes
+    this.container.querySelectorAll('[data-frame-id].selected').forEach(frame => {
+      frame.classList.remove('selected');
+    });
+
+    // Add selection class to selected frames
+    selectedFrameIds.forEach(frameId => {
+      this.findCellElement(frameId)?.classList.add('selected');
+    });
+  }
+
+  /**
+   * Toggle the dragging class on the dragged keyframes
+   */
+  public setDraggedFrames(frameIds: readonly string[]): void {
+    if (!this.container) return;
+
+    this.container.querySelectorAll('.dragging').forEach(frame => {
+      frame.classList.remove('dragging');
+    });
+    frameIds.forEach(frameId => {
+      this.findCellElement(frameId)?.classList.add('dragging');
+    });
+  }
+
+  /**
+   * Find the frame cell element under the pointer
+   */
+  public hitTest(clientX: number, clientY: number): string | null {
+    if (!this.container || typeof document.elementFromPoint !== 'function') return null;
+
+    const element = document.elementFromPoint(clientX, clientY);
+    if (!element || !this.container.contains(element)) return null;
+
+    const cellElement = element.closest('[data-frame-id]') as HTMLElement | null;
+    return cellElement?.dataset.frameId ?? null;
+  }
+
+  /**
+   * Create a row container for a layer or folder
+   */
+  private createRow(row: IGridRow, scene: IGridScene): HTMLElement {
+    const { frameWidth, rowHeight, firstFrame, lastFrame } = scene.window;
+
+    const rowElement = document.createElement('div');
+    rowElement.className = 'grid-row';
+    rowElement.style.position = 'absolute';
+    rowElement.style.left = '0';
+    rowElement.style.top = `${row.index * rowHeight}px`;
+    rowElement.style.width = `${scene.width}px`;
+    rowElement.style.height = `${rowHeight}px`;
+    rowElement.dataset.layerId = row.layerId;
+
+    // Folders just get empty frames, without frame ids
+    if (row.isFolder) {
+      for (let frame = firstFrame; frame <= lastFrame; frame++) {
+        const frameElement = document.createElement('div');
+        frameElement.className = 'grid-frame';
+        frameElement.style.position = 'absolute';
+        frameElement.style.left = `${(frame - 1) * frameWidth}px`;
+        frameElement.style.top = '0';
+        frameElement.style.width = `${frameWidth}px`;
+        frameElement.style.height = `${rowHeight}px`;
+        rowElement.appendChild(frameElement);
+      }
+    }
+
+    return rowElement;
+  }
+
+  /**
+   * Create a frame cell element
+   * Keyframes carrying frame actions get an "a" marker listing the actions in its tooltip
+   */
+  private createCell(cell: IGridCell, gridWindow: IGridWindow): HTMLElement {
+    const { frameWidth, rowHeight } = gridWindow;
+
+    const frameElement = document.createElement('div');
+    frameElement.className = CELL_CLASS_NAMES[cell.type];
+    frameElement.style.position = 'absolute';
+    frameElement.style.left = `${(cell.frame - 1) * frameWidth}px`;
+    frameElement.style.top = '0';
+    frameElement.style.width = `${frameWidth}px`;
+    frameElement.style.height = `${rowHeight}px`;
+    frameElement.dataset.frame = cell.frame.toString();
+    frameElement.dataset.layerId = cell.layerId;
+    frameElement.dataset.frameId = cell.id;
+    frameElement.setAttribute('role', 'gridcell');
+    frameElement.setAttribute('aria-label', this.describeCell(cell));
+    frameElement.setAttribute('tabindex', '-1');
+
+    if (cell.type === 'keyframe' || cell.type === 'blankKeyframe') {
+      frameElement.setAttribute('draggable', 'true');
+    }
+
+    if (cell.actions && cell.actions.length > 0) {
+      const actionMarker = document.createElement('span');
+      actionMarker.className = 'grid-action-marker';
+      actionMarker.textContent = 'a';
+      const description = cell.actions.map(describeFrameAction).join('; ');
+      frameElement.title = description;
+      frameElement.classList.add('has-actions');
+      frameElement.setAttribute('aria-label', `${frameElement.getAttribute('aria-label')} with actions: ${description}`);
+      frameElement.appendChild(actionMarker);
+    }
+
+    return frameElement;
+  }
+
+  /**
+   * Get the accessible name of a frame cell
+   */
+  private describeCell(cell: IGridCell): string {
+    switch (cell.type) {
+      case 'keyframe':
+        return `Keyframe at frame ${cell.frame}`;
+      case 'blankKeyframe':
+        return `Empty keyframe at frame ${cell.frame}`;
+      case 'standard':
+        return `Standard frame at frame ${cell.frame}`;
+      case 'tween':
+        return `Tween frame at frame ${cell.frame}, ${cell.tween?.type || 'motion'} tween`;
+      default:
+        return `Empty frame at frame ${cell.frame}`;
+    }
+  }
+
+  /**
+   * Create a tween overlay (background and arrow)
+   */
+  private createTween(span: IGridTweenSpan, gridWindow: IGridWindow): HTMLElement {
+    const { frameWidth, rowHeight } = gridWindow;
+    const tween = span.tween;
+
+    const tweenElement = document.createElement('div');
+    tweenElement.className = 'grid-tween';
+    tweenElement.style.position = 'absolute';
+    tweenElement.style.left = `${tween.startFrame * frameWidth}px`;
+    tweenElement.style.top = '0';
+    tweenElement.style.width = `${(tween.endFrame - tween.startFrame) * frameWidth}px`;
+    tweenElement.style.height = `${rowHeight}px`;
+    tweenElement.dataset.tweenType = tween.type ?? 'linear';
+    tweenElement.dataset.startFrame = tween.startFrame.toString();
+    tweenElement.dataset.endFrame = tween.endFrame.toString();
+    return tweenElement;
+  }
+
+  /**
+   * Create a flagged vertical marker for a frame label or comment
+   */
+  private createLabelMarker(label: IFrameLabel, scene: IGridScene): HTMLElement {
+    const marker = document.createElement('div');
+    marker.className = label.type === 'comment' ? 'grid-label-marker is-comment' : 'grid-label-marker';
+    marker.style.left = `${(label.frame - 1) * scene.window.frameWidth}px`;
+    marker.style.height = `${scene.height}px`;
+    marker.title = label.name;
+    return marker;
+  }
+
+  /**
+   * Find the element of a frame cell
+   */
+  private findCellElement(frameId: string): Element | null {
+    return this.container ? this.container.querySelector(`[data-frame-id="${frameId}"]`) : null;
+  }
+}
@@ -0,0 +1,341 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { EasingFunction, getCubicBezierPoints, getEasingFunction } from '../utils/Easing';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Graph geometry: the unit square is drawn GRAPH_SIZE pixels wide, with
+// vertical padding so that overshooting curves (back, elastic) stay visible
+const GRAPH_SIZE = 180;
+const GRAPH_PADDING_X = 12;
+const GRAPH_PADDING_Y = 50;
+const CURVE_SAMPLES = 60;
+
+/**
+ * Preset curves offered as quick picks
+ */
+const EASING_PRESETS: { label: string; easing: string }[] = [
+  { label: 'Linear', easing: 'linear' },
+  { label: 'Ease', easing: 'ease' },
+  { label: 'Ease In', easing: 'ease-in' },
+  { label: 'Ease Out', easing: 'ease-out' },
+  { label: 'Ease In-Out', easing: 'ease-in-out' },
+  { label: 'Back In', easing: 'cubic-bezier(0.36, 0, 0.66, -0.56)' },
+  { label: 'Back Out', easing: 'cubic-bezier(0.34, 1.56, 0.64, 1)' }
+];
+
+/**
+ * EasingCurveEditor - Graph editor for a tween easing curve
+ * Draws the curve, lets the user drag the two cubic-bezier handles and
+ * previews the easing over the tween duration
+ */
+export class EasingCurveEditor {
+  private context: IJsTimeLineContext;
+  private element: HTMLElement;
+  private svg: SVGSVGElement;
+  private curvePath: SVGPathElement;
+  private handleLines: SVGLineElement[] = [];
+  private handles: SVGCircleElement[] = [];
+  private curveDot: SVGCircleElement;
+  private previewDot: HTMLElement;
+  private valueLabel: HTMLElement;
+  private easing: string;
+  private points: [number, number, number, number];
+  private durationMs: number;
+  private draggingHandle: number | null = null;
+  private animationFrameId: number | null = null;
+  private previewStartTime: number = 0;
+  private onChangeCallback: ((easing: string) => void) | null = null;
+
+  /**
+   * @param context Timeline context (used to resolve custom easings)
+   * @param easing Initial easing spec
+   * @param durationFrames Length of the tween in frames, used for the preview
+   */
+  constructor(context: IJsTimeLineContext, easing: string, durationFrames: number) {
+    this.context = context;
+    this.easing = easing;
+    this.points = getCubicBezierPoints(easing) || [0, 0, 1, 1];
+
+    const frameRate = context.Data.getData()?.settings?.frameRate || 24;
+    this.durationMs = Math.max(1, durationFrames) / frameRate * 1000;
+
+    this.handleMouseMove = this.handleMouseMove.bind(this);
+    this.handleMouseUp = this.handleMouseUp.bind(this);
+
+    this.element = document.createElement('div');
+    this.element.className = 'easing-curve-editor';
+
+    this.svg = this.createSvgElement('svg') as SVGSVGElement;
+    this.svg.setAttribute('class', 'easing-curve-graph');
+    this.svg.setAttribute('width', String(GRAPH_SIZE + GRAPH_PADDING_X * 2));
+    this.svg.setAttribute('height', String(GRAPH_SIZE + GRAPH_PADDING_Y * 2));
+    this.element.appendChild(this.svg);
+
+    // Unit square and diagonal
+    const frame = this.createSvgElement('rect');
+    frame.setAttribute('class', 'easing-curve-frame');
+    frame.setAttribute('x', String(GRAPH_PADDING_X));
+    frame.setAttribute('y', String(GRAPH_PADDING_Y));
+    frame.setAttribute('width', String(GRAPH_SIZE));
+    frame.setAttribute('height', String(GRAPH_SIZE));
+    this.svg.appendChild(frame);
+
+    const diagonal = this.createSvgElement('line');
+    diagonal.setAttribute('class', 'easing-curve-diagonal');
+    this.setLine(diagonal, this.toGraph(0, 0), this.toGraph(1, 1));
+    this.svg.appendChild(diagonal);
+
+    // Handle lines (drawn below the curve)
+    for (let i = 0; i < 2; i++) {
+      const line = this.createSvgElement('line') as SVGLineElement;
+      line.setAttribute('class', 'easing-curve-handle-line');
+      this.svg.appendChild(line);
+      this.handleLines.push(line);
+    }
+
+    this.curvePath = this.createSvgElement('path') as SVGPathElement;
+    this.curvePath.setAttribute('class', 'easing-curve-path');
+    this.svg.appendChild(this.curvePath);
+
+    this.curveDot = this.createSvgElement('circle') as SVGCircleElement;
+    this.curveDot.setAttribute('class', 'easing-curve-dot');
+    this.curveDot.setAttribute('r', '3');
+    this.svg.appendChild(this.curveDot);
+
+    // Draggable handles
+    for (let i = 0; i < 2; i++) {
+      const handle = this.createSvgElement('circle') as SVGCircleElement;
+      handle.setAttribute('class', 'easing-curve-handle');
+      handle.setAttribute('r', '6');
+      handle.setAttribute('data-handle', String(i));
+      handle.addEventListener('mousedown', (e: MouseEvent) => {
+        e.preventDefault();
+        this.draggingHandle = i;
+        document.addEventListener('mousemove', this.handleMouseMove);
+        document.addEventListener('mouseup', this.handleMouseUp);
+      });
+      this.svg.appendChild(handle);
+      this.handles.push(handle);
+    }
+
+    // Current curve value
+    this.valueLabel = document.createElement('div');
+    this.valueLabel.className = 'easing-curve-value';
+    this.element.appendChild(this.valueLabel);
+
+    // Live preview track
+    const previewTrack = document.createElement('div');
+    previewTrack.className = 'easing-curve-preview';
+    this.previewDot = document.createElement('div');
+    this.previewDot.className = 'easing-curve-preview-dot';
+    previewTrack.appendChild(this.previewDot);
+    this.element.appendChild(previewTrack);
+
+    // Presets
+    const presets = document.createElement('div');
+    presets.className = 'easing-curve-presets';
+    EASING_PRESETS.forEach(preset => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'easing-curve-preset';
+      button.textContent = preset.label;
+      button.title = preset.easing;
+      button.onclick = () => {
+        this.setEasing(preset.easing);
+        this.notifyChange();
+      };
+      presets.appendChild(button);
+    });
+    this.element.appendChild(presets);
+
+    this.update();
+    this.startPreview();
+  }
+
+  /**
+   * Get the root element of the editor
+   */
+  public getElement(): HTMLElement {
+    return this.element;
+  }
+
+  /**
+   * Get the current easing spec
+   */
+  public getEasing(): string {
+    return this.easing;
+  }
+
+  /**
+   * Set the easing shown in the editor
+   * Handles follow cubic-bezier curves; other easings are drawn as sampled curves
+   * @param easing Easing spec
+   */
+  public setEasing(easing: string): void {
+    this.easing = easing;
+    const points = getCubicBezierPoints(easing);
+    if (points) {
+      this.points = points;
+    }
+    this.update();
+  }
+
+  /**
+   * Register a callback called when the user changes the curve
+   * @param callback Receives the new easing spec
+   */
+  public onChange(callback: (easing: string) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  /**
+   * Stop the preview and remove listeners
+   */
+  public destroy(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    document.removeEventListener('mousemove', this.handleMouseMove);
+    document.removeEventListener('mouseup', this.handleMouseUp);
+    this.onChangeCallback = null;
+  }
+
+  /**
+   * Redraw the curve and the handles
+   */
+  private update(): void {
+    const easing = this.resolveEasing();
+    const isBezier = getCubicBezierPoints(this.easing) !== null;
+
+    let path = '';
+    for (let i = 0; i <= CURVE_SAMPLES; i++) {
+      const t = i / CURVE_SAMPLES;
+      const [x, y] = this.toGraph(t, easing(t));
+      path += `${i === 0 ? 'M' : 'L'}${x.toFixed(2)},${y.toFixed(2)} `;
+    }
+    this.curvePath.setAttribute('d', path.trim());
+
+    // Handles are dimmed when the easing is not a cubic-bezier curve;
+    // dragging one converts the easing to a cubic-bezier
+    const anchors = [this.toGraph(0, 0), this.toGraph(1, 1)];
+    for (let i = 0; i < 2; i++) {
+      const [hx, hy] = this.toGraph(this.points[i * 2], this.points[i * 2 + 1]);
+      this.handles[i].setAttribute('cx', String(hx));
+      this.handles[i].setAttribute('cy', String(hy));
+      this.handles[i].classList.toggle('is-inactive', !isBezier);
+      this.setLine(this.handleLines[i], anchors[i], [hx, hy]);
+      this.handleLines[i].classList.toggle('is-inactive', !isBezier);
+    }
+
+    this.valueLabel.textContent = this.easing;
+  }
+
+  /**
+   * Animate the preview dot over the tween duration
+   */
+  private startPreview(): void {
+    this.previewStartTime = performance.now();
+
+    const tick = (now: number) => {
+      // Hold a short pause at the end of each cycle
+      const cycle = this.durationMs + 400;
+      const elapsed = (now - this.previewStartTime) % cycle;
+      const t = Math.min(1, elapsed / this.durationMs);
+      const value = this.resolveEasing()(t);
+
+      this.previewDot.style.left = `${value * 100}%`;
+      const [x, y] = this.toGraph(t, value);
+      this.curveDot.setAttribute('cx', String(x));
+      this.curveDot.setAttribute('cy', String(y));
+
+      this.animationFrameId = requestAnimationFrame(tick);
+    };
+
+    this.animationFrameId = requestAnimationFrame(tick);
+  }
+
+  /**
+   * Move the dragged handle
+   */
+  private handleMouseMove(e: MouseEvent): void {
+    if (this.draggingHandle === null) return;
+
+    const rect = this.svg.getBoundingClientRect();
+    const [x, y] = this.fromGraph(e.clientX - rect.left, e.clientY - rect.top);
+
+    // X must stay within 0-1 for the curve to remain a function of time
+    const minY = -GRAPH_PADDING_Y / GRAPH_SIZE;
+    const maxY = 1 + GRAPH_PADDING_Y / GRAPH_SIZE;
+    this.points[this.draggingHandle * 2] = this.round(Math.max(0, Math.min(1, x)));
+    this.points[this.draggingHandle * 2 + 1] = this.round(Math.max(minY, Math.min(maxY, y)));
+
+    this.easing = `cubic-bezier(${this.points.join(', ')})`;
+    this.update();
+    this.notifyChange();
+  }
+
+  /**
+   * Stop dragging
+   */
+  private handleMouseUp(): void {
+    this.draggingHandle = null;
+    document.removeEventListener('mousemove', this.handleMouseMove);
+    document.removeEventListener('mouseup', this.handleMouseUp);
+  }
+
+  /**
+   * Call the change callback with the current easing
+   */
+  private notifyChange(): void {
+    if (this.onChangeCallback) {
+      this.onChangeCallback(this.easing);
+    }
+  }
+
+  /**
+   * Resolve the current easing, including custom easings
+   */
+  private resolveEasing(): EasingFunction {
+    const easingRegistry = this.context.Core.easingRegistry;
+    return easingRegistry ? easingRegistry.resolve(this.easing) : getEasingFunction(this.easing);
+  }
+
+  /**
+   * Convert curve coordinates (progress, value) to graph pixels
+   */
+  private toGraph(x: number, y: number): [number, number] {
+    return [GRAPH_PADDING_X + x * GRAPH_SIZE, GRAPH_PADDING_Y + (1 - y) * GRAPH_SIZE];
+  }
+
+  /**
+   * Convert graph pixels to curve coordinates
+   */
+  private fromGraph(px: number, py: number): [number, number] {
+    return [(px - GRAPH_PADDING_X) / GRAPH_SIZE, 1 - (py - GRAPH_PADDING_Y) / GRAPH_SIZE];
+  }
+
+  /**
+   * Round a control point coordinate to two decimals
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Position a line between two points
+   */
+  private setLine(line: SVGElement, from: [number, number], to: [number, number]): void {
+    line.setAttribute('x1', String(from[0]));
+    line.setAttribute('y1', String(from[1]));
+    line.setAttribute('x2', String(to[0]));
+    line.setAttribute('y2', String(to[1]));
+  }
+
+  /**
+   * Create an SVG element
+   */
+  private createSvgElement(tag: string): SVGElement {
+    return document.createElementNS(SVG_NS, tag) as SVGElement;
+  }
+}
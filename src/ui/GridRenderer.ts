@@ -0,0 +1,114 @@
+import { IFrameAction, IFrameLabel, ITween } from '../data/ITimeLineData';
+
+/**
+ * Rows and frames rendered by the grid, with the frame layout settings
+ */
+export interface IGridWindow {
+  firstRow: number;     // First rendered row index
+  lastRow: number;      // Last rendered row index
+  firstFrame: number;   // First rendered frame number
+  lastFrame: number;    // Last rendered frame number
+  frameWidth: number;
+  rowHeight: number;
+}
+
+/**
+ * How a frame cell is drawn
+ * - keyframe: Keyframe with content (solid circle)
+ * - blankKeyframe: Keyframe without content (hollow circle)
+ * - standard: Content persisting from the previous keyframe
+ * - tween: Frame inside a tween
+ * - empty: No content
+ */
+export type GridCellType = 'keyframe' | 'blankKeyframe' | 'standard' | 'tween' | 'empty';
+
+/**
+ * A rendered layer or folder row
+ */
+export interface IGridRow {
+  index: number;        // Row index from the top of the grid
+  layerId: string;
+  isFolder: boolean;    // Folder rows have no frame cells
+}
+
+/**
+ * A rendered frame cell of a layer row
+ */
+export interface IGridCell {
+  id: string;           // Frame id "layerId:frame", as used by the SelectionManager
+  layerId: string;
+  frame: number;
+  row: number;          // Row index of the layer
+  type: GridCellType;
+  tween?: ITween;                 // Tween containing the frame (tween cells)
+  actions?: IFrameAction[];       // Frame actions (keyframe cells)
+}
+
+/**
+ * A tween overlay (background and arrow) crossing the rendered frames
+ */
+export interface IGridTweenSpan {
+  layerId: string;
+  row: number;
+  tween: ITween;
+}
+
+/**
+ * Everything a grid renderer draws
+ */
+export interface IGridScene {
+  window: IGridWindow;
+  width: number;                        // Full grid width in pixels
+  height: number;                       // Full grid height in pixels
+  rows: IGridRow[];
+  cells: IGridCell[];
+  tweens: IGridTweenSpan[];
+  labels: readonly IFrameLabel[];       // Frame labels and comments on the timeline
+  selectedFrameIds: readonly string[];
+}
+
+/**
+ * Grid rendering backend used by the TimelineGrid
+ * The TimelineGrid builds the scene and handles all interaction; renderers
+ * only draw it and map pointer positions back to frame ids
+ */
+export interface IGridRenderer {
+  /**
+   * Attach the renderer to the grid content element
+   */
+  mount(container: HTMLElement): void;
+
+  /**
+   * Remove everything the renderer added to the grid content element
+   */
+  unmount(): void;
+
+  /**
+   * Draw the scene, replacing what was drawn before
+   */
+  render(scene: IGridScene): void;
+
+  /**
+   * Redraw only the rows in the scene, keeping the other rendered rows
+   * The scene has the same window as the last render()
+   */
+  renderRows(scene: IGridScene): void;
+
+  /**
+   * Highlight the selected frames without rebuilding the scene
+   */
+  updateSelection(selectedFrameIds: readonly string[]): void;
+
+  /**
+   * Mark the keyframes being dragged
+   */
+  setDraggedFrames(frameIds: readonly string[]): void;
+
+  /**
+   * Get the frame cell under a pointer position
+   * @param clientX Pointer x in viewport coordinates
+   * @param clientY Pointer y in viewport coordinates
+   * @returns Frame id "layerId:frame", or null if there is no cell there
+   */
+  hitTest(clientX: number, clientY: number): string | null;
+}
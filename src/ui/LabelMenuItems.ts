@@ -0,0 +1,66 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { IMenuItem } from './ContextMenu';
+
+/**
+ * Build the context menu items used to edit the label or comment of a frame
+ * Shared by the time ruler and the timeline grid
+ * @param context Timeline context
+ * @param frame Frame the menu was opened on
+ * @returns Menu items, or an empty array if no LabelManager is available or the timeline is read-only
+ */
+export function getLabelMenuItems(context: IJsTimeLineContext, frame: number): IMenuItem[] {
+  const labelManager = context.Core.labelManager;
+  if (!labelManager || context.readOnly) {
+    return [];
+  }
+
+  const label = labelManager.getLabelAtFrame(frame);
+
+  if (!label) {
+    return [
+      {
+        label: 'Add Frame Label...',
+        action: () => {
+          const name = prompt(`Label name for frame ${frame}:`);
+          if (name) {
+            labelManager.addLabel(frame, name, 'label');
+          }
+        }
+      },
+      {
+        label: 'Add Frame Comment...',
+        action: () => {
+          const text = prompt(`Comment for frame ${frame}:`);
+          if (text) {
+            labelManager.addLabel(frame, text, 'comment');
+          }
+        }
+      }
+    ];
+  }
+
+  const isComment = label.type === 'comment';
+  return [
+    {
+      label: isComment ? 'Edit Comment...' : 'Rename Label...',
+      action: () => {
+        const name = prompt(isComment ? 'Comment:' : 'Label name:', label.name);
+        if (name && name !== label.name) {
+          labelManager.renameLabel(frame, name);
+        }
+      }
+    },
+    {
+      label: isComment ? 'Convert to Label' : 'Convert to Comment',
+      action: () => {
+        labelManager.setLabelType(frame, isComment ? 'label' : 'comment');
+      }
+    },
+    {
+      label: isComment ? 'Remove Comment' : 'Remove Label',
+      action: () => {
+        labelManager.removeLabel(frame);
+      }
+    }
+  ];
+}
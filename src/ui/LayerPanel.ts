@@ -1,6 +1,9 @@
 import { IJsTimeLineContext } from '../IJsTimeLineContext';
 import { ILayer } from '../data/ITimeLineData';
 import { IMenuItem } from './ContextMenu';
+import { getCommandMenuItems } from './CommandMenuItems';
+import { IViewportRange, coversRange, getVisibleRows } from './Viewport';
+import { requestRender } from '../core/RenderScheduler';
 
 export class LayerPanel {
   private context: IJsTimeLineContext;
@@ -10,6 +13,7 @@ export class LayerPanel {
   private collapsedFolders: Set<string> = new Set();
   private contextMenuTrigger: HTMLElement | null = null;
   private isTouchDevice: boolean = false;
+  private renderedRows: IViewportRange | null = null;
 
   constructor(context: IJsTimeLineContext) {
     this.context = context;
@@ -116,7 +120,9 @@ export class LayerPanel {
   }
 
   /**
-   * Render the layer panel with all layers
+   * Render the layer panel
+   * Only the rows in the viewport (plus overscan) are created; spacers above
+   * and below keep the rows aligned with the grid
    */
   public render(): void {
     const data = this.context.Data.getData();
@@ -133,8 +139,13 @@ export class LayerPanel {
     contentWrapper.setAttribute('role', 'tree');
     contentWrapper.setAttribute('aria-label', 'Layer hierarchy');
 
-    // Render all layers recursively
-    this.renderLayers(data.layers, contentWrapper, 0);
+    // Render the visible layers between the spacers
+    const rowHeight = data.settings.rowHeight ?? 30;
+    const totalRows = this.getAllLayers(data.layers).length;
+    this.renderedRows = getVisibleRows(this.context, totalRows);
+    contentWrapper.appendChild(this.createSpacer(this.renderedRows.start * rowHeight));
+    this.renderLayers(data.layers, contentWrapper, 0, 0);
+    contentWrapper.appendChild(this.createSpacer(Math.max(0, totalRows - this.renderedRows.end - 1) * rowHeight));
 
     // Add toolbar with management buttons
     const toolbar = this.createToolbar();
@@ -154,12 +165,14 @@ export class LayerPanel {
     toolbar.className = 'layer-panel-toolbar';
     toolbar.setAttribute('role', 'toolbar');
     toolbar.setAttribute('aria-label', 'Layer management controls');
+    const readOnly = !!this.context.readOnly;
 
     const addLayerBtn = document.createElement('button');
     addLayerBtn.className = 'layer-toolbar-btn';
     addLayerBtn.innerHTML = '➕ Layer';
     addLayerBtn.title = 'Add Layer';
     addLayerBtn.setAttribute('aria-label', 'Add new layer');
+    addLayerBtn.disabled = readOnly;
     addLayerBtn.addEventListener('click', () => this.onAddLayer());
 
     const addFolderBtn = document.createElement('button');
@@ -167,6 +180,7 @@ export class LayerPanel {
     addFolderBtn.innerHTML = '📁 Folder';
     addFolderBtn.title = 'Add Folder';
     addFolderBtn.setAttribute('aria-label', 'Add new folder');
+    addFolderBtn.disabled = readOnly;
     addFolderBtn.addEventListener('click', () => this.onAddFolder());
 
     const deleteBtn = document.createElement('button');
@@ -174,6 +188,7 @@ export class LayerPanel {
     deleteBtn.innerHTML = '🗑 Delete';
     deleteBtn.title = 'Delete Selected';
     deleteBtn.setAttribute('aria-label', 'Delete selected layer');
+    deleteBtn.disabled = readOnly;
     deleteBtn.addEventListener('click', () => this.onDelete());
 
     toolbar.appendChild(addLayerBtn);
@@ -184,23 +199,56 @@ export class LayerPanel {
   }
 
   /**
-   * Recursively render layers and their children
+   * Create an empty block standing in for rows that are not rendered
+   * @param height Height of the skipped rows
+   */
+  private createSpacer(height: number): HTMLElement {
+    const spacer = document.createElement('div');
+    spacer.className = 'layer-panel-spacer';
+    spacer.style.height = `${height}px`;
+    spacer.setAttribute('aria-hidden', 'true');
+    return spacer;
+  }
+
+  /**
+   * Re-render when the viewport has moved beyond the rendered rows
+   */
+  private renderIfScrolledOut(): void {
+    const totalRows = this.getAllLayers(this.context.Data.getData().layers).length;
+    if (!coversRange(this.renderedRows, getVisibleRows(this.context, totalRows, 0))) {
+      this.render();
+    }
+  }
+
+  /**
+   * Recursively render layers and their children within the rendered rows
    * @param layers Array of layers to render
    * @param container Container element to append to
    * @param depth Nesting depth for indentation
+   * @param startRow Row index of the first layer
+   * @returns Row index after the last layer and its visible children
    */
-  private renderLayers(layers: ILayer[], container: HTMLElement, depth: number): void {
-    layers.forEach(layer => {
-      const layerRow = this.createLayerRow(layer, depth);
-      container.appendChild(layerRow);
+  private renderLayers(layers: ILayer[], container: HTMLElement, depth: number, startRow: number): number {
+    const rows = this.renderedRows!;
+    let currentRow = startRow;
+
+    for (const layer of layers) {
+      if (currentRow > rows.end) break;
+
+      if (currentRow >= rows.start) {
+        container.appendChild(this.createLayerRow(layer, depth));
+      }
+      currentRow++;
 
       // If this is a folder with children, recursively render them only if not collapsed
       if (layer.type === 'folder' && layer.children && layer.children.length > 0) {
         if (!this.collapsedFolders.has(layer.id)) {
-          this.renderLayers(layer.children, container, depth + 1);
+          currentRow = this.renderLayers(layer.children, container, depth + 1, currentRow);
         }
       }
-    });
+    }
+
+    return currentRow;
   }
 
   /**
@@ -256,7 +304,9 @@ export class LayerPanel {
     const dragHandle = document.createElement('div');
     dragHandle.className = 'layer-drag-handle';
     dragHandle.textContent = '::';
-    dragHandle.setAttribute('draggable', 'true');
+    // Layers cannot be edited in read-only mode
+    const readOnly = !!this.context.readOnly;
+    dragHandle.setAttribute('draggable', String(!readOnly));
     dragHandle.setAttribute('title', 'Drag to reorder');
     
     // Drag handlers on the handle only
@@ -298,6 +348,7 @@ export class LayerPanel {
     visibilityBtn.className = 'layer-btn layer-btn-visibility';
     visibilityBtn.setAttribute('title', 'Toggle visibility');
     visibilityBtn.textContent = layer.visible !== false ? '👁' : '🚫';
+    visibilityBtn.disabled = readOnly;
     visibilityBtn.addEventListener('click', (e) => {
       e.stopPropagation();
       this.toggleVisibility(layer.id);
@@ -309,12 +360,27 @@ export class LayerPanel {
     lockBtn.className = 'layer-btn layer-btn-lock';
     lockBtn.setAttribute('title', 'Toggle lock');
     lockBtn.textContent = layer.locked ? '🔒' : '🔓';
+    lockBtn.disabled = readOnly;
     lockBtn.addEventListener('click', (e) => {
       e.stopPropagation();
       this.toggleLock(layer.id);
     });
     controls.appendChild(lockBtn);
 
+    // Columns added by plugins
+    for (const column of this.context.Core.pluginManager?.getLayerColumns() ?? []) {
+      const cell = document.createElement('span');
+      cell.className = 'layer-column';
+      cell.setAttribute('data-column-id', column.id);
+      cell.setAttribute('title', column.title);
+      try {
+        column.render(cell, layer);
+      } catch (error) {
+        console.error(`Layer column "${column.id}" failed to render:`, error);
+      }
+      controls.appendChild(cell);
+    }
+
     // Create layer name container (right side)
     const nameContainer = document.createElement('div');
     nameContainer.className = 'layer-name';
@@ -323,6 +389,7 @@ export class LayerPanel {
     // Double-click to rename
     nameContainer.addEventListener('dblclick', (e) => {
       e.stopPropagation();
+      if (readOnly) return;
       this.startRename(layer.id, nameContainer);
     });
 
@@ -340,57 +407,80 @@ export class LayerPanel {
   private setupEventListeners(): void {
     // Listen for layer events to re-render
     this.context.Core.eventManager.on('layer:added', () => {
-      this.render();
-      if (this.context.UI.timelineGrid) {
-        this.context.UI.timelineGrid.render();
-      }
+      requestRender(this.context, { panel: true, grid: true });
     });
 
     this.context.Core.eventManager.on('folder:added', () => {
-      this.render();
-      if (this.context.UI.timelineGrid) {
-        this.context.UI.timelineGrid.render();
-      }
+      requestRender(this.context, { panel: true, grid: true });
     });
 
     this.context.Core.eventManager.on('layer:deleted', () => {
-      this.render();
-      if (this.context.UI.timelineGrid) {
-        this.context.UI.timelineGrid.render();
-      }
+      requestRender(this.context, { panel: true, grid: true });
     });
 
     this.context.Core.eventManager.on('layer:renamed', () => {
-      this.render();
+      requestRender(this.context, { panel: true });
+    });
+
+    // Render the rows scrolled into view
+    this.context.Core.eventManager.on('timeline:scroll', () => {
+      this.renderIfScrolledOut();
     });
 
     this.context.Core.eventManager.on('layer:visibilityChanged', () => {
-      this.render();
+      requestRender(this.context, { panel: true });
     });
 
     this.context.Core.eventManager.on('layer:lockChanged', () => {
-      this.render();
+      requestRender(this.context, { panel: true });
     });
 
-    this.context.Core.eventManager.on('layer:reordered', () => {
-      this.render();
-      if (this.context.UI.timelineGrid) {
-        this.context.UI.timelineGrid.render();
+    // Highlight the active layer when it is set from the grid or the API
+    this.context.Core.eventManager.on('onLayerSelect', ({ layerId }: { layerId: string | null }) => {
+      if (layerId !== this.selectedLayerId) {
+        this.highlightLayer(layerId);
       }
     });
 
+    this.context.Core.eventManager.on('layer:reordered', () => {
+      requestRender(this.context, { panel: true, grid: true });
+    });
+
     this.context.Core.eventManager.on('layer:reparented', () => {
-      this.render();
-      if (this.context.UI.timelineGrid) {
-        this.context.UI.timelineGrid.render();
-      }
+      requestRender(this.context, { panel: true, grid: true });
     });
   }
 
   /**
-   * Select a layer
+   * Select a layer, making it the active layer
    */
   private selectLayer(id: string): void {
+    this.highlightLayer(id);
+
+    // Focus the selected layer for keyboard navigation
+    const selectedRow = this.context.UI.layerPanelContent.querySelector(`[data-layer-id="${id}"]`) as HTMLElement;
+    if (selectedRow) {
+      selectedRow.focus();
+    }
+
+    // The SelectionManager emits onLayerSelect event for the active layer
+    const selectionManager = this.context.Core.selectionManager;
+    if (selectionManager) {
+      selectionManager.setActiveLayer(id);
+    } else {
+      this.context.Core.eventManager.emit('layer:selected', { layerId: id });
+      this.context.Core.eventManager.emit('onLayerSelect', { layerId: id });
+    }
+
+    // Update mobile context menu trigger
+    this.updateContextMenuTrigger();
+  }
+
+  /**
+   * Mark a layer row as selected and scroll it into view
+   * @param id ID of the layer, or null to clear the selection
+   */
+  private highlightLayer(id: string | null): void {
     this.selectedLayerId = id;
     
     // Update ARIA selected attribute on all layer rows
@@ -403,20 +493,29 @@ export class LayerPanel {
       row.setAttribute('tabindex', isSelected ? '0' : '-1');
     });
     
-    // Focus the selected layer for keyboard navigation
-    const selectedRow = container.querySelector(`[data-layer-id="${id}"]`) as HTMLElement;
-    if (selectedRow) {
-      selectedRow.focus();
+    // Scroll the selected layer into view so that its row gets rendered
+    if (id) {
+      this.scrollLayerIntoView(id);
     }
-    
     this.render();
+  }
 
-    // Emit event
-    this.context.Core.eventManager.emit('layer:selected', { layerId: id });
-    this.context.Core.eventManager.emit('onLayerSelect', { layerId: id });
-
-    // Update mobile context menu trigger
-    this.updateContextMenuTrigger();
+  /**
+   * Scroll the grid vertically so that a layer's row is in view
+   */
+  private scrollLayerIntoView(id: string): void {
+    const gridContainer = this.context.UI.gridContainer;
+    const data = this.context.Data.getData();
+    const rowIndex = this.getAllLayers(data.layers).findIndex(l => l.id === id);
+    if (!gridContainer || rowIndex === -1) return;
+
+    const rowHeight = data.settings.rowHeight ?? 30;
+    const rowTop = rowIndex * rowHeight;
+    if (rowTop < gridContainer.scrollTop) {
+      gridContainer.scrollTop = rowTop;
+    } else if (gridContainer.clientHeight > 0 && rowTop + rowHeight > gridContainer.scrollTop + gridContainer.clientHeight) {
+      gridContainer.scrollTop = rowTop + rowHeight - gridContainer.clientHeight;
+    }
   }
 
   /**
@@ -480,7 +579,7 @@ export class LayerPanel {
         case 'Delete':
           e.preventDefault();
           // Delete selected layer
-          if (this.selectedLayerId) {
+          if (this.selectedLayerId && !this.context.readOnly) {
             const layerManager = this.context.Core.layerManager;
             if (layerManager) {
               layerManager.deleteObject(this.selectedLayerId);
@@ -542,17 +641,16 @@ export class LayerPanel {
     // Store collapsed state in StateManager
     this.context.Core.stateManager.set('collapsedFolders', Array.from(this.collapsedFolders));
     
-    // Re-render to show/hide children
-    this.render();
-    
-    // Also trigger TimelineGrid re-render
-    if (this.context.UI.timelineGrid) {
-      this.context.UI.timelineGrid.updateCollapsedState();
-      this.context.UI.timelineGrid.render();
-    }
-    
-    // Emit event
-    this.context.Core.eventManager.emit('folder:toggled', { id, collapsed: this.collapsedFolders.has(id) });
+    this.context.batch(() => {
+      // Re-render the panel and the grid to show/hide children
+      if (this.context.UI.timelineGrid) {
+        this.context.UI.timelineGrid.updateCollapsedState();
+      }
+      requestRender(this.context, { panel: true, grid: true });
+      
+      // Emit event
+      this.context.Core.eventManager.emit('folder:toggled', { id, collapsed: this.collapsedFolders.has(id) });
+    });
   }
 
   /**
@@ -876,66 +974,20 @@ export class LayerPanel {
    */
   private showLayerContextMenu(e: MouseEvent, layer: ILayer): void {
     const contextMenu = this.context.UI.contextMenu;
-    const layerManager = this.context.Core.layerManager;
-    
-    if (!contextMenu || !layerManager) return;
+
+    if (!contextMenu) return;
 
     const menuItems: IMenuItem[] = [
-      {
-        label: 'Insert Layer',
-        action: () => {
-          const data = this.context.Data.getData();
-          layerManager.addLayer(`New Layer`, layer.id);
-        }
-      },
-      {
-        label: 'Insert Folder',
-        action: () => {
-          const data = this.context.Data.getData();
-          layerManager.addFolder(`New Folder`, layer.id);
-        }
-      },
-      {
-        separator: true
-      },
-      {
-        label: 'Delete Layer',
-        action: () => {
-          // Emit confirmation event
-          const confirmed = confirm(`Delete layer "${layer.name}"?`);
-          if (confirmed) {
-            layerManager.deleteObject(layer.id);
-          }
-        }
-      },
-      {
-        label: 'Rename Layer',
-        action: () => {
-          // Find the layer row and trigger rename
-          const layerRow = this.context.UI.layerPanelContent.querySelector(`[data-layer-id="${layer.id}"]`);
-          if (layerRow) {
-            const nameContainer = layerRow.querySelector('.layer-name') as HTMLElement;
-            if (nameContainer) {
-              this.startRename(layer.id, nameContainer);
-            }
-          }
-        }
-      },
-      {
-        separator: true
-      },
-      {
-        label: 'Show/Hide Others',
-        action: () => {
-          this.toggleOthersVisibility(layer.id);
-        }
-      },
-      {
-        label: 'Lock Others',
-        action: () => {
-          this.lockOthers(layer.id);
-        }
-      },
+      ...getCommandMenuItems(this.context, [
+        'insertLayer',
+        'insertFolder',
+        null,
+        'deleteLayer',
+        'renameLayer',
+        null,
+        'toggleOthersVisibility',
+        'lockOthers'
+      ], { layerId: layer.id }, 'layer'),
       {
         separator: true
       },
@@ -949,46 +1001,22 @@ export class LayerPanel {
   }
 
   /**
-   * Toggle visibility of all layers except the specified one
+   * Start renaming a layer in place
+   * @param id ID of the layer or folder
+   * @returns true if renaming started, false if the layer has no row on screen or the timeline is read-only
    */
-  private toggleOthersVisibility(excludeLayerId: string): void {
-    const data = this.context.Data.getData();
-    const layerManager = this.context.Core.layerManager;
-    if (!layerManager) return;
-
-    const toggleLayersRecursive = (layers: readonly ILayer[]) => {
-      layers.forEach(layer => {
-        if (layer.id !== excludeLayerId) {
-          layerManager.toggleVisibility(layer.id);
-        }
-        if (layer.children) {
-          toggleLayersRecursive(layer.children);
-        }
-      });
-    };
-
-    toggleLayersRecursive(data.layers);
-  }
-
-  /**
-   * Lock all layers except the specified one
-   */
-  private lockOthers(excludeLayerId: string): void {
-    const data = this.context.Data.getData();
-    const layerManager = this.context.Core.layerManager;
-    if (!layerManager) return;
+  public renameLayer(id: string): boolean {
+    if (this.context.readOnly) {
+      return false;
+    }
 
-    const lockLayersRecursive = (layers: readonly ILayer[]) => {
-      layers.forEach(layer => {
-        if (layer.id !== excludeLayerId && !layer.locked) {
-          layerManager.toggleLock(layer.id);
-        }
-        if (layer.children) {
-          lockLayersRecursive(layer.children);
-        }
-      });
-    };
+    const layerRow = this.context.UI.layerPanelContent.querySelector(`[data-layer-id="${id}"]`);
+    const nameContainer = layerRow?.querySelector('.layer-name') as HTMLElement | null;
+    if (!nameContainer) {
+      return false;
+    }
 
-    lockLayersRecursive(data.layers);
+    this.startRename(id, nameContainer);
+    return true;
   }
 }
@@ -1,16 +1,46 @@
 import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { IFrameLabel } from '../data/ITimeLineData';
+import { getLabelMenuItems } from './LabelMenuItems';
+import { IViewportRange, coversRange, getVisibleFrames } from './Viewport';
+import { getZoomedFrameWidth } from '../core/ZoomManager';
+
+// Minimum distance between frame number labels, and between ticks, in pixels
+const MIN_LABEL_SPACING = 40;
+const MIN_TICK_SPACING = 4;
 
 export class TimeRuler {
   private context: IJsTimeLineContext;
   private isDragging: boolean = false;
+  private draggingRangeHandle: 'in' | 'out' | null = null;
+  private draggingOnionHandle: 'start' | 'end' | null = null;
+  private suppressNextClick: boolean = false;
+  private renderedFrames: IViewportRange | null = null;
+  private playheadFrame: number = 1;
+  private documentListeners: AbortController = new AbortController();
 
   constructor(context: IJsTimeLineContext) {
     this.context = context;
     this.setupPlayheadDragging();
+    this.setupRangeDragging();
+    this.setupOnionSkinDragging();
+    this.setupRulerContextMenu();
+
+    // Render the ticks scrolled into view
+    this.context.Core.eventManager.on('timeline:scroll', () => {
+      if (!coversRange(this.renderedFrames, getVisibleFrames(this.context, 0))) {
+        this.render();
+      }
+    });
+
+    // Keep the playhead on its frame when the time axis is zoomed
+    this.context.Core.eventManager.on('zoom:changed', (data: { frameWidth: number }) => {
+      this.context.UI.playhead.style.left = `${(this.playheadFrame - 1) * data.frameWidth}px`;
+    });
   }
 
   /**
    * Render the time ruler with ticks and labels
+   * Only the ticks in the viewport (plus overscan) are created
    */
   public render(): void {
     const data = this.context.Data.getData();
@@ -21,32 +51,366 @@ export class TimeRuler {
     container.innerHTML = '';
 
     const totalFrames = settings.totalFrames;
-    const frameWidth = settings.frameWidth || 15;
+    const frameWidth = getZoomedFrameWidth(settings);
     const labelInterval = this.calculateLabelInterval(frameWidth);
+    const tickInterval = this.calculateTickInterval(frameWidth);
 
     // Set the width of the ruler content to accommodate all frames
     container.style.width = `${totalFrames * frameWidth}px`;
 
-    // Create ruler ticks and labels
-    for (let frame = 1; frame <= totalFrames; frame++) {
-      const tick = this.createTick(frame, frameWidth, labelInterval);
+    // Create ruler ticks and labels for the frames in view
+    // When zoomed out, ticks are only created at the tick interval
+    this.renderedFrames = getVisibleFrames(this.context);
+    for (let frame = this.renderedFrames.start + 1; frame <= this.renderedFrames.end + 1; frame++) {
+      if (frame !== 1 && frame % tickInterval !== 0) continue;
+      const tick = this.createTick(frame, frameWidth, labelInterval, tickInterval);
       container.appendChild(tick);
     }
+
+    // Render frame labels and comments as flags
+    for (const label of data.labels || []) {
+      if (label.frame <= totalFrames) {
+        container.appendChild(this.createLabelFlag(label, frameWidth));
+      }
+    }
+
+    this.renderPlaybackRange(container, frameWidth);
+    this.renderOnionSkinMarkers(container, frameWidth);
+  }
+
+  /**
+   * Render the playback range bar and its draggable in/out handles
+   * @param container Ruler content element
+   * @param frameWidth Width of each frame
+   */
+  private renderPlaybackRange(container: HTMLElement, frameWidth: number): void {
+    const playbackEngine = this.context.Core.playbackEngine;
+    if (!playbackEngine) return;
+
+    const { start, end } = playbackEngine.getPlaybackRange();
+
+    const rangeBar = document.createElement('div');
+    rangeBar.className = playbackEngine.hasPlaybackRange() ? 'ruler-playback-range is-custom' : 'ruler-playback-range';
+    rangeBar.style.left = `${(start - 1) * frameWidth}px`;
+    rangeBar.style.width = `${(end - start + 1) * frameWidth}px`;
+    rangeBar.title = `Playback range: ${start}-${end} (double-click to reset)`;
+    rangeBar.addEventListener('dblclick', (e: MouseEvent) => {
+      e.stopPropagation();
+      playbackEngine.clearPlaybackRange();
+    });
+    container.appendChild(rangeBar);
+
+    const handles: { kind: 'in' | 'out'; left: number; title: string }[] = [
+      { kind: 'in', left: (start - 1) * frameWidth, title: `In point: frame ${start}` },
+      { kind: 'out', left: end * frameWidth, title: `Out point: frame ${end}` }
+    ];
+
+    for (const { kind, left, title } of handles) {
+      const handle = document.createElement('div');
+      handle.className = `ruler-range-handle is-${kind}`;
+      handle.style.left = `${left}px`;
+      handle.title = title;
+      handle.addEventListener('mousedown', (e: MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        this.draggingRangeHandle = kind;
+        document.body.style.cursor = 'ew-resize';
+      });
+      container.appendChild(handle);
+    }
+  }
+
+  /**
+   * Render the onion skin range and its draggable start/end brackets
+   * Existing markers are replaced, so this can be called when the playhead moves
+   * @param container Ruler content element
+   * @param frameWidth Width of each frame
+   * @param frame Current frame (defaults to the playhead position)
+   */
+  private renderOnionSkinMarkers(container: HTMLElement, frameWidth: number, frame?: number): void {
+    container.querySelectorAll('.ruler-onion-skin, .ruler-onion-handle').forEach(el => el.remove());
+
+    const onionSkinManager = this.context.Core.onionSkinManager;
+    if (!onionSkinManager || !onionSkinManager.isEnabled()) return;
+
+    const { start, end } = onionSkinManager.getRange(frame);
+    const isFixed = onionSkinManager.getSettings().anchor === 'fixed';
+
+    const rangeBar = document.createElement('div');
+    rangeBar.className = isFixed ? 'ruler-onion-skin is-fixed' : 'ruler-onion-skin';
+    rangeBar.style.left = `${(start - 1) * frameWidth}px`;
+    rangeBar.style.width = `${(end - start + 1) * frameWidth}px`;
+    rangeBar.title = `Onion skin: ${start}-${end}${isFixed ? ' (anchored)' : ''}`;
+    container.appendChild(rangeBar);
+
+    const handles: { kind: 'start' | 'end'; left: number; title: string }[] = [
+      { kind: 'start', left: (start - 1) * frameWidth, title: `Onion skin start: frame ${start}` },
+      { kind: 'end', left: end * frameWidth, title: `Onion skin end: frame ${end}` }
+    ];
+
+    for (const { kind, left, title } of handles) {
+      const handle = document.createElement('div');
+      handle.className = `ruler-onion-handle is-${kind}`;
+      handle.style.left = `${left}px`;
+      handle.title = title;
+      handle.addEventListener('mousedown', (e: MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        this.draggingOnionHandle = kind;
+        document.body.style.cursor = 'ew-resize';
+      });
+      container.appendChild(handle);
+    }
+  }
+
+  /**
+   * Create a flag element for a frame label or comment
+   * @param label The label to display
+   * @param frameWidth Width of each frame
+   * @returns The flag element
+   */
+  private createLabelFlag(label: IFrameLabel, frameWidth: number): HTMLElement {
+    const flag = document.createElement('div');
+    flag.className = label.type === 'comment' ? 'ruler-label-flag is-comment' : 'ruler-label-flag';
+    flag.style.left = `${(label.frame - 1) * frameWidth}px`;
+    flag.textContent = label.type === 'comment' ? `// ${label.name}` : label.name;
+    flag.title = `${label.type === 'comment' ? 'Comment' : 'Label'} "${label.name}" (frame ${label.frame})`;
+    flag.dataset.labelFrame = label.frame.toString();
+
+    // Double-click to rename
+    flag.addEventListener('dblclick', (e: MouseEvent) => {
+      e.stopPropagation();
+      if (this.context.readOnly) return;
+      const labelManager = this.context.Core.labelManager;
+      const name = prompt(label.type === 'comment' ? 'Comment:' : 'Label name:', label.name);
+      if (labelManager && name && name !== label.name) {
+        labelManager.renameLabel(label.frame, name);
+      }
+    });
+
+    return flag;
+  }
+
+  /**
+   * Setup dragging of the playback range in/out handles
+   */
+  private setupRangeDragging(): void {
+    const gridContainer = this.context.UI.gridContainer;
+    if (!gridContainer) return;
+
+    document.addEventListener('mousemove', (e: MouseEvent) => {
+      const playbackEngine = this.context.Core.playbackEngine;
+      if (!this.draggingRangeHandle || !playbackEngine) return;
+
+      const rect = gridContainer.getBoundingClientRect();
+      const mouseX = e.clientX - rect.left + gridContainer.scrollLeft;
+      const settings = this.context.Data.getData().settings;
+      const frameWidth = getZoomedFrameWidth(settings);
+      const { start, end } = playbackEngine.getPlaybackRange();
+
+      // Handles sit on frame boundaries: the in handle on the left edge of
+      // the first frame, the out handle on the right edge of the last frame
+      const boundary = Math.round(mouseX / frameWidth);
+      if (this.draggingRangeHandle === 'in') {
+        const newStart = Math.max(1, Math.min(end, boundary + 1));
+        if (newStart !== start) {
+          playbackEngine.setPlaybackRange(newStart, end);
+        }
+      } else {
+        const newEnd = Math.max(start, Math.min(settings.totalFrames, boundary));
+        if (newEnd !== end) {
+          playbackEngine.setPlaybackRange(start, newEnd);
+        }
+      }
+    }, { signal: this.documentListeners.signal });
+
+    document.addEventListener('mouseup', () => {
+      if (this.draggingRangeHandle) {
+        this.draggingRangeHandle = null;
+        this.suppressNextClick = true;
+        document.body.style.cursor = '';
+        // The click event only follows when the mouse is released over the ruler
+        setTimeout(() => { this.suppressNextClick = false; }, 0);
+      }
+    }, { signal: this.documentListeners.signal });
+  }
+
+  /**
+   * Setup dragging of the onion skin brackets
+   * Relative brackets change the number of frames ghosted around the playhead,
+   * anchored brackets move the fixed range
+   */
+  private setupOnionSkinDragging(): void {
+    const gridContainer = this.context.UI.gridContainer;
+    if (!gridContainer) return;
+
+    document.addEventListener('mousemove', (e: MouseEvent) => {
+      const onionSkinManager = this.context.Core.onionSkinManager;
+      if (!this.draggingOnionHandle || !onionSkinManager) return;
+
+      const rect = gridContainer.getBoundingClientRect();
+      const mouseX = e.clientX - rect.left + gridContainer.scrollLeft;
+      const settings = this.context.Data.getData().settings;
+      const frameWidth = getZoomedFrameWidth(settings);
+      const onionSkin = onionSkinManager.getSettings();
+      const { start, end } = onionSkinManager.getRange();
+
+      // Brackets sit on frame boundaries, like the playback range handles
+      const boundary = Math.round(mouseX / frameWidth);
+      if (onionSkin.anchor === 'fixed') {
+        if (this.draggingOnionHandle === 'start') {
+          const newStart = Math.max(1, Math.min(end, boundary + 1));
+          if (newStart !== start) {
+            onionSkinManager.setFixedRange(newStart, end);
+          }
+        } else {
+          const newEnd = Math.max(start, Math.min(settings.totalFrames, boundary));
+          if (newEnd !== end) {
+            onionSkinManager.setFixedRange(start, newEnd);
+          }
+        }
+        return;
+      }
+
+      const currentFrame = onionSkinManager.getCurrentFrame();
+      if (this.draggingOnionHandle === 'start') {
+        const before = Math.max(0, currentFrame - (boundary + 1));
+        if (before !== onionSkin.before) {
+          onionSkinManager.setRange(before, onionSkin.after);
+        }
+      } else {
+        const after = Math.max(0, boundary - currentFrame);
+        if (after !== onionSkin.after) {
+          onionSkinManager.setRange(onionSkin.before, after);
+        }
+      }
+    }, { signal: this.documentListeners.signal });
+
+    document.addEventListener('mouseup', () => {
+      if (this.draggingOnionHandle) {
+        this.draggingOnionHandle = null;
+        this.suppressNextClick = true;
+        document.body.style.cursor = '';
+        // The click event only follows when the mouse is released over the ruler
+        setTimeout(() => { this.suppressNextClick = false; }, 0);
+      }
+    }, { signal: this.documentListeners.signal });
+  }
+
+  /**
+   * Setup the ruler context menu (frame labels, playback range and onion skin)
+   */
+  private setupRulerContextMenu(): void {
+    const rulerContainer = this.context.UI.rulerContainer;
+    const gridContainer = this.context.UI.gridContainer;
+    if (!rulerContainer || !gridContainer) return;
+
+    rulerContainer.addEventListener('contextmenu', (e: MouseEvent) => {
+      const contextMenu = this.context.UI.contextMenu;
+      if (!contextMenu) return;
+
+      e.preventDefault();
+
+      // Use the flag's frame when right-clicking a flag, otherwise the frame under the mouse
+      const flagFrame = (e.target as HTMLElement).dataset?.labelFrame;
+      let frame: number;
+      if (flagFrame) {
+        frame = parseInt(flagFrame, 10);
+      } else {
+        const rect = gridContainer.getBoundingClientRect();
+        const mouseX = e.clientX - rect.left + gridContainer.scrollLeft;
+        const settings = this.context.Data.getData().settings;
+        const frameWidth = getZoomedFrameWidth(settings);
+        frame = Math.max(1, Math.min(settings.totalFrames, Math.floor(mouseX / frameWidth) + 1));
+      }
+
+      const items = getLabelMenuItems(this.context, frame);
+
+      const playbackEngine = this.context.Core.playbackEngine;
+      if (playbackEngine) {
+        const { start, end } = playbackEngine.getPlaybackRange();
+        if (items.length > 0) {
+          items.push({ separator: true });
+        }
+        items.push({
+          label: 'Set In Point Here',
+          enabled: frame <= end,
+          action: () => { playbackEngine.setPlaybackRange(frame, end); }
+        });
+        items.push({
+          label: 'Set Out Point Here',
+          enabled: frame >= start,
+          action: () => { playbackEngine.setPlaybackRange(start, frame); }
+        });
+        items.push({
+          label: 'Clear Playback Range',
+          enabled: playbackEngine.hasPlaybackRange(),
+          action: () => { playbackEngine.clearPlaybackRange(); }
+        });
+      }
+
+      const onionSkinManager = this.context.Core.onionSkinManager;
+      if (onionSkinManager) {
+        const onionSkin = onionSkinManager.getSettings();
+        if (items.length > 0) {
+          items.push({ separator: true });
+        }
+        items.push({
+          label: onionSkin.enabled ? 'Hide Onion Skin' : 'Show Onion Skin',
+          action: () => { onionSkinManager.setEnabled(!onionSkin.enabled); }
+        });
+        items.push({
+          label: onionSkin.mode === 'outline' ? 'Filled Onion Skin' : 'Outline Onion Skin',
+          enabled: onionSkin.enabled,
+          action: () => { onionSkinManager.setMode(onionSkin.mode === 'outline' ? 'filled' : 'outline'); }
+        });
+        items.push({
+          label: onionSkin.anchor === 'fixed' ? 'Release Onion Markers' : 'Anchor Onion Markers',
+          enabled: onionSkin.enabled,
+          action: () => { onionSkinManager.setAnchor(onionSkin.anchor === 'fixed' ? 'relative' : 'fixed'); }
+        });
+      }
+
+      if (items.length > 0) {
+        contextMenu.show(e.clientX, e.clientY, items);
+      }
+    });
   }
 
   /**
    * Calculate the interval for showing frame labels based on frame width
+   * Picks the smallest of 1, 2, 5, 10, 20, 50... frames that keeps labels
+   * MIN_LABEL_SPACING pixels apart, so label density holds at every zoom level
    * @param frameWidth Width of each frame in pixels
    * @returns Interval for showing labels
    */
   private calculateLabelInterval(frameWidth: number): number {
-    // Show labels less frequently if frames are narrow
-    if (frameWidth < 10) {
-      return 10;
-    } else if (frameWidth < 15) {
-      return 5;
-    } else {
-      return 5; // Default: show every 5th frame
+    return this.calculateNiceInterval(MIN_LABEL_SPACING / frameWidth);
+  }
+
+  /**
+   * Calculate the interval between ticks based on frame width
+   * Every frame gets a tick until frames are narrower than MIN_TICK_SPACING
+   * @param frameWidth Width of each frame in pixels
+   * @returns Interval for creating ticks
+   */
+  private calculateTickInterval(frameWidth: number): number {
+    return this.calculateNiceInterval(MIN_TICK_SPACING / frameWidth);
+  }
+
+  /**
+   * Get the smallest interval of the 1-2-5 series that is at least minFrames
+   * @param minFrames Minimum number of frames between marks
+   */
+  private calculateNiceInterval(minFrames: number): number {
+    let magnitude = 1;
+    while (true) {
+      for (const step of [1, 2, 5]) {
+        if (step * magnitude >= minFrames) {
+          return step * magnitude;
+        }
+      }
+      magnitude *= 10;
     }
   }
 
@@ -55,9 +419,10 @@ export class TimeRuler {
    * @param frame Frame number
    * @param frameWidth Width of each frame
    * @param labelInterval Interval for showing labels
+   * @param tickInterval Interval between the created ticks
    * @returns The tick element
    */
-  private createTick(frame: number, frameWidth: number, labelInterval: number): HTMLElement {
+  private createTick(frame: number, frameWidth: number, labelInterval: number, tickInterval: number): HTMLElement {
     const tick = document.createElement('div');
     tick.className = 'ruler-tick';
     tick.style.left = `${(frame - 1) * frameWidth}px`;
@@ -75,7 +440,7 @@ export class TimeRuler {
     }
 
     // Make every 5th tick slightly taller
-    if (frame % 5 === 0) {
+    if (frame % (tickInterval * 5) === 0) {
       tick.classList.add('ruler-tick-major');
     }
 
@@ -89,12 +454,27 @@ export class TimeRuler {
    * @param isManual Whether this is a manual user action (true) or programmatic (false)
    */
   public setPlayheadPosition(frame: number, isManual: boolean = false): void {
+    // Manual seeks move the playback engine, which moves the playhead of every view
+    const playbackEngine = this.context.Core.playbackEngine;
+    if (isManual && playbackEngine) {
+      playbackEngine.goToFrame(frame);
+      this.context.Core.eventManager.emit('onTimeSeek', { currentFrame: playbackEngine.getCurrentFrame() });
+      return;
+    }
+
     const settings = this.context.Data.getData().settings;
-    const frameWidth = settings.frameWidth || 15;
+    const frameWidth = getZoomedFrameWidth(settings);
     const playhead = this.context.UI.playhead;
 
+    this.playheadFrame = frame;
+
     if (playhead) {
       playhead.style.left = `${(frame - 1) * frameWidth}px`;
+
+      // Relative onion skin brackets follow the playhead
+      if (this.context.Core.onionSkinManager?.isEnabled()) {
+        this.renderOnionSkinMarkers(this.context.UI.rulerContent, frameWidth, frame);
+      }
       
       // Emit onTimeSeek event (spec-compliant) only for manual seeks
       if (isManual) {
@@ -129,33 +509,38 @@ export class TimeRuler {
       const mouseX = e.clientX - rect.left + scrollLeft;
       
       const settings = this.context.Data.getData().settings;
-      const frameWidth = settings.frameWidth || 15;
+      const frameWidth = getZoomedFrameWidth(settings);
       const totalFrames = settings.totalFrames;
       
       // Calculate which frame the mouse is over
       const frame = Math.max(1, Math.min(totalFrames, Math.round(mouseX / frameWidth) + 1));
       
       this.setPlayheadPosition(frame, true); // true = manual user action
-    });
+    }, { signal: this.documentListeners.signal });
 
     document.addEventListener('mouseup', () => {
       if (this.isDragging) {
         this.isDragging = false;
         document.body.style.cursor = '';
       }
-    });
+    }, { signal: this.documentListeners.signal });
 
     // Also allow clicking on the ruler to jump to a frame
     const rulerContainer = this.context.UI.rulerContainer;
     rulerContainer.addEventListener('click', (e: MouseEvent) => {
       if (this.isDragging) return; // Ignore if currently dragging
+      if (this.suppressNextClick) {
+        // Click generated by the end of a range handle drag
+        this.suppressNextClick = false;
+        return;
+      }
 
       const rect = gridContainer.getBoundingClientRect();
       const scrollLeft = gridContainer.scrollLeft;
       const mouseX = e.clientX - rect.left + scrollLeft;
       
       const settings = this.context.Data.getData().settings;
-      const frameWidth = settings.frameWidth || 15;
+      const frameWidth = getZoomedFrameWidth(settings);
       const totalFrames = settings.totalFrames;
       
       const frame = Math.max(1, Math.min(totalFrames, Math.round(mouseX / frameWidth) + 1));
@@ -163,4 +548,14 @@ export class TimeRuler {
       this.setPlayheadPosition(frame, true); // true = manual user click on ruler
     });
   }
+
+  /**
+   * Stop listening to the document, ending any drag in progress
+   */
+  public destroy(): void {
+    if (this.isDragging || this.draggingRangeHandle || this.draggingOnionHandle) {
+      document.body.style.cursor = '';
+    }
+    this.documentListeners.abort();
+  }
 }
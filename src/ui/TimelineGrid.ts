@@ -1,10 +1,46 @@
 import { IJsTimeLineContext } from '../IJsTimeLineContext';
-import { ILayer, IKeyframe, ITween } from '../data/ITimeLineData';
+import { ILayer } from '../data/ITimeLineData';
 import { IMenuItem } from './ContextMenu';
+import { getLabelMenuItems } from './LabelMenuItems';
+import { getCommandMenuItems } from './CommandMenuItems';
+import { IViewportRange, coversRange, getVisibleFrames, getVisibleRows } from './Viewport';
+import { IGridCell, IGridRenderer, IGridScene, IGridWindow } from './GridRenderer';
+import { DomGridRenderer } from './DomGridRenderer';
+import { IRowChange, requestRender } from '../core/RenderScheduler';
+import { getZoomedFrameWidth } from '../core/ZoomManager';
+import { SelectionMode } from '../core/SelectionManager';
+import { IKeyframeMoveReport, MoveConflictPolicy } from '../core/KeyframeManager';
+
+// Drag data type identifying keyframe drags started in the grid
+const FRAME_DRAG_TYPE = 'application/x-timeline-frames';
+
+// Distance in pixels the pointer must move before a press becomes a marquee selection
+const MARQUEE_THRESHOLD = 4;
+
+// Distance from the grid edges, in pixels, at which a marquee auto-scrolls, and its top speed per frame
+const AUTO_SCROLL_EDGE = 30;
+const AUTO_SCROLL_MAX_SPEED = 20;
+
+/**
+ * State of a marquee (rubber-band) selection gesture
+ */
+interface IMarqueeGesture {
+  startX: number;               // Gesture start in grid content pixels
+  startY: number;
+  clientX: number;              // Last pointer position in viewport coordinates
+  clientY: number;
+  mode: SelectionMode;          // Shift adds to the selection, Alt subtracts from it
+  active: boolean;              // The pointer has moved past the threshold
+  frameIds: string[];           // Frames inside the rectangle
+  preview: string[];            // Selection shown while dragging
+  autoScrollId: number | null;  // Pending auto-scroll animation frame
+}
 
 /**
  * TimelineGrid Component
  * Renders the main timeline grid with frames, keyframes, and tweens for each layer
+ * Drawing is delegated to a grid renderer (DOM by default); selection, drag/drop
+ * and context menus are handled here using the renderer's hit-testing
  */
 export class TimelineGrid {
   private context: IJsTimeLineContext;
@@ -14,14 +50,30 @@ export class TimelineGrid {
   private dropIndicator: HTMLElement | null = null;
   private contextMenuTrigger: HTMLElement | null = null;
   private isTouchDevice: boolean = false;
-
-  constructor(context: IJsTimeLineContext) {
+  private renderedRows: IViewportRange | null = null;
+  private renderedFrames: IViewportRange | null = null;
+  private renderer: IGridRenderer;
+  private cells: Map<string, IGridCell> = new Map();
+  private scene: IGridScene | null = null;
+  private rowIndexes: Map<string, number> = new Map();
+  private marquee: IMarqueeGesture | null = null;
+  private marqueeElement: HTMLElement | null = null;
+  private overlayElements: Map<string, HTMLElement> = new Map();
+  private suppressNextClick: boolean = false;
+  private moveConflictPolicy: MoveConflictPolicy = 'reject';
+  private documentListeners: AbortController = new AbortController();
+
+  constructor(context: IJsTimeLineContext, renderer: IGridRenderer = new DomGridRenderer()) {
     this.context = context;
     this.gridContent = context.UI.gridContent;
+    this.renderer = renderer;
+    this.renderer.mount(this.gridContent);
     this.isTouchDevice = this.detectTouchDevice();
     this.restoreCollapsedState();
     this.createDropIndicator();
     this.setupContextMenu();
+    this.setupFrameInteractions();
+    this.setupMarqueeSelection();
     this.setupSelectionTrigger();
     this.setupEventListeners();
   }
@@ -35,13 +87,30 @@ export class TimelineGrid {
 
     // Listen for layer reorder events to update grid
     eventManager.on('layer:reordered', () => {
-      this.render();
+      requestRender(this.context, { grid: true });
     });
 
     // Listen for folder toggle events
     eventManager.on('folder:toggled', () => {
-      this.render();
+      requestRender(this.context, { grid: true });
     });
+
+    // Render the rows and frames scrolled into view
+    eventManager.on('timeline:scroll', () => {
+      this.renderIfScrolledOut();
+    });
+  }
+
+  /**
+   * Re-render when the viewport has moved beyond the rendered rows or frames
+   */
+  private renderIfScrolledOut(): void {
+    const totalRows = this.countLayers(this.context.Data.getData().layers);
+    const visibleRows = getVisibleRows(this.context, totalRows, 0);
+    const visibleFrames = getVisibleFrames(this.context, 0);
+    if (!coversRange(this.renderedRows, visibleRows) || !coversRange(this.renderedFrames, visibleFrames)) {
+      this.render();
+    }
   }
 
   /**
@@ -64,7 +133,7 @@ export class TimelineGrid {
     if (!selectionManager || !eventManager) return;
 
     // Listen for selection changes
-    eventManager.on('onSelectionChange', () => {
+    eventManager.on('selection:changed', () => {
       this.updateContextMenuTrigger();
     });
   }
@@ -91,9 +160,9 @@ export class TimelineGrid {
     if (selectedFrames.length !== 1) return;
 
     const frameId = selectedFrames[0];
-    const frameElement = this.gridContent.querySelector(`[data-frame-id="${frameId}"]`) as HTMLElement;
+    const cell = this.cells.get(frameId);
     
-    if (!frameElement) return;
+    if (!cell) return;
 
     // Create trigger icon
     this.contextMenuTrigger = document.createElement('div');
@@ -101,26 +170,28 @@ export class TimelineGrid {
     this.contextMenuTrigger.innerHTML = '⋮'; // Three dots
 
     // Position relative to frame
-    const frameRect = frameElement.getBoundingClientRect();
-    const gridRect = this.gridContent.getBoundingClientRect();
+    const settings = this.context.Data.getData().settings;
+    const frameWidth = getZoomedFrameWidth(settings);
+    const rowHeight = settings.rowHeight ?? 30;
     
     this.contextMenuTrigger.style.position = 'absolute';
-    this.contextMenuTrigger.style.left = `${frameRect.right - gridRect.left - 40}px`;
-    this.contextMenuTrigger.style.top = `${frameRect.top - gridRect.top + 4}px`;
+    this.contextMenuTrigger.style.left = `${cell.frame * frameWidth - 40}px`;
+    this.contextMenuTrigger.style.top = `${cell.row * rowHeight + 4}px`;
 
     // Add click handler
     this.contextMenuTrigger.addEventListener('click', (e: MouseEvent) => {
       e.stopPropagation();
       e.preventDefault();
       
-      // Simulate right-click on the frame element
+      // Simulate right-click on the middle of the frame
+      const gridRect = this.gridContent.getBoundingClientRect();
       const contextMenuEvent = new MouseEvent('contextmenu', {
         bubbles: true,
         cancelable: true,
-        clientX: frameRect.left + frameRect.width / 2,
-        clientY: frameRect.top + frameRect.height / 2
+        clientX: gridRect.left + (cell.frame - 0.5) * frameWidth,
+        clientY: gridRect.top + (cell.row + 0.5) * rowHeight
       });
-      frameElement.dispatchEvent(contextMenuEvent);
+      this.gridContent.dispatchEvent(contextMenuEvent);
     });
 
     this.gridContent.appendChild(this.contextMenuTrigger);
@@ -133,173 +204,47 @@ export class TimelineGrid {
     this.gridContent.addEventListener('contextmenu', (e: MouseEvent) => {
       e.preventDefault();
 
-      const target = e.target as HTMLElement;
-      const frameId = target.dataset.frameId;
+      const frameId = this.renderer.hitTest(e.clientX, e.clientY);
 
       if (!frameId) return;
 
-      const selectionManager = this.context.Core.selectionManager;
-      const tweenManager = this.context.Core.tweenManager;
-      const keyframeManager = this.context.Core.keyframeManager;
+      const commandRegistry = this.context.Core.commandRegistry;
       const contextMenu = this.context.UI.contextMenu;
-      
-      if (!selectionManager || !tweenManager || !keyframeManager || !contextMenu) return;
+
+      if (!commandRegistry || !contextMenu) return;
 
       const [layerId, frameStr] = frameId.split(':');
       const frame = parseInt(frameStr, 10);
       const data = this.context.Data.getData();
       const layer = this.findLayerById(data.layers, layerId);
-      
+
       if (!layer) return;
 
       // Check context of the click
+      const commandContext = { layerId, frame };
       const hasKeyframe = layer.keyframes?.some(kf => kf.frame === frame);
-      const isInTween = tweenManager.isFrameInTween(layerId, frame);
-      const selectedFrames = selectionManager.getSelectedFrames();
-      const hasSelection = selectedFrames.length > 0;
-
-      const menuItems: IMenuItem[] = [];
-
-      // Check for 2 selected keyframes for tween creation
-      if (selectedFrames.length === 2) {
-        const [layerId1, frame1Str] = selectedFrames[0].split(':');
-        const [layerId2, frame2Str] = selectedFrames[1].split(':');
-
-        if (layerId1 === layerId2) {
-          const frame1 = parseInt(frame1Str, 10);
-          const frame2 = parseInt(frame2Str, 10);
-          const startFrame = Math.min(frame1, frame2);
-          const endFrame = Math.max(frame1, frame2);
-
-          const layer1 = this.findLayerById(data.layers, layerId1);
-          if (layer1 && layer1.keyframes) {
-            const hasStartKf = layer1.keyframes.some(kf => kf.frame === startFrame);
-            const hasEndKf = layer1.keyframes.some(kf => kf.frame === endFrame);
-
-            if (hasStartKf && hasEndKf) {
-              menuItems.push({
-                label: 'Create Motion Tween',
-                action: () => {
-                  tweenManager.createMotionTween(layerId1, startFrame, endFrame);
-                }
-              });
-              menuItems.push({ separator: true });
-            }
-          }
-        }
-      }
-
-      // Check if clicking on a tween
-      if (isInTween) {
-        const tween = tweenManager.getTweenAtFrame(layerId, frame);
-        if (tween) {
-          menuItems.push({
-            label: 'Tween Properties...',
-            action: () => {
-              const dialog = this.context.UI.tweenPropertiesDialog;
-              if (dialog) {
-                dialog.show(layerId, tween, (updatedTween: any) => {
-                  tweenManager.updateTween(layerId, tween, updatedTween);
-                });
-              }
-            }
-          });
-          menuItems.push({
-            label: 'Remove Motion Tween',
-            action: () => {
-              tweenManager.removeTween(layerId, tween.startFrame, tween.endFrame);
-            }
-          });
-          menuItems.push({ separator: true });
-        }
-      }
-
-      // Common frame operations
-      if (hasKeyframe) {
-        // Keyframe-specific operations
-        menuItems.push({
-          label: 'Insert Frame',
-          action: () => {
-            keyframeManager.insertFrame(layerId, frame);
-          }
-        });
-        menuItems.push({
-          label: 'Delete Frames',
-          action: () => {
-            if (hasSelection) {
-              // Delete selected frames - convert to layer-specific ranges
-              // For simplicity, delete current frame
-              keyframeManager.deleteFrames(layerId, frame, frame);
-            } else {
-              keyframeManager.deleteFrames(layerId, frame, frame);
-            }
-          }
-        });
+      const isInTween = commandRegistry.isEnabled('removeMotionTween', commandContext);
+
+      const menuItems: IMenuItem[] = getCommandMenuItems(this.context, [
+        // Two selected keyframes of a layer can be tweened
+        ...(commandRegistry.isEnabled('createMotionTween', commandContext) ? ['createMotionTween', null] : []),
+        ...(isInTween ? ['tweenProperties', 'removeMotionTween', null] : []),
+        'insertFrame',
+        ...(hasKeyframe ? ['deleteFrame', null] : []),
+        'insertKeyframe',
+        'insertBlankKeyframe',
+        ...(hasKeyframe ? ['clearKeyframe'] : []),
+        null,
+        'copy',
+        'paste'
+      ], commandContext, 'frame');
+
+      // Frame label operations
+      const labelItems = getLabelMenuItems(this.context, frame);
+      if (labelItems.length > 0) {
         menuItems.push({ separator: true });
-        menuItems.push({
-          label: 'Insert Keyframe',
-          action: () => {
-            keyframeManager.insertKeyframe(layerId, frame);
-          }
-        });
-        menuItems.push({
-          label: 'Insert Blank Keyframe',
-          action: () => {
-            keyframeManager.insertBlankKeyframe(layerId, frame);
-          }
-        });
-        menuItems.push({
-          label: 'Clear Keyframe',
-          action: () => {
-            keyframeManager.deleteKeyframe(layerId, frame);
-          }
-        });
-      } else {
-        // Empty frame operations
-        menuItems.push({
-          label: 'Insert Frame',
-          action: () => {
-            keyframeManager.insertFrame(layerId, frame);
-          }
-        });
-        menuItems.push({
-          label: 'Insert Keyframe',
-          action: () => {
-            keyframeManager.insertKeyframe(layerId, frame);
-          }
-        });
-        menuItems.push({
-          label: 'Insert Blank Keyframe',
-          action: () => {
-            keyframeManager.insertBlankKeyframe(layerId, frame);
-          }
-        });
-      }
-
-      // Copy/Paste operations
-      menuItems.push({ separator: true });
-      menuItems.push({
-        label: 'Copy Frames',
-        enabled: hasSelection || hasKeyframe,
-        action: () => {
-          if (hasSelection) {
-            keyframeManager.copyKeyframes(selectedFrames);
-          } else {
-            keyframeManager.copyKeyframes([frameId]);
-          }
-        }
-      });
-
-      const clipboard = this.context.Core.stateManager?.get('clipboard_keyframes');
-      const hasClipboard = clipboard && Array.isArray(clipboard) && clipboard.length > 0;
-      
-      menuItems.push({
-        label: 'Paste Frames',
-        enabled: hasClipboard,
-        action: () => {
-          keyframeManager.pasteKeyframes(layerId, frame);
-        }
-      });
+        menuItems.push(...labelItems);
+      }
 
       // Show menu if we have any items
       if (menuItems.length > 0) {
@@ -352,12 +297,11 @@ export class TimelineGrid {
   }
 
   /**
-   * Main render method - clears and rebuilds the entire grid
+   * Main render method - rebuilds the grid through the renderer
+   * Only the rows and frames in the viewport (plus overscan) are rendered;
+   * the grid content keeps its full size so that scrolling works as before
    */
   public render(): void {
-    // Clear existing content
-    this.gridContent.innerHTML = '';
-
     // Get data from context
     const data = this.context.Data.getData();
     if (!data) {
@@ -367,7 +311,7 @@ export class TimelineGrid {
 
     const { settings, layers } = data;
     const totalFrames = settings.totalFrames;
-    const frameWidth = settings.frameWidth ?? 15;
+    const frameWidth = getZoomedFrameWidth(settings);
     const rowHeight = settings.rowHeight ?? 30;
 
     // Set grid content dimensions based on total frames and layers
@@ -381,9 +325,156 @@ export class TimelineGrid {
     // Remove temporary test background
     this.gridContent.style.background = 'none';
 
-    // Render all layers recursively
-    let rowIndex = 0;
-    this.renderLayers(layers, 0, rowIndex, totalFrames, frameWidth, rowHeight);
+    // Work out which rows and frames are in view
+    this.renderedRows = getVisibleRows(this.context, totalRows);
+    this.renderedFrames = getVisibleFrames(this.context);
+    const gridWindow: IGridWindow = {
+      firstRow: this.renderedRows.start,
+      lastRow: this.renderedRows.end,
+      firstFrame: this.renderedFrames.start + 1,
+      lastFrame: this.renderedFrames.end + 1,
+      frameWidth,
+      rowHeight
+    };
+
+    const scene: IGridScene = {
+      window: gridWindow,
+      width: gridWidth,
+      height: gridHeight,
+      rows: [],
+      cells: [],
+      tweens: [],
+      labels: (data.labels || []).filter(label => label.frame <= totalFrames),
+      // Frames scrolled back into view keep their selection
+      selectedFrameIds: this.getSelectedFrameIds()
+    };
+    this.addLayersToScene(scene, layers, 0);
+
+    this.scene = scene;
+    this.cells = new Map(scene.cells.map(cell => [cell.id, cell]));
+    this.rowIndexes = new Map(scene.rows.map(row => [row.layerId, row.index]));
+    this.renderer.render(scene);
+
+    this.renderOverlays();
+
+    // Keep the marquee rectangle on top of the re-rendered content
+    if (this.marquee?.active && this.marqueeElement) {
+      this.gridContent.appendChild(this.marqueeElement);
+    }
+  }
+
+  /**
+   * Re-render only the rows of changed layers
+   * Rows outside the rendered window, or whose changed frames are not rendered,
+   * are skipped; the layer structure must be unchanged since the last render()
+   * @param rows Changed frames per layer id
+   */
+  public renderRows(rows: ReadonlyMap<string, IRowChange>): void {
+    if (!this.scene) {
+      this.render();
+      return;
+    }
+
+    const { window: gridWindow } = this.scene;
+    const data = this.context.Data.getData();
+    const patch: IGridScene = {
+      ...this.scene,
+      rows: [],
+      cells: [],
+      tweens: [],
+      selectedFrameIds: this.getSelectedFrameIds()
+    };
+
+    rows.forEach((change, layerId) => {
+      const rowIndex = this.rowIndexes.get(layerId);
+      const layer = this.findLayerById(data.layers, layerId);
+      if (rowIndex === undefined || !layer || layer.type === 'folder') return;
+      if (change.endFrame < gridWindow.firstFrame || change.startFrame > gridWindow.lastFrame) return;
+
+      patch.rows.push({ index: rowIndex, layerId, isFolder: false });
+      this.addFramesToScene(patch, layer, rowIndex);
+    });
+
+    if (patch.rows.length === 0) return;
+
+    // Keep the full scene up to date for hit-testing and later patches
+    const patchedLayerIds = new Set(patch.rows.map(row => row.layerId));
+    this.scene = {
+      ...this.scene,
+      cells: [...this.scene.cells.filter(cell => !patchedLayerIds.has(cell.layerId)), ...patch.cells],
+      tweens: [...this.scene.tweens.filter(span => !patchedLayerIds.has(span.layerId)), ...patch.tweens],
+      selectedFrameIds: patch.selectedFrameIds
+    };
+    this.cells = new Map(this.scene.cells.map(cell => [cell.id, cell]));
+
+    this.renderer.renderRows(patch);
+    this.renderOverlays();
+  }
+
+  /**
+   * Draw the overlays added by plugins over the rendered grid
+   */
+  private renderOverlays(): void {
+    const overlays = this.context.Core.pluginManager?.getGridOverlays() ?? [];
+    const scene = this.scene;
+
+    // Forget the elements of removed overlays
+    const overlayIds = new Set(overlays.map(overlay => overlay.id));
+    this.overlayElements.forEach((element, id) => {
+      if (!overlayIds.has(id)) {
+        element.remove();
+        this.overlayElements.delete(id);
+      }
+    });
+    if (!scene) return;
+
+    for (const overlay of overlays) {
+      let element = this.overlayElements.get(overlay.id);
+      if (!element) {
+        element = document.createElement('div');
+        element.className = 'grid-plugin-overlay';
+        element.setAttribute('data-overlay-id', overlay.id);
+        element.setAttribute('aria-hidden', 'true');
+        this.overlayElements.set(overlay.id, element);
+      }
+      element.style.width = `${scene.width}px`;
+      element.style.height = `${scene.height}px`;
+
+      // Renderers clear the grid content, so the overlay is put back on top
+      this.gridContent.appendChild(element);
+      try {
+        overlay.render(element, scene);
+      } catch (error) {
+        console.error(`Grid overlay "${overlay.id}" failed to render:`, error);
+      }
+    }
+  }
+
+  /**
+   * Replace the grid renderer
+   * @param renderer Renderer drawing the grid from now on
+   */
+  public setRenderer(renderer: IGridRenderer): void {
+    this.renderer.unmount();
+    this.renderer = renderer;
+    this.renderer.mount(this.gridContent);
+    this.render();
+  }
+
+  /**
+   * Stop listening to the document and unmount the renderer
+   */
+  public destroy(): void {
+    this.endMarquee();
+    this.documentListeners.abort();
+    this.renderer.unmount();
+  }
+
+  /**
+   * Get the grid renderer
+   */
+  public getRenderer(): IGridRenderer {
+    return this.renderer;
   }
 
   /**
@@ -402,20 +493,29 @@ export class TimelineGrid {
   }
 
   /**
-   * Render layers recursively, handling both regular layers and folders
-   * Only renders visible layers (respecting collapsed folders)
+   * Add layers to the scene recursively, handling both regular layers and folders
+   * Only adds visible layers (respecting collapsed folders) whose row is in the window
+   * @returns Row index after the last added layer and its visible children
    */
-  private renderLayers(layers: readonly ILayer[], depth: number, startRow: number, totalFrames: number, frameWidth: number, rowHeight: number): number {
+  private addLayersToScene(scene: IGridScene, layers: readonly ILayer[], startRow: number): number {
     let currentRow = startRow;
 
     for (const layer of layers) {
-      // Create row container for this layer
-      this.renderLayerRow(layer, currentRow, totalFrames, frameWidth, rowHeight);
+      if (currentRow > scene.window.lastRow) {
+        break;
+      }
+
+      if (currentRow >= scene.window.firstRow) {
+        scene.rows.push({ index: currentRow, layerId: layer.id, isFolder: layer.type === 'folder' });
+        if (layer.type !== 'folder') {
+          this.addFramesToScene(scene, layer, currentRow);
+        }
+      }
       currentRow++;
 
-      // If this is a folder, recursively render children only if not collapsed
+      // If this is a folder, recursively add children only if not collapsed
       if (layer.type === 'folder' && layer.children && !this.collapsedFolders.has(layer.id)) {
-        currentRow = this.renderLayers(layer.children, depth + 1, currentRow, totalFrames, frameWidth, rowHeight);
+        currentRow = this.addLayersToScene(scene, layer.children, currentRow);
       }
     }
 
@@ -423,260 +523,145 @@ export class TimelineGrid {
   }
 
   /**
-   * Render a single layer row with all its frames
-   */
-  private renderLayerRow(layer: ILayer, rowIndex: number, totalFrames: number, frameWidth: number, rowHeight: number): void {
-    // Create row container
-    const rowElement = document.createElement('div');
-    rowElement.className = 'grid-row';
-    rowElement.style.position = 'absolute';
-    rowElement.style.left = '0';
-    rowElement.style.top = `${rowIndex * rowHeight}px`;
-    rowElement.style.width = `${totalFrames * frameWidth}px`;
-    rowElement.style.height = `${rowHeight}px`;
-    rowElement.dataset.layerId = layer.id;
-
-    // For folders, just render empty frames
-    if (layer.type === 'folder') {
-      this.renderEmptyFrames(rowElement, totalFrames, frameWidth, rowHeight);
-      this.gridContent.appendChild(rowElement);
-      return;
-    }
-
-    // For regular layers, render frames based on keyframes and tweens
-    this.renderFrames(rowElement, layer, frameWidth, rowHeight, totalFrames);
-    this.gridContent.appendChild(rowElement);
-  }
-
-  /**
-   * Render empty frames for folder rows
+   * Add the frame cells and tweens of a regular layer, determining frame type contextually
    */
-  private renderEmptyFrames(container: HTMLElement, totalFrames: number, frameWidth: number, rowHeight: number): void {
-    for (let frame = 1; frame <= totalFrames; frame++) {
-      const frameElement = document.createElement('div');
-      frameElement.className = 'grid-frame';
-      frameElement.style.position = 'absolute';
-      frameElement.style.left = `${(frame - 1) * frameWidth}px`;
-      frameElement.style.top = '0';
-      frameElement.style.width = `${frameWidth}px`;
-      frameElement.style.height = `${rowHeight}px`;
-      container.appendChild(frameElement);
-    }
-  }
-
-  /**
-   * Render frames for a regular layer, determining frame type contextually
-   */
-  private renderFrames(container: HTMLElement, layer: ILayer, frameWidth: number, rowHeight: number, totalFrames: number): void {
+  private addFramesToScene(scene: IGridScene, layer: ILayer, row: number): void {
+    const { firstFrame, lastFrame } = scene.window;
     const keyframes = layer.keyframes || [];
     const tweens = layer.tweens || [];
 
-    // Sort keyframes by frame number
-    const sortedKeyframes = [...keyframes].sort((a, b) => a.frame - b.frame);
+    const keyframesByFrame = new Map(keyframes.map(kf => [kf.frame, kf]));
 
-    // Track the last keyframe to determine standard frames
-    let lastKeyframe: IKeyframe | null = null;
+    // Track whether the last keyframe has content to determine standard frames,
+    // starting with the keyframe in effect before the first rendered frame
+    let lastKeyframeFrame = 0;
+    let hasContent = false;
+    for (const kf of keyframes) {
+      if (kf.frame < firstFrame && kf.frame > lastKeyframeFrame) {
+        lastKeyframeFrame = kf.frame;
+        hasContent = !kf.isEmpty;
+      }
+    }
+
+    for (let frame = firstFrame; frame <= lastFrame; frame++) {
+      const cell: IGridCell = { id: `${layer.id}:${frame}`, layerId: layer.id, frame, row, type: 'empty' };
+      const keyframe = keyframesByFrame.get(frame);
 
-    for (let frame = 1; frame <= totalFrames; frame++) {
-      // Check if this frame is a keyframe
-      const keyframe = sortedKeyframes.find(kf => kf.frame === frame);
-      
       if (keyframe) {
         // This is a keyframe
-        const isEmpty = keyframe.isEmpty ?? false;
-        this.renderKeyframe(container, frame, isEmpty, frameWidth, rowHeight, layer.id);
-        lastKeyframe = keyframe;
+        cell.type = keyframe.isEmpty ? 'blankKeyframe' : 'keyframe';
+        cell.actions = keyframe.actions;
+        hasContent = !keyframe.isEmpty;
       } else {
         // Check if this frame is part of a tween
         const tween = tweens.find(tw => frame > tw.startFrame && frame <= tw.endFrame);
-        
+
         if (tween) {
           // This is part of a tween sequence
-          this.renderTweenFrame(container, frame, tween, frameWidth, rowHeight, layer.id);
-        } else if (lastKeyframe && !lastKeyframe.isEmpty) {
+          cell.type = 'tween';
+          cell.tween = tween;
+        } else if (hasContent) {
           // This is a standard frame (content persists from last keyframe)
-          this.renderStandardFrame(container, frame, frameWidth, rowHeight, layer.id);
-        } else {
-          // This is an empty frame
-          this.renderEmptyFrame(container, frame, frameWidth, rowHeight, layer.id);
+          cell.type = 'standard';
         }
       }
+
+      scene.cells.push(cell);
     }
 
-    // Render tween overlays (arrows and backgrounds)
-    this.renderTweens(container, tweens, frameWidth, rowHeight);
-  }
-
-  /**
-   * Render a keyframe (solid or hollow circle)
-   */
-  private renderKeyframe(container: HTMLElement, frame: number, isEmpty: boolean, frameWidth: number, rowHeight: number, layerId: string): void {
-    const frameElement = document.createElement('div');
-    frameElement.className = isEmpty ? 'grid-keyframe-empty' : 'grid-keyframe';
-    frameElement.style.position = 'absolute';
-    frameElement.style.left = `${(frame - 1) * frameWidth}px`;
-    frameElement.style.top = '0';
-    frameElement.style.width = `${frameWidth}px`;
-    frameElement.style.height = `${rowHeight}px`;
-    frameElement.dataset.frame = frame.toString();
-    frameElement.dataset.layerId = layerId;
-    frameElement.dataset.frameId = `${layerId}:${frame}`;
-    frameElement.setAttribute('draggable', 'true');
-    frameElement.setAttribute('role', 'gridcell');
-    frameElement.setAttribute('aria-label', `${isEmpty ? 'Empty keyframe' : 'Keyframe'} at frame ${frame}`);
-    frameElement.setAttribute('tabindex', '-1');
-    this.addFrameClickHandler(frameElement);
-    this.addFrameDragHandlers(frameElement);
-    container.appendChild(frameElement);
-  }
-
-  /**
-   * Render a standard frame (content persists from previous keyframe)
-   */
-  private renderStandardFrame(container: HTMLElement, frame: number, frameWidth: number, rowHeight: number, layerId: string): void {
-    const frameElement = document.createElement('div');
-    frameElement.className = 'grid-frame-standard';
-    frameElement.style.position = 'absolute';
-    frameElement.style.left = `${(frame - 1) * frameWidth}px`;
-    frameElement.style.top = '0';
-    frameElement.style.width = `${frameWidth}px`;
-    frameElement.style.height = `${rowHeight}px`;
-    frameElement.dataset.frame = frame.toString();
-    frameElement.dataset.layerId = layerId;
-    frameElement.dataset.frameId = `${layerId}:${frame}`;
-    frameElement.setAttribute('role', 'gridcell');
-    frameElement.setAttribute('aria-label', `Standard frame at frame ${frame}`);
-    frameElement.setAttribute('tabindex', '-1');
-    this.addFrameClickHandler(frameElement);
-    this.addFrameDropTarget(frameElement);
-    container.appendChild(frameElement);
-  }
-
-  /**
-   * Render an empty frame
-   */
-  private renderEmptyFrame(container: HTMLElement, frame: number, frameWidth: number, rowHeight: number, layerId: string): void {
-    const frameElement = document.createElement('div');
-    frameElement.className = 'grid-frame';
-    frameElement.style.position = 'absolute';
-    frameElement.style.left = `${(frame - 1) * frameWidth}px`;
-    frameElement.style.top = '0';
-    frameElement.style.width = `${frameWidth}px`;
-    frameElement.style.height = `${rowHeight}px`;
-    frameElement.dataset.frame = frame.toString();
-    frameElement.dataset.layerId = layerId;
-    frameElement.dataset.frameId = `${layerId}:${frame}`;
-    frameElement.setAttribute('role', 'gridcell');
-    frameElement.setAttribute('aria-label', `Empty frame at frame ${frame}`);
-    frameElement.setAttribute('tabindex', '-1');
-    this.addFrameClickHandler(frameElement);
-    this.addFrameDropTarget(frameElement);
-    container.appendChild(frameElement);
-  }
-
-  /**
-   * Render a frame that is part of a tween sequence
-   */
-  private renderTweenFrame(container: HTMLElement, frame: number, tween: ITween, frameWidth: number, rowHeight: number, layerId: string): void {
-    const frameElement = document.createElement('div');
-    frameElement.className = 'grid-frame-tween';
-    frameElement.style.position = 'absolute';
-    frameElement.style.left = `${(frame - 1) * frameWidth}px`;
-    frameElement.style.top = '0';
-    frameElement.style.width = `${frameWidth}px`;
-    frameElement.style.height = `${rowHeight}px`;
-    frameElement.dataset.frame = frame.toString();
-    frameElement.dataset.layerId = layerId;
-    frameElement.dataset.frameId = `${layerId}:${frame}`;
-    frameElement.setAttribute('role', 'gridcell');
-    frameElement.setAttribute('aria-label', `Tween frame at frame ${frame}, ${tween.type || 'motion'} tween`);
-    frameElement.setAttribute('tabindex', '-1');
-    this.addFrameClickHandler(frameElement);
-    container.appendChild(frameElement);
-  }
-
-  /**
-   * Render tween overlays (backgrounds and arrows)
-   */
-  private renderTweens(container: HTMLElement, tweens: readonly ITween[], frameWidth: number, rowHeight: number): void {
+    // Tween overlays (arrows and backgrounds) crossing the window
     for (const tween of tweens) {
-      const tweenElement = document.createElement('div');
-      tweenElement.className = 'grid-tween';
-      tweenElement.style.position = 'absolute';
-      tweenElement.style.left = `${tween.startFrame * frameWidth}px`;
-      tweenElement.style.top = '0';
-      tweenElement.style.width = `${(tween.endFrame - tween.startFrame) * frameWidth}px`;
-      tweenElement.style.height = `${rowHeight}px`;
-      tweenElement.dataset.tweenType = tween.type ?? 'linear';
-      tweenElement.dataset.startFrame = tween.startFrame.toString();
-      tweenElement.dataset.endFrame = tween.endFrame.toString();
-      
-      // Add double-click handler to open tween properties dialog
-      tweenElement.addEventListener('dblclick', (e: MouseEvent) => {
-        e.stopPropagation();
-        const dialog = this.context.UI.tweenPropertiesDialog;
-        const tweenManager = this.context.Core.tweenManager;
-        
-        // Find the layer ID from the parent container
-        const layerRow = tweenElement.closest('.grid-row');
-        const layerId = layerRow?.getAttribute('data-layer-id');
-        
-        if (dialog && tweenManager && layerId) {
-          dialog.show(layerId, tween, (updatedTween: any) => {
-            tweenManager.updateTween(layerId, tween, updatedTween);
-          });
-        }
-      });
-      
-      container.appendChild(tweenElement);
+      if (tween.endFrame >= firstFrame && tween.startFrame <= lastFrame) {
+        scene.tweens.push({ layerId: layer.id, row, tween });
+      }
     }
   }
 
   /**
-   * Add click handler to a frame element for selection
+   * Setup selection, tween editing and keyframe drag/drop on the grid content
+   * Frame cells are found with the renderer's hit-testing so that the handlers
+   * work the same with every renderer
    */
-  private addFrameClickHandler(frameElement: HTMLElement): void {
-    frameElement.addEventListener('click', (e: MouseEvent) => {
-      const frameId = frameElement.dataset.frameId;
-      if (!frameId) return;
+  private setupFrameInteractions(): void {
+    this.gridContent.addEventListener('click', (e: MouseEvent) => {
+      // The click ending a marquee selection does not select the frame under the pointer
+      if (this.suppressNextClick) {
+        this.suppressNextClick = false;
+        return;
+      }
 
-      const selectionManager = this.context.Core.selectionManager;
-      if (!selectionManager) return;
-
-      // Get frame number from element
-      const frameNumber = parseInt(frameElement.dataset.frame || '1', 10);
-
-      // Handle different click modes
-      if (e.ctrlKey || e.metaKey) {
-        // CTRL/CMD + click: Toggle selection
-        selectionManager.toggleSelection(frameId);
-      } else if (e.shiftKey) {
-        // Shift + click: Range selection
-        const lastSelected = selectionManager.getLastSelectedFrame();
-        if (lastSelected) {
-          selectionManager.selectRange(lastSelected, frameId);
-        } else {
-          selectionManager.selectFrame(frameId);
-        }
+      const cell = this.getCellAt(e);
+      if (cell) {
+        this.onFrameClick(cell, e);
+      }
+    });
+
+    // Double-click on a tween frame opens the tween properties dialog
+    this.gridContent.addEventListener('dblclick', (e: MouseEvent) => {
+      const cell = this.getCellAt(e);
+      const commandRegistry = this.context.Core.commandRegistry;
+
+      if (cell?.tween && commandRegistry?.has('tweenProperties')) {
+        commandRegistry.execute('tweenProperties', { layerId: cell.layerId, frame: cell.frame, event: e });
+      }
+    });
+
+    this.setupFrameDragging();
+  }
+
+  /**
+   * Get the frame cell under a mouse or drag event
+   */
+  private getCellAt(e: MouseEvent): IGridCell | null {
+    const frameId = this.renderer.hitTest(e.clientX, e.clientY);
+    return frameId ? this.cells.get(frameId) ?? null : null;
+  }
+
+  /**
+   * Handle a click on a frame cell for selection
+   */
+  private onFrameClick(cell: IGridCell, e: MouseEvent): void {
+    const frameId = cell.id;
+
+    const selectionManager = this.context.Core.selectionManager;
+    if (!selectionManager) return;
+
+    // Get frame number from the cell
+    const frameNumber = cell.frame;
+
+    // Handle different click modes
+    if (e.ctrlKey || e.metaKey) {
+      // CTRL/CMD + click: Toggle selection
+      selectionManager.toggleSelection(frameId);
+    } else if (e.shiftKey) {
+      // Shift + click: Range selection
+      const lastSelected = selectionManager.getLastSelectedFrame();
+      if (lastSelected) {
+        selectionManager.selectRange(lastSelected, frameId);
       } else {
-        // Normal click: Single selection
         selectionManager.selectFrame(frameId);
+      }
+    } else {
+      // Normal click: Single selection
+      selectionManager.selectFrame(frameId);
 
-        // Move playhead to clicked frame if enabled in settings
-        const data = this.context.Data.getData();
-        const movePlayheadOnClick = data?.settings?.movePlayheadOnFrameClick ?? true; // Default true
-        
-        if (movePlayheadOnClick) {
-          const timeRuler = this.context.UI.timeRuler;
-          if (timeRuler && frameNumber) {
-            timeRuler.setPlayheadPosition(frameNumber, true); // true = manual user action
-          }
+      // Move playhead to clicked frame if enabled in settings
+      const data = this.context.Data.getData();
+      const movePlayheadOnClick = data?.settings?.movePlayheadOnFrameClick ?? true; // Default true
+      
+      if (movePlayheadOnClick) {
+        const timeRuler = this.context.UI.timeRuler;
+        if (timeRuler && frameNumber) {
+          timeRuler.setPlayheadPosition(frameNumber, true); // true = manual user action
         }
       }
+    }
 
-      // Update visual feedback
-      this.updateSelectionVisuals();
-    });
+    // The clicked layer becomes the target of keyboard shortcuts
+    selectionManager.setActiveLayer(cell.layerId);
+
+    // Update visual feedback
+    this.updateSelectionVisuals();
   }
 
   /**
@@ -686,41 +671,263 @@ export class TimelineGrid {
     const selectionManager = this.context.Core.selectionManager;
     if (!selectionManager) return;
 
-    // Remove all existing selection classes
-    const allFrames = this.gridContent.querySelectorAll('[data-frame-id]');
-    allFrames.forEach(frame => {
-      frame.classList.remove('selected');
+    this.renderer.updateSelection(this.getSelectedFrameIds());
+  }
+
+  /**
+   * Get the frames drawn as selected: the marquee preview while one is being
+   * dragged, the selection otherwise
+   */
+  private getSelectedFrameIds(): readonly string[] {
+    if (this.marquee?.active) {
+      return this.marquee.preview;
+    }
+    return this.context.Core.selectionManager?.getSelectedFrames() ?? [];
+  }
+
+  /**
+   * Setup marquee (rubber-band) selection
+   * Dragging from anywhere but a keyframe draws a rectangle; every frame it
+   * touches is selected when the mouse is released, with a single selection
+   * change. Shift adds to the selection, Alt subtracts from it, and the grid
+   * auto-scrolls while the pointer is near or beyond its edges.
+   */
+  private setupMarqueeSelection(): void {
+    this.marqueeElement = document.createElement('div');
+    this.marqueeElement.className = 'grid-marquee';
+    this.marqueeElement.setAttribute('aria-hidden', 'true');
+
+    this.gridContent.addEventListener('mousedown', (e: MouseEvent) => {
+      if (e.button !== 0 || !this.context.Core.selectionManager) return;
+      if ((e.target as HTMLElement).closest?.('.context-menu-trigger')) return;
+
+      // Keyframes are dragged to move them
+      const cell = this.getCellAt(e);
+      if (cell && (cell.type === 'keyframe' || cell.type === 'blankKeyframe')) return;
+
+      // Prevent native dragging and text selection
+      e.preventDefault();
+
+      // Preventing the default also prevents focusing, which keyboard shortcuts need
+      const root = this.context.UI.root;
+      if (!root.contains(document.activeElement)) {
+        root.focus({ preventScroll: true });
+      }
+
+      const { x, y } = this.toContentPosition(e.clientX, e.clientY);
+      this.marquee = {
+        startX: x,
+        startY: y,
+        clientX: e.clientX,
+        clientY: e.clientY,
+        mode: e.shiftKey ? 'add' : e.altKey ? 'subtract' : 'replace',
+        active: false,
+        frameIds: [],
+        preview: [],
+        autoScrollId: null
+      };
     });
 
-    // Add selection class to selected frames
-    const selectedFrames = selectionManager.getSelectedFrames();
-    selectedFrames.forEach(frameId => {
-      const frameElement = this.gridContent.querySelector(`[data-frame-id="${frameId}"]`);
-      if (frameElement) {
-        frameElement.classList.add('selected');
+    document.addEventListener('mousemove', (e: MouseEvent) => {
+      const marquee = this.marquee;
+      if (!marquee) return;
+
+      marquee.clientX = e.clientX;
+      marquee.clientY = e.clientY;
+
+      if (!marquee.active) {
+        const { x, y } = this.toContentPosition(e.clientX, e.clientY);
+        if (Math.abs(x - marquee.startX) < MARQUEE_THRESHOLD && Math.abs(y - marquee.startY) < MARQUEE_THRESHOLD) return;
+        marquee.active = true;
+      }
+
+      this.updateMarquee();
+      this.autoScrollMarquee();
+    }, { signal: this.documentListeners.signal });
+
+    document.addEventListener('mouseup', () => {
+      const marquee = this.marquee;
+      if (!marquee) return;
+
+      this.endMarquee();
+
+      if (marquee.active) {
+        this.context.Core.selectionManager?.selectCells(marquee.frameIds, marquee.mode);
+        this.updateSelectionVisuals();
+
+        // The click following this mouseup ends the gesture; clear the flag if
+        // the mouse was released outside the grid and no click follows
+        this.suppressNextClick = true;
+        setTimeout(() => {
+          this.suppressNextClick = false;
+        }, 0);
+      }
+    }, { signal: this.documentListeners.signal });
+
+    // Escape cancels the marquee and restores the selection
+    document.addEventListener('keydown', (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && this.marquee) {
+        this.endMarquee();
+        this.updateSelectionVisuals();
+      }
+    }, { signal: this.documentListeners.signal });
+  }
+
+  /**
+   * Redraw the marquee rectangle and preview the frames it selects
+   */
+  private updateMarquee(): void {
+    const marquee = this.marquee;
+    const marqueeElement = this.marqueeElement;
+    if (!marquee || !marqueeElement) return;
+
+    const { x, y } = this.toContentPosition(marquee.clientX, marquee.clientY);
+    const left = Math.min(marquee.startX, x);
+    const top = Math.min(marquee.startY, y);
+    const right = Math.max(marquee.startX, x);
+    const bottom = Math.max(marquee.startY, y);
+
+    marqueeElement.style.left = `${left}px`;
+    marqueeElement.style.top = `${top}px`;
+    marqueeElement.style.width = `${right - left}px`;
+    marqueeElement.style.height = `${bottom - top}px`;
+
+    // Re-renders clear the grid content
+    if (marqueeElement.parentElement !== this.gridContent) {
+      this.gridContent.appendChild(marqueeElement);
+    }
+
+    marquee.frameIds = this.getFrameIdsInRect(left, top, right, bottom);
+    marquee.preview = this.context.Core.selectionManager?.getSelectionWith(marquee.frameIds, marquee.mode) ?? [];
+    this.renderer.updateSelection(marquee.preview);
+  }
+
+  /**
+   * Scroll the grid while the marquee pointer is near or beyond its edges,
+   * growing the marquee with the scrolled content
+   */
+  private autoScrollMarquee(): void {
+    const marquee = this.marquee;
+    if (!marquee || marquee.autoScrollId !== null) return;
+
+    const gridContainer = this.context.UI.gridContainer;
+    const rect = gridContainer.getBoundingClientRect();
+
+    // Faster the deeper the pointer is in the edge zone, or the further beyond the edge
+    const getSpeed = (position: number, start: number, end: number): number => {
+      if (position < start + AUTO_SCROLL_EDGE) {
+        return -Math.min(AUTO_SCROLL_MAX_SPEED, Math.ceil((start + AUTO_SCROLL_EDGE - position) / 2));
+      }
+      if (position > end - AUTO_SCROLL_EDGE) {
+        return Math.min(AUTO_SCROLL_MAX_SPEED, Math.ceil((position - end + AUTO_SCROLL_EDGE) / 2));
+      }
+      return 0;
+    };
+
+    const dx = getSpeed(marquee.clientX, rect.left, rect.right);
+    const dy = getSpeed(marquee.clientY, rect.top, rect.bottom);
+    if (dx === 0 && dy === 0) return;
+
+    const scrollLeft = gridContainer.scrollLeft;
+    const scrollTop = gridContainer.scrollTop;
+    gridContainer.scrollLeft += dx;
+    gridContainer.scrollTop += dy;
+
+    // Stop at the ends of the grid
+    if (gridContainer.scrollLeft === scrollLeft && gridContainer.scrollTop === scrollTop) return;
+
+    this.updateMarquee();
+    marquee.autoScrollId = requestAnimationFrame(() => {
+      marquee.autoScrollId = null;
+      if (this.marquee === marquee) {
+        this.autoScrollMarquee();
       }
     });
   }
 
   /**
-   * Add drag-and-drop handlers to a frame element
+   * Stop the marquee gesture and remove the rectangle
    */
-  private addFrameDragHandlers(frameElement: HTMLElement): void {
-    // Dragstart: Store dragged frame IDs
-    frameElement.addEventListener('dragstart', (e: DragEvent) => {
-      const frameId = frameElement.dataset.frameId;
-      if (!frameId) return;
+  private endMarquee(): void {
+    if (this.marquee?.autoScrollId != null) {
+      cancelAnimationFrame(this.marquee.autoScrollId);
+    }
+    this.marquee = null;
+    this.marqueeElement?.remove();
+  }
 
+  /**
+   * Convert a viewport position to grid content pixels
+   */
+  private toContentPosition(clientX: number, clientY: number): { x: number; y: number } {
+    const rect = this.gridContent.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  }
+
+  /**
+   * Get the frame ids of every layer frame touched by a rectangle, including
+   * rows and frames that are not rendered
+   * @param left Left edge in grid content pixels (top, right and bottom likewise)
+   */
+  private getFrameIdsInRect(left: number, top: number, right: number, bottom: number): string[] {
+    const { settings, layers } = this.context.Data.getData();
+    const frameWidth = getZoomedFrameWidth(settings);
+    const rowHeight = settings.rowHeight ?? 30;
+    const rowLayers = this.getRowLayers(layers);
+
+    const firstFrame = Math.max(1, Math.floor(left / frameWidth) + 1);
+    const lastFrame = Math.min(settings.totalFrames, Math.floor(right / frameWidth) + 1);
+    const firstRow = Math.max(0, Math.floor(top / rowHeight));
+    const lastRow = Math.min(rowLayers.length - 1, Math.floor(bottom / rowHeight));
+
+    const frameIds: string[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      const layer = rowLayers[row];
+      if (layer.type === 'folder') continue;
+      for (let frame = firstFrame; frame <= lastFrame; frame++) {
+        frameIds.push(`${layer.id}:${frame}`);
+      }
+    }
+    return frameIds;
+  }
+
+  /**
+   * Get the layers and folders of each grid row, in row order
+   * (children of collapsed folders have no rows)
+   */
+  private getRowLayers(layers: readonly ILayer[], rowLayers: ILayer[] = []): ILayer[] {
+    for (const layer of layers) {
+      rowLayers.push(layer);
+      if (layer.type === 'folder' && layer.children && !this.collapsedFolders.has(layer.id)) {
+        this.getRowLayers(layer.children, rowLayers);
+      }
+    }
+    return rowLayers;
+  }
+
+  /**
+   * Setup keyframe drag-and-drop, moving the dragged keyframes across frames and layers
+   */
+  private setupFrameDragging(): void {
+    // Dragstart: Store dragged frame IDs
+    this.gridContent.addEventListener('dragstart', (e: DragEvent) => {
+      const cell = this.getCellAt(e);
       const selectionManager = this.context.Core.selectionManager;
-      if (!selectionManager) return;
 
-      // If dragging a selected frame, drag all selected frames
-      if (selectionManager.isSelected(frameId)) {
-        this.draggedFrames = selectionManager.getSelectedFrames();
+      // Only keyframes can be dragged, and not in read-only mode
+      if (!cell || (cell.type !== 'keyframe' && cell.type !== 'blankKeyframe') || !selectionManager || this.context.readOnly) {
+        e.preventDefault();
+        return;
+      }
+
+      // If dragging a selected frame, drag all selected frames, with the
+      // grabbed keyframe first as the anchor that lands on the drop target
+      if (selectionManager.isSelected(cell.id)) {
+        this.draggedFrames = [cell.id, ...selectionManager.getSelectedFrames().filter(frameId => frameId !== cell.id)];
       } else {
         // If dragging a non-selected frame, drag only this frame
-        this.draggedFrames = [frameId];
-        selectionManager.selectFrame(frameId);
+        this.draggedFrames = [cell.id];
+        selectionManager.selectFrame(cell.id);
         this.updateSelectionVisuals();
       }
 
@@ -728,91 +935,123 @@ export class TimelineGrid {
       if (e.dataTransfer) {
         e.dataTransfer.effectAllowed = 'move';
         e.dataTransfer.setData('text/plain', JSON.stringify(this.draggedFrames));
+        e.dataTransfer.setData(FRAME_DRAG_TYPE, JSON.stringify(this.draggedFrames));
       }
 
-      // Add dragging class
-      frameElement.classList.add('dragging');
+      // Mark the dragged keyframes
+      this.renderer.setDraggedFrames(this.draggedFrames);
     });
 
     // Dragend: Clean up
-    frameElement.addEventListener('dragend', (e: DragEvent) => {
-      frameElement.classList.remove('dragging');
+    this.gridContent.addEventListener('dragend', () => {
+      this.renderer.setDraggedFrames([]);
       this.hideDropIndicator();
       this.draggedFrames = [];
     });
-  }
 
-  /**
-   * Add drop target handlers to a frame element
-   */
-  private addFrameDropTarget(frameElement: HTMLElement): void {
-    // Dragover: Show drop indicator
-    frameElement.addEventListener('dragover', (e: DragEvent) => {
-      if (this.draggedFrames.length === 0) return;
+    // Dragover: Show drop indicator, marked invalid when the move would be rejected
+    this.gridContent.addEventListener('dragover', (e: DragEvent) => {
+      const cell = this.getCellAt(e);
+      const report = cell && this.isFrameDrag(e) ? this.planDrop(cell) : null;
+      if (!cell || !report || (report.frameOffset === 0 && report.layerOffset === 0)) {
+        this.hideDropIndicator();
+        return;
+      }
+
+      if (!report.success) {
+        this.showDropIndicator(cell, true);
+        return;
+      }
       
       e.preventDefault();
       if (e.dataTransfer) {
         e.dataTransfer.dropEffect = 'move';
       }
 
-      const targetFrameId = frameElement.dataset.frameId;
-      if (targetFrameId) {
-        this.showDropIndicator(targetFrameId);
-      }
+      this.showDropIndicator(cell);
     });
 
     // Drop: Move keyframes
-    frameElement.addEventListener('drop', (e: DragEvent) => {
+    this.gridContent.addEventListener('drop', (e: DragEvent) => {
       e.preventDefault();
       
-      const targetFrameId = frameElement.dataset.frameId;
-      if (!targetFrameId || this.draggedFrames.length === 0) return;
-
-      const [targetLayerId, targetFrameStr] = targetFrameId.split(':');
-      const targetFrame = parseInt(targetFrameStr, 10);
+      const cell = this.getCellAt(e);
+      if (!cell || !this.isFrameDrag(e)) {
+        // Leftover state from a drag whose source frame was scrolled out of the DOM
+        this.draggedFrames = [];
+        this.hideDropIndicator();
+        return;
+      }
 
       const keyframeManager = this.context.Core.keyframeManager;
-      if (keyframeManager) {
-        const success = keyframeManager.moveKeyframes(this.draggedFrames, targetLayerId, targetFrame);
+      const report = this.planDrop(cell);
+      if (keyframeManager && report?.success) {
+        const success = keyframeManager.moveKeyframes(this.draggedFrames, cell.layerId, cell.frame, this.moveConflictPolicy);
         if (success) {
           // Update selection to new positions
-          const [sourceLayerId, sourceFrameStr] = this.draggedFrames[0].split(':');
-          const sourceFrame = parseInt(sourceFrameStr, 10);
-          const frameOffset = targetFrame - sourceFrame;
-
-          const selectionManager = this.context.Core.selectionManager;
-          if (selectionManager) {
-            selectionManager.clearSelection();
-            this.draggedFrames.forEach(frameId => {
-              const [layerId, frameStr] = frameId.split(':');
-              const frame = parseInt(frameStr, 10);
-              const newFrameId = `${targetLayerId}:${frame + frameOffset}`;
-              selectionManager.toggleSelection(newFrameId);
-            });
-          }
+          this.context.Core.selectionManager?.selectCells(report.moves.map(move => `${move.toLayerId}:${move.newFrame}`));
         }
       }
 
+      this.renderer.setDraggedFrames([]);
       this.hideDropIndicator();
       this.draggedFrames = [];
     });
   }
 
+  /**
+   * Plan the move of the dragged keyframes with the grabbed keyframe dropped on a cell
+   * @returns The move report, or null without a KeyframeManager
+   */
+  private planDrop(cell: IGridCell): IKeyframeMoveReport | null {
+    const keyframeManager = this.context.Core.keyframeManager;
+    return keyframeManager ? keyframeManager.planMoveKeyframes(this.draggedFrames, cell.layerId, cell.frame, this.moveConflictPolicy) : null;
+  }
+
+  /**
+   * Set how dropped keyframes landing on existing keyframes are handled
+   * @param policy 'reject' (default), 'overwrite', 'skip' or 'shift'
+   */
+  public setMoveConflictPolicy(policy: MoveConflictPolicy): void {
+    this.moveConflictPolicy = policy;
+  }
+
+  /**
+   * Get how dropped keyframes landing on existing keyframes are handled
+   */
+  public getMoveConflictPolicy(): MoveConflictPolicy {
+    return this.moveConflictPolicy;
+  }
+
+  /**
+   * Check if a drag event carries keyframes dragged from the grid
+   * The source frame may have been removed by a virtualized re-render, in which
+   * case its dragend never fires and draggedFrames must not be trusted alone
+   */
+  private isFrameDrag(e: DragEvent): boolean {
+    if (this.draggedFrames.length === 0) return false;
+    const types = e.dataTransfer?.types;
+    return !types || Array.from(types).includes(FRAME_DRAG_TYPE);
+  }
+
   /**
    * Show drop indicator at target position
    */
-  private showDropIndicator(targetFrameId: string): void {
+  private showDropIndicator(cell: IGridCell, invalid: boolean = false): void {
     if (!this.dropIndicator) return;
 
-    const targetElement = this.gridContent.querySelector(`[data-frame-id="${targetFrameId}"]`) as HTMLElement;
-    if (!targetElement) return;
+    this.dropIndicator.classList.toggle('is-invalid', invalid);
+
+    const settings = this.context.Data.getData().settings;
+    const frameWidth = getZoomedFrameWidth(settings);
+    const rowHeight = settings.rowHeight ?? 30;
 
     // Position the drop indicator
     this.dropIndicator.style.display = 'block';
-    this.dropIndicator.style.left = targetElement.style.left;
-    this.dropIndicator.style.top = targetElement.offsetTop + 'px';
-    this.dropIndicator.style.width = targetElement.style.width;
-    this.dropIndicator.style.height = targetElement.style.height;
+    this.dropIndicator.style.left = `${(cell.frame - 1) * frameWidth}px`;
+    this.dropIndicator.style.top = `${cell.row * rowHeight}px`;
+    this.dropIndicator.style.width = `${frameWidth}px`;
+    this.dropIndicator.style.height = `${rowHeight}px`;
 
     // Append to grid if not already there
     if (!this.dropIndicator.parentElement) {
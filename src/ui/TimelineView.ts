@@ -0,0 +1,62 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { IRenderChange, IRenderEvent } from '../core/RenderScheduler';
+
+/**
+ * TimelineView
+ * Connects the DOM components to the core: renders the changes reported by
+ * the render:requested event and moves the playhead with playback
+ */
+export class TimelineView {
+  private context: IJsTimeLineContext;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(context: IJsTimeLineContext) {
+    this.context = context;
+
+    const eventManager = this.context.Core.eventManager;
+    this.unsubscribers.push(
+      eventManager.on('render:requested', event => this.render(event)),
+      eventManager.on('playback:positionChanged', ({ frame }) => {
+        this.context.UI.timeRuler?.setPlayheadPosition(frame);
+      })
+    );
+  }
+
+  /**
+   * Redraw the components affected by a change
+   * Changed grid rows are patched by the TimelineGrid when it supports it
+   * @param event What changed
+   */
+  public render(event: IRenderEvent): void {
+    // Plugins see what is about to be rendered
+    const pluginManager = this.context.Core.pluginManager;
+    const change: IRenderChange = { grid: event.grid, panel: event.panel, ruler: event.ruler, layerIds: [...event.rows.keys()] };
+    pluginManager?.beforeRender(change);
+
+    const { layerPanel, timeRuler, timelineGrid } = this.context.UI;
+
+    if (event.panel && layerPanel) {
+      layerPanel.render();
+    }
+    if (event.ruler && timeRuler) {
+      timeRuler.render();
+    }
+    if (timelineGrid) {
+      if (event.grid || (event.rows.size > 0 && typeof timelineGrid.renderRows !== 'function')) {
+        timelineGrid.render();
+      } else if (event.rows.size > 0) {
+        timelineGrid.renderRows(event.rows);
+      }
+    }
+
+    pluginManager?.afterRender(change);
+  }
+
+  /**
+   * Stop listening to the core
+   */
+  public destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
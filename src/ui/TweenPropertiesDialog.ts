@@ -1,5 +1,6 @@
 import { IJsTimeLineContext } from '../IJsTimeLineContext';
 import { ITween } from '../data/ITimeLineData';
+import { EasingCurveEditor } from './EasingCurveEditor';
 
 /**
  * TweenPropertiesDialog - Modal dialog for editing tween properties
@@ -10,6 +11,7 @@ export class TweenPropertiesDialog {
   private dialog: HTMLElement | null = null;
   private currentTween: { layerId: string; tween: ITween } | null = null;
   private onSaveCallback: ((layerId: string, tween: ITween) => void) | null = null;
+  private curveEditor: EasingCurveEditor | null = null;
 
   constructor(context: IJsTimeLineContext) {
     this.context = context;
@@ -54,28 +56,31 @@ export class TweenPropertiesDialog {
     
     const easingSelect = document.createElement('select');
     easingSelect.className = 'tween-dialog-select';
-    easingSelect.id = 'tween-easing-type';
     
-    const easingOptions = [
-      { value: 'linear', label: 'Linear' },
-      { value: 'ease-in', label: 'Ease In' },
-      { value: 'ease-out', label: 'Ease Out' },
-      { value: 'ease-in-out', label: 'Ease In-Out' }
-    ];
-
-    easingOptions.forEach(opt => {
-      const option = document.createElement('option');
-      option.value = opt.value;
-      option.textContent = opt.label;
-      if (tween.type === opt.value) {
-        option.selected = true;
-      }
-      easingSelect.appendChild(option);
+    this.getEasingGroups(tween.type).forEach(group => {
+      const optgroup = document.createElement('optgroup');
+      optgroup.label = group.label;
+      group.names.forEach(name => {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = this.formatEasingName(name);
+        if (tween.type === name) {
+          option.selected = true;
+        }
+        optgroup.appendChild(option);
+      });
+      easingSelect.appendChild(optgroup);
     });
 
     form.appendChild(easingLabel);
     form.appendChild(easingSelect);
 
+    // Curve editor, kept in sync with the select box
+    this.curveEditor = new EasingCurveEditor(this.context, tween.type || 'linear', tween.endFrame - tween.startFrame);
+    easingSelect.onchange = () => this.curveEditor?.setEasing(easingSelect.value);
+    this.curveEditor.onChange(easing => this.selectEasing(easingSelect, easing));
+    form.appendChild(this.curveEditor.getElement());
+
     // Frame info (read-only)
     const frameInfo = document.createElement('div');
     frameInfo.className = 'tween-dialog-info';
@@ -134,6 +139,11 @@ export class TweenPropertiesDialog {
     }
     
     document.removeEventListener('keydown', this.handleEscapeKey);
+
+    if (this.curveEditor) {
+      this.curveEditor.destroy();
+      this.curveEditor = null;
+    }
     
     this.overlay = null;
     this.dialog = null;
@@ -141,17 +151,24 @@ export class TweenPropertiesDialog {
     this.onSaveCallback = null;
   }
 
+  /**
+   * Close the dialog if it is open, when the timeline is destroyed
+   */
+  public destroy(): void {
+    this.hide();
+  }
+
   /**
    * Handle save action
    */
   private handleSave(): void {
     if (!this.currentTween || !this.onSaveCallback || !this.dialog) return;
 
-    const select = this.dialog.querySelector('#tween-easing-type') as HTMLSelectElement;
+    const select = this.dialog.querySelector('.tween-dialog-select') as HTMLSelectElement;
     if (!select) return;
 
-    // Update tween with new easing type
-    this.currentTween.tween.type = select.value;
+    // Update tween with new easing type (the curve editor holds edited curves)
+    this.currentTween.tween.type = this.curveEditor ? this.curveEditor.getEasing() : select.value;
 
     // Call the callback
     this.onSaveCallback(this.currentTween.layerId, this.currentTween.tween);
@@ -160,6 +177,70 @@ export class TweenPropertiesDialog {
     this.hide();
   }
 
+  /**
+   * Group the available easings for the select box
+   * The current easing is listed even if it is a cubic-bezier()/steps() spec
+   * or a custom easing that is not registered
+   * @param currentType Easing of the edited tween
+   */
+  private getEasingGroups(currentType?: string): { label: string; names: string[] }[] {
+    const easingRegistry = this.context.Core.easingRegistry;
+    const builtInNames = easingRegistry
+      ? easingRegistry.getNames().filter(name => !easingRegistry.getCustomNames().includes(name))
+      : ['linear', 'ease', 'ease-in', 'ease-out', 'ease-in-out'];
+    const customNames = easingRegistry ? easingRegistry.getCustomNames() : [];
+
+    const groups = [
+      { label: 'Standard', names: builtInNames.filter(name => !/^ease-(in|out|in-out)-/.test(name)) },
+      { label: 'Penner', names: builtInNames.filter(name => /^ease-(in|out|in-out)-/.test(name)) },
+      { label: 'Custom', names: customNames }
+    ];
+
+    if (currentType && !builtInNames.includes(currentType) && !customNames.includes(currentType)) {
+      groups.push({ label: 'Current', names: [currentType] });
+    }
+
+    return groups.filter(group => group.names.length > 0);
+  }
+
+  /**
+   * Select an easing in the select box, adding a "Curve" option for edited curves
+   * @param select Easing select box
+   * @param easing Easing spec to select
+   */
+  private selectEasing(select: HTMLSelectElement, easing: string): void {
+    const existing = Array.from(select.options).find(option => option.value === easing);
+    if (existing) {
+      existing.selected = true;
+      return;
+    }
+
+    let curveOption = select.querySelector('option[data-curve]') as HTMLOptionElement | null;
+    if (!curveOption) {
+      curveOption = document.createElement('option');
+      curveOption.setAttribute('data-curve', 'true');
+      select.appendChild(curveOption);
+    }
+    curveOption.value = easing;
+    curveOption.textContent = easing;
+    curveOption.selected = true;
+  }
+
+  /**
+   * Format an easing name for display (e.g. "ease-in-out-quad" -> "Ease In-Out Quad")
+   */
+  private formatEasingName(name: string): string {
+    if (name.includes('(')) {
+      return name;
+    }
+    return name
+      .replace(/in-out/, 'in_out')
+      .split('-')
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join(' ')
+      .replace('In_out', 'In-Out');
+  }
+
   /**
    * Handle ESC key press
    */
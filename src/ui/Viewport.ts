@@ -0,0 +1,54 @@
+import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { calculateVisibleRange } from '../utils/Performance';
+import { getZoomedFrameWidth } from '../core/ZoomManager';
+
+/**
+ * Range of rows or frames rendered by a virtualized component (0-based, inclusive)
+ */
+export interface IViewportRange {
+  start: number;
+  end: number;
+}
+
+// Extra rows and frames rendered outside the viewport so that small scrolls
+// do not need a re-render
+export const OVERSCAN_ROWS = 5;
+export const OVERSCAN_FRAMES = 20;
+
+/**
+ * Get the rows of the grid that should be rendered
+ * @param context Timeline context
+ * @param totalRows Number of rows
+ * @param overscan Extra rows rendered above and below the viewport
+ */
+export function getVisibleRows(context: IJsTimeLineContext, totalRows: number, overscan: number = OVERSCAN_ROWS): IViewportRange {
+  const gridContainer = context.UI.gridContainer;
+  const rowHeight = context.Data.getData().settings.rowHeight ?? 30;
+  const viewportHeight = gridContainer.clientHeight || window.innerHeight;
+  const { startIndex, endIndex } = calculateVisibleRange(gridContainer.scrollTop, viewportHeight, rowHeight, totalRows, overscan);
+  return { start: startIndex, end: endIndex };
+}
+
+/**
+ * Get the frames of the grid that should be rendered
+ * @param context Timeline context
+ * @param overscan Extra frames rendered left and right of the viewport
+ * @returns Range of frame indices (frame number - 1)
+ */
+export function getVisibleFrames(context: IJsTimeLineContext, overscan: number = OVERSCAN_FRAMES): IViewportRange {
+  const gridContainer = context.UI.gridContainer;
+  const settings = context.Data.getData().settings;
+  const frameWidth = getZoomedFrameWidth(settings);
+  const viewportWidth = gridContainer.clientWidth || window.innerWidth;
+  const { startIndex, endIndex } = calculateVisibleRange(gridContainer.scrollLeft, viewportWidth, frameWidth, settings.totalFrames, overscan);
+  return { start: startIndex, end: endIndex };
+}
+
+/**
+ * Check if a rendered range still covers the range currently in view
+ * @param rendered Range that was rendered, or null if nothing was rendered
+ * @param visible Range in view (without overscan)
+ */
+export function coversRange(rendered: IViewportRange | null, visible: IViewportRange): boolean {
+  return rendered !== null && rendered.start <= visible.start && rendered.end >= visible.end;
+}
@@ -0,0 +1,345 @@
+/**
+ * Easing utilities used to compute in-between values of tweens
+ */
+
+/**
+ * An easing function maps linear progress (0-1) to eased progress
+ * Values outside 0-1 are allowed for overshooting curves
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Linear easing (no acceleration)
+ */
+export const linear: EasingFunction = (t: number) => t;
+
+/**
+ * Create a CSS-style cubic-bezier easing function
+ * The curve starts at (0,0), ends at (1,1) and is shaped by two control points
+ * @param x1 X of the first control point (0-1)
+ * @param y1 Y of the first control point
+ * @param x2 X of the second control point (0-1)
+ * @param y2 Y of the second control point
+ * @returns Easing function solving the curve for a given progress
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  // Polynomial coefficients for x(s) and y(s), s being the curve parameter
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+  const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+  const sampleDerivativeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+  const solveCurveX = (x: number): number => {
+    // Newton-Raphson first, it converges quickly for most curves
+    let s = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(s) - x;
+      if (Math.abs(error) < 1e-6) {
+        return s;
+      }
+      const derivative = sampleDerivativeX(s);
+      if (Math.abs(derivative) < 1e-6) {
+        break;
+      }
+      s -= error / derivative;
+    }
+
+    // Fall back to bisection for flat regions
+    let low = 0;
+    let high = 1;
+    s = x;
+    while (low < high) {
+      const value = sampleX(s);
+      if (Math.abs(value - x) < 1e-6) {
+        return s;
+      }
+      if (x > value) {
+        low = s;
+      } else {
+        high = s;
+      }
+      s = (low + high) / 2;
+      if (high - low < 1e-7) {
+        break;
+      }
+    }
+    return s;
+  };
+
+  if (x1 === y1 && x2 === y2) {
+    return linear;
+  }
+
+  return (t: number) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    return sampleY(solveCurveX(t));
+  };
+}
+
+/**
+ * Jump terms accepted by steps()
+ */
+export type StepPosition = 'jump-start' | 'jump-end' | 'jump-none' | 'jump-both' | 'start' | 'end';
+
+/**
+ * Create a CSS-style steps() easing function
+ * @param count Number of steps (at least 1, at least 2 for jump-none)
+ * @param position Where the jumps happen (default: 'end')
+ * @returns Easing function producing stepped progress
+ */
+export function steps(count: number, position: StepPosition = 'end'): EasingFunction {
+  const jumpAtStart = position === 'jump-start' || position === 'start' || position === 'jump-both';
+  let jumps = count;
+  if (position === 'jump-none') {
+    jumps = count - 1;
+  } else if (position === 'jump-both') {
+    jumps = count + 1;
+  }
+
+  return (t: number) => {
+    const progress = Math.max(0, Math.min(1, t));
+    let step = Math.floor(progress * count);
+    if (jumpAtStart) {
+      step++;
+    }
+    return Math.min(step, jumps) / jumps;
+  };
+}
+
+/**
+ * Build the in, out and in-out variants of an ease-in curve
+ */
+function easeFamily(easeIn: EasingFunction): [EasingFunction, EasingFunction, EasingFunction] {
+  const easeOut: EasingFunction = (t: number) => 1 - easeIn(1 - t);
+  const easeInOut: EasingFunction = (t: number) => t < 0.5
+    ? easeIn(t * 2) / 2
+    : 1 - easeIn((1 - t) * 2) / 2;
+  return [easeIn, easeOut, easeInOut];
+}
+
+/**
+ * Robert Penner's easing equations, expressed as ease-in curves
+ */
+const PENNER_CURVES: { [family: string]: EasingFunction } = {
+  quad: (t: number) => t * t,
+  cubic: (t: number) => t * t * t,
+  quart: (t: number) => t * t * t * t,
+  quint: (t: number) => t * t * t * t * t,
+  sine: (t: number) => 1 - Math.cos((t * Math.PI) / 2),
+  expo: (t: number) => t === 0 ? 0 : Math.pow(2, 10 * t - 10),
+  circ: (t: number) => 1 - Math.sqrt(1 - Math.pow(Math.min(1, Math.max(0, t)), 2)),
+  back: (t: number) => {
+    const overshoot = 1.70158;
+    return (overshoot + 1) * t * t * t - overshoot * t * t;
+  },
+  elastic: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    return -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * ((2 * Math.PI) / 3));
+  },
+  bounce: (t: number) => 1 - bounceOut(1 - t)
+};
+
+/**
+ * Bounce ease-out curve (the reference shape for the bounce family)
+ */
+function bounceOut(t: number): number {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+  if (t < 1 / d1) {
+    return n1 * t * t;
+  } else if (t < 2 / d1) {
+    t -= 1.5 / d1;
+    return n1 * t * t + 0.75;
+  } else if (t < 2.5 / d1) {
+    t -= 2.25 / d1;
+    return n1 * t * t + 0.9375;
+  }
+  t -= 2.625 / d1;
+  return n1 * t * t + 0.984375;
+}
+
+/**
+ * Control points of the CSS keywords that are cubic-bezier curves
+ */
+const CSS_BEZIER_POINTS: { [name: string]: [number, number, number, number] } = {
+  'ease': [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1]
+};
+
+/**
+ * Built-in named easings: CSS keywords plus the Penner families
+ * (ease-in-quad, ease-out-quad, ease-in-out-quad, ...)
+ */
+const BUILT_IN_EASINGS: { [name: string]: EasingFunction } = {
+  'linear': linear
+};
+
+for (const [name, [x1, y1, x2, y2]] of Object.entries(CSS_BEZIER_POINTS)) {
+  BUILT_IN_EASINGS[name] = cubicBezier(x1, y1, x2, y2);
+}
+BUILT_IN_EASINGS['step-start'] = steps(1, 'jump-start');
+BUILT_IN_EASINGS['step-end'] = steps(1, 'jump-end');
+
+for (const [family, curve] of Object.entries(PENNER_CURVES)) {
+  const [easeIn, easeOut, easeInOut] = easeFamily(curve);
+  BUILT_IN_EASINGS[`ease-in-${family}`] = easeIn;
+  BUILT_IN_EASINGS[`ease-out-${family}`] = easeOut;
+  BUILT_IN_EASINGS[`ease-in-out-${family}`] = easeInOut;
+}
+
+/**
+ * Get the names of all built-in easings
+ */
+export function getBuiltInEasingNames(): string[] {
+  return Object.keys(BUILT_IN_EASINGS);
+}
+
+/**
+ * Check if a name is a built-in easing
+ * @param name Easing name
+ */
+export function isBuiltInEasing(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_EASINGS, name);
+}
+
+/**
+ * Parse the arguments of a functional easing such as cubic-bezier(...) or steps(...)
+ * @returns The function name and its arguments, or null if the spec is not functional
+ */
+function parseFunctionalEasing(spec: string): { name: string; args: string[] } | null {
+  const match = /^([a-z-]+)\(([^()]*)\)$/.exec(spec.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    name: match[1],
+    args: match[2].split(',').map(arg => arg.trim())
+  };
+}
+
+/**
+ * Normalize an easing spec to its canonical string form
+ * Named easings are returned as-is; cubic-bezier() and steps() are reformatted
+ * (e.g. "cubic-bezier(.4,0,.2,1)" becomes "cubic-bezier(0.4, 0, 0.2, 1)")
+ * @param spec Easing spec
+ * @returns The canonical spec, or null if the spec is malformed
+ */
+export function normalizeEasing(spec: string): string | null {
+  const trimmed = spec.trim();
+  const functional = parseFunctionalEasing(trimmed);
+
+  if (!functional) {
+    return /^[A-Za-z_][\w-]*$/.test(trimmed) ? trimmed : null;
+  }
+
+  if (functional.name === 'cubic-bezier') {
+    if (functional.args.length !== 4 || functional.args.some(arg => arg === '')) {
+      return null;
+    }
+    const points = functional.args.map(Number);
+    if (points.some(p => !isFinite(p))) {
+      return null;
+    }
+    // X coordinates must stay within 0-1 so the curve is a function of time
+    if (points[0] < 0 || points[0] > 1 || points[2] < 0 || points[2] > 1) {
+      return null;
+    }
+    return `cubic-bezier(${points.join(', ')})`;
+  }
+
+  if (functional.name === 'steps') {
+    if (functional.args.length < 1 || functional.args.length > 2) {
+      return null;
+    }
+    const count = Number(functional.args[0]);
+    const position = (functional.args[1] || 'end') as StepPosition;
+    const positions: StepPosition[] = ['jump-start', 'jump-end', 'jump-none', 'jump-both', 'start', 'end'];
+    if (!Number.isInteger(count) || count < 1 || !positions.includes(position)) {
+      return null;
+    }
+    if (position === 'jump-none' && count < 2) {
+      return null;
+    }
+    return functional.args.length === 2 ? `steps(${count}, ${position})` : `steps(${count})`;
+  }
+
+  return null;
+}
+
+/**
+ * Get the cubic-bezier control points of an easing spec
+ * Works for cubic-bezier() specs and the CSS keywords linear, ease, ease-in, ease-out and ease-in-out
+ * @param spec Easing spec
+ * @returns The control points [x1, y1, x2, y2], or null if the easing is not a cubic-bezier curve
+ */
+export function getCubicBezierPoints(spec: string): [number, number, number, number] | null {
+  const normalized = normalizeEasing(spec);
+  if (!normalized) {
+    return null;
+  }
+
+  if (normalized === 'linear') {
+    return [0, 0, 1, 1];
+  }
+  if (Object.prototype.hasOwnProperty.call(CSS_BEZIER_POINTS, normalized)) {
+    return [...CSS_BEZIER_POINTS[normalized]] as [number, number, number, number];
+  }
+
+  const functional = parseFunctionalEasing(normalized);
+  if (functional && functional.name === 'cubic-bezier') {
+    const [x1, y1, x2, y2] = functional.args.map(Number);
+    return [x1, y1, x2, y2];
+  }
+  return null;
+}
+
+/**
+ * Parse an easing spec into an easing function
+ * Supports built-in names, cubic-bezier(x1, y1, x2, y2) and steps(n, position)
+ * @param spec Easing spec stored in ITween.type
+ * @returns The easing function, or null if the spec is unknown or malformed
+ */
+export function parseEasing(spec: string): EasingFunction | null {
+  const normalized = normalizeEasing(spec);
+  if (!normalized) {
+    return null;
+  }
+
+  if (isBuiltInEasing(normalized)) {
+    return BUILT_IN_EASINGS[normalized];
+  }
+
+  const functional = parseFunctionalEasing(normalized);
+  if (!functional) {
+    return null;
+  }
+
+  if (functional.name === 'cubic-bezier') {
+    const [x1, y1, x2, y2] = functional.args.map(Number);
+    return cubicBezier(x1, y1, x2, y2);
+  }
+
+  return steps(Number(functional.args[0]), functional.args[1] as StepPosition | undefined);
+}
+
+/**
+ * Get the easing function for a tween type
+ * Unknown types fall back to linear easing
+ * @param type Easing spec stored in ITween.type (e.g. 'linear', 'ease-in-quad', 'steps(4)')
+ * @returns The easing function
+ */
+export function getEasingFunction(type?: string): EasingFunction {
+  if (!type) {
+    return linear;
+  }
+  return parseEasing(type) || linear;
+}
@@ -1,17 +1,19 @@
-import { IJsTimeLineContext } from '../IJsTimeLineContext';
+import { ITimelineCoreContext } from '../IJsTimeLineContext';
+import { EventName } from '../core/EventManager';
+import { TimelineEventMap } from '../core/TimelineEventMap';
 
 /**
  * EventLogger - Utility for testing and debugging events
  * Logs all events to console with timestamps and formatted payloads
  */
 export class EventLogger {
-  private context: IJsTimeLineContext;
+  private context: ITimelineCoreContext;
   private enabled: boolean = false;
-  private eventCallbacks: Map<string, (payload: any) => void> = new Map();
+  private unsubscribers: Array<() => void> = [];
   private eventLog: Array<{ timestamp: Date; eventName: string; payload: any }> = [];
   private maxLogSize: number = 100;
 
-  constructor(context: IJsTimeLineContext) {
+  constructor(context: ITimelineCoreContext) {
     this.context = context;
   }
 
@@ -76,7 +78,7 @@ export class EventLogger {
     if (!eventManager) return;
 
     // List of all spec-compliant events
-    const events = [
+    const events: EventName<TimelineEventMap>[] = [
       'onObjectAdd',
       'onBeforeObjectDelete',
       'onObjectDelete',
@@ -90,18 +92,38 @@ export class EventLogger {
       'onBeforeKeyframeDelete',
       'onKeyframeDelete',
       'onKeyframeMove',
-      'onSelectionChange',
+      'onKeyframeValuesChange',
+      'onKeyframeSelect',
       'onTweenAdd',
       'onTweenRemove',
       'onTweenUpdate',
+      'onTweensRepair',
+      'onEasingRegister',
+      'onEasingUnregister',
+      'onLabelAdd',
+      'onLabelRemove',
+      'onLabelUpdate',
+      'onLabelEnter',
+      'onFrameActionsChange',
+      'onFrameAction',
+      'onOnionSkinChange',
+      'onZoomChange',
+      'onKeymapChange',
+      'onCommandExecute',
+      'onPluginAdd',
+      'onPluginRemove',
       'onPlaybackStart',
       'onPlaybackPause',
+      'onPlaybackRangeChange',
+      'onPlaybackRangeEnd',
+      'onPlaybackRateChange',
       'onFrameEnter',
-      'onTimeSeek'
+      'onTimeSeek',
+      'onHistoryChange'
     ];
 
     // Also listen to legacy events for backward compatibility
-    const legacyEvents = [
+    const legacyEvents: EventName<TimelineEventMap>[] = [
       'layer:added',
       'folder:added',
       'layer:deleted',
@@ -114,23 +136,39 @@ export class EventLogger {
       'keyframe:added',
       'keyframe:deleted',
       'frames:deleted',
-      'keyframe:moved',
+      'keyframes:moved',
+      'keyframe:valuesChanged',
       'selection:changed',
       'tween:added',
       'tween:removed',
       'tween:updated',
+      'tweens:repaired',
+      'easing:registered',
+      'easing:unregistered',
+      'label:added',
+      'label:removed',
+      'label:updated',
+      'playback:labelEnter',
+      'actions:changed',
+      'action:executed',
+      'onionSkin:changed',
+      'zoom:changed',
+      'keymap:changed',
+      'command:executed',
+      'plugin:added',
+      'plugin:removed',
       'playback:started',
       'playback:paused',
-      'frame:entered',
-      'time:seek'
+      'playback:rangeChanged',
+      'playback:rangeEnd',
+      'playback:rateChanged',
+      'history:changed'
     ];
 
     const allEvents = [...events, ...legacyEvents];
 
     for (const eventName of allEvents) {
-      const callback = (payload: any) => this.logEvent(eventName, payload);
-      this.eventCallbacks.set(eventName, callback);
-      eventManager.on(eventName, callback);
+      this.unsubscribers.push(eventManager.on(eventName, (payload: any) => this.logEvent(eventName, payload)));
     }
   }
 
@@ -138,14 +176,11 @@ export class EventLogger {
    * Detach all event listeners
    */
   private detachListeners(): void {
-    const eventManager = this.context.Core.eventManager;
-    if (!eventManager) return;
-
-    for (const [eventName, callback] of this.eventCallbacks.entries()) {
-      eventManager.off(eventName, callback);
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
     }
 
-    this.eventCallbacks.clear();
+    this.unsubscribers = [];
   }
 
   /**
@@ -238,7 +273,7 @@ export class EventLogger {
  * @param context Timeline context
  * @returns EventLogger instance
  */
-export function attachEventLogger(context: IJsTimeLineContext): EventLogger {
+export function attachEventLogger(context: ITimelineCoreContext): EventLogger {
   const logger = new EventLogger(context);
   
   // Store in context for easy access (use 'any' to bypass plugin interface requirement)
@@ -0,0 +1,86 @@
+/**
+ * Version utilities for "major.minor.patch" version strings
+ */
+
+/**
+ * Parse a "major.minor.patch" version; pre-release and build suffixes are ignored
+ * @param version Version string, e.g. "1.2.3"
+ * @returns The three version numbers, or null if the version is invalid
+ */
+export function parseVersion(version: string): [number, number, number] | null {
+  const match = /^(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/.exec(typeof version === 'string' ? version.trim() : '');
+  if (!match) {
+    return null;
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+/**
+ * Compare two versions
+ * @returns A negative number if a is older than b, 0 if they are equal, a positive number if a is newer
+ * @throws Error if a version is invalid
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) {
+    throw new Error(`Invalid version: "${parsedA ? b : a}"`);
+  }
+
+  for (let i = 0; i < 3; i++) {
+    if (parsedA[i] !== parsedB[i]) {
+      return parsedA[i] - parsedB[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check if a version satisfies a range
+ * Supported ranges: "*" (any version), "1.2.3" (exactly), "^1.2.3" (same major, at least 1.2.3;
+ * same minor for 0.x versions), "~1.2.3" (same minor, at least 1.2.3) and ">=1.2.3"
+ * @param version Version to check
+ * @param range Version range
+ * @returns false if the version does not satisfy the range or either is invalid
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed || !isValidVersionRange(range)) {
+    return false;
+  }
+
+  const trimmed = range.trim();
+  if (trimmed === '*') {
+    return true;
+  }
+
+  const operator = /^(\^|~|>=)?/.exec(trimmed)![0];
+  const minimum = trimmed.slice(operator.length);
+  const parsedMinimum = parseVersion(minimum)!;
+  const atLeastMinimum = compareVersions(version, minimum) >= 0;
+
+  switch (operator) {
+    case '^':
+      // Changes left of the first non-zero number are breaking
+      if (parsedMinimum[0] > 0) return atLeastMinimum && parsed[0] === parsedMinimum[0];
+      if (parsedMinimum[1] > 0) return atLeastMinimum && parsed[0] === 0 && parsed[1] === parsedMinimum[1];
+      return atLeastMinimum && parsed[0] === 0 && parsed[1] === 0 && parsed[2] === parsedMinimum[2];
+    case '~':
+      return atLeastMinimum && parsed[0] === parsedMinimum[0] && parsed[1] === parsedMinimum[1];
+    case '>=':
+      return atLeastMinimum;
+    default:
+      return compareVersions(version, minimum) === 0;
+  }
+}
+
+/**
+ * Check if a version range is one satisfiesVersion() understands
+ */
+export function isValidVersionRange(range: string): boolean {
+  if (typeof range !== 'string') {
+    return false;
+  }
+  const trimmed = range.trim();
+  return trimmed === '*' || parseVersion(trimmed.replace(/^(\^|~|>=)/, '')) !== null;
+}
@@ -7,7 +7,20 @@ module.exports = (env) => {
   
   return {
     mode: isProduction ? 'production' : 'development',
-    entry: './src/JsTimeLine.ts',
+    entry: {
+      main: './src/JsTimeLine.ts',
+      // Timeline model without the DOM control, for Node and Web Workers
+      headless: {
+        import: './src/headless.ts',
+        // Library bundle: stable name for require(), unlike the hashed demo page bundles
+        filename: 'JsTimeLine.headless.js',
+        library: {
+          name: 'JsTimeLineCore',
+          type: 'umd',
+        },
+        runtime: false,
+      },
+    },
     devtool: isProduction ? 'source-map' : 'inline-source-map',
     
     output: {
@@ -58,6 +71,7 @@ module.exports = (env) => {
         template: './index.html',
         filename: 'index.html',
         inject: 'body',
+        chunks: ['main'],
       }),
       ...(isProduction ? [
         new MiniCssExtractPlugin({